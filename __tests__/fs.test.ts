@@ -8,10 +8,20 @@ import {
   match,
   skip,
 } from "@reactgjs/gest";
+import Gio from "gi://Gio?version=2.0";
 import GLib from "gi://GLib?version=2.0";
-import { Fs, IOStream, Permission } from "../src/index";
+import {
+  cleanupPendingTempFiles,
+  FileLockedError,
+  Fs,
+  InsufficientSpaceError,
+  IOStream,
+  Permission,
+} from "../src/index";
 import {
   compareBytes,
+  createTarArchive,
+  encode,
   lns,
   matchFsError,
   matchMessageContaining,
@@ -44,6 +54,11 @@ dignissim augue, a sagittis erat arcu et metus. Lorem ipsum dolor sit
 amet, consectetur adipiscing elit. Donec at commodo purus.
 `;
 
+const PNG_SIGNATURE = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00,
+  0x0d, 0x49, 0x48, 0x44, 0x52,
+]);
+
 let _i = 1;
 const getNextTestFile = () => `test${_i++}`;
 
@@ -286,6 +301,659 @@ export default describe("Fs", () => {
       });
     });
 
+    describe("walk", () => {
+      it("should yield every entry of the directory tree", async () => {
+        await fs.makeDir(testFile + "/dir1/dir2", {
+          recursive: true,
+        });
+        await fs.writeTextFile(testFile + "/file1", "");
+        await fs.writeTextFile(testFile + "/dir1/file2", "");
+        await fs.writeTextFile(testFile + "/dir1/dir2/file3", "");
+
+        const paths: string[] = [];
+        for await (const entry of fs.walk(testFile)) {
+          paths.push(entry.filepath.replace(TMP_DIR_PATH + "/", ""));
+        }
+
+        expect(paths.length).toBe(5);
+        expect(paths).toContainOnly(
+          testFile + "/file1",
+          testFile + "/dir1",
+          testFile + "/dir1/file2",
+          testFile + "/dir1/dir2",
+          testFile + "/dir1/dir2/file3",
+        );
+        expect(
+          paths.indexOf(testFile + "/dir1") <
+            paths.indexOf(testFile + "/dir1/file2"),
+        ).toBe(true);
+      });
+
+      it("should yield directories after their contents in post order", async () => {
+        await fs.makeDir(testFile + "/dir1", { recursive: true });
+        await fs.writeTextFile(testFile + "/dir1/file1", "");
+
+        const names: string[] = [];
+        for await (const entry of fs.walk(testFile, {
+          order: "post",
+        })) {
+          names.push(entry.filename);
+        }
+
+        expect(names).toEqual(["file1", "dir1"]);
+      });
+
+      it("should respect the maxDepth and filter options", async () => {
+        await fs.makeDir(testFile + "/dir1/dir2", {
+          recursive: true,
+        });
+        await fs.makeDir(testFile + "/skipped", { recursive: true });
+        await fs.writeTextFile(testFile + "/skipped/file1", "");
+        await fs.writeTextFile(testFile + "/dir1/dir2/file2", "");
+
+        const names: string[] = [];
+        for await (const entry of fs.walk(testFile, {
+          maxDepth: 2,
+          filter: (f) => f.filename !== "skipped",
+        })) {
+          names.push(entry.filename);
+        }
+
+        expect(names).toEqual(["dir1", "dir2"]);
+      });
+
+      it("should not loop forever on symlink cycles", async () => {
+        await fs.makeDir(testFile + "/dir1", { recursive: true });
+        await lns(testFile + "/dir1/loop", testFile, TMP_DIR_PATH);
+
+        const names: string[] = [];
+        for await (const entry of fs.walk(testFile, {
+          followSymlinks: true,
+        })) {
+          names.push(entry.filename);
+        }
+
+        expect(names).toEqual(["dir1", "loop"]);
+      });
+    });
+
+    describe("glob", () => {
+      it("should return relative paths of the matching entries", async () => {
+        await fs.makeDir(testFile + "/src/utils", {
+          recursive: true,
+        });
+        await fs.makeDir(testFile + "/lib", { recursive: true });
+        await fs.writeTextFile(testFile + "/src/index.ts", "");
+        await fs.writeTextFile(testFile + "/src/index.test.ts", "");
+        await fs.writeTextFile(testFile + "/src/utils/path.ts", "");
+        await fs.writeTextFile(testFile + "/src/.hidden.ts", "");
+        await fs.writeTextFile(testFile + "/lib/index.js", "");
+
+        const root = testFile;
+
+        expect(await fs.glob("src/**/*.ts", { root })).toContainOnly(
+          "src/index.ts",
+          "src/index.test.ts",
+          "src/utils/path.ts",
+        );
+        expect(
+          await fs.glob(["src/*.ts", "!*/*.test.ts"], { root }),
+        ).toEqual(["src/index.ts"]);
+        expect(
+          await fs.glob("{src,lib}/index.?s", { root }),
+        ).toContainOnly("src/index.ts", "lib/index.js");
+        expect(
+          await fs.glob("src/*.ts", { root, dot: true }),
+        ).toContainOnly(
+          "src/index.ts",
+          "src/index.test.ts",
+          "src/.hidden.ts",
+        );
+      });
+
+      it("should return FileInfo objects when withFileInfo is enabled", async () => {
+        await fs.makeDir(testFile + "/dir1", { recursive: true });
+        await fs.writeTextFile(testFile + "/dir1/file1", "");
+
+        const entries = await fs.glob("*/*", {
+          root: testFile,
+          withFileInfo: true,
+        });
+
+        expect(entries.length).toBe(1);
+        expect(entries[0]).toMatch({
+          filename: "file1",
+          isFile: true,
+        });
+      });
+    });
+
+    describe("compareDirs", () => {
+      const createTrees = async () => {
+        const modified = new Date(2020, 1, 1);
+
+        for (const side of ["left", "right"]) {
+          const root = `${testFile}/${side}`;
+
+          await fs.makeDir(root + "/sub", { recursive: true });
+          await fs.writeTextFile(root + "/a.txt", "same");
+          await fs.writeTextFile(root + "/b.txt", side.slice(0, 4));
+          await fs.writeTextFile(root + "/sub/c.txt", "same");
+          await fs.writeTextFile(`${root}/only-${side}.txt`, "");
+
+          for (const file of ["a.txt", "b.txt", "sub/c.txt"]) {
+            await fs.setTimes(`${root}/${file}`, { modified });
+          }
+        }
+
+        await fs.writeTextFile(testFile + "/left/typ", "");
+        await fs.makeDir(testFile + "/right/typ");
+      };
+
+      it("should compare the files by the content", async () => {
+        await createTrees();
+
+        const result = await fs.compareDirs(
+          testFile + "/left",
+          testFile + "/right",
+          { compareBy: "content" },
+        );
+
+        expect(result.leftOnly).toEqual(["only-left.txt"]);
+        expect(result.rightOnly).toEqual(["only-right.txt"]);
+        expect(result.modified).toEqual(["b.txt"]);
+        expect(result.typeChanged).toEqual(["typ"]);
+        expect(result.identical).toEqual(["a.txt", "sub/c.txt"]);
+        expect(result.hasDifferences).toBe(true);
+
+        const byHash = await fs.compareDirs(
+          testFile + "/left",
+          testFile + "/right",
+          { compareBy: "hash" },
+        );
+
+        expect(byHash.modified).toEqual(["b.txt"]);
+        expect(byHash.identical).toEqual(["a.txt", "sub/c.txt"]);
+      });
+
+      it("should compare the files by the size and mtime", async () => {
+        await createTrees();
+
+        const result = await fs.compareDirs(
+          testFile + "/left",
+          testFile + "/right",
+        );
+
+        expect(result.modified).toEqual([]);
+        expect(result.identical).toEqual([
+          "a.txt",
+          "b.txt",
+          "sub/c.txt",
+        ]);
+      });
+
+      it("should yield the differences one by one", async () => {
+        await createTrees();
+        const entries: string[] = [];
+
+        for await (const entry of fs.diffDirs(
+          testFile + "/left",
+          testFile + "/right",
+          { compareBy: "content" },
+        )) {
+          entries.push(`${entry.type}:${entry.path}`);
+
+          if (entry.type === "leftOnly") {
+            expect(entry.right).toBe(null);
+            expect(entry.left!.filename).toBe("only-left.txt");
+          }
+        }
+
+        expect(entries).toEqual([
+          "identical:a.txt",
+          "modified:b.txt",
+          "leftOnly:only-left.txt",
+          "rightOnly:only-right.txt",
+          "identical:sub/c.txt",
+          "typeChanged:typ",
+        ]);
+      });
+
+      it("should report no differences for identical trees", async () => {
+        await fs.makeDir(testFile + "/left/sub", { recursive: true });
+        await fs.writeTextFile(testFile + "/left/sub/a", loremIpsum);
+        await fs.copyFile(testFile + "/left", testFile + "/right", {
+          recursive: true,
+        });
+
+        const result = await fs.compareDirs(
+          testFile + "/left",
+          testFile + "/right",
+          { compareBy: "content" },
+        );
+
+        expect(result.hasDifferences).toBe(false);
+        expect(result.identical).toEqual(["sub/a"]);
+      });
+    });
+
+    describe("syncDir", () => {
+      const createSource = async () => {
+        await fs.makeDir(testFile + "/src/sub", { recursive: true });
+        await fs.writeTextFile(testFile + "/src/a.txt", "a");
+        await fs.writeTextFile(testFile + "/src/sub/b.txt", "b");
+        await fs.writeTextFile(testFile + "/src/cache", "");
+        await lns(testFile + "/src/link", "a.txt", TMP_DIR_PATH);
+      };
+
+      it("should copy the missing and changed entries", async () => {
+        await createSource();
+        await fs.chmod(testFile + "/src/a.txt", "rwx------");
+        await fs.setTimes(testFile + "/src/a.txt", {
+          modified: 1500000000000,
+        });
+
+        const first = await fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+        );
+
+        expect(first.copied).toEqual([
+          "a.txt",
+          "cache",
+          "link",
+          "sub",
+          "sub/b.txt",
+        ]);
+
+        const info = await fs.fileInfo(testFile + "/dest/a.txt");
+        expect(info.modifiedTime).toBe(1500000000000);
+        expect(info.mode & 0o777).toBe(0o700);
+        expect(await fs.readLink(testFile + "/dest/link")).toBe(
+          "a.txt",
+        );
+
+        await fs.writeTextFile(testFile + "/src/sub/b.txt", "bb");
+
+        const second = await fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+        );
+
+        expect(second.copied).toEqual([]);
+        expect(second.updated).toEqual(["sub/b.txt"]);
+        expect(second.skipped).toEqual(["a.txt", "cache", "link"]);
+        expect(
+          await fs.readTextFile(testFile + "/dest/sub/b.txt"),
+        ).toBe("bb");
+      });
+
+      it("should delete the extraneous entries only when enabled", async () => {
+        await createSource();
+        await fs.makeDir(testFile + "/dest/extra", {
+          recursive: true,
+        });
+        await fs.writeTextFile(testFile + "/dest/extra/file", "");
+
+        const kept = await fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+        );
+
+        expect(kept.deleted).toEqual([]);
+        expect(await fs.fileExists(testFile + "/dest/extra")).toBe(
+          true,
+        );
+
+        const removed = await fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+          { deleteExtraneous: true },
+        );
+
+        expect(removed.deleted).toEqual(["extra"]);
+        expect(await fs.fileExists(testFile + "/dest/extra")).toBe(
+          false,
+        );
+      });
+
+      it("should not change anything in the dry run mode", async () => {
+        await createSource();
+        await fs.makeDir(testFile + "/dest");
+        await fs.writeTextFile(testFile + "/dest/extra", "");
+
+        const report = await fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+          { dryRun: true, deleteExtraneous: true },
+        );
+
+        expect(report.copied).toEqual([
+          "a.txt",
+          "cache",
+          "link",
+          "sub",
+          "sub/b.txt",
+        ]);
+        expect(report.deleted).toEqual(["extra"]);
+        expect(await fs.listFilenames(testFile + "/dest")).toEqual([
+          "extra",
+        ]);
+      });
+
+      it("should leave the excluded entries untouched", async () => {
+        await createSource();
+        await fs.makeDir(testFile + "/dest");
+        await fs.writeTextFile(testFile + "/dest/cache", "kept");
+        const progress: string[] = [];
+
+        const report = await fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+          {
+            exclude: ["cache", "sub/*.txt"],
+            deleteExtraneous: true,
+            onProgress: (p) => progress.push(`${p.action}:${p.path}`),
+          },
+        );
+
+        expect(report.copied).toEqual(["a.txt", "link", "sub"]);
+        expect(report.deleted).toEqual([]);
+        expect(progress).toContainOnly(
+          "copied:a.txt",
+          "copied:link",
+          "copied:sub",
+        );
+        expect(await fs.readTextFile(testFile + "/dest/cache")).toBe(
+          "kept",
+        );
+        expect(
+          await fs.fileExists(testFile + "/dest/sub/b.txt"),
+        ).toBe(false);
+      });
+
+      it("should fail if the destination is not a directory", async () => {
+        await createSource();
+        await fs.writeTextFile(testFile + "/dest", "");
+
+        await expect(
+          fs.syncDir(testFile + "/src", testFile + "/dest"),
+        ).toRejectMatch(
+          matchFsError(
+            `'syncDir' failed with error: Destination already exists and is not a directory: ${TMP_DIR_PATH}/${testFile}/dest`,
+          ),
+        );
+      });
+    });
+
+    describe("tar", () => {
+      it("should archive and extract a directory tree", async () => {
+        const src = testFile + "/src";
+        await fs.makeDir(src + "/sub", { recursive: true });
+        await fs.writeTextFile(src + "/sub/file.txt", loremIpsum);
+        await fs.writeTextFile(src + "/script.sh", "echo");
+        await fs.chmod(src + "/script.sh", "rwxr-x---");
+        await fs.setTimes(src + "/sub/file.txt", {
+          modified: 1500000000000,
+        });
+        await fs.makeHardLink(
+          src + "/hard.txt",
+          src + "/sub/file.txt",
+        );
+        await lns(src + "/link", "sub/file.txt", TMP_DIR_PATH);
+        await fs.makeDir(src + "/" + "a".repeat(120), {
+          recursive: true,
+        });
+        await fs.writeTextFile(
+          src + "/" + "a".repeat(120) + "/" + "b".repeat(120),
+          "long",
+        );
+
+        await fs.createTar(src, testFile + "/archive.tar");
+        await fs.extractTar(
+          testFile + "/archive.tar",
+          testFile + "/out",
+        );
+
+        const out = testFile + "/out";
+        expect(await fs.readTextFile(out + "/sub/file.txt")).toBe(
+          loremIpsum,
+        );
+        expect(
+          (await fs.fileInfo(out + "/sub/file.txt")).modifiedTime,
+        ).toBe(1500000000000);
+        expect(
+          (await fs.fileInfo(out + "/script.sh")).mode & 0o777,
+        ).toBe(0o750);
+        expect(await fs.readLink(out + "/link")).toBe("sub/file.txt");
+        expect(
+          (await fs.fileInfo(out + "/hard.txt")).isSameFile(
+            await fs.fileInfo(out + "/sub/file.txt"),
+          ),
+        ).toBe(true);
+        expect(
+          await fs.readTextFile(
+            out + "/" + "a".repeat(120) + "/" + "b".repeat(120),
+          ),
+        ).toBe("long");
+      });
+
+      it("should not include the archive itself", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file.txt", "");
+
+        await fs.createTar(testFile, testFile + "/archive.tar");
+        await fs.extractTar(
+          testFile + "/archive.tar",
+          testFile + "-out",
+        );
+
+        expect(await fs.listFilenames(testFile + "-out")).toEqual([
+          "file.txt",
+        ]);
+      });
+
+      it("should keep the existing archive if archiving fails", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/archive.tar", "old");
+
+        for (const dest of ["/archive.tar", "/new.tar"]) {
+          await expect(
+            fs.createTar(testFile + "/missing", testFile + dest),
+          ).toRejectMatch(
+            matchFsError(
+              matchMessageContaining(
+                "'createTar' failed with error:",
+              ),
+            ),
+          );
+        }
+
+        expect(await fs.readTextFile(testFile + "/archive.tar")).toBe(
+          "old",
+        );
+        expect(await fs.fileExists(testFile + "/new.tar")).toBe(
+          false,
+        );
+      });
+
+      it("should not extract entries outside of the destination", async () => {
+        await fs.makeDir(testFile);
+
+        for (const name of ["../evil.txt", "/tmp/evil.txt"]) {
+          await fs.writeFile(
+            testFile + "/evil.tar",
+            createTarArchive([{ name }]),
+          );
+
+          await expect(
+            fs.extractTar(testFile + "/evil.tar", testFile + "/out"),
+          ).toRejectMatch(
+            matchFsError(
+              `'extractTar' failed with error: Archive entry points outside of the destination directory: ${name}`,
+            ),
+          );
+        }
+
+        await fs.writeFile(
+          testFile + "/evil.tar",
+          createTarArchive([
+            { name: "link", typeflag: "2", linkname: TMP_DIR_PATH },
+            { name: "link/evil.txt" },
+          ]),
+        );
+
+        await expect(
+          fs.extractTar(testFile + "/evil.tar", testFile + "/out"),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "Archive entry would be extracted through a symbolic link",
+            ),
+          ),
+        );
+        expect(await fs.fileExists("evil.txt")).toBe(false);
+      });
+    });
+
+    describe("compression", () => {
+      it("should compress and decompress files in every format", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+
+        for (const format of ["gzip", "zlib", "deflate"] as const) {
+          await fs.compressFile(testFile, testFile + ".z", {
+            format,
+          });
+          await fs.decompressFile(testFile + ".z", testFile, {
+            format,
+          });
+
+          expect(await fs.readTextFile(testFile)).toBe(loremIpsum);
+        }
+      });
+
+      it("should keep the destination if decompressing fails", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.writeTextFile(testFile + ".z", "not compressed");
+
+        for (const dest of [testFile, testFile + ".new"]) {
+          await expect(
+            fs.decompressFile(testFile + ".z", dest),
+          ).toRejectMatch(
+            matchFsError(
+              matchMessageContaining(
+                "'decompressFile' failed with error:",
+              ),
+            ),
+          );
+        }
+
+        expect(await fs.readTextFile(testFile)).toBe(loremIpsum);
+        expect(await fs.fileExists(testFile + ".new")).toBe(false);
+      });
+
+      it("should write files readable by gzip", async () => {
+        const data = encode(loremIpsum.repeat(10));
+
+        await fs.writeGzipFile(testFile + ".gz", data, { level: 9 });
+        await fs.writeGzipFile(testFile + "-store.gz", data, {
+          level: 0,
+        });
+
+        const [id1, id2] = await fs.readFile(testFile + ".gz");
+        expect([id1, id2]).toEqual([0x1f, 0x8b]);
+
+        const compressed = await fs.fileInfo(testFile + ".gz");
+        const stored = await fs.fileInfo(testFile + "-store.gz");
+        expect(compressed.size < stored.size).toBe(true);
+
+        for (const path of [
+          testFile + ".gz",
+          testFile + "-store.gz",
+        ]) {
+          expect(
+            compareBytes(await fs.readGzipFile(path), data),
+          ).toBe(true);
+        }
+      });
+
+      it("should fail to read data in a different format", async () => {
+        await fs.writeGzipFile(testFile, encode(loremIpsum), {
+          format: "zlib",
+        });
+
+        await expect(fs.readGzipFile(testFile)).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'readGzipFile' failed with error:",
+            ),
+          ),
+        );
+      });
+    });
+
+    describe("watch", () => {
+      const wait = (ms: number) =>
+        new Promise<void>((resolve) => {
+          GLib.timeout_add(GLib.PRIORITY_DEFAULT, ms, () => {
+            resolve();
+            return GLib.SOURCE_REMOVE;
+          });
+        });
+
+      it("should report created files via the async iterator", async () => {
+        await fs.makeDir(testFile);
+
+        const watcher = fs.watch(testFile);
+
+        try {
+          const events = watcher[Symbol.asyncIterator]();
+          await fs.writeTextFile(testFile + "/file1", "");
+          const { value } = await events.next();
+
+          expect(value).toMatch({
+            type: "created",
+            path: match.stringContaining(testFile + "/file1"),
+          });
+        } finally {
+          watcher.close();
+        }
+      });
+
+      it("should coalesce events when debounce is set", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file1", "");
+
+        const watcher = fs.watch(testFile, { debounce: 100 });
+        const types: string[] = [];
+        watcher.on("event", (e) => types.push(e.type));
+
+        try {
+          await fs.writeTextFile(testFile + "/file2", "foo");
+          await fs.appendTextFile(testFile + "/file2", "bar");
+          await fs.deleteFile(testFile + "/file1");
+          await wait(500);
+
+          expect(types).toContainOnly("created", "deleted");
+        } finally {
+          watcher.close();
+        }
+      });
+
+      it("should end the iteration once closed", async () => {
+        await fs.makeDir(testFile);
+
+        const watcher = fs.watch(testFile);
+        const events = watcher[Symbol.asyncIterator]();
+        const next = events.next();
+
+        watcher.close();
+
+        expect(await next).toEqual({ value: undefined, done: true });
+        expect(watcher.isClosed).toBe(true);
+      });
+    });
+
     describe("fileInfo", () => {
       it("should return a FileInfo object for the given file", async () => {
         // setup
@@ -371,30 +1039,418 @@ export default describe("Fs", () => {
       });
     });
 
-    describe("readFile", () => {
-      it("should correctly read the contents of the file", async () => {
-        const bytes = await fs.readFile("../data/lorem-ipsum.txt");
+    describe("diskUsage", () => {
+      it("should sum up the sizes of all the entries", async () => {
+        await fs.makeDir(testFile + "/a/b", { recursive: true });
+        await fs.writeTextFile(testFile + "/file1.txt", loremIpsum);
+        await fs.writeTextFile(testFile + "/a/file2.txt", loremIpsum);
+        await fs.writeTextFile(testFile + "/a/b/file3.txt", "");
 
-        const text = new TextDecoder().decode(bytes);
+        const dirInfo = await fs.fileInfo(testFile);
+        const usage = await fs.diskUsage(testFile);
 
-        expect(text).toEqual(loremIpsum);
+        expect(usage.path).toBe(`${TMP_DIR_PATH}/${testFile}`);
+        expect(usage.fileCount).toBe(3);
+        expect(usage.dirCount).toBe(3);
+        expect(
+          usage.apparentSize >= loremIpsum.length * 2 + dirInfo.size,
+        ).toBe(true);
+        expect(usage.allocatedSize >= dirInfo.blocks * 512).toBe(
+          true,
+        );
+        expect(usage.children).toBeUndefined();
       });
-    });
 
-    describe("readTextFile", () => {
-      it("should correctly read the contents of the file", async () => {
-        const text = await fs.readTextFile("../data/lorem-ipsum.txt");
+      it("should return a per-child breakdown", async () => {
+        await fs.makeDir(testFile + "/a/b", { recursive: true });
+        await fs.writeTextFile(testFile + "/file1.txt", loremIpsum);
+        await fs.writeTextFile(
+          testFile + "/a/b/file2.txt",
+          loremIpsum,
+        );
 
-        expect(text).toEqual(loremIpsum);
-      });
-    });
+        const usage = await fs.diskUsage(testFile, {
+          depth: 1,
+          concurrency: 1,
+        });
 
-    describe("writeFile", () => {
-      it("should correctly create a new file and write to it", async () => {
-        const data = new Uint8Array([2, 1, 4, 3, 6, 5, 8, 7]);
-        await fs.writeFile(testFile, data);
+        const children = usage.children!.sort((a, b) =>
+          a.path.localeCompare(b.path),
+        );
 
-        const readData = await fs.readFile(testFile);
+        expect(children.length).toBe(2);
+        expect(children[0]!.path).toBe(
+          `${TMP_DIR_PATH}/${testFile}/a`,
+        );
+        expect(children[0]!.fileCount).toBe(1);
+        expect(children[0]!.dirCount).toBe(2);
+        expect(children[0]!.children).toBeUndefined();
+        expect(children[1]!.apparentSize).toBe(loremIpsum.length);
+        expect(children[1]!.fileCount).toBe(1);
+      });
+
+      it("should report the progress", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file1.txt", loremIpsum);
+        await fs.writeTextFile(testFile + "/file2.txt", loremIpsum);
+
+        const progress: number[] = [];
+
+        const usage = await fs.diskUsage(testFile, {
+          onProgress: (p) => progress.push(p.fileCount + p.dirCount),
+        });
+
+        expect(progress).toEqual([1, 2, 3]);
+        expect(usage.fileCount).toBe(2);
+      });
+
+      it("should count hard linked files only once", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file1.txt", loremIpsum);
+        await fs.makeHardLink(
+          testFile + "/file2.txt",
+          testFile + "/file1.txt",
+        );
+
+        const usage = await fs.diskUsage(testFile);
+
+        expect(usage.fileCount).toBe(1);
+      });
+    });
+
+    describe("filesystemInfo", () => {
+      it("should return the filesystem information", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+
+        const info = await fs.filesystemInfo(testFile);
+
+        expect(info.filepath).toBe(`${TMP_DIR_PATH}/${testFile}`);
+        expect(info.type).toBeOfType("string");
+        expect(info.totalSpace > 0).toBe(true);
+        expect(info.freeSpace <= info.totalSpace).toBe(true);
+        expect(info.usedSpace <= info.totalSpace).toBe(true);
+        expect(info.isReadOnly).toBe(false);
+        expect(info.isRemote).toBe(false);
+      });
+    });
+
+    describe("detectType", () => {
+      it("should detect the type by the file content", async () => {
+        await fs.writeFile(testFile + ".txt", PNG_SIGNATURE);
+
+        const type = await fs.detectType(testFile + ".txt");
+
+        expect(type.mimeType).toBe("image/png");
+        expect(type.isImage).toBe(true);
+        expect(type.isText).toBe(false);
+        expect(type.isUncertain).toBe(false);
+      });
+
+      it("should refine the type of text files by the extension", async () => {
+        await fs.writeTextFile(testFile + ".csv", "a,b\n1,2\n");
+
+        const type = await fs.detectType(testFile + ".csv");
+
+        expect(type.mimeType).toBe("text/csv");
+        expect(type.isText).toBe(true);
+        expect(type.isA("text/plain")).toBe(true);
+      });
+
+      it("should detect the type of the given bytes", async () => {
+        const type = await fs.detectType(PNG_SIGNATURE);
+
+        expect(type.contentType).toBe("image/png");
+        expect(type.description).toBeOfType("string");
+      });
+
+      it("should expose the content type in the FileInfo", async () => {
+        await fs.writeTextFile(testFile + ".txt", loremIpsum);
+
+        const info = await fs.fileInfo(testFile + ".txt");
+
+        expect(info.contentType).toBe("text/plain");
+        expect(info.fastContentType).toBe("text/plain");
+        expect(info.mimeType).toBe("text/plain");
+        expect(info.isText).toBe(true);
+        expect(info.isImage).toBe(false);
+      });
+    });
+
+    describe("hash", () => {
+      it("should compute the checksum of the file", async () => {
+        await fs.writeTextFile(testFile, "abc");
+
+        expect(await fs.hash(testFile)).toBe(
+          "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+        );
+        expect(await fs.hash(testFile, { algorithm: "md5" })).toBe(
+          "900150983cd24fb0d6963f7d28e17f72",
+        );
+        expect(await fs.hash(testFile, { encoding: "base64" })).toBe(
+          "ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=",
+        );
+
+        const bytes = await fs.hash(testFile, {
+          algorithm: "sha1",
+          encoding: "bytes",
+        });
+
+        expect(bytes.byteLength).toBe(20);
+      });
+
+      it("should read the file in chunks and report the progress", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        const progress: number[] = [];
+
+        const digest = await fs.hash(testFile, {
+          chunkSize: 100,
+          onProgress: (bytesRead, totalBytes) => {
+            expect(totalBytes).toBe(loremIpsum.length);
+            progress.push(bytesRead);
+          },
+        });
+
+        expect(digest).toBe(
+          await fs.hash(testFile, { chunkSize: loremIpsum.length }),
+        );
+        expect(progress.length).toBe(
+          Math.ceil(loremIpsum.length / 100),
+        );
+        expect(progress[progress.length - 1]).toBe(loremIpsum.length);
+      });
+    });
+
+    describe("hmac", () => {
+      it("should compute the HMAC of the file", async () => {
+        await fs.writeTextFile(
+          testFile,
+          "The quick brown fox jumps over the lazy dog",
+        );
+
+        expect(await fs.hmac(testFile, "key")).toBe(
+          "f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8",
+        );
+        expect(await fs.hmac(testFile, encode("key"), "md5")).toBe(
+          "80070713463e7749b90c2dc24911e275",
+        );
+      });
+
+      it("should hash the keys longer than the block size", async () => {
+        await fs.writeTextFile(
+          testFile,
+          "Test Using Larger Than Block-Size Key - Hash Key First",
+        );
+
+        const key = new Uint8Array(131).fill(0xaa);
+
+        expect(await fs.hmac(testFile, key, "sha256")).toBe(
+          "60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54",
+        );
+      });
+    });
+
+    describe("readFile", () => {
+      it("should correctly read the contents of the file", async () => {
+        const bytes = await fs.readFile("../data/lorem-ipsum.txt");
+
+        const text = new TextDecoder().decode(bytes);
+
+        expect(text).toEqual(loremIpsum);
+      });
+    });
+
+    describe("readTextFile", () => {
+      it("should correctly read the contents of the file", async () => {
+        const text = await fs.readTextFile("../data/lorem-ipsum.txt");
+
+        expect(text).toEqual(loremIpsum);
+      });
+    });
+
+    describe("readStream", () => {
+      it("should read the file in chunks", async () => {
+        const data = new Uint8Array(100).map((_, i) => i);
+        await fs.writeFile(testFile, data);
+
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of fs.readStream(testFile, {
+          chunkSize: 30,
+        })) {
+          chunks.push(chunk);
+        }
+
+        expect(chunks.map((c) => c.byteLength)).toEqual([
+          30, 30, 30, 10,
+        ]);
+        expect(chunks[3]).toEqual(data.slice(90));
+      });
+
+      it("should only read the given byte range", async () => {
+        const data = new Uint8Array(100).map((_, i) => i);
+        await fs.writeFile(testFile, data);
+
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of fs.readStream(testFile, {
+          chunkSize: 8,
+          start: 10,
+          end: 20,
+        })) {
+          chunks.push(chunk);
+        }
+
+        expect(chunks).toEqual([
+          data.slice(10, 18),
+          data.slice(18, 20),
+        ]);
+      });
+
+      it("should stop reading on early break", async () => {
+        const data = new Uint8Array(100);
+        await fs.writeFile(testFile, data);
+
+        let count = 0;
+        for await (const _ of fs.readStream(testFile, {
+          chunkSize: 10,
+        })) {
+          if (++count === 2) {
+            break;
+          }
+        }
+
+        expect(count).toBe(2);
+      });
+    });
+
+    describe("readLines", () => {
+      it("should yield each line of the file", async () => {
+        await fs.writeTextFile(testFile, "foo\r\nbar\rbaz\n\nqux");
+
+        const lines: string[] = [];
+        for await (const line of fs.readLines(testFile)) {
+          lines.push(line);
+        }
+
+        expect(lines).toEqual(["foo", "bar", "baz", "", "qux"]);
+      });
+
+      it("should respect the newline and keepEnds options", async () => {
+        await fs.writeTextFile(testFile, "foo\r\nbar\nbaz\r\n");
+
+        const lines: string[] = [];
+        for await (const line of fs.readLines(testFile, {
+          newline: "\r\n",
+          keepEnds: true,
+        })) {
+          lines.push(line);
+        }
+
+        expect(lines).toEqual(["foo\r\n", "bar\nbaz\r\n"]);
+      });
+
+      it("should correctly decode the lorem ipsum file", async () => {
+        const lines: string[] = [];
+        for await (const line of fs.readLines(
+          "../data/lorem-ipsum.txt",
+          { keepEnds: true },
+        )) {
+          lines.push(line);
+        }
+
+        expect(lines.join("")).toEqual(loremIpsum);
+      });
+
+      it("should decode the lines in the given encoding", async () => {
+        await fs.writeTextFile(testFile, "ä\n€\r\n日本語", {
+          encoding: "utf-32le",
+        });
+
+        const lines: string[] = [];
+        for await (const line of fs.readLines(testFile, {
+          encoding: "utf-32le",
+        })) {
+          lines.push(line);
+        }
+
+        expect(lines).toEqual(["ä", "€", "日本語"]);
+      });
+    });
+
+    describe("readJson", () => {
+      it("should parse the file content", async () => {
+        await fs.writeTextFile(testFile, '{ "foo": [1, 2, 3] }');
+
+        expect(await fs.readJson(testFile)).toEqual({
+          foo: [1, 2, 3],
+        });
+      });
+
+      it("should parse JSONC when enabled", async () => {
+        await fs.writeTextFile(
+          testFile,
+          '{\n  // comment\n  "foo": "//bar", /* comment */\n}',
+        );
+
+        expect(await fs.readJson(testFile, { jsonc: true })).toEqual({
+          foo: "//bar",
+        });
+      });
+
+      it("should narrow the type with the given type guard", async () => {
+        await fs.writeTextFile(testFile, '{ "name": "foo" }');
+
+        const isNamed = (v: unknown): v is { name: string } =>
+          typeof v === "object" && v !== null && "name" in v;
+
+        const value = await fs.readJson(testFile, {
+          validate: isNamed,
+        });
+        expect(value.name).toEqual("foo");
+
+        await expect(
+          fs.readJson(testFile, { validate: Array.isArray }),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining("JSON validation failed"),
+          ),
+        );
+      });
+
+      it("should report the line and column of syntax errors", async () => {
+        await fs.writeTextFile(
+          testFile,
+          '{\n  "foo": 1,\n  "bar" 2\n}',
+        );
+
+        await expect(fs.readJson(testFile)).toRejectMatch(
+          match.allOf(
+            matchFsError(
+              matchMessageContaining(
+                "'readJson' failed with error:",
+                "line 3, column 9",
+              ),
+            ),
+            { line: 3, column: 9 },
+          ),
+        );
+      });
+    });
+
+    describe("writeJson", () => {
+      it("should serialize the value with the given indentation", async () => {
+        await fs.writeJson(testFile, { foo: [1] }, { indent: "\t" });
+
+        expect(await fs.readTextFile(testFile)).toEqual(
+          '{\n\t"foo": [\n\t\t1\n\t]\n}\n',
+        );
+      });
+    });
+
+    describe("writeFile", () => {
+      it("should correctly create a new file and write to it", async () => {
+        const data = new Uint8Array([2, 1, 4, 3, 6, 5, 8, 7]);
+        await fs.writeFile(testFile, data);
+
+        const readData = await fs.readFile(testFile);
         expect(readData).toEqual(data);
       });
 
@@ -432,6 +1488,87 @@ export default describe("Fs", () => {
         const backupData = await fs.readFile(testFile + "~");
         expect(compareBytes(backupData, data)).toBe(true);
       });
+
+      it("should atomically replace the file and keep it's permissions", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeFile(
+          testFile + "/file1",
+          new Uint8Array([1, 2]),
+        );
+        await fs.chmod(testFile + "/file1", "rwx------");
+        await lns(
+          testFile + "/link",
+          testFile + "/file1",
+          TMP_DIR_PATH,
+        );
+
+        const newData = new Uint8Array([3, 4, 5]);
+        await fs.writeFile(testFile + "/link", newData, {
+          atomic: true,
+        });
+
+        const linkInfo = await fs.fileInfo(testFile + "/link");
+        const fileInfo = await fs.fileInfo(testFile + "/file1");
+
+        expect(linkInfo.isSymlink).toBe(true);
+        expect(fileInfo.mode & 0o777).toBe(0o700);
+        expect(await fs.readFile(testFile + "/file1")).toEqual(
+          newData,
+        );
+        expect(await fs.listFilenames(testFile)).toContainOnly(
+          "file1",
+          "link",
+        );
+      });
+
+      it("should support durable writes with backups", async () => {
+        const data = new Uint8Array([1, 2, 3]);
+        await fs.writeFile(testFile, data);
+        await fs.chmod(testFile, "rw-r-----");
+
+        const newData = new Uint8Array([4, 5, 6]);
+        await fs.writeFile(testFile, newData, {
+          atomic: true,
+          durable: true,
+          makeBackup: true,
+        });
+
+        expect(await fs.readFile(testFile)).toEqual(newData);
+        expect((await fs.fileInfo(testFile)).mode & 0o777).toBe(
+          0o640,
+        );
+        expect(await fs.readFile(testFile + "~")).toEqual(data);
+      });
+
+      it("should reject atomic writes when the etag does not match", async () => {
+        await fs.writeFile(testFile, new Uint8Array([1]));
+
+        await expect(
+          fs.writeFile(testFile, new Uint8Array([2]), {
+            atomic: true,
+            etag: "0:0",
+          }),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "The file was externally modified",
+            ),
+          ),
+        );
+        expect(await fs.readFile(testFile)).toEqual(
+          new Uint8Array([1]),
+        );
+      });
+
+      it("should write the file when there's enough free space", async () => {
+        await fs.writeFile(testFile, new Uint8Array([1, 2, 3]), {
+          checkFreeSpace: true,
+        });
+
+        expect(await fs.readFile(testFile)).toEqual(
+          new Uint8Array([1, 2, 3]),
+        );
+      });
     });
 
     describe("writeTextFile", () => {
@@ -449,6 +1586,42 @@ export default describe("Fs", () => {
         const readNewData = await fs.readTextFile(testFile);
         expect(readNewData).toEqual(newData);
       });
+
+      it("should encode the content in the given encoding", async () => {
+        await fs.writeTextFile(testFile, "Zażółć", {
+          encoding: "windows-1250",
+        });
+        expect(await fs.readFile(testFile)).toEqual(
+          new Uint8Array([90, 97, 191, 243, 179, 230]),
+        );
+        expect(
+          await fs.readTextFile(testFile, { encoding: "cp1250" }),
+        ).toBe("Zażółć");
+
+        await fs.writeTextFile(testFile, "ä€", {
+          encoding: "utf-32",
+        });
+        expect(await fs.readFile(testFile)).toEqual(
+          new Uint8Array([0, 0, 0, 228, 0, 0, 32, 172]),
+        );
+        expect(
+          await fs.readTextFile(testFile, { encoding: "utf-32" }),
+        ).toBe("ä€");
+
+        for (const encoding of [
+          "shift_jis",
+          "euc-jp",
+          "gbk",
+          "big5",
+          "utf-16be",
+          "utf-32le",
+        ] as const) {
+          await fs.writeTextFile(testFile, "日本語", { encoding });
+          expect(await fs.readTextFile(testFile, { encoding })).toBe(
+            "日本語",
+          );
+        }
+      });
     });
 
     describe("appendFile", () => {
@@ -479,6 +1652,19 @@ export default describe("Fs", () => {
 
         expect(readData).toEqual(loremIpsum);
       });
+
+      it("should append the content in the given encoding", async () => {
+        await fs.writeTextFile(testFile, "Zażółć ", {
+          encoding: "latin2",
+        });
+        await fs.appendTextFile(testFile, "gęślą jaźń", {
+          encoding: "latin2",
+        });
+
+        expect(
+          await fs.readTextFile(testFile, { encoding: "iso-8859-2" }),
+        ).toBe("Zażółć gęślą jaźń");
+      });
     });
 
     describe("moveFile", () => {
@@ -538,6 +1724,28 @@ export default describe("Fs", () => {
           compareBytes(backup, new Uint8Array([1, 2, 3, 4])),
         ).toBe(true);
       });
+
+      it("should move a directory from a different filesystem", async () => {
+        const srcDir = GLib.build_filenamev([
+          GLib.get_tmp_dir(),
+          `fs-gjs-${testFile}-${GLib.uuid_string_random()}`,
+        ]);
+
+        await Fs.makeDir(srcDir);
+        await Fs.writeTextFile(srcDir + "/file1", loremIpsum);
+        await Fs.makeDir(srcDir + "/dir1");
+        await Fs.writeTextFile(srcDir + "/dir1/file2", "foo");
+
+        await fs.moveFile(srcDir, testFile);
+
+        expect(await Fs.fileExists(srcDir)).toBe(false);
+        expect(await fs.readTextFile(testFile + "/file1")).toEqual(
+          loremIpsum,
+        );
+        expect(
+          await fs.readTextFile(testFile + "/dir1/file2"),
+        ).toEqual("foo");
+      });
     });
 
     describe("copyFile", () => {
@@ -559,32 +1767,167 @@ export default describe("Fs", () => {
 
         expect(text).toEqual(loremIpsum);
       });
-    });
-
-    describe("deleteFile", () => {
-      it("should delete the given file", async () => {
-        await fs.writeTextFile(testFile, "");
 
-        const files = await fs.listDir(".");
+      it("should copy a directory tree if the recursive option is set", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file1", loremIpsum);
+        await fs.makeDir(testFile + "/dir1");
+        await fs.writeTextFile(testFile + "/dir1/file2", "foo");
+        await fs.makeDir(testFile + "/dir1/dir2");
+        await fs.writeTextFile(testFile + "/dir1/dir2/file3", "bar");
 
-        expect(files).toContainMatch({
-          filename: testFile,
+        await fs.copyFile(testFile, testFile + "-copied", {
+          recursive: true,
         });
 
-        await fs.deleteFile(testFile);
-
-        const filesAfterDelete = await fs.listDir(".");
-
-        expect(filesAfterDelete).not.toContainMatch({
-          filename: testFile,
-        });
+        expect(
+          await fs.readTextFile(testFile + "-copied/file1"),
+        ).toEqual(loremIpsum);
+        expect(
+          await fs.readTextFile(testFile + "-copied/dir1/file2"),
+        ).toEqual("foo");
+        expect(
+          await fs.readTextFile(testFile + "-copied/dir1/dir2/file3"),
+        ).toEqual("bar");
+        expect(
+          await fs.fileExists(testFile + "/dir1/dir2/file3"),
+        ).toBe(true);
       });
 
-      it("should delete recursively if the recursive option is set", async () => {
+      it("should not copy a directory into itself", async () => {
         await fs.makeDir(testFile);
-        await fs.writeTextFile(testFile + "/file1", "");
-        await fs.writeTextFile(testFile + "/file2", "");
-        await fs.makeDir(testFile + "/dir1");
+        await fs.writeTextFile(testFile + "/file1", "foo");
+        await lns(testFile + "-link", testFile, TMP_DIR_PATH);
+
+        for (const dest of [
+          testFile,
+          testFile + "/sub",
+          testFile + "-link/sub",
+        ]) {
+          await expect(
+            fs.copyFile(testFile, dest, { recursive: true }),
+          ).toRejectMatch(
+            matchFsError(
+              matchMessageContaining(
+                "'copyFile' failed with error: Cannot copy a directory into itself",
+              ),
+            ),
+          );
+        }
+
+        expect(await fs.listFilenames(testFile)).toEqual(["file1"]);
+      });
+
+      it("should reject symlink cycles when following symlinks", async () => {
+        await fs.makeDir(testFile + "/dir1", { recursive: true });
+        await fs.writeTextFile(testFile + "/dir1/file1", "foo");
+        await fs.makeLink(testFile + "/dir1/loop", "..");
+
+        await expect(
+          fs.copyFile(testFile, testFile + "-copied", {
+            recursive: true,
+            followSymlinks: true,
+          }),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "Cannot copy a symlink to a directory that contains it",
+            ),
+          ),
+        );
+        expect(await fs.fileExists(testFile + "-copied")).toBe(false);
+      });
+
+      it("should skip entries rejected by the filter option", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file1", "foo");
+        await fs.writeTextFile(testFile + "/file2.log", "bar");
+        await fs.makeDir(testFile + "/node_modules");
+        await fs.writeTextFile(
+          testFile + "/node_modules/file3",
+          "baz",
+        );
+
+        await fs.copyFile(testFile, testFile + "-copied", {
+          recursive: true,
+          filter: (f) =>
+            f.filename !== "node_modules" &&
+            !f.filename.endsWith(".log"),
+        });
+
+        const files = await fs.listFilenames(testFile + "-copied");
+
+        expect(files).toEqual(["file1"]);
+      });
+
+      it("should merge or replace existing directories depending on the dirConflictPolicy", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file1", "foo");
+
+        await fs.makeDir(testFile + "-merge");
+        await fs.writeTextFile(testFile + "-merge/existing", "");
+        await fs.makeDir(testFile + "-replace");
+        await fs.writeTextFile(testFile + "-replace/existing", "");
+
+        await fs.copyFile(testFile, testFile + "-merge", {
+          recursive: true,
+          dirConflictPolicy: "merge",
+        });
+        await fs.copyFile(testFile, testFile + "-replace", {
+          recursive: true,
+          dirConflictPolicy: "replace",
+        });
+
+        const merged = await fs.listFilenames(testFile + "-merge");
+        expect(merged.sort()).toEqual(["existing", "file1"]);
+
+        const replaced = await fs.listFilenames(
+          testFile + "-replace",
+        );
+        expect(replaced).toEqual(["file1"]);
+      });
+
+      it("should fail early when there's not enough free space", async () => {
+        // a sparse file takes almost no space on the disk, but
+        // copying it requires the space for it's whole size
+        const stream = await fs.openFileIOStream(testFile, "CREATE");
+        await stream.truncate(2 ** 43);
+        await stream.close();
+
+        await expect(
+          fs.copyFile(testFile, testFile + "-copy", {
+            checkFreeSpace: true,
+          }),
+        ).toRejectMatch(match.instanceOf(InsufficientSpaceError));
+
+        expect(await fs.fileExists(testFile + "-copy")).toBe(false);
+      });
+    });
+
+    describe("deleteFile", () => {
+      it("should delete the given file", async () => {
+        await fs.writeTextFile(testFile, "");
+
+        const files = await fs.listDir(".");
+
+        expect(files).toContainMatch({
+          filename: testFile,
+        });
+
+        await fs.deleteFile(testFile);
+
+        const filesAfterDelete = await fs.listDir(".");
+
+        expect(filesAfterDelete).not.toContainMatch({
+          filename: testFile,
+        });
+      });
+
+      it("should delete recursively if the recursive option is set", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/file1", "");
+        await fs.writeTextFile(testFile + "/file2", "");
+        await fs.makeDir(testFile + "/dir1");
         await fs.writeTextFile(testFile + "/dir1/file1", "");
         await fs.makeDir(testFile + "/dir1/dir2");
         await fs.writeTextFile(testFile + "/dir1/dir2/file1", "");
@@ -619,56 +1962,589 @@ export default describe("Fs", () => {
           },
         );
 
-        const dir2Files = await fs.listDir(testFile + "/dir1/dir2");
+        const dir2Files = await fs.listDir(testFile + "/dir1/dir2");
+
+        expect(dir2Files).toContainMatch({
+          filename: "file1",
+          isFile: true,
+        });
+
+        await fs.deleteFile(testFile, { recursive: true });
+
+        const testFileExists = await fs.fileExists(testFile);
+
+        expect(testFileExists).toBe(false);
+      });
+    });
+
+    describe("makeDir", () => {
+      it("should make a directory", async () => {
+        await fs.makeDir(testFile);
+
+        const exists = await fs.fileExists(testFile);
+
+        expect(exists).toBe(true);
+
+        const info = await fs.fileInfo(testFile);
+
+        expect(info.isDirectory).toBe(true);
+      });
+
+      it("should create missing parents if the recursive option is set", async () => {
+        await fs.makeDir(testFile + "/a/b/c", { recursive: true });
+
+        expect((await fs.fileInfo(testFile + "/a")).isDirectory).toBe(
+          true,
+        );
+        expect(
+          (await fs.fileInfo(testFile + "/a/b/c")).isDirectory,
+        ).toBe(true);
+
+        // should not fail when the directory already exists
+        await fs.makeDir(testFile + "/a/b/c", { recursive: true });
+      });
+
+      it("should apply the given mode to every created directory", async () => {
+        await fs.makeDir(testFile + "/a/b", {
+          recursive: true,
+          mode: "rwx------",
+        });
+
+        const info1 = await fs.fileInfo(testFile + "/a");
+        const info2 = await fs.fileInfo(testFile + "/a/b");
+
+        expect(info1.mode & 0o777).toBe(0o700);
+        expect(info2.mode & 0o777).toBe(0o700);
+      });
+
+      it("should create nested directories with a read-only mode", async () => {
+        await fs.makeDir(testFile + "/a/b", {
+          recursive: true,
+          mode: "r-x------",
+        });
+
+        const info1 = await fs.fileInfo(testFile + "/a");
+        const info2 = await fs.fileInfo(testFile + "/a/b");
+
+        expect(info1.mode & 0o777).toBe(0o500);
+        expect(info2.mode & 0o777).toBe(0o500);
+
+        // allows the directories to be removed afterwards
+        await fs.chmod(testFile + "/a", "rwx------");
+        await fs.chmod(testFile + "/a/b", "rwx------");
+      });
+    });
+
+    describe("makeLink", () => {
+      /**
+       * CI workflow runs on Ubuntu latest, for some reason,
+       * Gio.File.make_symbolic_link_async is not available on the
+       * version of GJS+GIO that is shipped with that image so we have
+       * to skip this test.
+       */
+      const itOnlyLocal = _CI_ ? skip : it;
+
+      itOnlyLocal("should make a link", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.makeLink(testFile + "-link", testFile);
+
+        const exists = await fs.fileExists(testFile + "-link");
+        expect(exists).toBe(true);
+
+        const info = await fs.fileInfo(testFile + "-link");
+        expect(info.isSymlink).toBe(true);
+        expect(info.symlinkTarget).toMatchRegex(
+          new RegExp(`^.+?${testFile}$`),
+        );
+      });
+
+      itOnlyLocal("should make a relative link", async () => {
+        await fs.makeDir(testFile);
+        await fs.writeTextFile(testFile + "/target", loremIpsum);
+        await fs.makeDir(testFile + "/sub");
+        await fs.makeLink(
+          testFile + "/sub/link",
+          testFile + "/target",
+          { relative: true },
+        );
+
+        expect(await fs.readLink(testFile + "/sub/link")).toBe(
+          "../target",
+        );
+        expect(await fs.readTextFile(testFile + "/sub/link")).toBe(
+          loremIpsum,
+        );
+      });
+    });
+
+    describe("readLink", () => {
+      const itOnlyLocal = _CI_ ? skip : it;
+
+      itOnlyLocal("should read the link target", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.makeLink(testFile + "-link", testFile, {
+          relative: true,
+        });
+
+        expect(await fs.readLink(testFile + "-link")).toBe(testFile);
+      });
+
+      it("should fail for files that are not links", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+
+        await expect(fs.readLink(testFile)).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'readLink' failed with error: Not a symbolic link",
+            ),
+          ),
+        );
+      });
+    });
+
+    describe("realPath", () => {
+      const itOnlyLocal = _CI_ ? skip : it;
+
+      itOnlyLocal("should resolve all the symlinks", async () => {
+        await fs.makeDir(testFile + "/a/b", { recursive: true });
+        await fs.writeTextFile(testFile + "/a/b/file", loremIpsum);
+        await fs.makeLink(testFile + "/link-b", testFile + "/a/b", {
+          relative: true,
+        });
+        await fs.makeLink(
+          testFile + "/link-file",
+          testFile + "/link-b/../b/file",
+        );
+
+        const expected = (await fs.realPath(testFile)) + "/a/b/file";
+
+        expect(await fs.realPath(testFile + "/link-file")).toBe(
+          expected,
+        );
+        expect(
+          await fs.realPath(testFile + "/link-b/./../b/file"),
+        ).toBe(expected);
+      });
+
+      itOnlyLocal("should fail on symlink loops", async () => {
+        await fs.makeDir(testFile);
+        await fs.makeLink(testFile + "/a", testFile + "/b");
+        await fs.makeLink(testFile + "/b", testFile + "/a");
+
+        await expect(fs.realPath(testFile + "/a")).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'realPath' failed with error: Too many levels of symbolic links",
+            ),
+          ),
+        );
+      });
+
+      it("should fail when the path does not exist", async () => {
+        await expect(
+          fs.realPath(testFile + "/missing"),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining("'realPath' failed with error"),
+          ),
+        );
+      });
+    });
+
+    describe("findBrokenLinks", () => {
+      const itOnlyLocal = _CI_ ? skip : it;
+
+      itOnlyLocal(
+        "should find the links to missing files",
+        async () => {
+          await fs.makeDir(testFile + "/sub", { recursive: true });
+          await fs.writeTextFile(testFile + "/file", loremIpsum);
+          await fs.makeLink(testFile + "/ok", testFile + "/file");
+          await fs.makeLink(
+            testFile + "/broken",
+            testFile + "/missing",
+          );
+          await fs.makeLink(
+            testFile + "/sub/broken",
+            testFile + "/sub/missing",
+          );
+
+          const broken = await fs.findBrokenLinks(testFile);
+
+          const root = TMP_DIR_PATH + "/" + testFile;
+
+          expect(broken.sort()).toEqual([
+            root + "/broken",
+            root + "/sub/broken",
+          ]);
+        },
+      );
+    });
+
+    describe("makeHardLink", () => {
+      it("should make a hard link", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.makeHardLink(testFile + "-link", testFile);
+
+        const info = await fs.fileInfo(testFile);
+        const linkInfo = await fs.fileInfo(testFile + "-link");
+
+        expect(linkInfo.isFile).toBe(true);
+        expect(linkInfo.linkCount).toBe(2);
+        expect(linkInfo.inode).toBe(info.inode);
+        expect(linkInfo.device).toBe(info.device);
+        expect(linkInfo.rdev).toBe(0);
+        expect(linkInfo.isSameFile(info)).toBe(true);
+
+        await fs.appendTextFile(testFile + "-link", "!");
+        expect(await fs.readTextFile(testFile)).toBe(
+          loremIpsum + "!",
+        );
+      });
+
+      it("should fail when the link path already exists", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.writeTextFile(testFile + "-link", "");
+
+        await expect(
+          fs.makeHardLink(testFile + "-link", testFile),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'makeHardLink' failed with error: Failed to create hard link",
+            ),
+          ),
+        );
+
+        const info = await fs.fileInfo(testFile);
+        const otherInfo = await fs.fileInfo(testFile + "-link");
+
+        expect(info.linkCount).toBe(1);
+        expect(info.isSameFile(otherInfo)).toBe(false);
+      });
+
+      it("should not create the link inside of an existing directory", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.makeDir(testFile + "-dir");
+
+        await expect(
+          fs.makeHardLink(testFile + "-dir", testFile),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'makeHardLink' failed with error: Failed to create hard link",
+            ),
+          ),
+        );
+
+        expect(await fs.listFilenames(testFile + "-dir")).toEqual([]);
+      });
+    });
+
+    describe("makeTempFile", () => {
+      it("should create a new file and open it", async () => {
+        const tmp = await Fs.makeTempFile({
+          prefix: "fs-gjs-",
+          suffix: ".txt",
+        });
+
+        expect(tmp.path).toMatchRegex(/\/fs-gjs-[^/]+\.txt$/);
+        expect(await Fs.fileExists(tmp.path)).toBe(true);
+
+        await tmp.stream.write(new TextEncoder().encode(loremIpsum));
+        await tmp.stream.seekFromStart(0);
+
+        const content = await tmp.stream.readAll();
+        expect(new TextDecoder().decode(content)).toBe(loremIpsum);
+
+        await tmp.dispose();
+
+        expect(tmp.isDisposed).toBe(true);
+        expect(tmp.stream.state).toBe("CLOSED");
+        expect(await Fs.fileExists(tmp.path)).toBe(false);
+
+        // disposing twice should have no effect
+        await tmp.dispose();
+      });
+
+      it("should create the file in the given directory", async () => {
+        await fs.makeDir(testFile);
+
+        const tmp = await fs.makeTempFile({ dir: testFile });
+
+        expect(
+          tmp.path.startsWith(`${TMP_DIR_PATH}/${testFile}/`),
+        ).toBe(true);
+
+        const info = await Fs.fileInfo(tmp.path);
+        expect(info.mode & 0o777).toBe(0o600);
+
+        await tmp[Symbol.asyncDispose]();
+
+        expect(await Fs.fileExists(tmp.path)).toBe(false);
+        expect(await fs.listFilenames(testFile)).toEqual([]);
+      });
+    });
+
+    describe("makeTempDir", () => {
+      it("should create a new directory", async () => {
+        const tmp = await Fs.makeTempDir({ prefix: "fs-gjs-" });
+
+        expect(tmp.path).toMatchRegex(/\/fs-gjs-[^/]+$/);
+
+        const info = await Fs.fileInfo(tmp.path);
+        expect(info.isDirectory).toBe(true);
+        expect(info.mode & 0o777).toBe(0o700);
+
+        await tmp.dispose();
+
+        expect(await Fs.fileExists(tmp.path)).toBe(false);
+      });
+
+      it("should remove all of the directory contents on dispose", async () => {
+        await fs.makeDir(testFile);
+
+        const tmp = await fs.makeTempDir({ dir: testFile });
+
+        expect(
+          tmp.path.startsWith(`${TMP_DIR_PATH}/${testFile}/`),
+        ).toBe(true);
+        expect((await Fs.fileInfo(tmp.path)).mode & 0o777).toBe(
+          0o700,
+        );
+
+        await Fs.makeDir(tmp.path + "/a/b", { recursive: true });
+        await Fs.writeTextFile(
+          tmp.path + "/a/b/file.txt",
+          loremIpsum,
+        );
+        await Fs.writeTextFile(tmp.path + "/file.txt", loremIpsum);
+
+        await tmp[Symbol.asyncDispose]();
+
+        expect(await Fs.fileExists(tmp.path)).toBe(false);
+        expect(await fs.listFilenames(testFile)).toEqual([]);
+      });
+
+      it("should reject cleanupOnExit without an application", async () => {
+        await fs.makeDir(testFile);
+
+        await expect(
+          fs.makeTempDir({ dir: testFile, cleanupOnExit: true }),
+        ).toRejectMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'cleanupOnExit' option requires a default Gio.Application",
+            ),
+          ),
+        );
+        expect(await fs.listFilenames(testFile)).toEqual([]);
+      });
+
+      it("should remove pending directories on cleanup", async () => {
+        const app = new Gio.Application({
+          flags: Gio.ApplicationFlags.NON_UNIQUE,
+        });
+        // there's no way to unset it, so this test has to go after
+        // the ones expecting no default application
+        app.set_default();
+
+        const tmp = await Fs.makeTempDir({ cleanupOnExit: true });
+        const disposed = await Fs.makeTempDir({
+          cleanupOnExit: true,
+        });
+        await disposed.dispose();
+
+        cleanupPendingTempFiles();
+
+        expect(await Fs.fileExists(tmp.path)).toBe(false);
+        expect(tmp.isDisposed).toBe(false);
+      });
+    });
+
+    describe("lock", () => {
+      it("should create and remove the lockfile", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+
+        const lock = await fs.lock(testFile);
+
+        expect(lock.type).toBe("exclusive");
+        expect(lock.lockPath).toBe(
+          `${TMP_DIR_PATH}/${testFile}.lock`,
+        );
+
+        const owner = JSON.parse(
+          await fs.readTextFile(testFile + ".lock"),
+        );
+        expect(owner.pid).toBeOfType("number");
+        expect(owner.hostname).toBe(GLib.get_host_name());
+
+        await lock.release();
+
+        expect(lock.isReleased).toBe(true);
+        expect(await fs.fileExists(testFile + ".lock")).toBe(false);
+      });
+
+      it("should fail when an exclusive lock is already held", async () => {
+        const lock = await fs.lock(testFile);
+
+        await expect(fs.lock(testFile, { timeout: 0 })).toRejectMatch(
+          match.instanceOf(FileLockedError),
+        );
+        await expect(
+          fs.lock(testFile, { shared: true, timeout: 50 }),
+        ).toRejectMatch(match.instanceOf(FileLockedError));
+
+        await lock.release();
+
+        const lock2 = await fs.lock(testFile, { timeout: 0 });
+        await lock2.release();
+      });
+
+      it("should allow multiple shared locks at once", async () => {
+        const lock1 = await fs.lock(testFile, { shared: true });
+        const lock2 = await fs.lock(testFile, { shared: true });
+
+        expect(lock1.type).toBe("shared");
+        expect(lock1.lockPath).not.toBe(lock2.lockPath);
+
+        await expect(
+          fs.lock(testFile, { timeout: 50 }),
+        ).toRejectMatch(match.instanceOf(FileLockedError));
+
+        await lock1.release();
+        await lock2.release();
+
+        const lock3 = await fs.lock(testFile, { timeout: 0 });
+        await lock3.release();
+
+        expect(await fs.listFilenames(".")).not.toContain(
+          testFile + ".lock",
+        );
+      });
+
+      it("should wait for the lock to be released", async () => {
+        const lock = await fs.lock(testFile);
+
+        GLib.timeout_add(GLib.PRIORITY_DEFAULT, 100, () => {
+          lock.release();
+          return GLib.SOURCE_REMOVE;
+        });
+
+        const lock2 = await fs.lock(testFile, { timeout: 5000 });
+
+        expect(lock.isReleased).toBe(true);
+
+        await lock2.release();
+      });
+
+      it("should remove stale locks", async () => {
+        await fs.writeTextFile(
+          testFile + ".lock",
+          JSON.stringify({
+            id: "stale",
+            pid: 999999999,
+            hostname: GLib.get_host_name(),
+            type: "exclusive",
+            acquiredAt: 0,
+          }),
+        );
+
+        const lock = await fs.lock(testFile, { timeout: 0 });
+        await lock.release();
 
-        expect(dir2Files).toContainMatch({
-          filename: "file1",
-          isFile: true,
+        await fs.writeTextFile(testFile + ".lock", "");
+
+        await expect(fs.lock(testFile, { timeout: 0 })).toRejectMatch(
+          match.instanceOf(FileLockedError),
+        );
+
+        await new Promise<void>((resolve) =>
+          GLib.timeout_add(GLib.PRIORITY_DEFAULT, 50, () => {
+            resolve();
+            return GLib.SOURCE_REMOVE;
+          }),
+        );
+
+        const lock2 = await fs.lock(testFile, {
+          timeout: 0,
+          staleAfter: 10,
         });
+        await lock2.release();
+      });
 
-        await fs.deleteFile(testFile, { recursive: true });
+      it("should remove old lockfiles without an owner", async () => {
+        await fs.writeTextFile(testFile + ".lock", "");
+        await fs.setTimes(testFile + ".lock", {
+          modified: Date.now() - 60_000,
+        });
 
-        const testFileExists = await fs.fileExists(testFile);
+        const lock = await fs.lock(testFile, { timeout: 0 });
+        await lock.release();
 
-        expect(testFileExists).toBe(false);
+        expect(
+          (await fs.listFilenames(".")).filter((name) =>
+            name.endsWith(".guard"),
+          ),
+        ).toEqual([]);
       });
-    });
 
-    describe("makeDir", () => {
-      it("should make a directory", async () => {
-        await fs.makeDir(testFile);
+      it("should not remove a lock that replaced a stale one", async () => {
+        const guardPath = `.${testFile}.lock.guard`;
 
-        const exists = await fs.fileExists(testFile);
+        await fs.writeTextFile(testFile + ".lock", "");
+        await fs.setTimes(testFile + ".lock", {
+          modified: Date.now() - 60_000,
+        });
+        // another process is removing the stale lockfile
+        await fs.writeTextFile(guardPath, "");
 
-        expect(exists).toBe(true);
+        const pending = fs.lock(testFile, { timeout: 500 });
 
-        const info = await fs.fileInfo(testFile);
+        await new Promise<void>((resolve) =>
+          GLib.timeout_add(GLib.PRIORITY_DEFAULT, 100, () => {
+            resolve();
+            return GLib.SOURCE_REMOVE;
+          }),
+        );
 
-        expect(info.isDirectory).toBe(true);
+        // and takes the lock, after the stale one was found
+        const owner = JSON.stringify({
+          id: "live",
+          pid: 1,
+          hostname: "other-host",
+          type: "exclusive",
+          acquiredAt: Date.now(),
+        });
+        await fs.writeTextFile(testFile + ".lock", owner);
+        await fs.deleteFile(guardPath);
+
+        await expect(pending).toRejectMatch(
+          match.instanceOf(FileLockedError),
+        );
+        expect(await fs.readTextFile(testFile + ".lock")).toBe(owner);
+
+        await fs.deleteFile(testFile + ".lock");
       });
     });
 
-    describe("makeLink", () => {
-      /**
-       * CI workflow runs on Ubuntu latest, for some reason,
-       * Gio.File.make_symbolic_link_async is not available on the
-       * version of GJS+GIO that is shipped with that image so we have
-       * to skip this test.
-       */
-      const itOnlyLocal = _CI_ ? skip : it;
+    describe("withLock", () => {
+      it("should release the lock after the function finishes", async () => {
+        const result = await fs.withLock(testFile, async (lock) => {
+          expect(await fs.fileExists(lock.lockPath)).toBe(true);
+          return 42;
+        });
 
-      itOnlyLocal("should make a link", async () => {
-        await fs.writeTextFile(testFile, loremIpsum);
-        await fs.makeLink(testFile + "-link", testFile);
+        expect(result).toBe(42);
+        expect(await fs.fileExists(testFile + ".lock")).toBe(false);
 
-        const exists = await fs.fileExists(testFile + "-link");
-        expect(exists).toBe(true);
+        await expect(
+          fs.withLock(testFile, () => {
+            throw new Error("fail");
+          }),
+        ).toRejectMatch(match.instanceOf(Error));
 
-        const info = await fs.fileInfo(testFile + "-link");
-        expect(info.isSymlink).toBe(true);
-        expect(info.symlinkTarget).toMatchRegex(
-          new RegExp(`^.+?${testFile}$`),
-        );
+        expect(await fs.fileExists(testFile + ".lock")).toBe(false);
       });
     });
 
@@ -786,6 +2662,136 @@ export default describe("Fs", () => {
       });
     });
 
+    describe("xattrs", () => {
+      it("should set, get, list and remove extended attributes", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+
+        expect(await fs.getXattr(testFile, "user.tags")).toBe(null);
+
+        await fs.setXattr(testFile, "user.tags", "red,blue");
+        await fs.setXattr(
+          testFile,
+          "user.binary",
+          new Uint8Array([0, 255, 92, 120, 48]),
+        );
+
+        expect(await fs.getXattr(testFile, "user.tags")).toEqual(
+          encode("red,blue"),
+        );
+        expect(await fs.getXattr(testFile, "user.binary")).toEqual(
+          new Uint8Array([0, 255, 92, 120, 48]),
+        );
+        expect((await fs.listXattrs(testFile)).sort()).toEqual([
+          "user.binary",
+          "user.tags",
+        ]);
+
+        await fs.removeXattr(testFile, "user.tags");
+
+        expect(await fs.getXattr(testFile, "user.tags")).toBe(null);
+        expect(await fs.listXattrs(testFile)).toEqual([
+          "user.binary",
+        ]);
+      });
+
+      it("should copy the extended attributes when enabled", async () => {
+        await fs.makeDir(testFile + "/nested", { recursive: true });
+        await fs.writeTextFile(testFile + "/nested/file", loremIpsum);
+        await fs.setXattr(testFile, "user.origin", "dir");
+        await fs.setXattr(
+          testFile + "/nested/file",
+          "user.origin",
+          "file",
+        );
+
+        await fs.copyFile(testFile, testFile + "-plain", {
+          recursive: true,
+        });
+        await fs.copyFile(testFile, testFile + "-copy", {
+          recursive: true,
+          copyXattrs: true,
+        });
+
+        expect(
+          await fs.getXattr(
+            testFile + "-plain/nested/file",
+            "user.origin",
+          ),
+        ).toBe(null);
+        expect(
+          await fs.getXattr(testFile + "-copy", "user.origin"),
+        ).toEqual(encode("dir"));
+        expect(
+          await fs.getXattr(
+            testFile + "-copy/nested/file",
+            "user.origin",
+          ),
+        ).toEqual(encode("file"));
+      });
+    });
+
+    describe("setTimes", () => {
+      it("should set the times with a microsecond precision", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+
+        await fs.setTimes(testFile, {
+          access: new Date(1600000000000),
+          modified: 1500000000123.456,
+        });
+
+        const info = await fs.fileInfo(testFile);
+
+        expect(info.accessTime).toBe(1600000000000);
+        expect(info.modifiedTime).toBe(1500000000123);
+        expect(
+          info._gioInfo.get_attribute_uint32("time::modified-usec"),
+        ).toBe(123456);
+      });
+
+      it("should leave the times that are not given unchanged", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.setTimes(testFile, {
+          access: 1600000000000,
+          modified: 1600000000000,
+        });
+
+        await fs.setTimes(testFile, { modified: 1500000000000 });
+
+        const info = await fs.fileInfo(testFile);
+
+        expect(info.accessTime).toBe(1600000000000);
+        expect(info.modifiedTime).toBe(1500000000000);
+      });
+    });
+
+    describe("touch", () => {
+      it("should create the file if it doesn't exist", async () => {
+        await fs.touch(testFile);
+
+        const info = await fs.fileInfo(testFile);
+
+        expect(info.isFile).toBe(true);
+        expect(info.size).toBe(0);
+      });
+
+      it("should update the times of an existing file", async () => {
+        await fs.writeTextFile(testFile, loremIpsum);
+        await fs.setTimes(testFile, {
+          access: 1500000000000,
+          modified: 1500000000000,
+        });
+
+        const before = Date.now();
+        await fs.touch(testFile);
+
+        const info = await fs.fileInfo(testFile);
+
+        expect(info.modifiedTime >= before - 1000).toBe(true);
+        expect(info.accessTime >= before - 1000).toBe(true);
+        expect(await fs.readTextFile(testFile)).toBe(loremIpsum);
+      });
+    });
+
     describe("openIOStream", () => {
       it("should create new instance of IOStream (CREATE)", async () => {
         const stream = await fs.openFileIOStream(testFile, "CREATE");
@@ -958,6 +2964,18 @@ export default describe("Fs", () => {
             ),
           );
         });
+
+        it("should fail when invalid option given: 'checkFreeSpace'", async () => {
+          await expect(
+            fs.writeFile(testFile, new Uint8Array(), {
+              checkFreeSpace: 1 as any,
+            }),
+          ).toRejectMatch(
+            matchFsError(
+              "'writeFile' failed with error: Invalid option 'checkFreeSpace' - Expected a [boolean].",
+            ),
+          );
+        });
       });
 
       describe("writeTextFile", () => {
@@ -1018,6 +3036,31 @@ export default describe("Fs", () => {
             ),
           );
         });
+
+        it("should fail when invalid option given: 'encoding'", async () => {
+          await expect(
+            fs.writeTextFile(testFile, loremIpsum, {
+              encoding: "utf-7" as any,
+            }),
+          ).toRejectMatch(
+            matchFsError(
+              "'writeTextFile' failed with error: Invalid option 'encoding' - Expected a [valid encoding].",
+            ),
+          );
+        });
+
+        it("should fail when the text cannot be encoded", async () => {
+          await expect(
+            fs.writeTextFile(testFile, "日本語", {
+              encoding: "latin1",
+            }),
+          ).toRejectMatch(
+            matchFsError(
+              "'writeTextFile' failed with error: Given text cannot be encoded in the 'latin1' encoding.",
+            ),
+          );
+          expect(await fs.fileExists(testFile)).toBe(false);
+        });
       });
 
       describe("appendFile", () => {
@@ -1201,6 +3244,190 @@ export default describe("Fs", () => {
           );
         });
       });
+
+      describe("makeTempFile", () => {
+        it("should fail when invalid option given: 'prefix'", async () => {
+          await expect(
+            fs.makeTempFile({ prefix: "a/b" }),
+          ).toRejectMatch(
+            matchFsError(
+              "'makeTempFile' failed with error: Invalid option 'prefix' - Expected a [string without path separators].",
+            ),
+          );
+        });
+
+        it("should fail when invalid option given: 'suffix'", async () => {
+          await expect(
+            fs.makeTempFile({ suffix: 1 as any }),
+          ).toRejectMatch(
+            matchFsError(
+              "'makeTempFile' failed with error: Invalid option 'suffix' - Expected a [string].",
+            ),
+          );
+        });
+      });
+
+      describe("lock", () => {
+        it("should fail when invalid option given: 'timeout'", async () => {
+          await expect(
+            fs.lock(testFile, { timeout: -1 }),
+          ).toRejectMatch(
+            matchFsError(
+              "'lock' failed with error: Invalid option 'timeout' - Expected a [non-negative number].",
+            ),
+          );
+        });
+
+        it("should fail when both 'exclusive' and 'shared' are enabled", async () => {
+          await expect(
+            fs.lock(testFile, { exclusive: true, shared: true }),
+          ).toRejectMatch(
+            matchFsError(
+              "'lock' failed with error: Exactly one of the 'exclusive' and 'shared' options must be enabled.",
+            ),
+          );
+        });
+      });
+
+      describe("diskUsage", () => {
+        it("should fail when invalid option given: 'concurrency'", async () => {
+          await expect(
+            fs.diskUsage(".", { concurrency: 0 }),
+          ).toRejectMatch(
+            matchFsError(
+              "'diskUsage' failed with error: Invalid option 'concurrency' - Expected a [positive integer].",
+            ),
+          );
+        });
+
+        it("should fail when invalid option given: 'depth'", async () => {
+          await expect(
+            fs.diskUsage(".", { depth: -1 }),
+          ).toRejectMatch(
+            matchFsError(
+              "'diskUsage' failed with error: Invalid option 'depth' - Expected a [non-negative integer].",
+            ),
+          );
+        });
+      });
+
+      describe("getXattr", () => {
+        it("should fail when the name has no namespace", async () => {
+          await fs.writeTextFile(testFile, loremIpsum);
+
+          await expect(fs.getXattr(testFile, "tags")).toRejectMatch(
+            matchFsError(
+              matchMessageContaining(
+                "'getXattr' failed with error: Invalid extended attribute name: 'tags'.",
+              ),
+            ),
+          );
+        });
+      });
+
+      describe("hash", () => {
+        it("should fail when invalid option given: 'algorithm'", async () => {
+          await fs.writeTextFile(testFile, loremIpsum);
+
+          await expect(
+            fs.hash(testFile, { algorithm: "crc32" as any }),
+          ).toRejectMatch(
+            matchFsError(
+              `'hash' failed with error: Invalid option 'algorithm' - Expected a ["md5" | "sha1" | "sha256" | "sha384" | "sha512"].`,
+            ),
+          );
+        });
+
+        it("should fail when invalid option given: 'encoding'", async () => {
+          await fs.writeTextFile(testFile, loremIpsum);
+
+          await expect(
+            fs.hash(testFile, { encoding: "utf-8" as any }),
+          ).toRejectMatch(
+            matchFsError(
+              `'hash' failed with error: Invalid option 'encoding' - Expected a ["hex" | "base64" | "bytes"].`,
+            ),
+          );
+        });
+      });
+
+      describe("compareDirs", () => {
+        it("should fail when invalid option given: 'compareBy'", async () => {
+          await expect(
+            fs.compareDirs(".", ".", { compareBy: "size" as any }),
+          ).toRejectMatch(
+            matchFsError(
+              `'compareDirs' failed with error: Invalid option 'compareBy' - Expected a ["metadata" | "hash" | "content"].`,
+            ),
+          );
+        });
+      });
+
+      describe("syncDir", () => {
+        it("should fail when invalid option given: 'exclude'", async () => {
+          await expect(
+            fs.syncDir(".", ".", { exclude: 1 as any }),
+          ).toRejectMatch(
+            matchFsError(
+              `'syncDir' failed with error: Invalid option 'exclude' - Expected a [string | string[]].`,
+            ),
+          );
+        });
+      });
+
+      describe("extractTar", () => {
+        it("should fail when invalid option given: 'preserveOwnership'", async () => {
+          await expect(
+            fs.extractTar(testFile, testFile + "-out", {
+              preserveOwnership: 1 as any,
+            }),
+          ).toRejectMatch(
+            matchFsError(
+              "'extractTar' failed with error: Invalid option 'preserveOwnership' - Expected a [boolean].",
+            ),
+          );
+        });
+      });
+
+      describe("compressFile", () => {
+        it("should fail when invalid option given: 'format'", async () => {
+          await expect(
+            fs.compressFile(testFile, testFile + ".gz", {
+              format: "zip" as any,
+            }),
+          ).toRejectMatch(
+            matchFsError(
+              `'compressFile' failed with error: Invalid option 'format' - Expected a ["gzip" | "zlib" | "deflate"].`,
+            ),
+          );
+        });
+
+        it("should fail when invalid option given: 'level'", async () => {
+          await expect(
+            fs.compressFile(testFile, testFile + ".gz", {
+              level: 1.5,
+            }),
+          ).toRejectMatch(
+            matchFsError(
+              "'compressFile' failed with error: Invalid option 'level' - Expected a [integer between -1 and 9].",
+            ),
+          );
+        });
+      });
+
+      describe("setTimes", () => {
+        it("should fail when invalid time given", async () => {
+          await fs.writeTextFile(testFile, loremIpsum);
+
+          await expect(
+            fs.setTimes(testFile, { modified: -1 }),
+          ).toRejectMatch(
+            matchFsError(
+              "'setTimes' failed with error: Expected a [non-negative number or a valid Date]. (modified)",
+            ),
+          );
+        });
+      });
     });
 
     describe("file doesn't exist", () => {
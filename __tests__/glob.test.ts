@@ -0,0 +1,85 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import { GlobMatcher } from "../src/glob";
+
+export default describe("GlobMatcher", () => {
+  it("should match wildcards within a single segment", () => {
+    const matcher = new GlobMatcher("src/*.ts");
+
+    expect(matcher.match("src/index.ts")).toBe(true);
+    expect(matcher.match("src/.index.ts")).toBe(false);
+    expect(matcher.match("src/utils/index.ts")).toBe(false);
+    expect(matcher.match("lib/index.ts")).toBe(false);
+  });
+
+  it("should match globstar across any number of segments", () => {
+    const matcher = new GlobMatcher("src/**/*.ts");
+
+    expect(matcher.match("src/index.ts")).toBe(true);
+    expect(matcher.match("src/a/b/c/index.ts")).toBe(true);
+    expect(matcher.match("src/.hidden/index.ts")).toBe(false);
+    expect(matcher.match("lib/index.ts")).toBe(false);
+  });
+
+  it("should match dot files when the dot option is enabled", () => {
+    const matcher = new GlobMatcher("**/*", { dot: true });
+
+    expect(matcher.match(".config/settings.json")).toBe(true);
+    expect(matcher.match("src/.index.ts")).toBe(true);
+  });
+
+  it("should support character classes and question marks", () => {
+    const matcher = new GlobMatcher("file[0-9]?.[!j]s");
+
+    expect(matcher.match("file1a.ts")).toBe(true);
+    expect(matcher.match("file1a.js")).toBe(false);
+    expect(matcher.match("fileA1.ts")).toBe(false);
+    expect(matcher.match("file1.ts")).toBe(false);
+  });
+
+  it("should expand braces", () => {
+    const matcher = new GlobMatcher("src/{a,b/{c,d}}.ts");
+
+    expect(matcher.match("src/a.ts")).toBe(true);
+    expect(matcher.match("src/b/c.ts")).toBe(true);
+    expect(matcher.match("src/b/d.ts")).toBe(true);
+    expect(matcher.match("src/b.ts")).toBe(false);
+  });
+
+  it("should exclude paths matching negated patterns", () => {
+    const matcher = new GlobMatcher(["**/*.ts", "!**/*.test.ts"]);
+
+    expect(matcher.match("src/index.ts")).toBe(true);
+    expect(matcher.match("src/index.test.ts")).toBe(false);
+  });
+
+  it("should tell if a directory can contain matching entries", () => {
+    const matcher = new GlobMatcher("a/b/*.ts");
+
+    expect(matcher.matchDescendants("a")).toBe(true);
+    expect(matcher.matchDescendants("a/b")).toBe(true);
+    expect(matcher.matchDescendants("a/b/c")).toBe(false);
+    expect(matcher.matchDescendants("c")).toBe(false);
+    expect(matcher.maxDepth).toBe(3);
+    expect(new GlobMatcher("a/**").maxDepth).toBe(Infinity);
+  });
+
+  it("should skip dot directories and negated directories", () => {
+    expect(new GlobMatcher("**/*.ts").matchDescendants(".git")).toBe(
+      false,
+    );
+    expect(
+      new GlobMatcher("**/*.ts", { dot: true }).matchDescendants(
+        ".git",
+      ),
+    ).toBe(true);
+    expect(
+      new GlobMatcher("**/.config/*").matchDescendants("a/.config"),
+    ).toBe(true);
+
+    const matcher = new GlobMatcher(["**/*.ts", "!node_modules/**"]);
+
+    expect(matcher.matchDescendants("node_modules")).toBe(false);
+    expect(matcher.matchDescendants("node_modules/a")).toBe(false);
+    expect(matcher.matchDescendants("src")).toBe(true);
+  });
+});
@@ -5,9 +5,10 @@ import {
   describe,
   expect,
   it,
+  match,
 } from "@reactgjs/gest";
 import GLib from "gi://GLib?version=2.0";
-import { Fs } from "../src/index";
+import { FileLockedError, Fs } from "../src/index";
 import { compareBytes, encode, matchFsError } from "./shared";
 
 const loremIpsum = `Lorem ipsum dolor sit amet, consectetur adipiscing elit. 
@@ -216,6 +217,84 @@ export default describe("IOStream", () => {
 
       expect(await stream.currentPosition()).toBe(6);
     });
+
+    it("should hold a lock on the file while open", async () => {
+      const stream = await fs.openFileIOStream(testFile, "CREATE", {
+        lock: true,
+      });
+
+      expect(await fs.fileExists(testFile + ".lock")).toBe(true);
+      await expect(fs.lock(testFile, { timeout: 0 })).toRejectMatch(
+        match.instanceOf(FileLockedError)
+      );
+
+      await stream.close();
+
+      expect(stream.lock!.isReleased).toBe(true);
+      expect(await fs.fileExists(testFile + ".lock")).toBe(false);
+    });
+
+    it("should compress and decompress the data", async () => {
+      const writer = await fs.openFileIOStream(testFile, "CREATE", {
+        compression: "gzip",
+        compressionLevel: 9,
+      });
+
+      await writer.write(encode(loremIpsum));
+
+      await expect(writer.seek(0)).toRejectMatch(
+        matchFsError("'IOStream.seek' failed with error: Stream cannot seek.")
+      );
+
+      await writer.close();
+
+      expect(
+        compareBytes(await fs.readGzipFile(testFile), encode(loremIpsum))
+      ).toBe(true);
+
+      const reader = await fs.openFileIOStream(testFile, "OPEN", {
+        compression: "gzip",
+      });
+
+      expect(compareBytes(await reader.readAll(), encode(loremIpsum))).toBe(
+        true
+      );
+
+      await reader.close();
+    });
+
+    it("should not modify a compressed file only read from", async () => {
+      await fs.writeGzipFile(testFile, encode(loremIpsum));
+      const compressed = await fs.readFile(testFile);
+
+      const reader = await fs.openFileIOStream(testFile, "OPEN", {
+        compression: "gzip",
+      });
+
+      expect(
+        compareBytes(await reader.read(10), encode(loremIpsum).slice(0, 10))
+      ).toBe(true);
+
+      await reader.close();
+
+      expect(compareBytes(await fs.readFile(testFile), compressed)).toBe(true);
+    });
+
+    it("should write and read text in the given encoding", async () => {
+      const stream = await fs.openFileIOStream(testFile, "CREATE", {
+        encoding: "utf-16le",
+      });
+
+      expect(await stream.writeText("Zażółć gęślą jaźń")).toBe(34);
+
+      await stream.seekFromStart(0);
+
+      // the third byte is only a half of the "a"
+      expect(await stream.readText(3)).toBe("Za");
+      expect(await stream.readAllText()).toBe("żółć gęślą jaźń");
+
+      await stream.close();
+    });
   });
 
   describe("negative scenarios", () => {
@@ -273,6 +352,28 @@ export default describe("IOStream", () => {
           );
         });
 
+        it("should fail when invalid option given: 'compression'", async () => {
+          await expect(
+            fs.openFileIOStream(testFile, "CREATE", {
+              compression: "zip" as any,
+            })
+          ).toRejectMatch(
+            matchFsError(
+              `'IOStream.openFile' failed with error: Invalid option 'compression' - Expected a ["gzip" | "zlib" | "deflate"].`
+            )
+          );
+        });
+
+        it("should fail when invalid option given: 'compressionLevel'", async () => {
+          await expect(
+            fs.openFileIOStream(testFile, "CREATE", { compressionLevel: 10 })
+          ).toRejectMatch(
+            matchFsError(
+              "'IOStream.openFile' failed with error: Invalid option 'compressionLevel' - Expected a [integer between -1 and 9]."
+            )
+          );
+        });
+
         it("should fail when invalid type argument is given", async () => {
           await expect(
             fs.openFileIOStream(testFile, "create" as any)
@@ -38,3 +38,39 @@ export const lns = (link: string, target: string, cwd?: string) => {
     return new Fs({ cwd }).makeLink(link, target);
   }
 };
+
+/**
+ * Builds a minimal ustar archive with the given empty entries, to
+ * test archives that can't be created with `createTar()`.
+ */
+export const createTarArchive = (
+  entries: Array<{ name: string; typeflag?: string; linkname?: string }>
+) => {
+  const archive = new Uint8Array(512 * (entries.length + 2));
+
+  entries.forEach(({ name, typeflag = "0", linkname = "" }, i) => {
+    const header = archive.subarray(i * 512, (i + 1) * 512);
+    const fields: Array<[offset: number, value: string]> = [
+      [0, name],
+      [100, "0000644"],
+      [108, "0000000"],
+      [116, "0000000"],
+      [124, "00000000000"],
+      [136, "00000000000"],
+      [156, typeflag],
+      [157, linkname],
+      [257, "ustar"],
+      [263, "00"],
+    ];
+
+    for (const [offset, value] of fields) {
+      header.set(encode(value), offset);
+    }
+
+    let checksum = 8 * 0x20;
+    header.forEach((byte) => (checksum += byte));
+    header.set(encode(checksum.toString(8).padStart(6, "0") + "\0 "), 148);
+  });
+
+  return archive;
+};
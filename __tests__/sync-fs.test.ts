@@ -9,7 +9,12 @@ import {
 } from "@reactgjs/gest";
 import GLib from "gi://GLib?version=2.0";
 import { Fs, Permission, SyncFs, SyncIOStream } from "../src/index";
-import { matchFsError, matchMessageContaining } from "./shared";
+import {
+  createTarArchive,
+  encode,
+  matchFsError,
+  matchMessageContaining,
+} from "./shared";
 
 const loremIpsum = `Lorem ipsum dolor sit amet, consectetur adipiscing elit.
 Praesent quis turpis pharetra, lobortis felis vitae, lacinia magna.
@@ -34,6 +39,11 @@ dignissim augue, a sagittis erat arcu et metus. Lorem ipsum dolor sit
 amet, consectetur adipiscing elit. Donec at commodo purus.
 `;
 
+const PNG_SIGNATURE = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00,
+  0x0d, 0x49, 0x48, 0x44, 0x52,
+]);
+
 let _i = 1;
 const getNextTestFile = () => `test${_i++}`;
 
@@ -178,6 +188,80 @@ export default describe("Fs", () => {
       });
     });
 
+    describe("walk", () => {
+      it("should yield every entry of the directory tree", () => {
+        fs.makeDir(testFile + "/dir1/dir2", { recursive: true });
+        fs.writeTextFile(testFile + "/file1", "");
+        fs.writeTextFile(testFile + "/dir1/dir2/file2", "");
+
+        const paths = Array.from(fs.walk(testFile)).map((entry) =>
+          entry.filepath.replace(TMP_DIR_PATH + "/", ""),
+        );
+
+        expect(paths).toContainOnly(
+          testFile + "/file1",
+          testFile + "/dir1",
+          testFile + "/dir1/dir2",
+          testFile + "/dir1/dir2/file2",
+        );
+      });
+
+      it("should respect the order, maxDepth and filter options", () => {
+        fs.makeDir(testFile + "/dir1/dir2", { recursive: true });
+        fs.makeDir(testFile + "/skipped");
+        fs.writeTextFile(testFile + "/dir1/file1", "");
+
+        const names = Array.from(
+          fs.walk(testFile, {
+            order: "post",
+            maxDepth: 2,
+            filter: (f) => f.filename !== "skipped",
+          }),
+        ).map((entry) => entry.filename);
+
+        expect(names).toContainOnly("file1", "dir2", "dir1");
+        expect(names[names.length - 1]).toEqual("dir1");
+      });
+    });
+
+    describe("glob", () => {
+      it("should return relative paths of the matching entries", () => {
+        fs.makeDir(testFile + "/src/utils", { recursive: true });
+        fs.makeDir(testFile + "/lib");
+        fs.writeTextFile(testFile + "/src/index.ts", "");
+        fs.writeTextFile(testFile + "/src/index.test.ts", "");
+        fs.writeTextFile(testFile + "/src/utils/path.ts", "");
+        fs.writeTextFile(testFile + "/lib/index.js", "");
+
+        const root = testFile;
+
+        expect(fs.glob("src/**/*.ts", { root })).toContainOnly(
+          "src/index.ts",
+          "src/index.test.ts",
+          "src/utils/path.ts",
+        );
+        expect(
+          fs.glob(["**/index.*", "!**/*.test.ts"], { root }),
+        ).toContainOnly("src/index.ts", "lib/index.js");
+      });
+
+      it("should return FileInfo objects when withFileInfo is enabled", () => {
+        fs.makeDir(testFile + "/dir1", { recursive: true });
+        fs.writeTextFile(testFile + "/dir1/file1", "");
+
+        const entries = fs.glob("*/*", {
+          root: testFile,
+          withFileInfo: true,
+        });
+
+        expect(entries.length).toBe(1);
+        expect(entries[0]).toMatch({
+          filename: "file1",
+          isFile: true,
+        });
+      });
+    });
+
     describe("fileInfo", () => {
       it("should return a FileInfo object for the given file", () => {
         // setup
@@ -252,6 +336,277 @@ export default describe("Fs", () => {
       });
     });
 
+    describe("diskUsage", () => {
+      it("should sum up the sizes of all the entries", () => {
+        fs.makeDir(testFile + "/a/b", { recursive: true });
+        fs.writeTextFile(testFile + "/file1.txt", loremIpsum);
+        fs.writeTextFile(testFile + "/a/file2.txt", loremIpsum);
+
+        const usage = fs.diskUsage(testFile);
+
+        expect(usage.fileCount).toBe(2);
+        expect(usage.dirCount).toBe(3);
+        expect(usage.apparentSize >= loremIpsum.length * 2).toBe(
+          true,
+        );
+        expect(usage.children).toBeUndefined();
+      });
+
+      it("should return a per-child breakdown", () => {
+        fs.makeDir(testFile + "/a/b", { recursive: true });
+        fs.writeTextFile(testFile + "/a/b/file1.txt", loremIpsum);
+
+        const usage = fs.diskUsage(testFile, { depth: 2 });
+
+        const a = usage.children![0]!;
+        expect(a.path).toBe(`${TMP_DIR_PATH}/${testFile}/a`);
+        expect(a.children!.length).toBe(1);
+        expect(a.children![0]!.fileCount).toBe(1);
+        expect(a.children![0]!.children).toBeUndefined();
+      });
+    });
+
+    describe("compareDirs", () => {
+      it("should compare the directory trees", () => {
+        for (const side of ["left", "right"]) {
+          fs.makeDir(`${testFile}/${side}/sub`, { recursive: true });
+          fs.writeTextFile(`${testFile}/${side}/a.txt`, "same");
+          fs.writeTextFile(`${testFile}/${side}/sub/b.txt`, side);
+          fs.writeTextFile(`${testFile}/${side}/only-${side}`, "");
+        }
+
+        const result = fs.compareDirs(
+          testFile + "/left",
+          testFile + "/right",
+          { compareBy: "content" },
+        );
+
+        expect(result.leftOnly).toEqual(["only-left"]);
+        expect(result.rightOnly).toEqual(["only-right"]);
+        expect(result.modified).toEqual(["sub/b.txt"]);
+        expect(result.identical).toEqual(["a.txt"]);
+
+        const types = Array.from(
+          fs.diffDirs(testFile + "/left", testFile + "/right", {
+            compareBy: "hash",
+          }),
+          (entry) => entry.type,
+        );
+
+        expect(types).toEqual([
+          "identical",
+          "leftOnly",
+          "rightOnly",
+          "modified",
+        ]);
+      });
+    });
+
+    describe("syncDir", () => {
+      it("should mirror the source directory", () => {
+        fs.makeDir(testFile + "/src/sub", { recursive: true });
+        fs.writeTextFile(testFile + "/src/a.txt", "a");
+        fs.writeTextFile(testFile + "/src/sub/b.txt", "b");
+        fs.makeDir(testFile + "/dest");
+        fs.writeTextFile(testFile + "/dest/extra", "");
+
+        const first = fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+          {
+            deleteExtraneous: true,
+          },
+        );
+
+        expect(first.copied).toEqual(["a.txt", "sub", "sub/b.txt"]);
+        expect(first.deleted).toEqual(["extra"]);
+
+        fs.writeTextFile(testFile + "/src/a.txt", "aa");
+
+        const second = fs.syncDir(
+          testFile + "/src",
+          testFile + "/dest",
+          {
+            compareBy: "content",
+          },
+        );
+
+        expect(second.updated).toEqual(["a.txt"]);
+        expect(second.skipped).toEqual(["sub/b.txt"]);
+        expect(fs.readTextFile(testFile + "/dest/a.txt")).toBe("aa");
+      });
+    });
+
+    describe("tar", () => {
+      it("should archive and extract a directory tree", () => {
+        fs.makeDir(testFile + "/src/sub", { recursive: true });
+        fs.writeTextFile(testFile + "/src/sub/file.txt", loremIpsum);
+        fs.chmod(testFile + "/src/sub/file.txt", "rw-------");
+        fs.makeLink(testFile + "/src/link", "sub/file.txt");
+
+        fs.createTar(testFile + "/src", testFile + "/archive.tar");
+        fs.extractTar(testFile + "/archive.tar", testFile + "/out");
+
+        const out = testFile + "/out";
+        expect(fs.readTextFile(out + "/sub/file.txt")).toBe(
+          loremIpsum,
+        );
+        expect(fs.fileInfo(out + "/sub/file.txt").mode & 0o777).toBe(
+          0o600,
+        );
+        expect(fs.readLink(out + "/link")).toBe(
+          fs.readLink(testFile + "/src/link"),
+        );
+      });
+
+      it("should keep the existing archive if archiving fails", () => {
+        fs.makeDir(testFile);
+        fs.writeTextFile(testFile + "/archive.tar", "old");
+
+        for (const dest of ["/archive.tar", "/new.tar"]) {
+          expect(() =>
+            fs.createTar(testFile + "/missing", testFile + dest),
+          ).toThrowMatch(
+            matchFsError(
+              matchMessageContaining(
+                "'createTar' failed with error:",
+              ),
+            ),
+          );
+        }
+
+        expect(fs.readTextFile(testFile + "/archive.tar")).toBe(
+          "old",
+        );
+        expect(fs.fileExists(testFile + "/new.tar")).toBe(false);
+      });
+
+      it("should not extract entries outside of the destination", () => {
+        fs.makeDir(testFile);
+        fs.writeFile(
+          testFile + "/evil.tar",
+          createTarArchive([{ name: "sub/../../evil.txt" }]),
+        );
+
+        expect(() =>
+          fs.extractTar(testFile + "/evil.tar", testFile + "/out"),
+        ).toThrowMatch(
+          matchFsError(
+            "'extractTar' failed with error: Archive entry points outside of the destination directory: sub/../../evil.txt",
+          ),
+        );
+      });
+    });
+
+    describe("compression", () => {
+      it("should compress and decompress files", () => {
+        fs.writeTextFile(testFile, loremIpsum);
+
+        fs.compressFile(testFile, testFile + ".z", {
+          format: "zlib",
+        });
+        fs.decompressFile(testFile + ".z", testFile, {
+          format: "zlib",
+        });
+
+        expect(fs.readTextFile(testFile)).toBe(loremIpsum);
+      });
+
+      it("should keep the destination if decompressing fails", () => {
+        fs.writeTextFile(testFile, loremIpsum);
+        fs.writeTextFile(testFile + ".z", "not compressed");
+
+        for (const dest of [testFile, testFile + ".new"]) {
+          expect(() =>
+            fs.decompressFile(testFile + ".z", dest),
+          ).toThrowMatch(
+            matchFsError(
+              matchMessageContaining(
+                "'decompressFile' failed with error:",
+              ),
+            ),
+          );
+        }
+
+        expect(fs.readTextFile(testFile)).toBe(loremIpsum);
+        expect(fs.fileExists(testFile + ".new")).toBe(false);
+      });
+
+      it("should write and read gzip files", () => {
+        fs.writeGzipFile(testFile, encode(loremIpsum));
+
+        expect(fs.readGzipFile(testFile)).toEqual(encode(loremIpsum));
+        expect(() =>
+          fs.readGzipFile(testFile, { format: "deflate" }),
+        ).toThrowMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'readGzipFile' failed with error:",
+            ),
+          ),
+        );
+      });
+    });
+
+    describe("filesystemInfo", () => {
+      it("should return the filesystem information", () => {
+        fs.writeTextFile(testFile, loremIpsum);
+
+        const info = fs.filesystemInfo(testFile);
+
+        expect(info.type).toBeOfType("string");
+        expect(info.totalSpace > 0).toBe(true);
+        expect(info.freeSpace <= info.totalSpace).toBe(true);
+        expect(info.isReadOnly).toBe(false);
+      });
+    });
+
+    describe("detectType", () => {
+      it("should detect the type by the file content", () => {
+        fs.writeFile(testFile + ".txt", PNG_SIGNATURE);
+
+        const type = fs.detectType(testFile + ".txt");
+
+        expect(type.mimeType).toBe("image/png");
+        expect(type.isImage).toBe(true);
+      });
+
+      it("should expose the content type in the FileInfo", () => {
+        fs.writeTextFile(testFile + ".txt", loremIpsum);
+
+        const info = fs.fileInfo(testFile + ".txt");
+
+        expect(info.mimeType).toBe("text/plain");
+        expect(info.isText).toBe(true);
+      });
+    });
+
+    describe("hash", () => {
+      it("should compute the checksum of the file", () => {
+        fs.writeTextFile(testFile, "abc");
+
+        expect(fs.hash(testFile)).toBe(
+          "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+        );
+        expect(
+          fs.hash(testFile, { algorithm: "md5", chunkSize: 1 }),
+        ).toBe("900150983cd24fb0d6963f7d28e17f72");
+      });
+    });
+
+    describe("hmac", () => {
+      it("should compute the HMAC of the file", () => {
+        fs.writeTextFile(
+          testFile,
+          "The quick brown fox jumps over the lazy dog",
+        );
+
+        expect(fs.hmac(testFile, "key")).toBe(
+          "f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8",
+        );
+      });
+    });
+
     describe("readFile", () => {
       it("should correctly read the contents of the file", () => {
         const bytes = fs.readFile("../data/lorem-ipsum.txt");
@@ -270,6 +625,72 @@ export default describe("Fs", () => {
       });
     });
 
+    describe("readStream", () => {
+      it("should read the given byte range in chunks", () => {
+        const data = new Uint8Array(100).map((_, i) => i);
+        fs.writeFile(testFile, data);
+
+        const chunks = Array.from(
+          fs.readStream(testFile, { chunkSize: 30, start: 5 }),
+        );
+
+        expect(chunks.map((c) => c.byteLength)).toEqual([
+          30, 30, 30, 5,
+        ]);
+        expect(chunks[0]).toEqual(data.slice(5, 35));
+
+        const range = Array.from(
+          fs.readStream(testFile, { start: 10, end: 20 }),
+        );
+
+        expect(range).toEqual([data.slice(10, 20)]);
+      });
+    });
+
+    describe("readLines", () => {
+      it("should yield each line of the file", () => {
+        fs.writeTextFile(testFile, "foo\r\nbar\rbaz\n\nqux");
+
+        expect(Array.from(fs.readLines(testFile))).toEqual([
+          "foo",
+          "bar",
+          "baz",
+          "",
+          "qux",
+        ]);
+        expect(
+          Array.from(fs.readLines(testFile, { keepEnds: true })),
+        ).toEqual(["foo\r\n", "bar\r", "baz\n", "\n", "qux"]);
+      });
+    });
+
+    describe("readJson", () => {
+      it("should read the data written by writeJson", () => {
+        const data = { foo: "bar", baz: [1, 2, { qux: null }] };
+        fs.writeJson(testFile, data);
+
+        expect(fs.readJson(testFile)).toEqual(data);
+        expect(() =>
+          fs.readJson(testFile, { validate: Array.isArray }),
+        ).toThrowMatch(
+          matchFsError(
+            matchMessageContaining("JSON validation failed"),
+          ),
+        );
+      });
+
+      it("should parse JSONC when enabled", () => {
+        fs.writeTextFile(testFile, "[1, 2, /* 3 */]");
+
+        expect(fs.readJson(testFile, { jsonc: true })).toEqual([
+          1, 2,
+        ]);
+        expect(() => fs.readJson(testFile)).toThrowMatch(
+          matchFsError(matchMessageContaining("Invalid JSON in")),
+        );
+      });
+    });
+
     describe("writeFile", () => {
       it("should correctly create a new file and write to it", () => {
         const data = new Uint8Array([2, 1, 4, 3, 6, 5, 8, 7]);
@@ -292,6 +713,25 @@ export default describe("Fs", () => {
         const readNewData = fs.readFile(testFile);
         expect(readNewData).toEqual(newData);
       });
+
+      it("should atomically replace the file and keep it's permissions", () => {
+        fs.makeDir(testFile);
+        fs.writeFile(testFile + "/file1", new Uint8Array([1, 2]));
+        fs.chmod(testFile + "/file1", "rwx------");
+        fs.makeLink(testFile + "/link", testFile + "/file1");
+
+        const newData = new Uint8Array([3, 4, 5]);
+        fs.writeFile(testFile + "/link", newData, {
+          atomic: true,
+          durable: true,
+        });
+
+        expect(fs.fileInfo(testFile + "/link").isSymlink).toBe(true);
+        expect(fs.fileInfo(testFile + "/file1").mode & 0o777).toBe(
+          0o700,
+        );
+        expect(fs.readFile(testFile + "/file1")).toEqual(newData);
+      });
     });
 
     describe("writeTextFile", () => {
@@ -309,6 +749,27 @@ export default describe("Fs", () => {
         const readNewData = fs.readTextFile(testFile);
         expect(readNewData).toEqual(newData);
       });
+
+      it("should encode the content in the given encoding", () => {
+        fs.writeTextFile(testFile, "日本語", {
+          encoding: "shift_jis",
+        });
+        fs.appendTextFile(testFile, "です", {
+          encoding: "shift_jis",
+        });
+
+        expect(fs.readFile(testFile).byteLength).toBe(10);
+        expect(fs.readTextFile(testFile, { encoding: "sjis" })).toBe(
+          "日本語です",
+        );
+        expect(() =>
+          fs.writeTextFile(testFile, "€", { encoding: "koi8-r" }),
+        ).toThrowMatch(
+          matchFsError(
+            "'writeTextFile' failed with error: Given text cannot be encoded in the 'koi8-r' encoding.",
+          ),
+        );
+      });
     });
 
     describe("appendFile", () => {
@@ -360,6 +821,28 @@ export default describe("Fs", () => {
 
         expect(text).toEqual(loremIpsum);
       });
+
+      it("should move a directory from a different filesystem", () => {
+        const srcDir = GLib.build_filenamev([
+          GLib.get_tmp_dir(),
+          `fs-gjs-sync-${testFile}-${GLib.uuid_string_random()}`,
+        ]);
+
+        SyncFs.makeDir(srcDir);
+        SyncFs.writeTextFile(srcDir + "/file1", loremIpsum);
+        SyncFs.makeDir(srcDir + "/dir1");
+        SyncFs.writeTextFile(srcDir + "/dir1/file2", "foo");
+
+        fs.moveFile(srcDir, testFile);
+
+        expect(SyncFs.fileExists(srcDir)).toBe(false);
+        expect(fs.readTextFile(testFile + "/file1")).toEqual(
+          loremIpsum,
+        );
+        expect(fs.readTextFile(testFile + "/dir1/file2")).toEqual(
+          "foo",
+        );
+      });
     });
 
     describe("copyFile", () => {
@@ -381,6 +864,104 @@ export default describe("Fs", () => {
 
         expect(text).toEqual(loremIpsum);
       });
+
+      it("should copy a directory tree if the recursive option is set", () => {
+        fs.makeDir(testFile);
+        fs.writeTextFile(testFile + "/file1", loremIpsum);
+        fs.makeDir(testFile + "/dir1");
+        fs.writeTextFile(testFile + "/dir1/file2", "foo");
+        fs.makeDir(testFile + "/dir1/dir2");
+        fs.writeTextFile(testFile + "/dir1/dir2/file3", "bar");
+
+        fs.copyFile(testFile, testFile + "-copied", {
+          recursive: true,
+        });
+
+        expect(fs.readTextFile(testFile + "-copied/file1")).toEqual(
+          loremIpsum,
+        );
+        expect(
+          fs.readTextFile(testFile + "-copied/dir1/file2"),
+        ).toEqual("foo");
+        expect(
+          fs.readTextFile(testFile + "-copied/dir1/dir2/file3"),
+        ).toEqual("bar");
+      });
+
+      it("should not copy a directory into itself", () => {
+        fs.makeDir(testFile);
+        fs.writeTextFile(testFile + "/file1", "foo");
+        fs.makeLink(testFile + "-link", testFile);
+
+        for (const dest of [
+          testFile,
+          testFile + "/sub",
+          testFile + "-link/sub",
+        ]) {
+          expect(() =>
+            fs.copyFile(testFile, dest, { recursive: true }),
+          ).toThrowMatch(
+            matchFsError(
+              matchMessageContaining(
+                "'copyFile' failed with error: Cannot copy a directory into itself",
+              ),
+            ),
+          );
+        }
+
+        expect(fs.listFilenames(testFile)).toEqual(["file1"]);
+      });
+
+      it("should reject symlink cycles when following symlinks", () => {
+        fs.makeDir(testFile + "/dir1", { recursive: true });
+        fs.writeTextFile(testFile + "/dir1/file1", "foo");
+        fs.makeLink(testFile + "/dir1/loop", "..");
+
+        expect(() =>
+          fs.copyFile(testFile, testFile + "-copied", {
+            recursive: true,
+            followSymlinks: true,
+          }),
+        ).toThrowMatch(
+          matchFsError(
+            matchMessageContaining(
+              "Cannot copy a symlink to a directory that contains it",
+            ),
+          ),
+        );
+        expect(fs.fileExists(testFile + "-copied")).toBe(false);
+      });
+
+      it("should skip entries rejected by the filter option", () => {
+        fs.makeDir(testFile);
+        fs.writeTextFile(testFile + "/file1", "foo");
+        fs.writeTextFile(testFile + "/file2.log", "bar");
+
+        fs.copyFile(testFile, testFile + "-copied", {
+          recursive: true,
+          filter: (f) => !f.filename.endsWith(".log"),
+        });
+
+        expect(fs.listFilenames(testFile + "-copied")).toEqual([
+          "file1",
+        ]);
+      });
+
+      it("should replace existing directories if dirConflictPolicy is 'replace'", () => {
+        fs.makeDir(testFile);
+        fs.writeTextFile(testFile + "/file1", "foo");
+        fs.makeDir(testFile + "-copied");
+        fs.writeTextFile(testFile + "-copied/existing", "");
+
+        fs.copyFile(testFile, testFile + "-copied", {
+          recursive: true,
+          dirConflictPolicy: "replace",
+        });
+
+        expect(fs.listFilenames(testFile + "-copied")).toEqual([
+          "file1",
+        ]);
+      });
     });
 
     describe("deleteFile", () => {
@@ -468,6 +1049,30 @@ export default describe("Fs", () => {
 
         expect(info.isDirectory).toBe(true);
       });
+
+      it("should create missing parents if the recursive option is set", () => {
+        fs.makeDir(testFile + "/a/b/c", { recursive: true });
+
+        expect(fs.fileInfo(testFile + "/a").isDirectory).toBe(true);
+        expect(fs.fileInfo(testFile + "/a/b/c").isDirectory).toBe(
+          true,
+        );
+
+        // should not fail when the directory already exists
+        fs.makeDir(testFile + "/a/b/c", { recursive: true });
+      });
+
+      it("should apply the given mode to every created directory", () => {
+        fs.makeDir(testFile + "/a/b", {
+          recursive: true,
+          mode: 0o700,
+        });
+
+        expect(fs.fileInfo(testFile + "/a").mode & 0o777).toBe(0o700);
+        expect(fs.fileInfo(testFile + "/a/b").mode & 0o777).toBe(
+          0o700,
+        );
+      });
     });
 
     describe("makeLink", () => {
@@ -484,6 +1089,152 @@ export default describe("Fs", () => {
           new RegExp(`^.+?${testFile}$`),
         );
       });
+
+      it("should make a relative link", () => {
+        fs.makeDir(testFile + "/sub", { recursive: true });
+        fs.writeTextFile(testFile + "/target", loremIpsum);
+        fs.makeLink(testFile + "/sub/link", testFile + "/target", {
+          relative: true,
+        });
+
+        expect(fs.readLink(testFile + "/sub/link")).toBe("../target");
+        expect(fs.readTextFile(testFile + "/sub/link")).toBe(
+          loremIpsum,
+        );
+      });
+    });
+
+    describe("realPath", () => {
+      it("should resolve all the symlinks", () => {
+        fs.makeDir(testFile + "/a/b", { recursive: true });
+        fs.writeTextFile(testFile + "/a/b/file", loremIpsum);
+        fs.makeLink(testFile + "/link-b", testFile + "/a/b", {
+          relative: true,
+        });
+
+        expect(fs.realPath(testFile + "/link-b/../b/file")).toBe(
+          fs.realPath(testFile) + "/a/b/file",
+        );
+      });
+
+      it("should fail on symlink loops", () => {
+        fs.makeDir(testFile);
+        fs.makeLink(testFile + "/a", testFile + "/b");
+        fs.makeLink(testFile + "/b", testFile + "/a");
+
+        expect(() => fs.realPath(testFile + "/a")).toThrowMatch(
+          matchFsError(
+            matchMessageContaining(
+              "'realPath' failed with error: Too many levels of symbolic links",
+            ),
+          ),
+        );
+      });
+    });
+
+    describe("findBrokenLinks", () => {
+      it("should find the links to missing files", () => {
+        fs.makeDir(testFile);
+        fs.writeTextFile(testFile + "/file", loremIpsum);
+        fs.makeLink(testFile + "/ok", testFile + "/file");
+        fs.makeLink(testFile + "/broken", testFile + "/missing");
+
+        const broken = fs.findBrokenLinks(testFile);
+
+        expect(broken.length).toBe(1);
+        expect(broken[0]!.endsWith("/broken")).toBe(true);
+      });
+    });
+
+    describe("makeHardLink", () => {
+      it("should make a hard link", () => {
+        fs.writeTextFile(testFile, loremIpsum);
+        fs.makeHardLink(testFile + "-link", testFile);
+
+        const info = fs.fileInfo(testFile);
+        const linkInfo = fs.fileInfo(testFile + "-link");
+
+        expect(info.linkCount).toBe(2);
+        expect(linkInfo.isSameFile(info)).toBe(true);
+      });
+    });
+
+    describe("makeTempFile", () => {
+      it("should create a new file and open it", () => {
+        const tmp = SyncFs.makeTempFile({
+          prefix: "fs-gjs-",
+          suffix: ".txt",
+        });
+
+        expect(tmp.path).toMatchRegex(/\/fs-gjs-[^/]+\.txt$/);
+        expect(SyncFs.fileExists(tmp.path)).toBe(true);
+
+        tmp.stream.write(new TextEncoder().encode(loremIpsum));
+        tmp.stream.seekFromStart(0);
+
+        const content = tmp.stream.readAll();
+        expect(new TextDecoder().decode(content)).toBe(loremIpsum);
+
+        tmp.dispose();
+
+        expect(tmp.isDisposed).toBe(true);
+        expect(tmp.stream.state).toBe("CLOSED");
+        expect(SyncFs.fileExists(tmp.path)).toBe(false);
+
+        // disposing twice should have no effect
+        tmp.dispose();
+      });
+
+      it("should create the file in the given directory", () => {
+        fs.makeDir(testFile);
+
+        const tmp = fs.makeTempFile({ dir: testFile });
+
+        expect(
+          tmp.path.startsWith(`${TMP_DIR_PATH}/${testFile}/`),
+        ).toBe(true);
+        expect(SyncFs.fileInfo(tmp.path).mode & 0o777).toBe(0o600);
+
+        tmp[Symbol.dispose]();
+
+        expect(SyncFs.fileExists(tmp.path)).toBe(false);
+        expect(fs.listFilenames(testFile)).toEqual([]);
+      });
+    });
+
+    describe("makeTempDir", () => {
+      it("should create a new directory", () => {
+        const tmp = SyncFs.makeTempDir({ prefix: "fs-gjs-" });
+
+        expect(tmp.path).toMatchRegex(/\/fs-gjs-[^/]+$/);
+
+        const info = SyncFs.fileInfo(tmp.path);
+        expect(info.isDirectory).toBe(true);
+        expect(info.mode & 0o777).toBe(0o700);
+
+        tmp.dispose();
+
+        expect(SyncFs.fileExists(tmp.path)).toBe(false);
+      });
+
+      it("should remove all of the directory contents on dispose", () => {
+        fs.makeDir(testFile);
+
+        const tmp = fs.makeTempDir({ dir: testFile });
+
+        expect(
+          tmp.path.startsWith(`${TMP_DIR_PATH}/${testFile}/`),
+        ).toBe(true);
+
+        SyncFs.makeDir(tmp.path + "/a/b", { recursive: true });
+        SyncFs.writeTextFile(tmp.path + "/a/b/file.txt", loremIpsum);
+        SyncFs.writeTextFile(tmp.path + "/file.txt", loremIpsum);
+
+        tmp[Symbol.dispose]();
+
+        expect(SyncFs.fileExists(tmp.path)).toBe(false);
+        expect(fs.listFilenames(testFile)).toEqual([]);
+      });
     });
 
     describe("chmod", () => {
@@ -600,6 +1351,73 @@ export default describe("Fs", () => {
       });
     });
 
+    describe("xattrs", () => {
+      it("should set, get, list and remove extended attributes", () => {
+        fs.writeTextFile(testFile, loremIpsum);
+
+        fs.setXattr(
+          testFile,
+          "user.binary",
+          new Uint8Array([0, 255, 92]),
+        );
+
+        expect(fs.getXattr(testFile, "user.binary")).toEqual(
+          new Uint8Array([0, 255, 92]),
+        );
+        expect(fs.listXattrs(testFile)).toEqual(["user.binary"]);
+
+        fs.removeXattr(testFile, "user.binary");
+
+        expect(fs.getXattr(testFile, "user.binary")).toBe(null);
+      });
+
+      it("should copy the extended attributes when enabled", () => {
+        fs.writeTextFile(testFile, loremIpsum);
+        fs.setXattr(testFile, "user.origin", "file");
+
+        fs.copyFile(testFile, testFile + "-copy", {
+          copyXattrs: true,
+        });
+
+        expect(
+          fs.getXattr(testFile + "-copy", "user.origin"),
+        ).toEqual(encode("file"));
+      });
+    });
+
+    describe("setTimes", () => {
+      it("should set the times with a microsecond precision", () => {
+        fs.writeTextFile(testFile, loremIpsum);
+
+        fs.setTimes(testFile, {
+          access: new Date(1600000000000),
+          modified: 1500000000123.456,
+        });
+
+        const info = fs.fileInfo(testFile);
+
+        expect(info.accessTime).toBe(1600000000000);
+        expect(
+          info._gioInfo.get_attribute_uint32("time::modified-usec"),
+        ).toBe(123456);
+      });
+    });
+
+    describe("touch", () => {
+      it("should create the file or update it's times", () => {
+        fs.touch(testFile);
+
+        expect(fs.fileInfo(testFile).size).toBe(0);
+
+        fs.setTimes(testFile, { modified: 1500000000000 });
+        fs.touch(testFile);
+
+        expect(
+          fs.fileInfo(testFile).modifiedTime > 1500000000000,
+        ).toBe(true);
+      });
+    });
+
     describe("openIOStream", () => {
       it("should create new instance of SyncIOStream (CREATE)", () => {
         const stream = fs.openFileIOStream(testFile, "CREATE");
@@ -893,6 +1711,28 @@ export default describe("Fs", () => {
           );
         });
       });
+
+      describe("makeTempFile", () => {
+        it("should fail when invalid option given: 'prefix'", () => {
+          expect(() =>
+            fs.makeTempFile({ prefix: "a/b" }),
+          ).toThrowMatch(
+            matchFsError(
+              "'makeTempFile' failed with error: Invalid option 'prefix' - Expected a [string without path separators].",
+            ),
+          );
+        });
+
+        it("should fail when invalid option given: 'suffix'", () => {
+          expect(() =>
+            fs.makeTempFile({ suffix: 1 as any }),
+          ).toThrowMatch(
+            matchFsError(
+              "'makeTempFile' failed with error: Invalid option 'suffix' - Expected a [string].",
+            ),
+          );
+        });
+      });
     });
 
     describe("file doesn't exist", () => {
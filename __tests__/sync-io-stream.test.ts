@@ -214,6 +214,21 @@ export default describe("SyncIOStream", () => {
 
       expect(stream.currentPosition()).toBe(6);
     });
+
+    it("should write and read text in the given encoding", () => {
+      const stream = fs.openFileIOStream(testFile, "CREATE", {
+        encoding: "windows-1250",
+      });
+
+      expect(stream.writeText("Zażółć gęślą jaźń")).toBe(17);
+
+      stream.seekFromStart(0);
+
+      expect(stream.readText(3)).toBe("Zaż");
+      expect(stream.readAllText()).toBe("ółć gęślą jaźń");
+
+      stream.close();
+    });
   });
 
   describe("negative scenarios", () => {
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "@reactgjs/gest";
+import {
+  IncrementalDecoder,
+  LineSplitter,
+} from "../src/text-decoding";
+
+const decodeInChunks = (
+  bytes: Uint8Array,
+  chunkSize: number,
+  decoder: IncrementalDecoder,
+) => {
+  let result = "";
+
+  for (let i = 0; i < bytes.byteLength; i += chunkSize) {
+    result += decoder.decode(bytes.subarray(i, i + chunkSize));
+  }
+
+  return result + decoder.flush();
+};
+
+export default describe("text decoding", () => {
+  describe("IncrementalDecoder", () => {
+    it("should not corrupt characters split between chunks", () => {
+      const text = "zażółć gęślą jaźń 🎉";
+      const bytes = new TextEncoder().encode(text);
+
+      for (const chunkSize of [1, 2, 3, 5]) {
+        expect(
+          decodeInChunks(
+            bytes,
+            chunkSize,
+            new IncrementalDecoder("utf-8"),
+          ),
+        ).toEqual(text);
+      }
+    });
+
+    it("should strip the byte order mark only at the start", () => {
+      const bytes = new Uint8Array([
+        0xef, 0xbb, 0xbf, 0x61, 0xef, 0xbb, 0xbf, 0x62,
+      ]);
+
+      expect(
+        decodeInChunks(bytes, 2, new IncrementalDecoder("utf-8")),
+      ).toEqual("a\uFEFFb");
+    });
+
+    it("should replace invalid bytes", () => {
+      const bytes = new Uint8Array([0x61, 0xff, 0x62]);
+
+      expect(
+        decodeInChunks(bytes, 3, new IncrementalDecoder("utf-8")),
+      ).toEqual("a\uFFFDb");
+    });
+
+    it("should not corrupt a split character in a chunk with invalid bytes", () => {
+      const bytes = new Uint8Array([
+        0x61,
+        0xff,
+        ...new TextEncoder().encode("ż🎉"),
+        0x62,
+      ]);
+
+      for (const chunkSize of [3, 4, 5, 6]) {
+        expect(
+          decodeInChunks(
+            bytes,
+            chunkSize,
+            new IncrementalDecoder("utf-8"),
+          ),
+        ).toEqual("a\uFFFDż🎉b");
+      }
+    });
+  });
+
+  describe("LineSplitter", () => {
+    it("should handle a \\r\\n split between two parts", () => {
+      const splitter = new LineSplitter("any", false);
+
+      expect(splitter.push("foo\r")).toEqual([]);
+      expect(splitter.push("\nbar\rbaz")).toEqual(["foo", "bar"]);
+      expect(splitter.flush()).toEqual(["baz"]);
+    });
+
+    it("should only split on the given newline", () => {
+      const splitter = new LineSplitter("\n", true);
+
+      expect(splitter.push("foo\r\nbar\rbaz\n")).toEqual([
+        "foo\r\n",
+        "bar\rbaz\n",
+      ]);
+      expect(splitter.flush()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,699 @@
+import { getEntryKind } from "./dir-compare";
+import { FsError } from "./errors";
+import type { FileInfo } from "./file-info";
+
+/**
+ * Size of the tar blocks. Headers take exactly one block, and the
+ * data of each entry is padded to a multiple of it.
+ */
+const BLOCK_SIZE = 512;
+
+/**
+ * Maximum size of a pax or GNU long name header that is accepted when
+ * reading an archive. Those are kept in memory, unlike the file
+ * data.
+ */
+const MAX_META_SIZE = 1024 * 1024;
+
+/**
+ * - `file` - a regular file.
+ * - `directory` - a directory.
+ * - `symlink` - a symbolic link, pointing to the `linkTarget`.
+ * - `hardlink` - a hard link to a file stored earlier in the archive
+ *   under the `linkTarget` path.
+ * - `other` - any other kind of entry (e.g. a device or a FIFO).
+ */
+type TarEntryType =
+  | "file"
+  | "directory"
+  | "symlink"
+  | "hardlink"
+  | "other";
+
+interface TarEntry {
+  /**
+   * Path of the entry within the archive. Directories are stored
+   * without the trailing slash.
+   */
+  name: string;
+  type: TarEntryType;
+  /**
+   * Size of the entry data in bytes.
+   */
+  size: number;
+  mode: number;
+  uid: number;
+  gid: number;
+  uname: string;
+  gname: string;
+  /**
+   * The modification time in milliseconds since the UNIX epoch.
+   */
+  mtime: number;
+  /**
+   * Target of a symlink, or the path of the hard linked file within
+   * the archive. Empty for other types of entries.
+   */
+  linkTarget: string;
+}
+
+type TarEvent =
+  | { type: "entry"; entry: TarEntry }
+  | { type: "data"; data: Uint8Array }
+  | { type: "entryEnd"; entry: TarEntry };
+
+type HeaderField = readonly [offset: number, length: number];
+
+const FIELDS = {
+  name: [0, 100],
+  mode: [100, 8],
+  uid: [108, 8],
+  gid: [116, 8],
+  size: [124, 12],
+  mtime: [136, 12],
+  checksum: [148, 8],
+  typeflag: [156, 1],
+  linkname: [157, 100],
+  magic: [257, 6],
+  version: [263, 2],
+  uname: [265, 32],
+  gname: [297, 32],
+  prefix: [345, 155],
+} as const satisfies Record<string, HeaderField>;
+
+const TYPE_FLAGS: Record<Exclude<TarEntryType, "other">, string> = {
+  file: "0",
+  hardlink: "1",
+  symlink: "2",
+  directory: "5",
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const getPaddingSize = (size: number) => {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+};
+
+/**
+ * Returns the zeroes that pad the data of the given size to the full
+ * block.
+ */
+export const getPadding = (size: number) => {
+  return new Uint8Array(getPaddingSize(size));
+};
+
+/**
+ * Returns the two empty blocks that mark the end of an archive.
+ */
+export const getTrailer = () => {
+  return new Uint8Array(BLOCK_SIZE * 2);
+};
+
+const fitsOctal = (value: number, [, length]: HeaderField) => {
+  // one byte is reserved for the terminating NUL
+  return value < 8 ** (length - 1);
+};
+
+const writeBytes = (
+  block: Uint8Array,
+  [offset, length]: HeaderField,
+  bytes: Uint8Array,
+) => {
+  block.set(bytes.subarray(0, length), offset);
+};
+
+const writeOctal = (
+  block: Uint8Array,
+  field: HeaderField,
+  value: number,
+) => {
+  const digits = Math.floor(value)
+    .toString(8)
+    .padStart(field[1] - 1, "0");
+  writeBytes(block, field, encoder.encode(digits));
+};
+
+const readString = (
+  block: Uint8Array,
+  [offset, length]: HeaderField,
+) => {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+/**
+ * Reads a numeric field, either as an octal string or (for values too
+ * large for it) in the base-256 encoding used by GNU tar.
+ */
+const readNumber = (
+  block: Uint8Array,
+  [offset, length]: HeaderField,
+) => {
+  if (block[offset]! & 0x80) {
+    let value = block[offset]! & 0x7f;
+
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = value * 256 + block[i]!;
+    }
+
+    return value;
+  }
+
+  const digits = readString(block, [offset, length]).trim();
+
+  return digits ? parseInt(digits, 8) : 0;
+};
+
+const computeChecksum = (block: Uint8Array) => {
+  const [offset, length] = FIELDS.checksum;
+  let sum = 0;
+
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // the checksum field itself is counted as spaces
+    sum += i >= offset && i < offset + length ? 0x20 : block[i]!;
+  }
+
+  return sum;
+};
+
+/**
+ * Splits the name into the `prefix` and `name` fields of the ustar
+ * header, or returns `null` if it does not fit into them.
+ */
+const splitName = (
+  name: Uint8Array,
+): [prefix: Uint8Array, name: Uint8Array] | null => {
+  const [, nameLength] = FIELDS.name;
+  const [, prefixLength] = FIELDS.prefix;
+
+  if (name.byteLength <= nameLength) {
+    return [new Uint8Array(), name];
+  }
+
+  for (
+    let i = name.byteLength - nameLength - 1;
+    i <= prefixLength && i < name.byteLength - 1;
+    i++
+  ) {
+    if (i >= 0 && name[i] === 0x2f) {
+      return [name.subarray(0, i), name.subarray(i + 1)];
+    }
+  }
+
+  return null;
+};
+
+const createBlock = (
+  name: Uint8Array,
+  prefix: Uint8Array,
+  typeflag: string,
+  size: number,
+  entry: Omit<TarEntry, "name" | "type" | "size">,
+) => {
+  const block = new Uint8Array(BLOCK_SIZE);
+
+  writeBytes(block, FIELDS.name, name);
+  writeOctal(block, FIELDS.mode, entry.mode & 0o7777);
+  writeOctal(
+    block,
+    FIELDS.uid,
+    fitsOctal(entry.uid, FIELDS.uid) ? entry.uid : 0,
+  );
+  writeOctal(
+    block,
+    FIELDS.gid,
+    fitsOctal(entry.gid, FIELDS.gid) ? entry.gid : 0,
+  );
+  writeOctal(
+    block,
+    FIELDS.size,
+    fitsOctal(size, FIELDS.size) ? size : 0,
+  );
+  writeOctal(block, FIELDS.mtime, Math.max(0, entry.mtime / 1000));
+  writeBytes(block, FIELDS.typeflag, encoder.encode(typeflag));
+  writeBytes(
+    block,
+    FIELDS.linkname,
+    encoder.encode(entry.linkTarget),
+  );
+  writeBytes(block, FIELDS.magic, encoder.encode("ustar\0"));
+  writeBytes(block, FIELDS.version, encoder.encode("00"));
+  writeBytes(block, FIELDS.uname, encoder.encode(entry.uname));
+  writeBytes(block, FIELDS.gname, encoder.encode(entry.gname));
+  writeBytes(block, FIELDS.prefix, prefix);
+
+  const checksum = computeChecksum(block)
+    .toString(8)
+    .padStart(6, "0");
+  writeBytes(
+    block,
+    FIELDS.checksum,
+    encoder.encode(checksum + "\0 "),
+  );
+
+  return block;
+};
+
+/**
+ * Encodes the pax records. The length of each record includes the
+ * length of its own length prefix.
+ */
+const encodePaxRecords = (records: Map<string, string>) => {
+  let result = "";
+
+  for (const [key, value] of records) {
+    const content = ` ${key}=${value}\n`;
+    const contentLength = encoder.encode(content).byteLength;
+    let length = contentLength + 1;
+
+    while (String(length).length + contentLength !== length) {
+      length = String(length).length + contentLength;
+    }
+
+    result += length + content;
+  }
+
+  return encoder.encode(result);
+};
+
+const parsePaxRecords = (
+  data: Uint8Array,
+  records: Map<string, string>,
+) => {
+  let position = 0;
+
+  while (position < data.byteLength) {
+    const space = data.indexOf(0x20, position);
+    const length =
+      space === -1
+        ? NaN
+        : parseInt(
+            decoder.decode(data.subarray(position, space)),
+            10,
+          );
+
+    if (!(length > 0) || position + length > data.byteLength) {
+      throw new FsError("Invalid pax header in the archive.");
+    }
+
+    const record = decoder.decode(
+      data.subarray(space + 1, position + length - 1),
+    );
+    const separator = record.indexOf("=");
+    const key = record.slice(0, separator);
+    const value = record.slice(separator + 1);
+
+    if (value === "") {
+      records.delete(key);
+    } else {
+      records.set(key, value);
+    }
+
+    position += length;
+  }
+};
+
+/**
+ * Encodes the header of the given entry. A pax header is prepended
+ * for the values that do not fit into the ustar header (e.g. long
+ * names or sizes of 8GiB or more).
+ */
+export const encodeHeader = (entry: TarEntry) => {
+  const pax = new Map<string, string>();
+  const path =
+    entry.type === "directory" ? entry.name + "/" : entry.name;
+  const pathBytes = encoder.encode(path);
+  let split = splitName(pathBytes);
+
+  if (!split) {
+    pax.set("path", path);
+    split = [new Uint8Array(), pathBytes];
+  }
+
+  if (
+    encoder.encode(entry.linkTarget).byteLength > FIELDS.linkname[1]
+  ) {
+    pax.set("linkpath", entry.linkTarget);
+  }
+
+  if (!fitsOctal(entry.size, FIELDS.size)) {
+    pax.set("size", String(entry.size));
+  }
+
+  for (const key of ["uid", "gid"] as const) {
+    if (!fitsOctal(entry[key], FIELDS[key])) {
+      pax.set(key, String(entry[key]));
+    }
+  }
+
+  for (const key of ["uname", "gname"] as const) {
+    if (encoder.encode(entry[key]).byteLength > FIELDS[key][1]) {
+      pax.set(key, entry[key]);
+    }
+  }
+
+  const [prefix, name] = split;
+  const typeflag =
+    entry.type === "other" ? TYPE_FLAGS.file : TYPE_FLAGS[entry.type];
+  const header = createBlock(
+    name,
+    prefix,
+    typeflag,
+    entry.size,
+    entry,
+  );
+
+  if (pax.size === 0) {
+    return header;
+  }
+
+  const records = encodePaxRecords(pax);
+  const paxName = encoder.encode(
+    "PaxHeader/" + entry.name.slice(entry.name.lastIndexOf("/") + 1),
+  );
+  const paxHeader = createBlock(
+    paxName,
+    new Uint8Array(),
+    "x",
+    records.byteLength,
+    entry,
+  );
+
+  const result = new Uint8Array(
+    BLOCK_SIZE * 2 +
+      records.byteLength +
+      getPaddingSize(records.byteLength),
+  );
+  result.set(paxHeader);
+  result.set(records, BLOCK_SIZE);
+  result.set(header, result.byteLength - BLOCK_SIZE);
+
+  return result;
+};
+
+/**
+ * Creates the archive entry describing the given file, or returns
+ * `null` for the kinds of files that are not archived (e.g.
+ * sockets).
+ */
+export const createTarEntry = (
+  name: string,
+  info: FileInfo,
+): TarEntry | null => {
+  const kind = getEntryKind(info);
+
+  if (kind === "other") {
+    return null;
+  }
+
+  return {
+    name,
+    type: kind,
+    size: kind === "file" ? info.size : 0,
+    mode: info.mode & 0o7777,
+    uid: info.uid,
+    gid: info.gid,
+    uname: info.username ?? "",
+    gname: info.groupname ?? "",
+    mtime: info.modifiedTime,
+    linkTarget: kind === "symlink" ? info.symlinkTarget ?? "" : "",
+  };
+};
+
+/**
+ * Returns the normalized path of the entry, relative to the directory
+ * the archive is extracted into. Fails for absolute paths and paths
+ * with `..` components, as those could be used to write outside of
+ * that directory.
+ */
+export const getSafeEntryPath = (name: string) => {
+  const segments = name.split("/");
+
+  if (name.startsWith("/") || segments.includes("..")) {
+    throw new FsError(
+      `Archive entry points outside of the destination directory: ${name}`,
+    );
+  }
+
+  return segments.filter((s) => s !== "" && s !== ".").join("/");
+};
+
+/**
+ * Incrementally parses the archive from the chunks of data fed to it,
+ * so that the archive never has to be loaded into memory as a whole.
+ * For each of the entries, an `entry` event is emitted first,
+ * followed by the `data` events with its content and an `entryEnd`
+ * event.
+ *
+ * Supports the ustar and pax formats, along with the GNU long names.
+ */
+export class TarParser {
+  private _block = new Uint8Array(BLOCK_SIZE);
+  private _blockLength = 0;
+  private _state: "header" | "data" | "meta" | "padding" | "end" =
+    "header";
+  private _remaining = 0;
+  private _padding = 0;
+  private _emptyBlocks = 0;
+  private _entry: TarEntry | null = null;
+  private _meta: { typeflag: string; data: Uint8Array } | null = null;
+  private _metaLength = 0;
+  private _pax = new Map<string, string>();
+  private _globalPax = new Map<string, string>();
+  private _longName: string | null = null;
+  private _longLink: string | null = null;
+
+  /**
+   * Whether the end of the archive was reached.
+   */
+  get isDone() {
+    return this._state === "end";
+  }
+
+  *write(chunk: Uint8Array): Generator<TarEvent, void, undefined> {
+    let offset = 0;
+
+    while (offset < chunk.byteLength && this._state !== "end") {
+      const available = chunk.byteLength - offset;
+
+      switch (this._state) {
+        case "header": {
+          const length = Math.min(
+            BLOCK_SIZE - this._blockLength,
+            available,
+          );
+          this._block.set(
+            chunk.subarray(offset, offset + length),
+            this._blockLength,
+          );
+          this._blockLength += length;
+          offset += length;
+
+          if (this._blockLength === BLOCK_SIZE) {
+            this._blockLength = 0;
+            yield* this.parseHeader();
+          }
+          break;
+        }
+        case "data": {
+          const length = Math.min(this._remaining, available);
+          this._remaining -= length;
+
+          yield {
+            type: "data",
+            data: chunk.subarray(offset, offset + length),
+          };
+          offset += length;
+
+          if (this._remaining === 0) {
+            yield* this.endEntry();
+          }
+          break;
+        }
+        case "meta": {
+          const length = Math.min(this._remaining, available);
+          this._meta!.data.set(
+            chunk.subarray(offset, offset + length),
+            this._metaLength,
+          );
+          this._metaLength += length;
+          this._remaining -= length;
+          offset += length;
+
+          if (this._remaining === 0) {
+            this.endMeta();
+          }
+          break;
+        }
+        case "padding": {
+          const length = Math.min(this._padding, available);
+          this._padding -= length;
+          offset += length;
+
+          if (this._padding === 0) {
+            this._state = "header";
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks that the archive did not end in the middle of an entry.
+   */
+  finish() {
+    if (
+      this._state !== "end" &&
+      (this._state !== "header" || this._blockLength > 0)
+    ) {
+      throw new FsError("Unexpected end of the archive.");
+    }
+  }
+
+  private *parseHeader(): Generator<TarEvent, void, undefined> {
+    const block = this._block;
+
+    if (block.every((byte) => byte === 0)) {
+      if (++this._emptyBlocks === 2) {
+        this._state = "end";
+      }
+      return;
+    }
+
+    this._emptyBlocks = 0;
+
+    if (
+      computeChecksum(block) !== readNumber(block, FIELDS.checksum)
+    ) {
+      throw new FsError("Invalid tar header checksum.");
+    }
+
+    const typeflag = readString(block, FIELDS.typeflag);
+
+    if (["x", "g", "L", "K"].includes(typeflag)) {
+      const size = readNumber(block, FIELDS.size);
+
+      if (size > MAX_META_SIZE) {
+        throw new FsError("Archive entry metadata is too large.");
+      }
+
+      this._meta = { typeflag, data: new Uint8Array(size) };
+      this._metaLength = 0;
+      this._remaining = size;
+      this._padding = getPaddingSize(size);
+
+      if (size === 0) {
+        this.endMeta();
+      } else {
+        this._state = "meta";
+      }
+      return;
+    }
+
+    const pax = new Map([...this._globalPax, ...this._pax]);
+    const size = Number(
+      pax.get("size") ?? readNumber(block, FIELDS.size),
+    );
+    const isUstar = readString(block, FIELDS.magic).startsWith(
+      "ustar",
+    );
+    let name = readString(block, FIELDS.name);
+    const prefix = isUstar ? readString(block, FIELDS.prefix) : "";
+
+    if (prefix) {
+      name = prefix + "/" + name;
+    }
+
+    name = pax.get("path") ?? this._longName ?? name;
+
+    const type = this.getEntryType(typeflag, name);
+    const mtime = pax.get("mtime");
+
+    this._entry = {
+      name: name.replace(/\/+$/, ""),
+      type,
+      size,
+      mode: readNumber(block, FIELDS.mode),
+      uid: Number(pax.get("uid") ?? readNumber(block, FIELDS.uid)),
+      gid: Number(pax.get("gid") ?? readNumber(block, FIELDS.gid)),
+      uname: pax.get("uname") ?? readString(block, FIELDS.uname),
+      gname: pax.get("gname") ?? readString(block, FIELDS.gname),
+      mtime:
+        mtime != null
+          ? Math.round(parseFloat(mtime) * 1000)
+          : readNumber(block, FIELDS.mtime) * 1000,
+      linkTarget:
+        pax.get("linkpath") ??
+        this._longLink ??
+        readString(block, FIELDS.linkname),
+    };
+
+    this._pax.clear();
+    this._longName = null;
+    this._longLink = null;
+
+    yield { type: "entry", entry: this._entry };
+
+    this._remaining = size;
+    this._padding = getPaddingSize(size);
+
+    if (size === 0) {
+      yield* this.endEntry();
+    } else {
+      this._state = "data";
+    }
+  }
+
+  private getEntryType(typeflag: string, name: string): TarEntryType {
+    switch (typeflag) {
+      case "0":
+      case "":
+      case "7":
+        // directories in the pre-POSIX archives end with a slash
+        return name.endsWith("/") ? "directory" : "file";
+      case "1":
+        return "hardlink";
+      case "2":
+        return "symlink";
+      case "5":
+        return "directory";
+      default:
+        return "other";
+    }
+  }
+
+  private *endEntry(): Generator<TarEvent, void, undefined> {
+    const entry = this._entry!;
+    this._entry = null;
+    this._state = this._padding > 0 ? "padding" : "header";
+
+    yield { type: "entryEnd", entry };
+  }
+
+  private endMeta() {
+    const { typeflag, data } = this._meta!;
+    this._meta = null;
+    this._state = this._padding > 0 ? "padding" : "header";
+
+    switch (typeflag) {
+      case "x":
+        parsePaxRecords(data, this._pax);
+        break;
+      case "g":
+        parsePaxRecords(data, this._globalPax);
+        break;
+      case "L":
+        this._longName = readString(data, [0, data.byteLength]);
+        break;
+      case "K":
+        this._longLink = readString(data, [0, data.byteLength]);
+        break;
+    }
+  }
+}
+
+export type { TarEntry, TarEntryType, TarEvent };
@@ -0,0 +1,109 @@
+import GLib from "gi://GLib?version=2.0";
+import type { Encoding } from "./encoding";
+import { FsError } from "./errors";
+
+/**
+ * Names under which iconv knows the encodings that GJS's TextDecoder
+ * does not support. Text is written in UTF-32 as big endian and
+ * without a byte order mark, so that it can be appended to a file.
+ */
+const ICONV_CHARSETS: Partial<Record<Encoding, string>> = {
+  "utf-32": "UTF-32BE",
+  "utf-32be": "UTF-32BE",
+  "utf-32le": "UTF-32LE",
+};
+
+/**
+ * Returns the name of the character set, that the given encoding
+ * label refers to, as understood by iconv.
+ */
+const getCharset = (encoding: Encoding) => {
+  return (
+    ICONV_CHARSETS[encoding] ?? new TextDecoder(encoding).encoding
+  );
+};
+
+/**
+ * Returns the name of the character set to decode the given encoding
+ * from. Unlike when encoding, the byte order of "utf-32" text is
+ * detected from the byte order mark, if there is one.
+ */
+const getDecodeCharset = (encoding: Encoding) => {
+  return encoding === "utf-32" ? "UTF-32" : getCharset(encoding);
+};
+
+const isUtf8 = (encoding: Encoding) => {
+  return getCharset(encoding) === "utf-8";
+};
+
+/**
+ * Decodes the encodings not supported by GJS's TextDecoder with
+ * GLib.convert, behind the same interface.
+ *
+ * Invalid and incomplete characters always cause an error, as
+ * GLib.convert cannot replace them.
+ */
+class ConvertingDecoder {
+  private _utf8Decoder: TextDecoder;
+
+  constructor(
+    private charset: string,
+    options: TextDecoderOptions,
+  ) {
+    this._utf8Decoder = new TextDecoder("utf-8", options);
+  }
+
+  decode(bytes: Uint8Array) {
+    // when decoding in chunks, only the first one can contain the
+    // byte order mark, so the byte order is fixed by it
+    if (this.charset === "UTF-32" && bytes.byteLength >= 4) {
+      this.charset =
+        bytes[0] === 0xff && bytes[1] === 0xfe
+          ? "UTF-32LE"
+          : "UTF-32BE";
+    }
+
+    const [converted] = GLib.convert(bytes, "UTF-8", this.charset);
+
+    return this._utf8Decoder.decode(converted);
+  }
+}
+
+/**
+ * Creates a decoder for the given encoding, the options are the same
+ * as the ones of the TextDecoder.
+ */
+export const createDecoder = (
+  encoding: Encoding,
+  options: TextDecoderOptions = {},
+): Pick<TextDecoder, "decode"> => {
+  if (ICONV_CHARSETS[encoding]) {
+    return new ConvertingDecoder(getDecodeCharset(encoding), options);
+  }
+
+  return new TextDecoder(encoding, options);
+};
+
+/**
+ * Encodes the given text in the given encoding.
+ */
+export const encodeText = (text: string, encoding: Encoding) => {
+  const bytes = new TextEncoder().encode(text);
+
+  if (isUtf8(encoding)) {
+    return bytes;
+  }
+
+  try {
+    const [converted] = GLib.convert(
+      bytes,
+      getCharset(encoding),
+      "UTF-8",
+    );
+    return converted;
+  } catch {
+    throw new FsError(
+      `Given text cannot be encoded in the '${encoding}' encoding.`,
+    );
+  }
+};
@@ -0,0 +1,135 @@
+import Gio from "gi://Gio?version=2.0";
+import { promise } from "./promise";
+
+/**
+ * - `gzip` - the gzip file format, as produced by the `gzip` command.
+ * - `zlib` - deflate compressed data with the zlib header and checksum.
+ * - `deflate` - raw deflate compressed data, without any header.
+ */
+type CompressionFormat = "gzip" | "zlib" | "deflate";
+
+const ZLIB_FORMATS: Record<
+  CompressionFormat,
+  Gio.ZlibCompressorFormat
+> = {
+  gzip: Gio.ZlibCompressorFormat.GZIP,
+  zlib: Gio.ZlibCompressorFormat.ZLIB,
+  deflate: Gio.ZlibCompressorFormat.RAW,
+};
+
+/**
+ * Tells zlib to use its default compression level, which currently is
+ * 6.
+ */
+export const DEFAULT_COMPRESSION_LEVEL = -1;
+
+export const createCompressor = (
+  format: CompressionFormat,
+  level: number,
+) => {
+  return Gio.ZlibCompressor.new(ZLIB_FORMATS[format], level);
+};
+
+export const createDecompressor = (format: CompressionFormat) => {
+  return Gio.ZlibDecompressor.new(ZLIB_FORMATS[format]);
+};
+
+/**
+ * Wraps the given stream, so that the data read from it is
+ * decompressed. Closing the returned stream does not close the
+ * wrapped one.
+ */
+export const wrapInputStream = (
+  stream: Gio.InputStream,
+  format: CompressionFormat,
+) => {
+  const converter = Gio.ConverterInputStream.new(
+    stream,
+    createDecompressor(format),
+  );
+  converter.set_close_base_stream(false);
+
+  return converter;
+};
+
+/**
+ * Wraps the given stream, so that the data written to it is
+ * compressed. The compressed data is complete only once the returned
+ * stream is closed, which does not close the wrapped one.
+ */
+export const wrapOutputStream = (
+  stream: Gio.OutputStream,
+  format: CompressionFormat,
+  level: number,
+) => {
+  const converter = Gio.ConverterOutputStream.new(
+    stream,
+    createCompressor(format, level),
+  );
+  converter.set_close_base_stream(false);
+
+  return converter;
+};
+
+const getSpliceFlags = (closeTarget: boolean) => {
+  return closeTarget
+    ? Gio.OutputStreamSpliceFlags.CLOSE_SOURCE |
+        Gio.OutputStreamSpliceFlags.CLOSE_TARGET
+    : Gio.OutputStreamSpliceFlags.CLOSE_SOURCE;
+};
+
+/**
+ * Writes all the data from the source stream into the target stream,
+ * and closes the source afterwards, as well as the target unless
+ * `closeTarget` is disabled.
+ *
+ * @returns The number of bytes written.
+ */
+export const splice = (
+  name: string,
+  source: Gio.InputStream,
+  target: Gio.OutputStream,
+  ioPriority: number,
+  abortSignal: AbortSignal | undefined,
+  closeTarget = true,
+) => {
+  return promise<number>(name, abortSignal, (p) => {
+    target.splice_async(
+      source,
+      getSpliceFlags(closeTarget),
+      ioPriority,
+      p.cancellable,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        p.resolve(target.splice_finish(result));
+      }),
+    );
+  });
+};
+
+export const spliceSync = (
+  source: Gio.InputStream,
+  target: Gio.OutputStream,
+  closeTarget = true,
+) => {
+  return target.splice(source, getSpliceFlags(closeTarget), null);
+};
+
+/**
+ * Closes a stream opened with `Gio.File.replace()` or
+ * `Gio.File.replace_readwrite()` without replacing the file, which
+ * happens when the closing is cancelled.
+ */
+export const discardReplaceStream = (
+  stream: Gio.OutputStream | Gio.IOStream,
+) => {
+  const cancellable = Gio.Cancellable.new();
+  cancellable.cancel();
+
+  try {
+    stream.close(cancellable);
+  } catch {
+    // the close is expected to fail as cancelled
+  }
+};
+
+export type { CompressionFormat };
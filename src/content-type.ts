@@ -0,0 +1,158 @@
+import Gio from "gi://Gio?version=2.0";
+
+/**
+ * Number of leading bytes of a file that are used to sniff its
+ * content type.
+ */
+export const SNIFF_LENGTH = 4096;
+
+/**
+ * Returns the MIME type for the given content type. On Linux those
+ * are usually the same, but it's not guaranteed.
+ */
+export const getMimeType = (contentType: string | null) => {
+  if (contentType == null) {
+    return null;
+  }
+
+  return Gio.content_type_get_mime_type(contentType);
+};
+
+/**
+ * Returns a human readable description of the given content type
+ * (e.g. `PNG image`).
+ */
+export const getDescription = (contentType: string | null) => {
+  if (contentType == null) {
+    return null;
+  }
+
+  return Gio.content_type_get_description(contentType);
+};
+
+/**
+ * Whether the given content type is a kind of text (e.g. `text/csv`
+ * or `application/json`).
+ */
+export const isTextType = (contentType: string | null) => {
+  if (contentType == null) {
+    return false;
+  }
+
+  return Gio.content_type_is_a(contentType, "text/plain");
+};
+
+/**
+ * Whether the given content type is an image (e.g. `image/png`).
+ */
+export const isImageType = (contentType: string | null) => {
+  return getMimeType(contentType)?.startsWith("image/") ?? false;
+};
+
+const UNKNOWN_TYPE = "application/octet-stream";
+
+/**
+ * Guesses the content type from the given leading bytes of a file.
+ *
+ * The data is always sniffed first, since Gio trusts a matching file
+ * extension over the data. The file name is then only used to refine
+ * the sniffed type (e.g. `text/plain` into `text/csv`), or when the
+ * data alone is not conclusive. This way a file with a misleading
+ * extension is still recognized by its content.
+ */
+export const guessContentType = (
+  filename: string | null,
+  data: Uint8Array,
+): [contentType: string, isUncertain: boolean] => {
+  if (data.byteLength === 0) {
+    const [byName, uncertain] = Gio.content_type_guess(
+      filename,
+      null,
+    );
+    return [byName ?? UNKNOWN_TYPE, uncertain];
+  }
+
+  const [sniffed, sniffedUncertain] = Gio.content_type_guess(
+    null,
+    data,
+  );
+  const isInconclusive =
+    sniffed == null ||
+    sniffedUncertain ||
+    Gio.content_type_is_unknown(sniffed);
+
+  if (filename == null) {
+    return [sniffed ?? UNKNOWN_TYPE, isInconclusive];
+  }
+
+  if (isInconclusive) {
+    const [byName, uncertain] = Gio.content_type_guess(
+      filename,
+      data,
+    );
+    return [byName ?? UNKNOWN_TYPE, uncertain];
+  }
+
+  const [byName] = Gio.content_type_guess(filename, null);
+
+  if (
+    byName != null &&
+    !Gio.content_type_is_unknown(byName) &&
+    Gio.content_type_is_a(byName, sniffed)
+  ) {
+    return [byName, false];
+  }
+
+  return [sniffed, false];
+};
+
+export class ContentTypeInfo {
+  constructor(
+    /**
+     * The detected content type (e.g. `image/png`).
+     */
+    public readonly contentType: string,
+    /**
+     * Whether the detection was not conclusive, e.g. when the data
+     * did not contain any recognizable signature.
+     */
+    public readonly isUncertain: boolean,
+  ) {}
+
+  /**
+   * The MIME type of the content.
+   */
+  get mimeType() {
+    return getMimeType(this.contentType);
+  }
+
+  /**
+   * A human readable description of the content type (e.g. `PNG
+   * image`).
+   */
+  get description() {
+    return getDescription(this.contentType);
+  }
+
+  /**
+   * Whether the content is a kind of text.
+   */
+  get isText() {
+    return isTextType(this.contentType);
+  }
+
+  /**
+   * Whether the content is an image.
+   */
+  get isImage() {
+    return isImageType(this.contentType);
+  }
+
+  /**
+   * Checks if the content type is the given type or a subtype of it
+   * (e.g. `application/json` is a kind of `text/plain`).
+   */
+  isA(contentType: string) {
+    return Gio.content_type_is_a(this.contentType, contentType);
+  }
+}
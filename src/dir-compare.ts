@@ -0,0 +1,139 @@
+import Gio from "gi://Gio?version=2.0";
+import type { FileInfo } from "./file-info";
+
+/**
+ * Determines how the files present in both of the compared
+ * directories are checked for modifications.
+ *
+ * - `metadata` - files are identical if their sizes and modification
+ *   times are the same.
+ * - `hash` - files are identical if their SHA-256 checksums are the
+ *   same.
+ * - `content` - files are compared byte by byte.
+ */
+type CompareBy = "metadata" | "hash" | "content";
+
+/**
+ * - `leftOnly` - the entry exists only in the left directory.
+ * - `rightOnly` - the entry exists only in the right directory.
+ * - `modified` - the entry exists in both directories, but the contents
+ *   (or the symlink targets) differ.
+ * - `typeChanged` - the entry exists in both directories, but it's a
+ *   different kind of entry in each (e.g. a file and a directory).
+ * - `identical` - the entry is the same in both directories.
+ */
+type DirDiffType =
+  | "leftOnly"
+  | "rightOnly"
+  | "modified"
+  | "typeChanged"
+  | "identical";
+
+interface DirDiffEntry {
+  /**
+   * Path of the entry, relative to the compared directories.
+   */
+  path: string;
+  type: DirDiffType;
+  /**
+   * Info about the entry in the left directory, `null` if it does not
+   * exist there.
+   */
+  left: FileInfo | null;
+  /**
+   * Info about the entry in the right directory, `null` if it does
+   * not exist there.
+   */
+  right: FileInfo | null;
+}
+
+type EntryKind = "directory" | "file" | "symlink" | "other";
+
+/**
+ * Returns the kind of the entry. Unlike the FileInfo getters, this
+ * respects whether the info was queried with `followSymlinks`.
+ */
+export const getEntryKind = (info: FileInfo): EntryKind => {
+  switch (info._gioInfo.get_file_type()) {
+    case Gio.FileType.DIRECTORY:
+      return "directory";
+    case Gio.FileType.REGULAR:
+      return "file";
+    case Gio.FileType.SYMBOLIC_LINK:
+      return "symlink";
+    default:
+      return "other";
+  }
+};
+
+/**
+ * Pairs the entries of two directories by their names. The pairs are
+ * sorted by name, and one side of a pair is `null` if the entry is
+ * missing in that directory.
+ */
+export const pairEntries = (left: FileInfo[], right: FileInfo[]) => {
+  const pairs = new Map<
+    string,
+    [left: FileInfo | null, right: FileInfo | null]
+  >();
+
+  for (const info of left) {
+    pairs.set(info.filename, [info, null]);
+  }
+
+  for (const info of right) {
+    const pair = pairs.get(info.filename);
+
+    if (pair) {
+      pair[1] = info;
+    } else {
+      pairs.set(info.filename, [null, info]);
+    }
+  }
+
+  return Array.from(pairs).sort(([a], [b]) => (a < b ? -1 : 1));
+};
+
+export const bytesEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.byteLength !== b.byteLength) {
+    return false;
+  }
+
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Summary of a directory comparison, with the relative paths of the
+ * entries grouped by the type of difference.
+ */
+export class DirComparison {
+  readonly leftOnly: string[] = [];
+  readonly rightOnly: string[] = [];
+  readonly modified: string[] = [];
+  readonly typeChanged: string[] = [];
+  readonly identical: string[] = [];
+
+  add(entry: DirDiffEntry) {
+    this[entry.type].push(entry.path);
+  }
+
+  /**
+   * Whether any differences were found between the two directories.
+   */
+  get hasDifferences() {
+    return (
+      this.leftOnly.length > 0 ||
+      this.rightOnly.length > 0 ||
+      this.modified.length > 0 ||
+      this.typeChanged.length > 0
+    );
+  }
+}
+
+export type { CompareBy, DirDiffEntry, DirDiffType };
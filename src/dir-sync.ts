@@ -0,0 +1,92 @@
+/**
+ * - `copied` - the entry did not exist in the destination.
+ * - `updated` - the entry in the destination was outdated and got
+ *   replaced.
+ * - `deleted` - the entry did not exist in the source and got removed
+ *   from the destination.
+ * - `skipped` - the entry in the destination was already up to date.
+ */
+type SyncDirAction = "copied" | "updated" | "deleted" | "skipped";
+
+interface SyncDirReport {
+  /**
+   * Paths (relative to the synchronized directories) of the entries
+   * that were copied over to the destination.
+   */
+  copied: string[];
+  /**
+   * Paths of the entries that were outdated in the destination.
+   */
+  updated: string[];
+  /**
+   * Paths of the entries removed from the destination, as they do not
+   * exist in the source. Only reported with the `deleteExtraneous`
+   * option enabled.
+   */
+  deleted: string[];
+  /**
+   * Paths of the entries that were already up to date.
+   */
+  skipped: string[];
+}
+
+interface SyncDirProgress {
+  /**
+   * Path of the entry that was processed last, relative to the
+   * synchronized directories.
+   */
+  path: string;
+  /**
+   * What was done with the entry.
+   */
+  action: SyncDirAction;
+  /**
+   * Number of entries processed so far.
+   */
+  processedCount: number;
+}
+
+/**
+ * Keeps track of what was done with each of the entries, and reports
+ * the progress after each of them.
+ */
+class SyncDirTracker {
+  private _report: SyncDirReport = {
+    copied: [],
+    updated: [],
+    deleted: [],
+    skipped: [],
+  };
+  private _processedCount = 0;
+
+  constructor(
+    private onProgress?: (progress: SyncDirProgress) => void,
+  ) {}
+
+  track(path: string, action: SyncDirAction) {
+    this._report[action].push(path);
+    this._processedCount++;
+
+    this.onProgress?.({
+      path,
+      action,
+      processedCount: this._processedCount,
+    });
+  }
+
+  /**
+   * Returns the report, with the paths sorted, since the entries can
+   * be processed out of order.
+   */
+  getReport(): SyncDirReport {
+    return {
+      copied: this._report.copied.sort(),
+      updated: this._report.updated.sort(),
+      deleted: this._report.deleted.sort(),
+      skipped: this._report.skipped.sort(),
+    };
+  }
+}
+
+export { SyncDirTracker };
+export type { SyncDirAction, SyncDirProgress, SyncDirReport };
@@ -0,0 +1,56 @@
+import GLib from "gi://GLib?version=2.0";
+import Gio from "gi://Gio?version=2.0";
+import { FsError } from "./errors";
+
+let syncPath: string | null | undefined;
+
+/**
+ * Returns the absolute path of the `sync` command, it's looked up
+ * only once.
+ */
+const getSyncPath = () => {
+  if (syncPath === undefined) {
+    syncPath = GLib.find_program_in_path("sync");
+  }
+
+  if (syncPath == null) {
+    throw new FsError("The 'sync' command could not be found.");
+  }
+
+  return syncPath;
+};
+
+/**
+ * Gio does not provide a way to sync a file or a directory to the
+ * disk, without writing it's contents at the same time, so the `sync`
+ * command is used instead. Given the paths as arguments, it syncs
+ * each of them (files and directories alike) separately.
+ */
+export const spawnSyncProcess = (paths: string[]) => {
+  return Gio.Subprocess.new(
+    [getSyncPath(), "--", ...paths],
+    Gio.SubprocessFlags.STDOUT_SILENCE |
+      Gio.SubprocessFlags.STDERR_PIPE,
+  );
+};
+
+/**
+ * Checks the result of the process spawned by the
+ * `spawnSyncProcess()` and throws if the paths were not synced.
+ */
+export const checkSyncProcess = (
+  proc: Gio.Subprocess,
+  stderr: string | null,
+  paths: string[],
+) => {
+  if (proc.get_successful()) {
+    return;
+  }
+
+  const reason = stderr?.trim();
+
+  throw new FsError(
+    `Failed to sync to disk: ${paths.join(", ")}` +
+      (reason ? ` (${reason})` : ""),
+  );
+};
@@ -0,0 +1,125 @@
+import type { FileInfo } from "./file-info";
+import { getFileIdentity } from "./file-info";
+
+/**
+ * Size of the blocks reported by the `unix::blocks` attribute,
+ * regardless of the file system's block size.
+ */
+const ST_BLOCK_SIZE = 512;
+
+interface DiskUsageTotals {
+  /**
+   * Sum of the sizes of all the files, in bytes.
+   */
+  apparentSize: number;
+  /**
+   * Amount of disk space allocated for all the files, in bytes. Can
+   * be smaller than the `apparentSize` for sparse or compressed
+   * files.
+   */
+  allocatedSize: number;
+  /**
+   * Number of non-directory entries (regular files, symlinks, etc.).
+   */
+  fileCount: number;
+  /**
+   * Number of directories, including the measured directory itself.
+   */
+  dirCount: number;
+}
+
+interface DiskUsage extends DiskUsageTotals {
+  path: string;
+  /**
+   * Disk usage of each of the direct children of this directory. Only
+   * present on directories that are within the requested `depth`.
+   */
+  children?: DiskUsage[];
+}
+
+interface DiskUsageProgress extends DiskUsageTotals {
+  /**
+   * Path of the entry that was measured last.
+   */
+  currentPath: string;
+}
+
+/**
+ * Keeps track of the totals and of the entries that were already
+ * counted, so that files with multiple hard links (and directories
+ * reachable through multiple symlinks) are only counted once.
+ */
+class DiskUsageCounter {
+  private _seen = new Set<string>();
+  private _totals: DiskUsageTotals = {
+    apparentSize: 0,
+    allocatedSize: 0,
+    fileCount: 0,
+    dirCount: 0,
+  };
+
+  constructor(
+    private followSymlinks: boolean,
+    private onProgress?: (progress: DiskUsageProgress) => void,
+  ) {}
+
+  /**
+   * Creates a usage entry for the given file, containing only the
+   * file's own size. Returns `null` if the file was already counted.
+   */
+  count(info: FileInfo): DiskUsage | null {
+    // without following symlinks, only hard links to non-directory
+    // files can be reached more than once
+    const mayBeSeen =
+      this.followSymlinks ||
+      (!info.isDirectory && info.linkCount > 1);
+
+    if (mayBeSeen) {
+      const id = getFileIdentity(info);
+
+      if (this._seen.has(id)) {
+        return null;
+      }
+
+      this._seen.add(id);
+    }
+
+    const usage: DiskUsage = {
+      path: info.filepath,
+      apparentSize: info.size,
+      allocatedSize: info.blocks * ST_BLOCK_SIZE,
+      fileCount: info.isDirectory ? 0 : 1,
+      dirCount: info.isDirectory ? 1 : 0,
+    };
+
+    addTotals(this._totals, usage);
+
+    this.onProgress?.({
+      ...this._totals,
+      currentPath: info.filepath,
+    });
+
+    return usage;
+  }
+}
+
+const addTotals = (
+  target: DiskUsageTotals,
+  source: DiskUsageTotals,
+) => {
+  target.apparentSize += source.apparentSize;
+  target.allocatedSize += source.allocatedSize;
+  target.fileCount += source.fileCount;
+  target.dirCount += source.dirCount;
+};
+
+const emptyUsage = (path: string): DiskUsage => ({
+  path,
+  apparentSize: 0,
+  allocatedSize: 0,
+  fileCount: 0,
+  dirCount: 0,
+});
+
+export { addTotals, DiskUsageCounter, emptyUsage };
+export type { DiskUsage, DiskUsageProgress, DiskUsageTotals };
@@ -0,0 +1,10 @@
+/**
+ * Symbols used by the `using` and `await using` declarations. Not
+ * every GJS version defines them, in which case the same fallback as
+ * the one used by the TypeScript's downlevel helpers is used.
+ */
+export const disposeSymbol: typeof Symbol.dispose =
+  Symbol.dispose ?? Symbol.for("Symbol.dispose");
+
+export const asyncDisposeSymbol: typeof Symbol.asyncDispose =
+  Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose");
@@ -211,6 +211,9 @@ export type Encoding =
   | "utf-16be"
   | "utf-16"
   | "utf-16le"
+  | "utf-32"
+  | "utf-32be"
+  | "utf-32le"
   | "iso-2022-cn"
   | "iso-2022-cn-ext";
 
@@ -427,6 +430,9 @@ export const VALID_ENCODINGS = new Set([
   "utf-16be",
   "utf-16",
   "utf-16le",
+  "utf-32",
+  "utf-32be",
+  "utf-32le",
   "iso-2022-cn",
   "iso-2022-cn-ext",
 ]);
@@ -23,6 +23,41 @@ export class FsError extends Error {
   }
 }
 
+export class JsonParseError extends FsError {
+  constructor(
+    msg: string,
+    public filepath: string,
+    public line?: number,
+    public column?: number,
+  ) {
+    super(msg);
+    this.name = "JsonParseError";
+  }
+}
+
+export class FileLockedError extends FsError {
+  constructor(
+    msg: string,
+    public filepath: string,
+    public lockPath: string,
+  ) {
+    super(msg);
+    this.name = "FileLockedError";
+  }
+}
+
+export class InsufficientSpaceError extends FsError {
+  constructor(
+    msg: string,
+    public filepath: string,
+    public requiredBytes: number,
+    public availableBytes: number,
+  ) {
+    super(msg);
+    this.name = "InsufficientSpaceError";
+  }
+}
+
 export class InvalidOptionError extends TypeError {
   constructor(
     public name: string,
@@ -1,4 +1,10 @@
 import Gio from "gi://Gio?version=2.0";
+import {
+  getDescription,
+  getMimeType,
+  isImageType,
+  isTextType,
+} from "./content-type";
 import type { Permission } from "./permission-parser";
 
 export class FileInfo {
@@ -108,6 +114,52 @@ export class FileInfo {
     ) as Gio.FilesystemPreviewType;
   }
 
+  /**
+   * The content type of the file (e.g. `image/png`), guessed by Gio
+   * from the file name and its content.
+   */
+  get contentType() {
+    return this._gioInfo.get_content_type();
+  }
+
+  /**
+   * The content type of the file guessed only from its name. It's
+   * faster to get than `contentType`, but not as reliable.
+   */
+  get fastContentType() {
+    return this._gioInfo.get_attribute_string(
+      "standard::fast-content-type",
+    );
+  }
+
+  /**
+   * The MIME type of the file.
+   */
+  get mimeType() {
+    return getMimeType(this.contentType ?? this.fastContentType);
+  }
+
+  /**
+   * A human readable description of the file type (e.g. `PNG image`).
+   */
+  get description() {
+    return getDescription(this.contentType ?? this.fastContentType);
+  }
+
+  /**
+   * Whether the file content is a kind of text.
+   */
+  get isText() {
+    return isTextType(this.contentType);
+  }
+
+  /**
+   * Whether the file is an image.
+   */
+  get isImage() {
+    return isImageType(this.contentType);
+  }
+
   /**
    * The size of the file in bytes.
    */
@@ -190,6 +242,35 @@ export class FileInfo {
     return this._gioInfo.get_attribute_uint64("unix::blocks");
   }
 
+  /**
+   * The inode number of the file.
+   */
+  get inode() {
+    return this._gioInfo.get_attribute_uint64("unix::inode");
+  }
+
+  /**
+   * The ID of the device the file resides on.
+   */
+  get device() {
+    return this._gioInfo.get_attribute_uint32("unix::device");
+  }
+
+  /**
+   * The number of hard links to the file.
+   */
+  get linkCount() {
+    return this._gioInfo.get_attribute_uint32("unix::nlink");
+  }
+
+  /**
+   * The device ID of the file, if it's a special file (e.g. a block
+   * or a character device), `0` otherwise.
+   */
+  get rdev() {
+    return this._gioInfo.get_attribute_uint32("unix::rdev");
+  }
+
   /**
    * Whether the file can be read from.
    */
@@ -231,6 +312,15 @@ export class FileInfo {
   checkPermission(permission: Permission) {
     return (this.mode & permission) === permission;
   }
+
+  /**
+   * Checks if this and the given FileInfo describe the same file
+   * (e.g. two hard links to the same inode), by comparing the device
+   * IDs and inode numbers.
+   */
+  isSameFile(other: FileInfo) {
+    return this.device === other.device && this.inode === other.inode;
+  }
 }
 
 /**
@@ -240,6 +330,10 @@ export const BASE_ATTRIBUTES = new Set([
   "standard::*",
   "etag::value",
   "unix::is-mountpoint",
+  "unix::device",
+  "unix::inode",
+  "unix::nlink",
+  "unix::rdev",
   "unix::uid",
   "unix::gid",
   "unix::block-size",
@@ -267,6 +361,14 @@ export const BASE_ATTRIBUTES = new Set([
   "thumbnail::path",
 ]);
 
+/**
+ * Returns a string that uniquely identifies the file the given
+ * FileInfo describes (device ID and inode number).
+ */
+export const getFileIdentity = (info: FileInfo) => {
+  return `${info.device}:${info.inode}`;
+};
+
 export const getAttributes = (attributes: string[]) => {
   const final = new Set(BASE_ATTRIBUTES);
 
@@ -0,0 +1,634 @@
+import GLib from "gi://GLib?version=2.0";
+import Gio from "gi://Gio?version=2.0";
+import { asyncDisposeSymbol } from "./disposable";
+import { FileLockedError, FsError } from "./errors";
+import { FileInfo } from "./file-info";
+import { isGioIOError } from "./gio-error";
+import { OptionsResolver } from "./option-resolver";
+import { promise } from "./promise";
+import { OptValidators } from "./validators";
+
+type LockType = "exclusive" | "shared";
+
+interface LockOptions {
+  /**
+   * An instance of the AbortSignal class, aborting it will stop
+   * waiting for the lock.
+   */
+  abortSignal?: AbortSignal;
+  /**
+   * When enabled, an exclusive lock is acquired. Only one exclusive
+   * lock can be held at a time, and it cannot be held while any
+   * shared locks are held.
+   *
+   * @default true (unless `shared` is enabled)
+   */
+  exclusive?: boolean;
+  /**
+   * When enabled, a shared lock is acquired. Any number of shared
+   * locks can be held at the same time, as long as no exclusive lock
+   * is held.
+   *
+   * @default false
+   */
+  shared?: boolean;
+  /**
+   * Maximum amount of milliseconds to wait for the lock to become
+   * available. When set to `0`, a `FileLockedError` is thrown right
+   * away if the lock is held by someone else.
+   *
+   * @default Infinity
+   */
+  timeout?: number;
+  /**
+   * Amount of milliseconds after which a lock is considered stale and
+   * gets removed, regardless of whether it's owner is still running.
+   *
+   * Locks owned by processes running on the same host that are no
+   * longer alive are always considered stale, and so are lockfiles
+   * with no readable owner information that are older than a few
+   * seconds (e.g. left behind by a process that crashed while writing
+   * them).
+   *
+   * @default Infinity
+   */
+  staleAfter?: number;
+}
+
+/**
+ * Information stored in every lockfile.
+ */
+interface LockOwner {
+  id: string;
+  pid: number;
+  hostname: string;
+  type: LockType;
+  /**
+   * Time the lock was acquired at, in milliseconds since the UNIX
+   * epoch.
+   */
+  acquiredAt: number;
+}
+
+const LOCK_SUFFIX = ".lock";
+const SHARED_LOCK_INFIX = ".shared-";
+const MIN_RETRY_INTERVAL = 25;
+const MAX_RETRY_INTERVAL = 500;
+/**
+ * Amount of milliseconds a lockfile can stay without a readable owner
+ * before it's considered stale, the owner is written right after the
+ * lockfile gets created.
+ */
+const UNREADABLE_LOCK_GRACE_PERIOD = 5000;
+const GUARD_SUFFIX = ".guard";
+/**
+ * Amount of milliseconds after which a guard is considered abandoned
+ * (left behind by a process that crashed while holding it), it's only
+ * ever held for the time it takes to check and remove a lockfile.
+ */
+const GUARD_TIMEOUT = 5000;
+
+const currentPid = () => Gio.Credentials.new().get_unix_pid();
+
+const currentHostname = () => GLib.get_host_name() ?? "";
+
+/**
+ * Checks if a process with the given PID is running on this host. If
+ * that cannot be determined (no procfs available), the process is
+ * assumed to be alive.
+ */
+const isProcessAlive = (pid: number) => {
+  if (!GLib.file_test("/proc/self", GLib.FileTest.EXISTS)) {
+    return true;
+  }
+
+  return GLib.file_test(`/proc/${pid}`, GLib.FileTest.EXISTS);
+};
+
+const sleep = (ms: number, abortSignal?: AbortSignal) => {
+  return promise("lock", abortSignal, (p) => {
+    GLib.timeout_add(GLib.PRIORITY_DEFAULT, ms, () => {
+      p.resolve();
+      return GLib.SOURCE_REMOVE;
+    });
+  });
+};
+
+/**
+ * Checks if a file exists under the given path, without following
+ * symlinks.
+ */
+const fileExists = (path: string) => {
+  const file = Gio.File.new_for_path(path);
+
+  return promise<boolean>("lock", null, (p) => {
+    file.query_info_async(
+      "standard::type",
+      Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+      GLib.PRIORITY_DEFAULT,
+      null,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        try {
+          file.query_info_finish(result);
+        } catch (err) {
+          if (isGioIOError(err, Gio.IOErrorEnum.NOT_FOUND)) {
+            return p.resolve(false);
+          }
+          throw err;
+        }
+
+        p.resolve(true);
+      }),
+    );
+  });
+};
+
+/**
+ * Returns the modification time of the file under the given path, in
+ * milliseconds since the UNIX epoch.
+ */
+const getModifiedTime = (path: string) => {
+  const file = Gio.File.new_for_path(path);
+
+  return promise<number>("lock", null, (p) => {
+    file.query_info_async(
+      "time::modified,time::modified-usec",
+      Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+      GLib.PRIORITY_DEFAULT,
+      null,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        const info = file.query_info_finish(result);
+        p.resolve(new FileInfo(path, info).modifiedTime);
+      }),
+    );
+  });
+};
+
+const readTextFile = (path: string) => {
+  const file = Gio.File.new_for_path(path);
+
+  return promise<string>("lock", null, (p) => {
+    file.load_contents_async(
+      null,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        const [, contents] = file.load_contents_finish(result);
+        p.resolve(new TextDecoder().decode(contents));
+      }),
+    );
+  });
+};
+
+const deleteFile = (path: string) => {
+  const file = Gio.File.new_for_path(path);
+
+  return promise("lock", null, (p) => {
+    file.delete_async(
+      GLib.PRIORITY_DEFAULT,
+      null,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        file.delete_finish(result);
+        p.resolve();
+      }),
+    );
+  });
+};
+
+const listFilenames = (
+  dirPath: string,
+  abortSignal: AbortSignal | undefined,
+) => {
+  const dir = Gio.File.new_for_path(dirPath);
+
+  return promise<string[]>("lock", abortSignal, (p) => {
+    dir.enumerate_children_async(
+      "standard::name",
+      Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+      GLib.PRIORITY_DEFAULT,
+      p.cancellable,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        const enumerator = dir.enumerate_children_finish(result);
+        const names: string[] = [];
+
+        const next = () => {
+          enumerator.next_files_async(
+            100,
+            GLib.PRIORITY_DEFAULT,
+            p.cancellable,
+            p.asyncCallback((_, result: Gio.AsyncResult) => {
+              const infos = enumerator.next_files_finish(result);
+
+              if (infos.length === 0) {
+                enumerator.close(null);
+                return p.resolve(names);
+              }
+
+              names.push(...infos.map((info) => info.get_name()));
+              next();
+            }),
+          );
+        };
+
+        next();
+      }),
+    );
+  });
+};
+
+/**
+ * Creates a new file with the given contents. Resolves with `false`
+ * if the file already exists.
+ */
+const createExclusively = (file: Gio.File, contents: string) => {
+  // not cancellable, an empty lockfile left behind by an aborted
+  // write could not be told apart from one that's being written
+  return promise<boolean>("lock", null, (p) => {
+    file.create_async(
+      Gio.FileCreateFlags.NONE,
+      GLib.PRIORITY_DEFAULT,
+      null,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        let stream: Gio.FileOutputStream;
+
+        try {
+          stream = file.create_finish(result);
+        } catch (err) {
+          if (isGioIOError(err, Gio.IOErrorEnum.EXISTS)) {
+            return p.resolve(false);
+          }
+          throw err;
+        }
+
+        stream.write_bytes_async(
+          GLib.Bytes.new(new TextEncoder().encode(contents)),
+          GLib.PRIORITY_DEFAULT,
+          null,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            stream.write_bytes_finish(result);
+            stream.close_async(
+              GLib.PRIORITY_DEFAULT,
+              null,
+              p.asyncCallback((_, result: Gio.AsyncResult) => {
+                stream.close_finish(result);
+                p.resolve(true);
+              }),
+            );
+          }),
+        );
+      }),
+    );
+  });
+};
+
+/**
+ * Reads the owner information from the given lockfile. Returns `null`
+ * if the file doesn't exist (anymore) or is not written yet.
+ */
+const readOwner = async (lockPath: string) => {
+  try {
+    const owner = JSON.parse(await readTextFile(lockPath));
+
+    if (
+      owner &&
+      typeof owner === "object" &&
+      typeof owner.id === "string"
+    ) {
+      return owner as LockOwner;
+    }
+  } catch {
+    // file was removed in the meantime or it's contents were not
+    // written yet
+  }
+
+  return null;
+};
+
+/**
+ * Checks if the lock of the given lockfile is stale. Resolves with
+ * `null` if the lockfile doesn't exist (anymore).
+ */
+const isStale = async (lockPath: string, staleAfter: number) => {
+  let modifiedTime: number;
+
+  try {
+    modifiedTime = await getModifiedTime(lockPath);
+  } catch {
+    return null;
+  }
+
+  const age = Date.now() - modifiedTime;
+  const owner = await readOwner(lockPath);
+
+  return (
+    age > staleAfter ||
+    (owner == null
+      ? age > UNREADABLE_LOCK_GRACE_PERIOD
+      : owner.hostname === currentHostname() &&
+        owner.pid !== currentPid() &&
+        !isProcessAlive(owner.pid))
+  );
+};
+
+/**
+ * Returns the path of the guard of the given lockfile. It's a hidden
+ * file, so that it's never mistaken for a shared lockfile.
+ */
+const getGuardPath = (lockPath: string) => {
+  const dirname = GLib.path_get_dirname(lockPath);
+  const basename = GLib.path_get_basename(lockPath);
+
+  return `${dirname}/.${basename}${GUARD_SUFFIX}`;
+};
+
+/**
+ * Runs the given function while holding the guard of the given
+ * lockfile. Lockfiles are only ever removed while holding their
+ * guard, so a lockfile cannot be removed or replaced by another
+ * process between checking it and removing it.
+ *
+ * Resolves with `null` if the guard is held by another process.
+ */
+const withGuard = async <T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+): Promise<T | null> => {
+  const guardPath = getGuardPath(lockPath);
+
+  if (
+    !(await createExclusively(Gio.File.new_for_path(guardPath), ""))
+  ) {
+    try {
+      const age = Date.now() - (await getModifiedTime(guardPath));
+
+      if (age > GUARD_TIMEOUT) {
+        await deleteFile(guardPath);
+      }
+    } catch {
+      // released in the meantime
+    }
+
+    return null;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await deleteFile(guardPath);
+  }
+};
+
+/**
+ * Removes the given lockfile if the lock is stale. Returns `true` if
+ * the lockfile no longer exists.
+ */
+const removeIfStale = async (
+  lockPath: string,
+  staleAfter: number,
+) => {
+  const stale = await isStale(lockPath, staleAfter);
+
+  if (stale !== true) {
+    return stale === null;
+  }
+
+  const removed = await withGuard(lockPath, async () => {
+    // the lockfile could've been replaced by another process before
+    // the guard was acquired, so it's checked again
+    const stale = await isStale(lockPath, staleAfter);
+
+    if (stale === true) {
+      await deleteFile(lockPath);
+    }
+
+    return stale !== false;
+  });
+
+  return removed ?? false;
+};
+
+/**
+ * A handle of an advisory lock held on a file. Locks are implemented
+ * with lockfiles (`<path>.lock` for exclusive and
+ * `<path>.lock.shared-<id>` for shared locks) and only work between
+ * processes that also use them.
+ *
+ * The lock is held until the `release()` method is called, or until
+ * the handle gets disposed of via the `await using` declaration.
+ *
+ * @example
+ *   const lock = await Fs.lock("/path/to/state.json");
+ *
+ *   try {
+ *     // ...
+ *   } finally {
+ *     await lock.release();
+ *   }
+ */
+class FileLock {
+  /**
+   * Acquires a lock on the file under the given absolute path.
+   */
+  static acquire(path: string, options?: LockOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<FileLock>(
+      "lock",
+      opt.get("abortSignal"),
+      async (p) => {
+        const abortSignal = opt.get("abortSignal");
+        const shared = opt.get("shared", false);
+        const exclusive = opt.get("exclusive", !shared);
+        const timeout = opt.get("timeout", Infinity);
+        const staleAfter = opt.get("staleAfter", Infinity);
+
+        if (exclusive === shared) {
+          throw new FsError(
+            "Exactly one of the 'exclusive' and 'shared' options must be enabled.",
+          );
+        }
+
+        const file = Gio.File.new_for_path(path);
+        const filepath = file.get_path()!;
+        const basename = file.get_basename()!;
+        const lockPath = filepath + LOCK_SUFFIX;
+        const parentPath = file.get_parent()!.get_path()!;
+        const deadline = Date.now() + timeout;
+        let retryInterval = MIN_RETRY_INTERVAL;
+
+        const owner: LockOwner = {
+          id: GLib.uuid_string_random()!,
+          pid: currentPid(),
+          hostname: currentHostname(),
+          type: exclusive ? "exclusive" : "shared",
+          acquiredAt: Date.now(),
+        };
+
+        const waitOrFail = async () => {
+          const remaining = deadline - Date.now();
+
+          if (remaining <= 0) {
+            throw new FileLockedError(
+              `File is locked: ${filepath}`,
+              filepath,
+              lockPath,
+            );
+          }
+
+          await sleep(
+            Math.min(retryInterval, remaining),
+            abortSignal,
+          );
+          retryInterval = Math.min(
+            retryInterval * 2,
+            MAX_RETRY_INTERVAL,
+          );
+          p.breakpoint();
+        };
+
+        if (shared) {
+          const sharedLockPath = `${lockPath}${SHARED_LOCK_INFIX}${owner.id}`;
+          const contents = JSON.stringify(owner);
+
+          // the shared lockfile is created before checking the exclusive
+          // lockfile, and exclusive lock holders check for shared
+          // lockfiles only after creating theirs, so at least one of
+          // the sides is guaranteed to notice the other
+          while (true) {
+            await createExclusively(
+              Gio.File.new_for_path(sharedLockPath),
+              contents,
+            );
+
+            if (!(await fileExists(lockPath))) {
+              return p.resolve(
+                new FileLock(filepath, sharedLockPath, owner),
+              );
+            }
+
+            await deleteFile(sharedLockPath);
+
+            if (!(await removeIfStale(lockPath, staleAfter))) {
+              await waitOrFail();
+            }
+          }
+        }
+
+        while (
+          !(await createExclusively(
+            Gio.File.new_for_path(lockPath),
+            JSON.stringify(owner),
+          ))
+        ) {
+          if (!(await removeIfStale(lockPath, staleAfter))) {
+            await waitOrFail();
+          }
+        }
+
+        const lock = new FileLock(filepath, lockPath, owner);
+        const sharedPrefix =
+          basename + LOCK_SUFFIX + SHARED_LOCK_INFIX;
+
+        try {
+          // wait for all the shared locks to be released, new ones will
+          // not be acquired while the exclusive lockfile exists
+          while (true) {
+            const sharedLocks = (
+              await listFilenames(parentPath, abortSignal)
+            ).filter((name) => name.startsWith(sharedPrefix));
+
+            let held = 0;
+
+            for (const name of sharedLocks) {
+              if (
+                !(await removeIfStale(
+                  `${parentPath}/${name}`,
+                  staleAfter,
+                ))
+              ) {
+                held++;
+              }
+            }
+
+            if (held === 0) {
+              return p.resolve(lock);
+            }
+
+            await waitOrFail();
+          }
+        } catch (err) {
+          await lock.release();
+          throw err;
+        }
+      },
+    );
+  }
+
+  private _isReleased = false;
+
+  private constructor(
+    private _path: string,
+    private _lockPath: string,
+    private _owner: LockOwner,
+  ) {}
+
+  /**
+   * Path of the locked file.
+   */
+  public get path() {
+    return this._path;
+  }
+
+  /**
+   * Path of the lockfile.
+   */
+  public get lockPath() {
+    return this._lockPath;
+  }
+
+  public get type() {
+    return this._owner.type;
+  }
+
+  public get isReleased() {
+    return this._isReleased;
+  }
+
+  /**
+   * Releases the lock. Calling this method more than once has no
+   * effect.
+   *
+   * If the lock was considered stale and taken over by another
+   * process in the meantime, the lockfile of that process is left
+   * untouched.
+   */
+  public async release() {
+    if (this._isReleased) {
+      return;
+    }
+
+    this._isReleased = true;
+
+    const released = () =>
+      withGuard(this._lockPath, async () => {
+        const owner = await readOwner(this._lockPath);
+
+        if (owner?.id === this._owner.id) {
+          await deleteFile(this._lockPath);
+        }
+
+        return true;
+      });
+
+    // the guard is only held for a moment by processes removing a
+    // stale lockfile
+    while (!(await released())) {
+      await sleep(MIN_RETRY_INTERVAL);
+    }
+  }
+
+  public [asyncDisposeSymbol]() {
+    return this.release();
+  }
+}
+
+export { FileLock };
+export type { LockOptions, LockOwner, LockType };
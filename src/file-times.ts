@@ -0,0 +1,70 @@
+import Gio from "gi://Gio?version=2.0";
+
+/**
+ * A point in time, either as a Date or as a number of milliseconds
+ * since the UNIX epoch. Numbers can have a fractional part, which is
+ * kept with a microsecond precision.
+ */
+type FileTime = number | Date;
+
+interface FileTimes {
+  /**
+   * The new time of the last access to the file.
+   */
+  access?: FileTime;
+  /**
+   * The new time of the last modification of the file.
+   */
+  modified?: FileTime;
+}
+
+const toMicroseconds = (time: FileTime, name: string) => {
+  const millis = time instanceof Date ? time.getTime() : time;
+
+  if (
+    typeof millis !== "number" ||
+    !Number.isFinite(millis) ||
+    millis < 0
+  ) {
+    throw new TypeError(
+      `Expected a [non-negative number or a valid Date]. (${name})`,
+    );
+  }
+
+  return Math.round(millis * 1000);
+};
+
+/**
+ * Creates a Gio.FileInfo that sets the given times on a file once
+ * passed to `set_attributes()`. Times that are not specified are left
+ * unchanged.
+ */
+const createTimesInfo = (times: FileTimes) => {
+  if (typeof times !== "object" || times === null) {
+    throw new TypeError("Expected a [object]. (times)");
+  }
+
+  const info = Gio.FileInfo.new();
+
+  for (const name of ["access", "modified"] as const) {
+    const time = times[name];
+
+    if (time === undefined) {
+      continue;
+    }
+
+    const usec = toMicroseconds(time, name);
+    const sec = Math.floor(usec / 1000000);
+
+    info.set_attribute_uint64(`time::${name}`, sec);
+    info.set_attribute_uint32(
+      `time::${name}-usec`,
+      usec - sec * 1000000,
+    );
+  }
+
+  return info;
+};
+
+export { createTimesInfo };
+export type { FileTime, FileTimes };
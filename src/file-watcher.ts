@@ -0,0 +1,467 @@
+import GLib from "gi://GLib?version=2.0";
+import Gio from "gi://Gio?version=2.0";
+import { OptionsResolver } from "./option-resolver";
+import { OptValidators } from "./validators";
+
+type WatchEventType =
+  | "created"
+  | "changed"
+  | "deleted"
+  | "renamed"
+  | "attributes-changed";
+
+interface WatchEventBase<T extends WatchEventType> {
+  type: T;
+  /**
+   * Path of the affected file. For `renamed` events this is the path
+   * the file was renamed to.
+   */
+  path: string;
+}
+
+interface WatchCreatedEvent extends WatchEventBase<"created"> {}
+
+interface WatchChangedEvent extends WatchEventBase<"changed"> {}
+
+interface WatchDeletedEvent extends WatchEventBase<"deleted"> {}
+
+interface WatchAttributesChangedEvent
+  extends WatchEventBase<"attributes-changed"> {}
+
+interface WatchRenamedEvent extends WatchEventBase<"renamed"> {
+  /**
+   * Path of the file before it was renamed.
+   */
+  oldPath: string;
+}
+
+type WatchEvent =
+  | WatchCreatedEvent
+  | WatchChangedEvent
+  | WatchDeletedEvent
+  | WatchAttributesChangedEvent
+  | WatchRenamedEvent;
+
+type FileWatcherEventMap = {
+  [T in WatchEventType]: Extract<WatchEvent, { type: T }>;
+} & {
+  /**
+   * Emitted for every event, regardless of it's type.
+   */
+  event: WatchEvent;
+  /**
+   * Emitted once, after the watcher gets closed.
+   */
+  close: void;
+};
+
+type FileWatcherListener<E extends keyof FileWatcherEventMap> = (
+  event: FileWatcherEventMap[E],
+) => void;
+
+interface WatchOptions {
+  /**
+   * An instance of the AbortSignal class. Aborting it will close the
+   * watcher.
+   */
+  abortSignal?: AbortSignal;
+  /**
+   * Amount of milliseconds to wait for further changes before the
+   * events are emitted. Events that occur within that time window for
+   * the same file are coalesced, for example a file that was created
+   * and then changed will only produce a `created` event, and a file
+   * that was created and then deleted will not produce any events at
+   * all.
+   *
+   * When set to `0`, every event is emitted as soon as it's received.
+   *
+   * @default 0
+   */
+  debounce?: number;
+}
+
+const getPath = (file: Gio.File) =>
+  file.get_path() ?? file.get_uri()!;
+
+/**
+ * Merges two events that occurred on the same path into one. Returns
+ * `null` if the events cancel each other out.
+ */
+const coalesce = (
+  prev: WatchEvent,
+  next: WatchEvent,
+): WatchEvent | null => {
+  switch (prev.type) {
+    case "created":
+      if (next.type === "deleted") {
+        return null;
+      }
+      if (
+        next.type === "changed" ||
+        next.type === "attributes-changed"
+      ) {
+        return prev;
+      }
+      break;
+    case "deleted":
+      if (next.type === "created") {
+        return { type: "changed", path: next.path };
+      }
+      break;
+    case "changed":
+      if (next.type === "attributes-changed") {
+        return prev;
+      }
+      break;
+    case "attributes-changed":
+    case "renamed":
+      break;
+  }
+
+  return next;
+};
+
+/**
+ * A handle of a file or directory monitor. Events can be received
+ * either by adding listeners via the `on()` method or by iterating
+ * over the watcher with a `for await` loop.
+ *
+ * Watchers keep running until the `close()` method is called (or the
+ * given abort signal is aborted), breaking out of a `for await` loop
+ * does not close the watcher.
+ *
+ * @example
+ *   const watcher = Fs.watch("/path/to/dir", { debounce: 100 });
+ *
+ *   watcher.on("created", (e) => console.log("new file:", e.path));
+ *
+ *   for await (const event of watcher) {
+ *     console.log(event.type, event.path);
+ *   }
+ */
+class FileWatcher implements AsyncIterable<WatchEvent> {
+  static watch(file: Gio.File, options?: WatchOptions) {
+    return new FileWatcher(file, options);
+  }
+
+  private _monitor: Gio.FileMonitor;
+  private _handlerID: number;
+  private _debounce: number;
+  private _listeners = new Map<
+    keyof FileWatcherEventMap,
+    Set<FileWatcherListener<any>>
+  >();
+  private _pending = new Map<string, WatchEvent>();
+  private _timeoutID: number | null = null;
+  private _renameCounter = 0;
+  private _isClosed = false;
+
+  private constructor(
+    private gioFile: Gio.File,
+    options?: WatchOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const abortSignal = opt.get("abortSignal");
+
+    this._debounce = opt.get("debounce", 0);
+    this._monitor = this.gioFile.monitor(
+      Gio.FileMonitorFlags.WATCH_MOVES,
+      null,
+    );
+    this._handlerID = this._monitor.connect(
+      "changed",
+      (_, file, otherFile, eventType) => {
+        const event = this._parseEvent(file, otherFile, eventType);
+
+        if (event) {
+          this._dispatch(event);
+        }
+      },
+    );
+
+    if (abortSignal) {
+      if (abortSignal.aborted) {
+        this.close();
+      } else {
+        abortSignal.addEventListener("abort", () => this.close());
+      }
+    }
+  }
+
+  /**
+   * The underlying Gio.FileMonitor.
+   */
+  public get _gioMonitor() {
+    return this._monitor;
+  }
+
+  /**
+   * Path of the watched file or directory.
+   */
+  public get path() {
+    return getPath(this.gioFile);
+  }
+
+  public get isClosed() {
+    return this._isClosed;
+  }
+
+  private _parseEvent(
+    file: Gio.File,
+    otherFile: Gio.File | null,
+    eventType: Gio.FileMonitorEvent,
+  ): WatchEvent | undefined {
+    const path = getPath(file);
+
+    switch (eventType) {
+      case Gio.FileMonitorEvent.CREATED:
+      case Gio.FileMonitorEvent.MOVED_IN:
+        return { type: "created", path };
+      case Gio.FileMonitorEvent.CHANGED:
+        return { type: "changed", path };
+      case Gio.FileMonitorEvent.DELETED:
+      case Gio.FileMonitorEvent.MOVED_OUT:
+        return { type: "deleted", path };
+      case Gio.FileMonitorEvent.ATTRIBUTE_CHANGED:
+        return { type: "attributes-changed", path };
+      case Gio.FileMonitorEvent.RENAMED:
+      case Gio.FileMonitorEvent.MOVED:
+        if (otherFile) {
+          return {
+            type: "renamed",
+            path: getPath(otherFile),
+            oldPath: path,
+          };
+        }
+        return { type: "deleted", path };
+    }
+  }
+
+  private _dispatch(event: WatchEvent) {
+    if (this._isClosed) {
+      return;
+    }
+
+    if (this._debounce <= 0) {
+      this._emitEvent(event);
+      return;
+    }
+
+    this._enqueue(event);
+
+    if (this._timeoutID !== null) {
+      GLib.source_remove(this._timeoutID);
+    }
+
+    this._timeoutID = GLib.timeout_add(
+      GLib.PRIORITY_DEFAULT,
+      this._debounce,
+      () => {
+        this._timeoutID = null;
+        this._flush();
+        return GLib.SOURCE_REMOVE;
+      },
+    );
+  }
+
+  private _enqueue(event: WatchEvent) {
+    if (event.type === "renamed") {
+      const prev = this._pending.get(event.oldPath);
+
+      // a file created and then renamed within the same time window
+      // is reported as created under the new name
+      if (prev?.type === "created") {
+        this._pending.delete(event.oldPath);
+        this._enqueue({ type: "created", path: event.path });
+        return;
+      }
+
+      this._pending.set(`\0rename:${this._renameCounter++}`, event);
+      return;
+    }
+
+    const prev = this._pending.get(event.path);
+
+    if (!prev) {
+      this._pending.set(event.path, event);
+      return;
+    }
+
+    const merged = coalesce(prev, event);
+
+    if (merged) {
+      this._pending.set(event.path, merged);
+    } else {
+      this._pending.delete(event.path);
+    }
+  }
+
+  private _flush() {
+    const events = Array.from(this._pending.values());
+    this._pending.clear();
+
+    for (const event of events) {
+      this._emitEvent(event);
+    }
+  }
+
+  private _emitEvent(event: WatchEvent) {
+    this._emit(event.type, event);
+    this._emit("event", event);
+  }
+
+  private _emit<E extends keyof FileWatcherEventMap>(
+    type: E,
+    event: FileWatcherEventMap[E],
+  ) {
+    const listeners = this._listeners.get(type);
+
+    if (listeners) {
+      for (const listener of Array.from(listeners)) {
+        listener(event);
+      }
+    }
+  }
+
+  /**
+   * Adds a listener for the given event type.
+   */
+  public on<E extends keyof FileWatcherEventMap>(
+    type: E,
+    listener: FileWatcherListener<E>,
+  ) {
+    let listeners = this._listeners.get(type);
+
+    if (!listeners) {
+      listeners = new Set();
+      this._listeners.set(type, listeners);
+    }
+
+    listeners.add(listener);
+
+    return this;
+  }
+
+  /**
+   * Adds a listener for the given event type, that will be removed
+   * after it's called for the first time.
+   */
+  public once<E extends keyof FileWatcherEventMap>(
+    type: E,
+    listener: FileWatcherListener<E>,
+  ) {
+    const onceListener: FileWatcherListener<E> = (event) => {
+      this.off(type, onceListener);
+      listener(event);
+    };
+
+    return this.on(type, onceListener);
+  }
+
+  /**
+   * Removes a previously added listener.
+   */
+  public off<E extends keyof FileWatcherEventMap>(
+    type: E,
+    listener: FileWatcherListener<E>,
+  ) {
+    this._listeners.get(type)?.delete(listener);
+
+    return this;
+  }
+
+  /**
+   * Stops watching for changes. Any events that were not yet emitted
+   * due to the `debounce` option are discarded.
+   */
+  public close() {
+    if (this._isClosed) {
+      return;
+    }
+
+    this._isClosed = true;
+
+    if (this._timeoutID !== null) {
+      GLib.source_remove(this._timeoutID);
+      this._timeoutID = null;
+    }
+
+    this._pending.clear();
+    this._monitor.disconnect(this._handlerID);
+    this._monitor.cancel();
+
+    this._emit("close", undefined);
+    this._listeners.clear();
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterableIterator<WatchEvent> {
+    const queue: WatchEvent[] = [];
+    const waiting: Array<
+      (result: IteratorResult<WatchEvent, undefined>) => void
+    > = [];
+    let isDone = this._isClosed;
+
+    const onEvent = (event: WatchEvent) => {
+      const resolve = waiting.shift();
+
+      if (resolve) {
+        resolve({ value: event, done: false });
+      } else {
+        queue.push(event);
+      }
+    };
+
+    const onClose = () => {
+      isDone = true;
+      this.off("event", onEvent);
+      this.off("close", onClose);
+
+      for (const resolve of waiting.splice(0)) {
+        resolve({ value: undefined, done: true });
+      }
+    };
+
+    if (!isDone) {
+      this.on("event", onEvent);
+      this.on("close", onClose);
+    }
+
+    const iterator: AsyncIterableIterator<WatchEvent> = {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({
+            value: queue.shift()!,
+            done: false,
+          });
+        }
+
+        if (isDone) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: () => {
+        onClose();
+        queue.splice(0);
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+
+    return iterator;
+  }
+}
+
+export { FileWatcher };
+export type {
+  FileWatcherEventMap,
+  WatchAttributesChangedEvent,
+  WatchChangedEvent,
+  WatchCreatedEvent,
+  WatchDeletedEvent,
+  WatchEvent,
+  WatchEventType,
+  WatchOptions,
+  WatchRenamedEvent,
+};
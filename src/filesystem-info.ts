@@ -0,0 +1,92 @@
+import type Gio from "gi://Gio?version=2.0";
+import { InsufficientSpaceError } from "./errors";
+
+export class FilesystemInfo {
+  constructor(
+    public filepath: string,
+    public _gioInfo: Gio.FileInfo,
+  ) {}
+
+  /**
+   * The total size of the filesystem in bytes.
+   */
+  get totalSpace() {
+    return this._gioInfo.get_attribute_uint64("filesystem::size");
+  }
+
+  /**
+   * The number of bytes available to the current user on the
+   * filesystem.
+   */
+  get freeSpace() {
+    return this._gioInfo.get_attribute_uint64("filesystem::free");
+  }
+
+  /**
+   * The number of bytes used on the filesystem. If the filesystem
+   * doesn't report it, it's calculated from the total and free
+   * space.
+   */
+  get usedSpace() {
+    if (this._gioInfo.has_attribute("filesystem::used")) {
+      return this._gioInfo.get_attribute_uint64("filesystem::used");
+    }
+
+    return Math.max(this.totalSpace - this.freeSpace, 0);
+  }
+
+  /**
+   * The type of the filesystem (e.g. `ext4`, `btrfs` or `tmpfs`).
+   */
+  get type() {
+    return this._gioInfo.get_attribute_string("filesystem::type");
+  }
+
+  /**
+   * Whether the filesystem is mounted as read-only.
+   */
+  get isReadOnly() {
+    return this._gioInfo.get_attribute_boolean(
+      "filesystem::readonly",
+    );
+  }
+
+  /**
+   * Whether the filesystem is on a remote location (e.g. a network
+   * share).
+   */
+  get isRemote() {
+    return this._gioInfo.get_attribute_boolean("filesystem::remote");
+  }
+}
+
+/**
+ * Attributes queried for the `filesystemInfo()` method.
+ */
+export const FILESYSTEM_ATTRIBUTES = "filesystem::*";
+
+/**
+ * Throws an `InsufficientSpaceError` if the filesystem does not have
+ * the required number of bytes available. Filesystems that do not
+ * report their free space always pass the check.
+ */
+export const ensureFreeSpace = (
+  info: FilesystemInfo,
+  requiredBytes: number,
+  targetPath: string,
+) => {
+  if (!info._gioInfo.has_attribute("filesystem::free")) {
+    return;
+  }
+
+  const available = info.freeSpace;
+
+  if (available < requiredBytes) {
+    throw new InsufficientSpaceError(
+      `Not enough free space to write ${requiredBytes} bytes (${available} bytes available): ${targetPath}`,
+      targetPath,
+      requiredBytes,
+      available,
+    );
+  }
+};
@@ -37,6 +37,7 @@ export interface FileCopyFlagOptions {
   allMetadata?: boolean;
   /**
    * Don't use copy and delete fallback if native move not supported.
+   * This applies to both files and directories.
    */
   noFallbackForMove?: boolean;
   /**
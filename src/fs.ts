@@ -1,8 +1,51 @@
 import GLib from "gi://GLib?version=2.0";
 import Gio from "gi://Gio?version=2.0";
+import type { TarEntry } from "./archive";
+import {
+  createTarEntry,
+  encodeHeader,
+  getPadding,
+  getSafeEntryPath,
+  getTrailer,
+  TarParser,
+} from "./archive";
+import { createDecoder, encodeText } from "./charset";
+import type { CompressionFormat } from "./compression";
+import {
+  createCompressor,
+  createDecompressor,
+  DEFAULT_COMPRESSION_LEVEL,
+  discardReplaceStream,
+  splice,
+} from "./compression";
+import {
+  ContentTypeInfo,
+  guessContentType,
+  SNIFF_LENGTH,
+} from "./content-type";
+import type { CompareBy, DirDiffEntry } from "./dir-compare";
+import {
+  bytesEqual,
+  DirComparison,
+  getEntryKind,
+  pairEntries,
+} from "./dir-compare";
+import type { SyncDirProgress, SyncDirReport } from "./dir-sync";
+import { SyncDirTracker } from "./dir-sync";
+import type { DiskUsage, DiskUsageProgress } from "./disk-usage";
+import {
+  addTotals,
+  DiskUsageCounter,
+  emptyUsage,
+} from "./disk-usage";
+import { checkSyncProcess, spawnSyncProcess } from "./disk-sync";
 import type { Encoding } from "./encoding";
 import { FsError } from "./errors";
-import { FileInfo, getAttributes } from "./file-info";
+import {
+  FileInfo,
+  getAttributes,
+  getFileIdentity,
+} from "./file-info";
 import type {
   FileCopyFlagOptions,
   FileCreateFlagOptions,
@@ -13,21 +56,59 @@ import {
   getCreateFileFlag,
   getQueryFileFlag,
 } from "./flags";
+import type { LockOptions } from "./file-lock";
+import type { FileTimes } from "./file-times";
+import { createTimesInfo } from "./file-times";
+import { FileLock } from "./file-lock";
+import type { WatchOptions } from "./file-watcher";
+import { FileWatcher } from "./file-watcher";
+import {
+  ensureFreeSpace,
+  FILESYSTEM_ATTRIBUTES,
+  FilesystemInfo,
+} from "./filesystem-info";
+import { isGioIOError } from "./gio-error";
+import { GlobMatcher } from "./glob";
+import type { DigestEncoding, HashAlgorithm } from "./hash";
+import { encodeDigest, Hasher } from "./hash";
+import {
+  checkHardLinkProcess,
+  spawnHardLinkProcess,
+} from "./hard-link";
 import type { IOStreamOptions, IOStreamType } from "./io-stream";
 import { IOStream } from "./io-stream";
+import type { JsonReplacer, JsonReviver } from "./json";
+import { parseJson } from "./json";
 import { OptionsResolver } from "./option-resolver";
-import { isAbsolute, join } from "./path";
+import { parseFsError } from "./parse-fs-error";
+import { isAbsolute, join, normalize, relative } from "./path";
 import type { FilePermission } from "./permission-parser";
 import { parseFilePermission } from "./permission-parser";
+import type { PromiseApi } from "./promise";
 import { promise } from "./promise";
-import { SyncFs, sync } from "./sync-fs";
+import { sync } from "./sync";
+import { SyncFs } from "./sync-fs";
+import { TaskQueue } from "./task-queue";
+import type { TempOptions } from "./temp";
+import { TempDir, TempFile } from "./temp";
+import type { Newline } from "./text-decoding";
+import { IncrementalDecoder, LineSplitter } from "./text-decoding";
 import {
+  HashOptValidators,
   OptValidators,
   validateBytes,
   validateNumber,
   validatePermissions,
   validateText,
 } from "./validators";
+import {
+  createXattrInfo,
+  getXattrAttribute,
+  listXattrNames,
+  readXattrValue,
+  USER_XATTR_ATTRIBUTES,
+  XATTR_ATTRIBUTES,
+} from "./xattr";
 
 type Tail<T extends any[]> = T extends [any, ...infer U] ? U : [];
 
@@ -76,6 +157,177 @@ interface ListDirOptions extends Mixin<[ListFilenamesOptions]> {
   attributes?: string[];
 }
 
+interface WalkOptions extends Mixin<[ListDirOptions]> {
+  /**
+   * How deep into the directory tree the walker should descend. Value
+   * of `1` means only the direct children of the given directory will
+   * be visited.
+   *
+   * @default Infinity
+   */
+  maxDepth?: number;
+  /**
+   * Determines when directories are yielded in relation to their
+   * contents.
+   *
+   * - `pre` - a directory is yielded before any of it's children.
+   * - `post` - a directory is yielded after all of it's children.
+   *
+   * @default "pre"
+   */
+  order?: "pre" | "post";
+  /**
+   * A callback that decides which entries should be yielded. If it
+   * returns `false` for a directory, the walker will not descend into
+   * that directory.
+   */
+  filter?: (file: FileInfo) => boolean;
+}
+
+interface CompareDirsOptions
+  extends Mixin<
+    [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
+  > {
+  /**
+   * Determines how the files present in both directories are checked
+   * for modifications.
+   *
+   * - `metadata` - files are identical if their sizes and modification
+   *   times are the same.
+   * - `hash` - files are identical if their SHA-256 checksums are the
+   *   same.
+   * - `content` - files are compared byte by byte.
+   *
+   * Symlinks are compared by their targets, unless `followSymlinks`
+   * is enabled.
+   *
+   * @default "metadata"
+   */
+  compareBy?: CompareBy;
+}
+
+interface SyncDirOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * Determines how the files present in both directories are checked
+   * for changes, the same way as in the `compareDirs()` method.
+   *
+   * @default "metadata"
+   */
+  compareBy?: CompareBy;
+  /**
+   * When enabled, entries in the destination that do not exist in the
+   * source are deleted.
+   *
+   * @default false
+   */
+  deleteExtraneous?: boolean;
+  /**
+   * When enabled, nothing is changed on the disk, and the returned
+   * report only describes what would have been done.
+   *
+   * @default false
+   */
+  dryRun?: boolean;
+  /**
+   * Glob patterns of the entries that should be left untouched, in
+   * both the source and the destination. Patterns are matched against
+   * the paths relative to the synchronized directories, e.g.
+   * `["cache", "logs/*.log"]`.
+   */
+  exclude?: string | string[];
+  /**
+   * Maximum number of entries that are copied or deleted at the same
+   * time.
+   *
+   * @default 8
+   */
+  concurrency?: number;
+  /**
+   * A callback that will be called after each of the entries is
+   * processed.
+   */
+  onProgress?: (progress: SyncDirProgress) => void;
+}
+
+interface CreateTarOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * Size (in bytes) of the chunks in which the archived files are
+   * read.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+}
+
+interface ExtractTarOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * Size (in bytes) of the chunks in which the archive is read.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+  /**
+   * When enabled, the owner and group of the extracted entries are
+   * set to the ones stored in the archive. Usually this requires root
+   * privileges.
+   *
+   * @default false
+   */
+  preserveOwnership?: boolean;
+}
+
+interface DecompressFileOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * Format of the compressed data.
+   *
+   * @default "gzip"
+   */
+  format?: CompressionFormat;
+}
+
+interface CompressFileOptions extends Mixin<[DecompressFileOptions]> {
+  /**
+   * Compression level, from 0 (no compression) to 9 (best
+   * compression), or -1 for the zlib default.
+   *
+   * @default -1
+   */
+  level?: number;
+}
+
+interface ReadGzipFileOptions
+  extends Mixin<[DecompressFileOptions]> {}
+
+interface WriteGzipFileOptions extends Mixin<[CompressFileOptions]> {}
+
+interface GlobOptions extends Mixin<[ListDirOptions]> {
+  /**
+   * Directory against which the patterns are matched. All the
+   * returned paths are relative to this directory.
+   *
+   * @default The current working directory.
+   */
+  root?: string;
+  /**
+   * When enabled, wildcards will also match files and directories
+   * with names starting with a dot.
+   *
+   * @default false
+   */
+  dot?: boolean;
+  /**
+   * When enabled, FileInfo objects of the matched entries will be
+   * returned instead of the relative paths.
+   *
+   * @default false
+   */
+  withFileInfo?: boolean;
+}
+
 interface FileInfoOptions
   extends Mixin<
     [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
@@ -88,6 +340,68 @@ interface FileInfoOptions
   attributes?: string[];
 }
 
+interface FilesystemInfoOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {}
+
+interface DetectTypeOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {}
+
+interface HmacOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * The format of the returned digest.
+   *
+   * @default "hex"
+   */
+  encoding?: DigestEncoding;
+  /**
+   * Size (in bytes) of the chunks in which the file is read.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+  /**
+   * A callback that will be called after each chunk of the file is
+   * processed.
+   */
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+}
+
+interface HashOptions extends Mixin<[HmacOptions]> {
+  /**
+   * The hashing algorithm to use.
+   *
+   * @default "sha256"
+   */
+  algorithm?: HashAlgorithm;
+}
+
+interface DiskUsageOptions
+  extends Mixin<
+    [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
+  > {
+  /**
+   * How many levels of the directory tree should be included in the
+   * per-child breakdown (the `children` property). Value of `0` means
+   * no breakdown, `1` means only the direct children of the given
+   * directory.
+   *
+   * @default 0
+   */
+  depth?: number;
+  /**
+   * Maximum number of directories that are read at the same time.
+   *
+   * @default 8
+   */
+  concurrency?: number;
+  /**
+   * A callback that's called after each entry is measured, with the
+   * running totals.
+   */
+  onProgress?: (progress: DiskUsageProgress) => void;
+}
+
 interface FileExistsOptions
   extends Mixin<
     [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
@@ -95,6 +409,27 @@ interface FileExistsOptions
 
 interface ReadFileOptions extends Mixin<[FsOperationOptions]> {}
 
+interface ReadStreamOptions
+  extends Mixin<[ReadFileOptions, IOOperationOptions]> {
+  /**
+   * Maximum size (in bytes) of each of the yielded chunks.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+  /**
+   * Byte offset from which the reading should start.
+   *
+   * @default 0
+   */
+  start?: number;
+  /**
+   * Byte offset at which the reading should stop (exclusive). If not
+   * specified, the file is read until the end.
+   */
+  end?: number;
+}
+
 interface ReadTextFileOptions extends Mixin<[ReadFileOptions]> {
   /**
    * The encoding to use when reading the file.
@@ -104,6 +439,45 @@ interface ReadTextFileOptions extends Mixin<[ReadFileOptions]> {
   encoding?: Encoding;
 }
 
+interface ReadLinesOptions
+  extends Mixin<[ReadTextFileOptions, IOOperationOptions]> {
+  /**
+   * Line endings that the file should be split on. When set to `any`,
+   * each of the `\n`, `\r\n` and `\r` is treated as a line ending.
+   *
+   * @default "any"
+   */
+  newline?: Newline;
+  /**
+   * When enabled, the line endings are kept at the end of each
+   * yielded line.
+   *
+   * @default false
+   */
+  keepEnds?: boolean;
+}
+
+interface ReadJsonOptions extends Mixin<[ReadTextFileOptions]> {
+  /**
+   * A function that transforms the parsed values, it's passed
+   * directly to the `JSON.parse()`.
+   */
+  reviver?: JsonReviver;
+  /**
+   * A callback that checks if the parsed value has the expected
+   * shape. If it returns `false`, the operation fails. When a type
+   * guard is given, the returned value type is narrowed accordingly.
+   */
+  validate?: (value: unknown) => boolean;
+  /**
+   * When enabled, the file is parsed as JSONC, meaning comments and
+   * trailing commas are allowed.
+   *
+   * @default false
+   */
+  jsonc?: boolean;
+}
+
 interface WriteFileOptions
   extends Mixin<
     [FsOperationOptions, IOOperationOptions, FileCreateFlagOptions]
@@ -117,16 +491,81 @@ interface WriteFileOptions
    * file, with the same name, but with a "~" appended at the end.
    */
   makeBackup?: boolean;
+  /**
+   * When enabled, the contents are first written to a temporary file
+   * in the same directory, which is then renamed over the target
+   * file. Readers will always see either the old or the new contents
+   * of the file, never a partially written one.
+   *
+   * Permissions of the replaced file are preserved. If the target is
+   * a symlink, the file it points to is replaced, unless the
+   * `replace` option is enabled.
+   */
+  atomic?: boolean;
+  /**
+   * When enabled, the file and it's parent directory are synced to
+   * the disk before this operation finishes, which guarantees that
+   * the written contents will survive a system crash.
+   *
+   * In case of atomic writes, the temporary file is synced before
+   * it's renamed over the target file, and the directory after that.
+   *
+   * Gio does not provide a way to sync files, so this is done with
+   * the `sync` command, which has to be available.
+   */
+  durable?: boolean;
+  /**
+   * When enabled, the free space of the destination filesystem is
+   * checked before writing, and the operation fails with an
+   * `InsufficientSpaceError` if there's not enough of it.
+   *
+   * The space that would be freed by replacing an existing file is
+   * not taken into account.
+   */
+  checkFreeSpace?: boolean;
 }
 
 interface AppendFileOptions
   extends Mixin<
-    [WriteFileOptions, IOOperationOptions, FileCreateFlagOptions]
+    [
+      Omit<WriteFileOptions, "atomic" | "durable" | "checkFreeSpace">,
+      IOOperationOptions,
+      FileCreateFlagOptions,
+    ]
   > {}
 
-interface AppendTextFileOptions extends Mixin<[AppendFileOptions]> {}
+interface AppendTextFileOptions extends Mixin<[AppendFileOptions]> {
+  /**
+   * The encoding to use when writing the file.
+   *
+   * @default "utf-8"
+   */
+  encoding?: Encoding;
+}
+
+interface WriteTextFileOptions extends Mixin<[WriteFileOptions]> {
+  /**
+   * The encoding to use when writing the file.
+   *
+   * @default "utf-8"
+   */
+  encoding?: Encoding;
+}
 
-interface WriteTextFileOptions extends Mixin<[WriteFileOptions]> {}
+interface WriteJsonOptions extends Mixin<[WriteTextFileOptions]> {
+  /**
+   * Indentation used in the written JSON, either as the number of
+   * spaces or the string used for a single level of indentation.
+   *
+   * @default 2
+   */
+  indent?: number | string;
+  /**
+   * A function that transforms the values before they are serialized,
+   * it's passed directly to the `JSON.stringify()`.
+   */
+  replacer?: JsonReplacer;
+}
 
 interface MoveFileOptions
   extends Mixin<
@@ -144,7 +583,60 @@ interface MoveFileOptions
 }
 
 interface CopyFileOptions
-  extends Mixin<[MoveFileOptions, FileCopyFlagOptions]> {}
+  extends Mixin<[MoveFileOptions, FileCopyFlagOptions]> {
+  /**
+   * When enabled, if the source is a directory, the whole directory
+   * tree will be copied. Each entry within the tree is copied with
+   * the same flag options as the top-level call.
+   */
+  recursive?: boolean;
+  /**
+   * A callback that decides which entries of a directory tree should
+   * be copied. It's called for every entry found in the source
+   * directory, if it returns `false` the entry (and in case of
+   * directories, everything inside it) will be skipped.
+   *
+   * Only used when `recursive` is enabled.
+   */
+  filter?: (file: FileInfo) => boolean;
+  /**
+   * Determines what to do when a directory that's being copied
+   * already exists at the destination.
+   *
+   * - `merge` - copy the source entries into the existing directory,
+   *   keeping any entries that are not present in the source.
+   * - `replace` - delete the existing directory before copying.
+   *
+   * Only used when `recursive` is enabled.
+   *
+   * @default "merge"
+   */
+  dirConflictPolicy?: "merge" | "replace";
+  /**
+   * Maximum number of files that are copied at the same time.
+   *
+   * Only used when `recursive` is enabled.
+   *
+   * @default 8
+   */
+  concurrency?: number;
+  /**
+   * When enabled, the free space of the destination filesystem is
+   * checked before copying, and the operation fails with an
+   * `InsufficientSpaceError` if there's not enough of it.
+   *
+   * When copying a directory, the size of the whole source tree is
+   * required, including the entries skipped by the `filter`.
+   */
+  checkFreeSpace?: boolean;
+  /**
+   * When enabled, the `user.*` extended attributes of the source are
+   * copied over to the destination (of every entry, when copying
+   * recursively). Other extended attributes are only copied with the
+   * `allMetadata` option, if the filesystem supports it.
+   */
+  copyXattrs?: boolean;
+}
 
 interface DeleteFileOptions
   extends Mixin<
@@ -163,11 +655,46 @@ interface DeleteFileOptions
 }
 
 interface MakeDirOptions
-  extends Mixin<[FsOperationOptions, IOOperationOptions]> {}
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * When enabled, any missing parent directories will be created as
+   * well, and no error will be thrown if the directory already
+   * exists.
+   */
+  recursive?: boolean;
+  /**
+   * UNIX permissions that will be set on every created directory.
+   * Accepts the same formats as the `chmod()` method.
+   */
+  mode?: FilePermission;
+}
 
 interface MakeLinkOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * When enabled, the link will point to the target using a path
+   * relative to the directory containing the link, which keeps it
+   * working when the whole tree is moved elsewhere. Existing paths
+   * are resolved with `realPath()` first, like `ln -r` does.
+   *
+   * @default false
+   */
+  relative?: boolean;
+}
+
+interface MakeHardLinkOptions extends Mixin<[FsOperationOptions]> {}
+
+interface ReadLinkOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {}
+
+interface RealPathOptions
   extends Mixin<[FsOperationOptions, IOOperationOptions]> {}
 
+interface FindBrokenLinksOptions
+  extends Mixin<
+    [Omit<WalkOptions, "followSymlinks" | "order" | "attributes">]
+  > {}
+
 interface ChmodOptions
   extends Mixin<
     [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
@@ -178,6 +705,39 @@ interface ChownOptions
     [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
   > {}
 
+interface SetTimesOptions
+  extends Mixin<[FsOperationOptions, IOOperationOptions]> {
+  /**
+   * When enabled and the path points to a symlink, the times of the
+   * file the link points to are changed, instead of the link itself.
+   *
+   * @default true
+   */
+  followSymlinks?: boolean;
+}
+
+interface TouchOptions extends Mixin<[SetTimesOptions]> {}
+
+interface GetXattrOptions
+  extends Mixin<
+    [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
+  > {}
+
+interface SetXattrOptions
+  extends Mixin<
+    [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
+  > {}
+
+interface RemoveXattrOptions
+  extends Mixin<
+    [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
+  > {}
+
+interface ListXattrsOptions
+  extends Mixin<
+    [FsOperationOptions, IOOperationOptions, FileQueryFlagOptions]
+  > {}
+
 interface FsOptions {
   /**
    * Path to a directory which will be used as a base for all calls on
@@ -192,6 +752,9 @@ interface FsOptions {
 }
 
 const DEFAULT_BATCH_SIZE = 16;
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const DEFAULT_CONCURRENCY = 8;
+const MAX_SYMLINK_DEPTH = 40;
 
 class Fs {
   // #region Static
@@ -237,50 +800,339 @@ class Fs {
   }
 
   /**
-   * Gets information about a specific file or directory.
+   * Recursively walks the directory tree under the given path,
+   * yielding a FileInfo object for each entry found.
+   *
+   * When `followSymlinks` is enabled, each directory is visited at
+   * most once, which prevents symlink cycles from looping forever.
    */
-  public static fileInfo(path: string, options?: FileInfoOptions) {
-    return Fs.globalInstance.fileInfo(path, options);
+  public static walk(path: string, options?: WalkOptions) {
+    return Fs.globalInstance.walk(path, options);
   }
 
   /**
-   * Reads the content of a file under the given path.
+   * Finds all the files and directories matching the given glob
+   * pattern (or patterns). Patterns starting with a `!` exclude the
+   * matching entries from the result.
    *
-   * @returns A Promise with a byte array of the contents.
+   * Directories that cannot contain any matching entries are not
+   * traversed.
    */
-  public static readFile(path: string, options?: ReadFileOptions) {
-    return Fs.globalInstance.readFile(path, options);
+  public static glob(
+    pattern: string | string[],
+    options: GlobOptions & { withFileInfo: true },
+  ): Promise<FileInfo[]>;
+  public static glob(
+    pattern: string | string[],
+    options?: GlobOptions,
+  ): Promise<string[]>;
+  public static glob(
+    pattern: string | string[],
+    options?: GlobOptions,
+  ): Promise<Array<string | FileInfo>> {
+    return Fs.globalInstance.glob(pattern, options);
   }
 
   /**
-   * Reads the content of a file under the given path using the
-   * `readFile()` method and decodes that content to string using the
-   * given encoding.
+   * Compares the two directory trees and yields an entry for each
+   * difference found, and for each identical file. Directories that
+   * exist on both sides are not yielded themselves, only their
+   * contents are.
    */
-  public static readTextFile(
-    path: string,
-    options?: ReadTextFileOptions,
+  public static diffDirs(
+    left: string,
+    right: string,
+    options?: CompareDirsOptions,
   ) {
-    return Fs.globalInstance.readTextFile(path, options);
+    return Fs.globalInstance.diffDirs(left, right, options);
   }
 
   /**
-   * Writes the given data to a file under the given path.
+   * Compares the two directory trees and returns a summary of the
+   * differences, with the relative paths of the entries grouped by
+   * the type of difference.
    */
-  public static writeFile(
-    path: string,
-    data: Uint8Array,
-    options?: WriteFileOptions,
+  public static compareDirs(
+    left: string,
+    right: string,
+    options?: CompareDirsOptions,
   ) {
-    return Fs.globalInstance.writeFile(path, data, options);
+    return Fs.globalInstance.compareDirs(left, right, options);
   }
 
   /**
-   * Encodes given string into a byte array (UTF-8), and writes that
-   * data to a file under the given path using the `writeFile()`
-   * method.
+   * Synchronizes the destination directory with the source directory,
+   * similarly to `rsync -a`. Only the files that are missing or have
+   * changed are copied, along with their mode, timestamps and
+   * `user.*` extended attributes. Symlinks are copied as symlinks.
+   *
+   * @returns A report of what was copied, updated, deleted and
+   *   skipped, with paths relative to the synchronized directories.
    */
-  public static writeTextFile(
+  public static syncDir(
+    src: string,
+    dest: string,
+    options?: SyncDirOptions,
+  ) {
+    return Fs.globalInstance.syncDir(src, dest, options);
+  }
+
+  /**
+   * Creates a tar archive with the contents of the given directory.
+   * The archive is written as a stream, without loading the archived
+   * files into memory.
+   */
+  public static createTar(
+    srcDir: string,
+    dest: string,
+    options?: CreateTarOptions,
+  ) {
+    return Fs.globalInstance.createTar(srcDir, dest, options);
+  }
+
+  /**
+   * Extracts the given tar archive into the destination directory.
+   * The archive is read as a stream, without loading it into memory.
+   */
+  public static extractTar(
+    archive: string,
+    destDir: string,
+    options?: ExtractTarOptions,
+  ) {
+    return Fs.globalInstance.extractTar(archive, destDir, options);
+  }
+
+  /**
+   * Compresses the given file into the destination file, in the gzip
+   * format unless specified otherwise. The file is compressed as a
+   * stream, without loading it into memory.
+   */
+  public static compressFile(
+    src: string,
+    dest: string,
+    options?: CompressFileOptions,
+  ) {
+    return Fs.globalInstance.compressFile(src, dest, options);
+  }
+
+  /**
+   * Decompresses the given gzip compressed file (or zlib, or raw
+   * deflate, depending on the `format` option) into the destination
+   * file, as a stream.
+   */
+  public static decompressFile(
+    src: string,
+    dest: string,
+    options?: DecompressFileOptions,
+  ) {
+    return Fs.globalInstance.decompressFile(src, dest, options);
+  }
+
+  /**
+   * Reads the gzip compressed file under the given path, and returns
+   * the decompressed content.
+   */
+  public static readGzipFile(
+    path: string,
+    options?: ReadGzipFileOptions,
+  ) {
+    return Fs.globalInstance.readGzipFile(path, options);
+  }
+
+  /**
+   * Compresses the given data in the gzip format and writes it to a
+   * file under the given path.
+   */
+  public static writeGzipFile(
+    path: string,
+    contents: Uint8Array,
+    options?: WriteGzipFileOptions,
+  ) {
+    return Fs.globalInstance.writeGzipFile(path, contents, options);
+  }
+
+  /**
+   * Starts watching the given file or directory for changes. When
+   * watching a directory, only changes of it's direct children are
+   * reported.
+   *
+   * Returned watcher must be closed via the `close()` method once
+   * it's no longer needed.
+   */
+  public static watch(path: string, options?: WatchOptions) {
+    return Fs.globalInstance.watch(path, options);
+  }
+
+  /**
+   * Gets information about a specific file or directory.
+   */
+  public static fileInfo(path: string, options?: FileInfoOptions) {
+    return Fs.globalInstance.fileInfo(path, options);
+  }
+
+  /**
+   * Gets information about the filesystem the given file or directory
+   * is on, like it's type, total size and free space.
+   */
+  public static filesystemInfo(
+    path: string,
+    options?: FilesystemInfoOptions,
+  ) {
+    return Fs.globalInstance.filesystemInfo(path, options);
+  }
+
+  /**
+   * Detects the content type of the given file, or of the given
+   * bytes, by looking at the leading bytes of the content. The file
+   * extension is only used when the content alone is not conclusive.
+   */
+  public static detectType(
+    pathOrBytes: string | Uint8Array,
+    options?: DetectTypeOptions,
+  ) {
+    return Fs.globalInstance.detectType(pathOrBytes, options);
+  }
+
+  /**
+   * Computes the checksum of the given file. The file is read in
+   * chunks, so the memory usage does not depend on the file size.
+   */
+  public static hash(
+    path: string,
+    options: HashOptions & { encoding: "bytes" },
+  ): Promise<Uint8Array>;
+  public static hash(
+    path: string,
+    options?: HashOptions,
+  ): Promise<string>;
+  public static hash(
+    path: string,
+    options?: HashOptions,
+  ): Promise<string | Uint8Array> {
+    return Fs.globalInstance.hash(path, options);
+  }
+
+  /**
+   * Computes the HMAC of the given file using the given key. The file
+   * is read in chunks, so the memory usage does not depend on the
+   * file size.
+   */
+  public static hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm: HashAlgorithm | undefined,
+    options: HmacOptions & { encoding: "bytes" },
+  ): Promise<Uint8Array>;
+  public static hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: HmacOptions,
+  ): Promise<string>;
+  public static hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: HmacOptions,
+  ): Promise<string | Uint8Array> {
+    return Fs.globalInstance.hmac(path, key, algorithm, options);
+  }
+
+  /**
+   * Calculates the disk space used by the given file or directory
+   * tree, similarly to the `du` command. Files with multiple hard
+   * links are only counted once.
+   */
+  public static diskUsage(path: string, options?: DiskUsageOptions) {
+    return Fs.globalInstance.diskUsage(path, options);
+  }
+
+  /**
+   * Reads the content of a file under the given path.
+   *
+   * @returns A Promise with a byte array of the contents.
+   */
+  public static readFile(path: string, options?: ReadFileOptions) {
+    return Fs.globalInstance.readFile(path, options);
+  }
+
+  /**
+   * Reads the content of a file under the given path in chunks,
+   * without loading the whole file into memory.
+   *
+   * The underlying stream is closed once all the chunks are read, an
+   * error occurs or the iteration is stopped early (e.g. via
+   * `break`).
+   */
+  public static readStream(
+    path: string,
+    options?: ReadStreamOptions,
+  ) {
+    return Fs.globalInstance.readStream(path, options);
+  }
+
+  /**
+   * Reads the content of a file under the given path using the
+   * `readFile()` method and decodes that content to string using the
+   * given encoding.
+   */
+  public static readTextFile(
+    path: string,
+    options?: ReadTextFileOptions,
+  ) {
+    return Fs.globalInstance.readTextFile(path, options);
+  }
+
+  /**
+   * Reads the file under the given path line by line, decoding it
+   * with the given encoding. The file is read in chunks, so only a
+   * small part of it is kept in memory at any time.
+   */
+  public static readLines(path: string, options?: ReadLinesOptions) {
+    return Fs.globalInstance.readLines(path, options);
+  }
+
+  /**
+   * Reads the file under the given path using the `readTextFile()`
+   * method and parses it's content as JSON.
+   *
+   * Syntax errors are thrown as a `JsonParseError`, which contains
+   * the line and column at which the error occurred.
+   */
+  public static readJson<T>(
+    path: string,
+    options: ReadJsonOptions & {
+      validate: (value: unknown) => value is T;
+    },
+  ): Promise<T>;
+  public static readJson(
+    path: string,
+    options?: ReadJsonOptions,
+  ): Promise<unknown>;
+  public static readJson(
+    path: string,
+    options?: ReadJsonOptions,
+  ): Promise<unknown> {
+    return Fs.globalInstance.readJson(path, options);
+  }
+
+  /**
+   * Writes the given data to a file under the given path.
+   */
+  public static writeFile(
+    path: string,
+    data: Uint8Array,
+    options?: WriteFileOptions,
+  ) {
+    return Fs.globalInstance.writeFile(path, data, options);
+  }
+
+  /**
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and writes that data to a file under the
+   * given path using the `writeFile()` method.
+   */
+  public static writeTextFile(
     path: string,
     data: string,
     options?: WriteTextFileOptions,
@@ -288,6 +1140,18 @@ class Fs {
     return Fs.globalInstance.writeTextFile(path, data, options);
   }
 
+  /**
+   * Serializes the given value to JSON and writes it to a file under
+   * the given path using the `writeTextFile()` method.
+   */
+  public static writeJson(
+    path: string,
+    value: unknown,
+    options?: WriteJsonOptions,
+  ) {
+    return Fs.globalInstance.writeJson(path, value, options);
+  }
+
   /**
    * Appends the given data to a file under the given path.
    */
@@ -300,9 +1164,9 @@ class Fs {
   }
 
   /**
-   * Encodes given string into a byte array (UTF-8), and appends that
-   * data to a file under the given path using the `appendFile()`
-   * method.
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and appends that data to a file under the
+   * given path using the `appendFile()` method.
    */
   public static appendTextFile(
     path: string,
@@ -314,6 +1178,10 @@ class Fs {
 
   /**
    * Moves a file or directory from one path to another.
+   *
+   * If a directory cannot be moved natively (e.g. when moving across
+   * filesystem boundaries), it will be copied recursively and then
+   * deleted, unless `noFallbackForMove` is set to `true`.
    */
   public static moveFile(
     source: string,
@@ -336,6 +1204,9 @@ class Fs {
 
   /**
    * Copies a file or directory from one path to another.
+   *
+   * If `recursive` is set to `true` and the source is a directory,
+   * the whole directory tree will be copied.
    */
   public static copyFile(
     source: string,
@@ -360,6 +1231,9 @@ class Fs {
 
   /**
    * Creates a new directory under the given path.
+   *
+   * If `recursive` is set to `true`, all missing parent directories
+   * will be created as well.
    */
   public static makeDir(path: string, options?: MakeDirOptions) {
     return Fs.globalInstance.makeDir(path, options);
@@ -382,6 +1256,82 @@ class Fs {
     return Fs.globalInstance.makeLink(linkPath, pointingTo, options);
   }
 
+  /**
+   * Creates a hard link under the path given in the first parameter,
+   * to the existing file given as the second parameter. Both paths
+   * must be on the same filesystem.
+   *
+   * @param linkPath The path to the new link.
+   * @param existingPath The file the link should point to.
+   * @param options Options for the operation.
+   */
+  public static makeHardLink(
+    linkPath: string,
+    existingPath: string,
+    options?: MakeHardLinkOptions,
+  ) {
+    return Fs.globalInstance.makeHardLink(
+      linkPath,
+      existingPath,
+      options,
+    );
+  }
+
+  /**
+   * Reads the target of a symbolic link, exactly as it's stored in
+   * the link (it can be a relative path).
+   */
+  public static readLink(path: string, options?: ReadLinkOptions) {
+    return Fs.globalInstance.readLink(path, options);
+  }
+
+  /**
+   * Resolves the given path to an absolute path that contains no
+   * symbolic links and no `.` or `..` components. Fails if any of the
+   * path components does not exist, or if there are too many levels
+   * of symbolic links (e.g. a symlink loop).
+   */
+  public static realPath(path: string, options?: RealPathOptions) {
+    return Fs.globalInstance.realPath(path, options);
+  }
+
+  /**
+   * Recursively searches the given directory for symbolic links that
+   * point to files that do not exist.
+   *
+   * @returns A Promise with paths of all the broken links found.
+   */
+  public static findBrokenLinks(
+    path: string,
+    options?: FindBrokenLinksOptions,
+  ) {
+    return Fs.globalInstance.findBrokenLinks(path, options);
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary file and opens it for
+   * reading and writing. The file is removed once the returned handle
+   * is disposed of.
+   *
+   * @example
+   *   await using tmp = await Fs.makeTempFile({ suffix: ".json" });
+   */
+  public static makeTempFile(options?: TempOptions) {
+    return Fs.globalInstance.makeTempFile(options);
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary directory. The directory
+   * and all of it's contents are removed once the returned handle is
+   * disposed of.
+   *
+   * @example
+   *   await using tmp = await Fs.makeTempDir({ prefix: "build-" });
+   */
+  public static makeTempDir(options?: TempOptions) {
+    return Fs.globalInstance.makeTempDir(options);
+  }
+
   /**
    * Changes the UNIX permissions of a file or directory.
    *
@@ -412,6 +1362,108 @@ class Fs {
     return Fs.globalInstance.chown(path, uid, gid, options);
   }
 
+  /**
+   * Changes the access and/or modification times of a file or
+   * directory. Times can be given as Date objects or as milliseconds
+   * since the UNIX epoch, with a microsecond precision.
+   */
+  public static setTimes(
+    path: string,
+    times: FileTimes,
+    options?: SetTimesOptions,
+  ) {
+    return Fs.globalInstance.setTimes(path, times, options);
+  }
+
+  /**
+   * Sets the access and modification times of a file to the current
+   * time, creating an empty file if it doesn't exist (like the
+   * `touch` command).
+   */
+  public static touch(path: string, options?: TouchOptions) {
+    return Fs.globalInstance.touch(path, options);
+  }
+
+  /**
+   * Reads the value of an extended attribute of a file or directory.
+   * Names must include the namespace prefix, e.g. `user.tags`.
+   *
+   * @returns A Promise with the value as a byte array, or `null` if
+   *   the attribute is not set.
+   */
+  public static getXattr(
+    path: string,
+    name: string,
+    options?: GetXattrOptions,
+  ) {
+    return Fs.globalInstance.getXattr(path, name, options);
+  }
+
+  /**
+   * Sets the value of an extended attribute of a file or directory.
+   * String values are encoded as UTF-8.
+   */
+  public static setXattr(
+    path: string,
+    name: string,
+    value: Uint8Array | string,
+    options?: SetXattrOptions,
+  ) {
+    return Fs.globalInstance.setXattr(path, name, value, options);
+  }
+
+  /**
+   * Removes an extended attribute from a file or directory.
+   */
+  public static removeXattr(
+    path: string,
+    name: string,
+    options?: RemoveXattrOptions,
+  ) {
+    return Fs.globalInstance.removeXattr(path, name, options);
+  }
+
+  /**
+   * Lists the names of all the extended attributes of a file or
+   * directory that the current user can read.
+   */
+  public static listXattrs(
+    path: string,
+    options?: ListXattrsOptions,
+  ) {
+    return Fs.globalInstance.listXattrs(path, options);
+  }
+
+  /**
+   * Acquires an advisory lock on the given file, waiting for it to
+   * become available if it's held by another process. The lock must
+   * be released by calling the `release()` method on the returned
+   * handle.
+   *
+   * @example
+   *   await using lock = await Fs.lock("/path/to/state.json", {
+   *     timeout: 5000,
+   *   });
+   */
+  public static lock(path: string, options?: LockOptions) {
+    return Fs.globalInstance.lock(path, options);
+  }
+
+  /**
+   * Acquires a lock on the given file, calls the given function and
+   * releases the lock once the function returns (or the promise
+   * returned by it settles).
+   *
+   * @returns A Promise with the value returned by the function.
+   */
+  public static withLock<T>(
+    path: string,
+    fn: (lock: FileLock) => T | Promise<T>,
+    options?: LockOptions,
+  ) {
+    return Fs.globalInstance.withLock(path, fn, options);
+  }
+
   /**
    * Creates a new IOStream instance.
    *
@@ -443,10 +1495,31 @@ class Fs {
     this.fileExists = this.fileExists.bind(this);
     this.listDir = this.listDir.bind(this);
     this.listFilenames = this.listFilenames.bind(this);
+    this.walk = this.walk.bind(this);
+    this.glob = this.glob.bind(this);
+    this.diffDirs = this.diffDirs.bind(this);
+    this.compareDirs = this.compareDirs.bind(this);
+    this.syncDir = this.syncDir.bind(this);
+    this.createTar = this.createTar.bind(this);
+    this.extractTar = this.extractTar.bind(this);
+    this.compressFile = this.compressFile.bind(this);
+    this.decompressFile = this.decompressFile.bind(this);
+    this.watch = sync("watch", this.watch.bind(this));
     this.fileInfo = this.fileInfo.bind(this);
+    this.filesystemInfo = this.filesystemInfo.bind(this);
+    this.detectType = this.detectType.bind(this);
+    this.hash = this.hash.bind(this);
+    this.hmac = this.hmac.bind(this);
+    this.diskUsage = this.diskUsage.bind(this);
     this.readFile = this.readFile.bind(this);
+    this.readStream = this.readStream.bind(this);
+    this.readGzipFile = this.readGzipFile.bind(this);
+    this.readLines = this.readLines.bind(this);
+    this.readJson = this.readJson.bind(this);
     this.readTextFile = this.readTextFile.bind(this);
     this.writeFile = this.writeFile.bind(this);
+    this.writeJson = this.writeJson.bind(this);
+    this.writeGzipFile = this.writeGzipFile.bind(this);
     this.writeTextFile = this.writeTextFile.bind(this);
     this.appendFile = this.appendFile.bind(this);
     this.appendTextFile = this.appendTextFile.bind(this);
@@ -456,8 +1529,22 @@ class Fs {
     this.deleteFile = this.deleteFile.bind(this);
     this.makeDir = this.makeDir.bind(this);
     this.makeLink = this.makeLink.bind(this);
+    this.makeHardLink = this.makeHardLink.bind(this);
+    this.readLink = this.readLink.bind(this);
+    this.realPath = this.realPath.bind(this);
+    this.findBrokenLinks = this.findBrokenLinks.bind(this);
+    this.makeTempFile = this.makeTempFile.bind(this);
+    this.makeTempDir = this.makeTempDir.bind(this);
     this.chmod = this.chmod.bind(this);
     this.chown = this.chown.bind(this);
+    this.setTimes = this.setTimes.bind(this);
+    this.touch = this.touch.bind(this);
+    this.getXattr = this.getXattr.bind(this);
+    this.setXattr = this.setXattr.bind(this);
+    this.removeXattr = this.removeXattr.bind(this);
+    this.listXattrs = this.listXattrs.bind(this);
+    this.lock = this.lock.bind(this);
+    this.withLock = this.withLock.bind(this);
     this.openFileIOStream = this.openFileIOStream.bind(this);
   }
 
@@ -688,29 +1775,1062 @@ class Fs {
   }
 
   /**
-   * Gets information about a specific file or directory.
+   * Recursively walks the directory tree under the given path,
+   * yielding a FileInfo object for each entry found.
+   *
+   * When `followSymlinks` is enabled, each directory is visited at
+   * most once, which prevents symlink cycles from looping forever.
    */
-  public fileInfo(path: string, options?: FileInfoOptions) {
-    const file = this.file(path);
+  public async *walk(
+    path: string,
+    options?: WalkOptions,
+  ): AsyncGenerator<FileInfo, void, undefined> {
+    const self = this;
     const opt = OptionsResolver(options, OptValidators);
+    const abortSignal = opt.get("abortSignal");
+    const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
+    const batchSize = opt.get("batchSize", DEFAULT_BATCH_SIZE);
+    const maxDepth = opt.get("maxDepth", Infinity);
+    const order = opt.get("order", "pre");
+    const filter = opt.get("filter");
+    const followSymlinks = opt.get("followSymlinks", false);
+    const queryFlag = getQueryFileFlag(opt);
+    const attributes = opt.get("attributes", []);
+    const visited = new Set<string>();
+
+    const markVisited = (info: FileInfo) => {
+      const id = getFileIdentity(info);
+
+      if (visited.has(id)) {
+        return false;
+      }
 
-    return promise<FileInfo>(
-      "fileInfo",
-      opt.get("abortSignal"),
-      (p) => {
-        const queryFlag = getQueryFileFlag(opt);
+      visited.add(id);
+      return true;
+    };
+
+    async function* walkDir(
+      dir: Gio.File,
+      depth: number,
+    ): AsyncGenerator<FileInfo, void, undefined> {
+      const enumerator = await promise<Gio.FileEnumerator>(
+        "walk",
+        abortSignal,
+        (p) => {
+          dir.enumerate_children_async(
+            getAttributes(attributes),
+            queryFlag,
+            ioPriority,
+            p.cancellable,
+            p.asyncCallback((_, result: Gio.AsyncResult) => {
+              const enumerator =
+                dir.enumerate_children_finish(result);
+              if (enumerator) {
+                p.resolve(enumerator);
+              } else {
+                p.reject(
+                  new FsError(
+                    `Failed to list directory: ${dir.get_path()}`,
+                  ),
+                );
+              }
+            }),
+          );
+        },
+      );
 
-        file.query_info_async(
-          getAttributes(opt.get("attributes", [])),
-          queryFlag,
-          opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
-          p.cancellable,
-          p.asyncCallback((_, result: Gio.AsyncResult) => {
-            const ginfo = file.query_info_finish(result);
-            if (ginfo) {
-              p.resolve(new FileInfo(file.get_path()!, ginfo));
-            } else {
-              p.reject(
+      const getNextBatch = () =>
+        promise<Gio.FileInfo[]>("walk", abortSignal, (p) => {
+          enumerator.next_files_async(
+            batchSize,
+            ioPriority,
+            p.cancellable,
+            p.asyncCallback((_, result: Gio.AsyncResult) => {
+              p.resolve(enumerator.next_files_finish(result) ?? []);
+            }),
+          );
+        });
+
+      try {
+        while (true) {
+          const nextBatch = await getNextBatch();
+
+          if (nextBatch.length === 0) {
+            break;
+          }
+
+          for (const gioInfo of nextBatch) {
+            const info = new FileInfo(
+              join(dir.get_path()!, gioInfo.get_name()),
+              gioInfo,
+            );
+
+            if (filter && !filter(info)) {
+              continue;
+            }
+
+            const shouldDescend =
+              info.isDirectory &&
+              depth < maxDepth &&
+              (!followSymlinks || markVisited(info));
+
+            if (order === "pre") {
+              yield info;
+            }
+
+            if (shouldDescend) {
+              yield* walkDir(self.file(info.filepath), depth + 1);
+            }
+
+            if (order === "post") {
+              yield info;
+            }
+          }
+        }
+      } finally {
+        enumerator.close_async(ioPriority, null, (_, result) => {
+          enumerator.close_finish(result);
+        });
+      }
+    }
+
+    try {
+      if (followSymlinks) {
+        markVisited(
+          await this.fileInfo(path, {
+            abortSignal,
+            followSymlinks,
+          }),
+        );
+      }
+
+      yield* walkDir(this.file(path), 1);
+    } catch (err) {
+      throw parseFsError("walk", err);
+    }
+  }
+
+  /**
+   * Finds all the files and directories matching the given glob
+   * pattern (or patterns). Patterns starting with a `!` exclude the
+   * matching entries from the result.
+   *
+   * Directories that cannot contain any matching entries are not
+   * traversed.
+   */
+  public glob(
+    pattern: string | string[],
+    options: GlobOptions & { withFileInfo: true },
+  ): Promise<FileInfo[]>;
+  public glob(
+    pattern: string | string[],
+    options?: GlobOptions,
+  ): Promise<string[]>;
+  public glob(
+    pattern: string | string[],
+    options?: GlobOptions,
+  ): Promise<Array<string | FileInfo>> {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<Array<string | FileInfo>>(
+      "glob",
+      opt.get("abortSignal"),
+      async (p) => {
+        const matcher = new GlobMatcher(pattern, {
+          dot: opt.get("dot", false),
+        });
+        const withFileInfo = opt.get("withFileInfo", false);
+        const root = normalize(
+          this.resolvePath(opt.get("root", ".")),
+        );
+        const rootPrefix = root.endsWith("/") ? root : root + "/";
+        const relative = (info: FileInfo) =>
+          info.filepath.slice(rootPrefix.length);
+
+        const entries = this.walk(root, {
+          abortSignal: opt.get("abortSignal"),
+          ioPriority: opt.get("ioPriority"),
+          batchSize: opt.get("batchSize"),
+          attributes: opt.get("attributes"),
+          followSymlinks: opt.get("followSymlinks"),
+          maxDepth: matcher.maxDepth,
+          filter: (info) => {
+            const path = relative(info);
+            return (
+              matcher.match(path) ||
+              (info.isDirectory && matcher.matchDescendants(path))
+            );
+          },
+        });
+
+        const result: Array<string | FileInfo> = [];
+
+        for await (const info of entries) {
+          const path = relative(info);
+
+          if (matcher.match(path)) {
+            result.push(withFileInfo ? info : path);
+          }
+        }
+
+        p.resolve(result);
+      },
+    );
+  }
+
+  /**
+   * Compares the two directory trees and yields an entry for each
+   * difference found, and for each identical file. Directories that
+   * exist on both sides are not yielded themselves, only their
+   * contents are.
+   */
+  public async *diffDirs(
+    left: string,
+    right: string,
+    options?: CompareDirsOptions,
+  ): AsyncGenerator<DirDiffEntry, void, undefined> {
+    const self = this;
+    const opt = OptionsResolver(options, OptValidators);
+    const abortSignal = opt.get("abortSignal");
+    const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
+    const followSymlinks = opt.get("followSymlinks", false);
+    const compareBy = opt.get("compareBy", "metadata");
+    const visited = new Set<string>();
+
+    const markVisited = (left: FileInfo, right: FileInfo) => {
+      const id = `${getFileIdentity(left)}|${getFileIdentity(right)}`;
+
+      if (visited.has(id)) {
+        return false;
+      }
+
+      visited.add(id);
+      return true;
+    };
+
+    async function* diffDir(
+      leftDir: string,
+      rightDir: string,
+      relativeDir: string,
+    ): AsyncGenerator<DirDiffEntry, void, undefined> {
+      const [leftEntries, rightEntries] = await Promise.all([
+        self.listDir(leftDir, {
+          abortSignal,
+          ioPriority,
+          followSymlinks,
+        }),
+        self.listDir(rightDir, {
+          abortSignal,
+          ioPriority,
+          followSymlinks,
+        }),
+      ]);
+
+      for (const [name, [left, right]] of pairEntries(
+        leftEntries,
+        rightEntries,
+      )) {
+        const path = relativeDir ? join(relativeDir, name) : name;
+
+        if (!left || !right) {
+          yield {
+            path,
+            type: left ? "leftOnly" : "rightOnly",
+            left,
+            right,
+          };
+          continue;
+        }
+
+        const kind = getEntryKind(left);
+
+        if (kind !== getEntryKind(right)) {
+          yield { path, type: "typeChanged", left, right };
+          continue;
+        }
+
+        if (kind === "directory") {
+          if (!followSymlinks || markVisited(left, right)) {
+            yield* diffDir(left.filepath, right.filepath, path);
+          }
+          continue;
+        }
+
+        const isIdentical = await self.isSameEntry(
+          left,
+          right,
+          compareBy,
+          abortSignal,
+          ioPriority,
+        );
+
+        yield {
+          path,
+          type: isIdentical ? "identical" : "modified",
+          left,
+          right,
+        };
+      }
+    }
+
+    try {
+      if (followSymlinks) {
+        const [leftInfo, rightInfo] = await Promise.all([
+          this.fileInfo(left, { abortSignal, followSymlinks }),
+          this.fileInfo(right, { abortSignal, followSymlinks }),
+        ]);
+
+        markVisited(leftInfo, rightInfo);
+      }
+
+      yield* diffDir(left, right, "");
+    } catch (err) {
+      throw parseFsError("diffDirs", err);
+    }
+  }
+
+  /**
+   * Compares the two directory trees and returns a summary of the
+   * differences, with the relative paths of the entries grouped by
+   * the type of difference.
+   */
+  public compareDirs(
+    left: string,
+    right: string,
+    options?: CompareDirsOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<DirComparison>(
+      "compareDirs",
+      opt.get("abortSignal"),
+      async (p) => {
+        const comparison = new DirComparison();
+
+        for await (const entry of this.diffDirs(
+          left,
+          right,
+          options,
+        )) {
+          comparison.add(entry);
+        }
+
+        p.resolve(comparison);
+      },
+    );
+  }
+
+  /**
+   * Synchronizes the destination directory with the source directory,
+   * similarly to `rsync -a`. Only the files that are missing or have
+   * changed are copied, along with their mode, timestamps and
+   * `user.*` extended attributes. Symlinks are copied as symlinks.
+   *
+   * @returns A report of what was copied, updated, deleted and
+   *   skipped, with paths relative to the synchronized directories.
+   */
+  public syncDir(
+    src: string,
+    dest: string,
+    options?: SyncDirOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<SyncDirReport>(
+      "syncDir",
+      opt.get("abortSignal"),
+      async (p) => {
+        const self = this;
+        const abortSignal = opt.get("abortSignal");
+        const ioPriority = opt.get(
+          "ioPriority",
+          GLib.PRIORITY_DEFAULT,
+        );
+        const compareBy = opt.get("compareBy", "metadata");
+        const deleteExtraneous = opt.get("deleteExtraneous", false);
+        const dryRun = opt.get("dryRun", false);
+        const exclude = opt.get("exclude");
+        const matcher = exclude
+          ? new GlobMatcher(exclude, { dot: true })
+          : null;
+        const queue = new TaskQueue(
+          opt.get("concurrency", DEFAULT_CONCURRENCY),
+        );
+        const tracker = new SyncDirTracker(opt.get("onProgress"));
+        const copyOptions: CopyFileOptions = {
+          abortSignal,
+          ioPriority,
+          overwrite: true,
+          allMetadata: true,
+          copyXattrs: true,
+        };
+        const operations: Array<() => Promise<void>> = [];
+        const dirs: Array<[src: string, dest: string]> = [
+          [src, dest],
+        ];
+
+        const removeEntry = async (destPath: string) => {
+          await self.deleteFile(destPath, {
+            abortSignal,
+            recursive: true,
+          });
+        };
+
+        // directories are created while scanning, files are only
+        // scheduled to be copied or deleted once the scan is done
+        async function scanDir(
+          srcDir: string,
+          destDir: string,
+          destExists: boolean,
+          relativeDir: string,
+        ) {
+          const [srcEntries, destEntries] = await Promise.all([
+            self.listDir(srcDir, { abortSignal, ioPriority }),
+            destExists
+              ? self.listDir(destDir, { abortSignal, ioPriority })
+              : [],
+          ]);
+
+          p.breakpoint();
+
+          for (const [name, [srcInfo, destInfo]] of pairEntries(
+            srcEntries,
+            destEntries,
+          )) {
+            const path = relativeDir ? join(relativeDir, name) : name;
+            const destPath = join(destDir, name);
+
+            if (matcher?.match(path)) {
+              continue;
+            }
+
+            if (!srcInfo) {
+              if (deleteExtraneous) {
+                operations.push(async () => {
+                  if (!dryRun) {
+                    await removeEntry(destPath);
+                  }
+                  tracker.track(path, "deleted");
+                });
+              }
+              continue;
+            }
+
+            const isTypeChanged =
+              !!destInfo &&
+              getEntryKind(srcInfo) !== getEntryKind(destInfo);
+
+            if (getEntryKind(srcInfo) === "directory") {
+              if (!destInfo || isTypeChanged) {
+                if (!dryRun) {
+                  if (isTypeChanged) {
+                    await removeEntry(destPath);
+                  }
+                  await self.makeDir(destPath, { abortSignal });
+                }
+                tracker.track(path, destInfo ? "updated" : "copied");
+              }
+
+              dirs.push([srcInfo.filepath, destPath]);
+
+              await scanDir(
+                srcInfo.filepath,
+                destPath,
+                !!destInfo && !isTypeChanged,
+                path,
+              );
+              continue;
+            }
+
+            operations.push(async () => {
+              const isUpToDate =
+                !!destInfo &&
+                !isTypeChanged &&
+                (await self.isSameEntry(
+                  srcInfo,
+                  destInfo,
+                  compareBy,
+                  abortSignal,
+                  ioPriority,
+                ));
+
+              if (isUpToDate) {
+                tracker.track(path, "skipped");
+                return;
+              }
+
+              if (!dryRun) {
+                if (isTypeChanged) {
+                  await removeEntry(destPath);
+                }
+                await self.copyFile(
+                  srcInfo.filepath,
+                  destPath,
+                  copyOptions,
+                );
+              }
+
+              tracker.track(path, destInfo ? "updated" : "copied");
+            });
+          }
+        }
+
+        let destExists = await this.fileExists(dest, { abortSignal });
+
+        if (destExists) {
+          const destInfo = await this.fileInfo(dest, { abortSignal });
+
+          if (!destInfo.isDirectory) {
+            throw new FsError(
+              `Destination already exists and is not a directory: ${destInfo.filepath}`,
+            );
+          }
+        } else if (!dryRun) {
+          await this.makeDir(dest, { abortSignal, recursive: true });
+          destExists = true;
+        }
+
+        await scanDir(src, dest, destExists, "");
+
+        await Promise.all(operations.map((op) => queue.run(op)));
+
+        p.breakpoint();
+
+        if (!dryRun) {
+          // the directories are updated last, as copying their
+          // contents changes their modification times
+          for (const [srcDir, destDir] of dirs) {
+            const srcFile = this.file(srcDir);
+            const destFile = this.file(destDir);
+
+            await this.copyAttributes(
+              "syncDir",
+              srcFile,
+              destFile,
+              Gio.FileCopyFlags.ALL_METADATA |
+                Gio.FileCopyFlags.NOFOLLOW_SYMLINKS,
+              abortSignal,
+              ioPriority,
+            );
+            await this.copyXattrs(srcFile, destFile, copyOptions);
+          }
+        }
+
+        p.resolve(tracker.getReport());
+      },
+    );
+  }
+
+  /**
+   * Creates a tar archive with the contents of the given directory.
+   * The entry names are relative to that directory. The archive is
+   * written as a stream, without loading the archived files into
+   * memory.
+   *
+   * Symlinks are stored as symlinks, and files with multiple hard
+   * links are stored only once, as hard links to the first archived
+   * path. Other kinds of files (e.g. sockets) are skipped.
+   */
+  public createTar(
+    srcDir: string,
+    dest: string,
+    options?: CreateTarOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise("createTar", opt.get("abortSignal"), async (p) => {
+      const self = this;
+      const abortSignal = opt.get("abortSignal");
+      const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
+      const chunkSize = opt.get("chunkSize", DEFAULT_CHUNK_SIZE);
+      const destPath = this.resolvePath(dest);
+      const hardLinks = new Map<string, string>();
+
+      const existed = await this.fileExists(dest, { abortSignal });
+      const stream = await this.openFileIOStream(dest, "REPLACE", {
+        abortSignal,
+        ioPriority,
+      });
+
+      async function addDir(dir: string, relativeDir: string) {
+        const entries = await self.listDir(dir, {
+          abortSignal,
+          ioPriority,
+        });
+
+        p.breakpoint();
+
+        entries.sort((a, b) => (a.filename < b.filename ? -1 : 1));
+
+        for (const info of entries) {
+          // the archive can be created inside of the archived directory
+          if (info.filepath === destPath) {
+            continue;
+          }
+
+          const name = relativeDir
+            ? join(relativeDir, info.filename)
+            : info.filename;
+          const entry = createTarEntry(name, info);
+
+          if (!entry) {
+            continue;
+          }
+
+          if (entry.type === "file" && info.linkCount > 1) {
+            const identity = getFileIdentity(info);
+            const linkTarget = hardLinks.get(identity);
+
+            if (linkTarget != null) {
+              entry.type = "hardlink";
+              entry.linkTarget = linkTarget;
+              entry.size = 0;
+            } else {
+              hardLinks.set(identity, name);
+            }
+          }
+
+          await stream.write(encodeHeader(entry));
+
+          if (entry.type === "file") {
+            let bytesRead = 0;
+
+            for await (const chunk of self.readStream(info.filepath, {
+              abortSignal,
+              ioPriority,
+              chunkSize,
+            })) {
+              bytesRead += chunk.byteLength;
+
+              if (bytesRead > entry.size) {
+                break;
+              }
+
+              await stream.write(chunk);
+            }
+
+            if (bytesRead !== entry.size) {
+              throw new FsError(
+                `File changed while being archived: ${info.filepath}`,
+              );
+            }
+
+            await stream.write(getPadding(entry.size));
+          } else if (entry.type === "directory") {
+            await addDir(info.filepath, name);
+          }
+        }
+      }
+
+      try {
+        await addDir(srcDir, "");
+        await stream.write(getTrailer());
+      } catch (err) {
+        // an incomplete archive is not left behind, and the previous
+        // one is kept
+        discardReplaceStream(stream._gioStream);
+
+        if (!existed && (await this.fileExists(dest))) {
+          await this.deleteFile(dest);
+        }
+
+        throw err;
+      }
+
+      await stream.close();
+
+      p.resolve();
+    });
+  }
+
+  /**
+   * Extracts the given tar archive into the destination directory,
+   * creating it if it doesn't exist. Existing files are replaced. The
+   * archive is read as a stream, without loading it into memory.
+   *
+   * The mode and modification time of each entry are restored, as
+   * well as the ownership if the `preserveOwnership` option is
+   * enabled. Entries other than files, directories, symlinks and hard
+   * links (e.g. devices) are skipped.
+   *
+   * Fails if any of the entries would end up outside of the
+   * destination directory, either via an absolute path, a `..` path
+   * component or a symlink.
+   */
+  public extractTar(
+    archive: string,
+    destDir: string,
+    options?: ExtractTarOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise(
+      "extractTar",
+      opt.get("abortSignal"),
+      async (p) => {
+        const self = this;
+        const abortSignal = opt.get("abortSignal");
+        const ioPriority = opt.get(
+          "ioPriority",
+          GLib.PRIORITY_DEFAULT,
+        );
+        const preserveOwnership = opt.get("preserveOwnership", false);
+        const parser = new TarParser();
+        const dirs: Array<[path: string, entry: TarEntry]> = [];
+        let output: IOStream | null = null;
+        let outputPath = "";
+
+        await this.makeDir(destDir, { abortSignal, recursive: true });
+
+        const root = await this.realPath(destDir, { abortSignal });
+        const checkedDirs = new Set([root]);
+
+        // every directory on the way is checked, so that an entry
+        // cannot be written through a symlink to outside of the root
+        async function prepareDirs(segments: string[]) {
+          let current = root;
+
+          for (const segment of segments) {
+            current = join(current, segment);
+
+            if (checkedDirs.has(current)) {
+              continue;
+            }
+
+            if (await self.fileExists(current, { abortSignal })) {
+              const info = await self.fileInfo(current, {
+                abortSignal,
+              });
+              const kind = getEntryKind(info);
+
+              if (kind === "symlink") {
+                throw new FsError(
+                  `Archive entry would be extracted through a symbolic link: ${current}`,
+                );
+              }
+
+              if (kind !== "directory") {
+                throw new FsError(`Not a directory: ${current}`);
+              }
+            } else {
+              await self.makeDir(current, { abortSignal });
+            }
+
+            checkedDirs.add(current);
+          }
+
+          return current;
+        }
+
+        async function prepareTarget(name: string) {
+          const segments = getSafeEntryPath(name).split("/");
+          const parent = await prepareDirs(segments.slice(0, -1));
+          const target = join(parent, segments[segments.length - 1]!);
+
+          if (await self.fileExists(target, { abortSignal })) {
+            const info = await self.fileInfo(target, { abortSignal });
+
+            if (getEntryKind(info) === "directory") {
+              throw new FsError(
+                `Cannot replace a directory with a non-directory entry: ${target}`,
+              );
+            }
+
+            await self.deleteFile(target, { abortSignal });
+          }
+
+          return target;
+        }
+
+        async function restoreMetadata(
+          path: string,
+          entry: TarEntry,
+        ) {
+          if (preserveOwnership) {
+            await self.chown(path, entry.uid, entry.gid, {
+              abortSignal,
+            });
+          }
+
+          // symlink permissions and times are not used on Linux
+          if (entry.type !== "symlink") {
+            await self.chmod(path, entry.mode & 0o7777, {
+              abortSignal,
+            });
+            await self.setTimes(
+              path,
+              { modified: entry.mtime },
+              { abortSignal },
+            );
+          }
+        }
+
+        // files are handled separately, as only those have any data
+        async function extractEntry(entry: TarEntry) {
+          switch (entry.type) {
+            case "directory": {
+              const path = getSafeEntryPath(entry.name);
+
+              if (path) {
+                dirs.push([
+                  await prepareDirs(path.split("/")),
+                  entry,
+                ]);
+              }
+              break;
+            }
+            case "symlink": {
+              const link = self.file(await prepareTarget(entry.name));
+
+              // the target is stored exactly as given in the archive
+              await promise("extractTar", abortSignal, (p2) => {
+                link.make_symbolic_link_async(
+                  entry.linkTarget,
+                  ioPriority,
+                  p2.cancellable,
+                  p2.asyncCallback((_, result: Gio.AsyncResult) => {
+                    link.make_symbolic_link_finish(result);
+                    p2.resolve();
+                  }),
+                );
+              });
+
+              if (preserveOwnership) {
+                await restoreMetadata(link.get_path()!, entry);
+              }
+              break;
+            }
+            case "hardlink": {
+              const targetSegments = getSafeEntryPath(
+                entry.linkTarget,
+              ).split("/");
+              const existing = join(
+                await prepareDirs(targetSegments.slice(0, -1)),
+                targetSegments[targetSegments.length - 1]!,
+              );
+
+              await self.makeHardLink(
+                await prepareTarget(entry.name),
+                existing,
+                { abortSignal },
+              );
+              break;
+            }
+            case "file":
+            case "other":
+              // other kinds of entries (e.g. devices) are skipped
+              break;
+          }
+        }
+
+        try {
+          for await (const chunk of this.readStream(archive, {
+            abortSignal,
+            ioPriority,
+            chunkSize: opt.get("chunkSize", DEFAULT_CHUNK_SIZE),
+          })) {
+            for (const event of parser.write(chunk)) {
+              switch (event.type) {
+                case "entry":
+                  if (event.entry.type === "file") {
+                    outputPath = await prepareTarget(
+                      event.entry.name,
+                    );
+                    output = await this.openFileIOStream(
+                      outputPath,
+                      "CREATE",
+                      { ioPriority },
+                    );
+                  } else {
+                    await extractEntry(event.entry);
+                  }
+                  break;
+                case "data":
+                  await output?.write(event.data);
+                  break;
+                case "entryEnd":
+                  if (output) {
+                    await output.close();
+                    output = null;
+                    await restoreMetadata(outputPath, event.entry);
+                  }
+                  break;
+              }
+            }
+
+            if (parser.isDone) {
+              break;
+            }
+          }
+        } finally {
+          await output?.close();
+        }
+
+        parser.finish();
+
+        // directories are updated last, deepest first, since
+        // extracting their contents changes their modification times
+        dirs.sort(([a], [b]) => b.length - a.length);
+
+        for (const [path, entry] of dirs) {
+          await restoreMetadata(path, entry);
+        }
+
+        p.resolve();
+      },
+    );
+  }
+
+  /**
+   * Checks if the two entries of the same kind are identical. Files
+   * are compared according to the `compareBy` mode and symlinks by
+   * their targets.
+   */
+  private async isSameEntry(
+    left: FileInfo,
+    right: FileInfo,
+    compareBy: CompareBy,
+    abortSignal: AbortSignal | undefined,
+    ioPriority: number,
+  ) {
+    switch (getEntryKind(left)) {
+      case "symlink":
+        return left.symlinkTarget === right.symlinkTarget;
+      case "file":
+        break;
+      default:
+        return left.rdev === right.rdev;
+    }
+
+    if (left.size !== right.size) {
+      return false;
+    }
+
+    switch (compareBy) {
+      case "metadata":
+        return left.modifiedTime === right.modifiedTime;
+      case "hash": {
+        const [leftHash, rightHash] = await Promise.all([
+          this.hash(left.filepath, { abortSignal, ioPriority }),
+          this.hash(right.filepath, { abortSignal, ioPriority }),
+        ]);
+        return leftHash === rightHash;
+      }
+      case "content":
+        return this.compareContents(
+          left.filepath,
+          right.filepath,
+          abortSignal,
+          ioPriority,
+        );
+    }
+  }
+
+  /**
+   * Compares the contents of the two files byte by byte.
+   */
+  private async compareContents(
+    leftPath: string,
+    rightPath: string,
+    abortSignal: AbortSignal | undefined,
+    ioPriority: number,
+  ) {
+    const left = this.readStream(leftPath, {
+      abortSignal,
+      ioPriority,
+    });
+    const right = this.readStream(rightPath, {
+      abortSignal,
+      ioPriority,
+    });
+    let leftChunk = new Uint8Array();
+    let rightChunk = new Uint8Array();
+
+    try {
+      while (true) {
+        // chunks of the two files are not guaranteed to be of the
+        // same size, so only the overlapping parts are compared
+        if (leftChunk.byteLength === 0) {
+          const next = await left.next();
+
+          if (next.done) {
+            return (
+              rightChunk.byteLength === 0 &&
+              !!(await right.next()).done
+            );
+          }
+
+          leftChunk = next.value;
+        }
+
+        if (rightChunk.byteLength === 0) {
+          const next = await right.next();
+
+          if (next.done) {
+            return false;
+          }
+
+          rightChunk = next.value;
+        }
+
+        const length = Math.min(
+          leftChunk.byteLength,
+          rightChunk.byteLength,
+        );
+
+        if (
+          !bytesEqual(
+            leftChunk.subarray(0, length),
+            rightChunk.subarray(0, length),
+          )
+        ) {
+          return false;
+        }
+
+        leftChunk = leftChunk.subarray(length);
+        rightChunk = rightChunk.subarray(length);
+      }
+    } finally {
+      await Promise.all([left.return(), right.return()]);
+    }
+  }
+
+  /**
+   * Starts watching the given file or directory for changes. When
+   * watching a directory, only changes of it's direct children are
+   * reported.
+   *
+   * Returned watcher must be closed via the `close()` method once
+   * it's no longer needed.
+   */
+  public watch(path: string, options: WatchOptions = {}) {
+    return FileWatcher.watch(this.file(path), options);
+  }
+
+  /**
+   * Gets information about a specific file or directory.
+   */
+  public fileInfo(path: string, options?: FileInfoOptions) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<FileInfo>(
+      "fileInfo",
+      opt.get("abortSignal"),
+      (p) => {
+        const queryFlag = getQueryFileFlag(opt);
+
+        file.query_info_async(
+          getAttributes(opt.get("attributes", [])),
+          queryFlag,
+          opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            const ginfo = file.query_info_finish(result);
+            if (ginfo) {
+              p.resolve(new FileInfo(file.get_path()!, ginfo));
+            } else {
+              p.reject(
                 new FsError(
                   `Failed to get file info: ${file.get_path()}`,
                 ),
@@ -722,6 +2842,488 @@ class Fs {
     );
   }
 
+  /**
+   * Gets information about the filesystem the given file or directory
+   * is on, like it's type, total size and free space.
+   */
+  public filesystemInfo(
+    path: string,
+    options?: FilesystemInfoOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<FilesystemInfo>(
+      "filesystemInfo",
+      opt.get("abortSignal"),
+      (p) => {
+        file.query_filesystem_info_async(
+          FILESYSTEM_ATTRIBUTES,
+          opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            const ginfo = file.query_filesystem_info_finish(result);
+            if (ginfo) {
+              p.resolve(new FilesystemInfo(file.get_path()!, ginfo));
+            } else {
+              p.reject(
+                new FsError(
+                  `Failed to get filesystem info: ${file.get_path()}`,
+                ),
+              );
+            }
+          }),
+        );
+      },
+    );
+  }
+
+  /**
+   * Detects the content type of the given file, or of the given
+   * bytes, by looking at the leading bytes of the content. The file
+   * extension is only used when the content alone is not conclusive.
+   */
+  public detectType(
+    pathOrBytes: string | Uint8Array,
+    options?: DetectTypeOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<ContentTypeInfo>(
+      "detectType",
+      opt.get("abortSignal"),
+      async (p) => {
+        if (typeof pathOrBytes !== "string") {
+          return p.resolve(
+            new ContentTypeInfo(
+              ...guessContentType(null, pathOrBytes),
+            ),
+          );
+        }
+
+        const file = this.file(pathOrBytes);
+        let data = new Uint8Array();
+
+        for await (const chunk of this.readStream(pathOrBytes, {
+          abortSignal: opt.get("abortSignal"),
+          ioPriority: opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+          chunkSize: SNIFF_LENGTH,
+          end: SNIFF_LENGTH,
+        })) {
+          data = chunk;
+          break;
+        }
+
+        p.resolve(
+          new ContentTypeInfo(
+            ...guessContentType(file.get_basename(), data),
+          ),
+        );
+      },
+    );
+  }
+
+  /**
+   * Computes the checksum of the given file. The file is read in
+   * chunks, so the memory usage does not depend on the file size.
+   */
+  public hash(
+    path: string,
+    options: HashOptions & { encoding: "bytes" },
+  ): Promise<Uint8Array>;
+  public hash(path: string, options?: HashOptions): Promise<string>;
+  public hash(
+    path: string,
+    options?: HashOptions,
+  ): Promise<string | Uint8Array> {
+    const opt = OptionsResolver(options, HashOptValidators);
+
+    return promise<string | Uint8Array>(
+      "hash",
+      opt.get("abortSignal"),
+      async (p) => {
+        const hasher = new Hasher(opt.get("algorithm", "sha256"));
+
+        const encoding = opt.get("encoding", "hex");
+
+        await this.feedHasher(path, hasher, opt);
+
+        p.resolve(encodeDigest(hasher.digest(), encoding));
+      },
+    );
+  }
+
+  /**
+   * Computes the HMAC of the given file using the given key. The file
+   * is read in chunks, so the memory usage does not depend on the
+   * file size.
+   */
+  public hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm: HashAlgorithm | undefined,
+    options: HmacOptions & { encoding: "bytes" },
+  ): Promise<Uint8Array>;
+  public hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: HmacOptions,
+  ): Promise<string>;
+  public hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: HmacOptions,
+  ): Promise<string | Uint8Array> {
+    const opt = OptionsResolver<HashOptions>(
+      { ...options, algorithm },
+      HashOptValidators,
+    );
+
+    return promise<string | Uint8Array>(
+      "hmac",
+      opt.get("abortSignal"),
+      async (p) => {
+        const keyBytes =
+          typeof key === "string"
+            ? new TextEncoder().encode(key)
+            : key;
+
+        validateBytes(keyBytes, "key");
+
+        const hasher = new Hasher(
+          opt.get("algorithm", "sha256"),
+          keyBytes,
+        );
+
+        const encoding = opt.get("encoding", "hex");
+
+        await this.feedHasher(path, hasher, opt);
+
+        p.resolve(encodeDigest(hasher.digest(), encoding));
+      },
+    );
+  }
+
+  /**
+   * Reads the given file in chunks and feeds them to the Hasher.
+   */
+  private async feedHasher(
+    path: string,
+    hasher: Hasher,
+    opt: OptionsResolver<HmacOptions>,
+  ) {
+    const abortSignal = opt.get("abortSignal");
+    const onProgress = opt.get("onProgress");
+    const totalBytes = onProgress
+      ? (await this.fileInfo(path, { abortSignal })).size
+      : 0;
+    let bytesRead = 0;
+
+    for await (const chunk of this.readStream(path, {
+      abortSignal,
+      ioPriority: opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+      chunkSize: opt.get("chunkSize", DEFAULT_CHUNK_SIZE),
+    })) {
+      hasher.update(chunk);
+      bytesRead += chunk.byteLength;
+      onProgress?.(bytesRead, totalBytes);
+    }
+  }
+
+  /**
+   * Calculates the disk space used by the given file or directory
+   * tree, similarly to the `du` command.
+   *
+   * The allocated size is based on the number of blocks allocated for
+   * each file. Files with multiple hard links are only counted once,
+   * as are entries reachable through multiple symlinks when
+   * `followSymlinks` is enabled.
+   */
+  public diskUsage(path: string, options?: DiskUsageOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<DiskUsage>(
+      "diskUsage",
+      opt.get("abortSignal"),
+      async (p) => {
+        const depth = opt.get("depth", 0);
+        const queue = new TaskQueue(
+          opt.get("concurrency", DEFAULT_CONCURRENCY),
+        );
+        const counter = new DiskUsageCounter(
+          opt.get("followSymlinks", false),
+          opt.get("onProgress"),
+        );
+        const queryOptions = {
+          abortSignal: opt.get("abortSignal"),
+          ioPriority: opt.get("ioPriority"),
+          followSymlinks: opt.get("followSymlinks"),
+        };
+
+        const measure = async (
+          info: FileInfo,
+          level: number,
+        ): Promise<DiskUsage> => {
+          const usage = counter.count(info);
+
+          if (!usage) {
+            return emptyUsage(info.filepath);
+          }
+
+          if (!info.isDirectory) {
+            return usage;
+          }
+
+          p.breakpoint();
+
+          const entries = await queue.run(() =>
+            this.listDir(info.filepath, queryOptions),
+          );
+          const children = await Promise.all(
+            entries.map((entry) => measure(entry, level + 1)),
+          );
+
+          for (const child of children) {
+            addTotals(usage, child);
+          }
+
+          if (level < depth) {
+            usage.children = children;
+          }
+
+          return usage;
+        };
+
+        const root = await this.fileInfo(path, queryOptions);
+
+        p.resolve(await measure(root, 0));
+      },
+    );
+  }
+
+  /**
+   * Compresses the given file into the destination file, in the gzip
+   * format unless specified otherwise. The file is compressed as a
+   * stream, without loading it into memory. The destination file is
+   * replaced if it already exists, but only once all the data was
+   * written, on failure the existing file is kept.
+   */
+  public compressFile(
+    src: string,
+    dest: string,
+    options?: CompressFileOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise(
+      "compressFile",
+      opt.get("abortSignal"),
+      async (p) => {
+        const abortSignal = opt.get("abortSignal");
+        const ioPriority = opt.get(
+          "ioPriority",
+          GLib.PRIORITY_DEFAULT,
+        );
+        const compressor = createCompressor(
+          opt.get("format", "gzip"),
+          opt.get("level", DEFAULT_COMPRESSION_LEVEL),
+        );
+
+        const source = await this.openInputStream(
+          src,
+          ioPriority,
+          abortSignal,
+        );
+
+        await this.spliceIntoFile(
+          "compressFile",
+          source,
+          dest,
+          compressor,
+          ioPriority,
+          abortSignal,
+        );
+
+        p.resolve();
+      },
+    );
+  }
+
+  /**
+   * Decompresses the given gzip compressed file (or zlib, or raw
+   * deflate, depending on the `format` option) into the destination
+   * file. The file is decompressed as a stream, without loading it
+   * into memory. The destination file is replaced if it already
+   * exists, but only once all the data was written, on failure the
+   * existing file is kept.
+   */
+  public decompressFile(
+    src: string,
+    dest: string,
+    options?: DecompressFileOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise(
+      "decompressFile",
+      opt.get("abortSignal"),
+      async (p) => {
+        const abortSignal = opt.get("abortSignal");
+        const ioPriority = opt.get(
+          "ioPriority",
+          GLib.PRIORITY_DEFAULT,
+        );
+        const decompressor = createDecompressor(
+          opt.get("format", "gzip"),
+        );
+
+        const source = await this.openInputStream(
+          src,
+          ioPriority,
+          abortSignal,
+        );
+
+        await this.spliceIntoFile(
+          "decompressFile",
+          Gio.ConverterInputStream.new(source, decompressor),
+          dest,
+          null,
+          ioPriority,
+          abortSignal,
+        );
+
+        p.resolve();
+      },
+    );
+  }
+
+  /**
+   * Writes all the data from the source stream into the destination
+   * file, passing it through the compressor if one is given. The
+   * destination is only replaced once all the data was written, if
+   * anything fails the previous file is kept.
+   */
+  private async spliceIntoFile(
+    name: string,
+    source: Gio.InputStream,
+    dest: string,
+    compressor: Gio.Converter | null,
+    ioPriority: number,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    let existed: boolean;
+    let target: Gio.FileOutputStream;
+
+    try {
+      existed = await this.fileExists(dest, { abortSignal });
+      target = await this.openOutputStream(
+        dest,
+        ioPriority,
+        abortSignal,
+      );
+    } catch (err) {
+      source.close(null);
+      throw err;
+    }
+
+    try {
+      if (compressor) {
+        const converter = Gio.ConverterOutputStream.new(
+          target,
+          compressor,
+        );
+        converter.set_close_base_stream(false);
+
+        await splice(
+          name,
+          source,
+          converter,
+          ioPriority,
+          abortSignal,
+        );
+      } else {
+        await splice(
+          name,
+          source,
+          target,
+          ioPriority,
+          abortSignal,
+          false,
+        );
+      }
+    } catch (err) {
+      discardReplaceStream(target);
+
+      // a new file is written directly, rather than to a temporary
+      // file, so the partial output has to be removed
+      if (!existed && (await this.fileExists(dest))) {
+        await this.deleteFile(dest);
+      }
+
+      throw err;
+    }
+
+    await promise(name, null, (p) => {
+      target.close_async(
+        ioPriority,
+        null,
+        p.asyncCallback((_, result: Gio.AsyncResult) => {
+          target.close_finish(result);
+          p.resolve();
+        }),
+      );
+    });
+  }
+
+  private openInputStream(
+    path: string,
+    ioPriority: number,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const file = this.file(path);
+
+    return promise<Gio.FileInputStream>(
+      "openInputStream",
+      abortSignal,
+      (p) => {
+        file.read_async(
+          ioPriority,
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            p.resolve(file.read_finish(result));
+          }),
+        );
+      },
+    );
+  }
+
+  private openOutputStream(
+    path: string,
+    ioPriority: number,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const file = this.file(path);
+
+    return promise<Gio.FileOutputStream>(
+      "openOutputStream",
+      abortSignal,
+      (p) => {
+        file.replace_async(
+          null,
+          false,
+          Gio.FileCreateFlags.NONE,
+          ioPriority,
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            p.resolve(file.replace_finish(result));
+          }),
+        );
+      },
+    );
+  }
+
   /**
    * Reads the content of a file under the given path.
    *
@@ -754,6 +3356,83 @@ class Fs {
     );
   }
 
+  /**
+   * Reads the content of a file under the given path in chunks,
+   * without loading the whole file into memory.
+   *
+   * The underlying stream is closed once all the chunks are read, an
+   * error occurs or the iteration is stopped early (e.g. via
+   * `break`).
+   */
+  public async *readStream(
+    path: string,
+    options?: ReadStreamOptions,
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+    const abortSignal = opt.get("abortSignal");
+    const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
+    const chunkSize = opt.get("chunkSize", DEFAULT_CHUNK_SIZE);
+    const start = opt.get("start", 0);
+    const end = opt.get("end", Infinity);
+
+    try {
+      const stream = await promise<Gio.FileInputStream>(
+        "readStream",
+        abortSignal,
+        (p) => {
+          file.read_async(
+            ioPriority,
+            p.cancellable,
+            p.asyncCallback((_, result: Gio.AsyncResult) => {
+              p.resolve(file.read_finish(result));
+            }),
+          );
+        },
+      );
+
+      const readChunk = (size: number) =>
+        promise<Uint8Array>("readStream", abortSignal, (p) => {
+          stream.read_bytes_async(
+            size,
+            ioPriority,
+            p.cancellable,
+            p.asyncCallback((_, result: Gio.AsyncResult) => {
+              p.resolve(stream.read_bytes_finish(result).toArray());
+            }),
+          );
+        });
+
+      try {
+        if (start > 0) {
+          stream.seek(start, GLib.SeekType.SET, null);
+        }
+
+        let position = start;
+
+        while (position < end) {
+          const chunk = await readChunk(
+            Math.min(chunkSize, end - position),
+          );
+
+          if (chunk.byteLength === 0) {
+            break;
+          }
+
+          position += chunk.byteLength;
+
+          yield chunk;
+        }
+      } finally {
+        stream.close_async(ioPriority, null, (_, result) => {
+          stream.close_finish(result);
+        });
+      }
+    } catch (err) {
+      throw parseFsError("readStream", err);
+    }
+  }
+
   /**
    * Reads the content of a file under the given path using the
    * `readFile()` method and decodes that content to string using the
@@ -766,7 +3445,7 @@ class Fs {
       "readTextFile",
       opt.get("abortSignal"),
       async (p) => {
-        const decoder = new TextDecoder(opt.get("encoding", "utf-8"));
+        const decoder = createDecoder(opt.get("encoding", "utf-8"));
 
         const contents = await this.readFile(path, options);
 
@@ -775,6 +3454,135 @@ class Fs {
     );
   }
 
+  /**
+   * Reads the file under the given path line by line, decoding it
+   * with the given encoding. The file is read in chunks, so only a
+   * small part of it is kept in memory at any time.
+   */
+  public async *readLines(
+    path: string,
+    options?: ReadLinesOptions,
+  ): AsyncGenerator<string, void, undefined> {
+    const opt = OptionsResolver(options, OptValidators);
+
+    try {
+      const decoder = new IncrementalDecoder(
+        opt.get("encoding", "utf-8"),
+      );
+      const splitter = new LineSplitter(
+        opt.get("newline", "any"),
+        opt.get("keepEnds", false),
+      );
+
+      for await (const chunk of this.readStream(path, {
+        abortSignal: opt.get("abortSignal"),
+        ioPriority: opt.get("ioPriority"),
+      })) {
+        yield* splitter.push(decoder.decode(chunk));
+      }
+
+      yield* splitter.push(decoder.flush());
+      yield* splitter.flush();
+    } catch (err) {
+      throw parseFsError("readLines", err);
+    }
+  }
+
+  /**
+   * Reads the file under the given path using the `readTextFile()`
+   * method and parses it's content as JSON.
+   *
+   * Syntax errors are thrown as a `JsonParseError`, which contains
+   * the line and column at which the error occurred.
+   */
+  public readJson<T>(
+    path: string,
+    options: ReadJsonOptions & {
+      validate: (value: unknown) => value is T;
+    },
+  ): Promise<T>;
+  public readJson(
+    path: string,
+    options?: ReadJsonOptions,
+  ): Promise<unknown>;
+  public readJson(
+    path: string,
+    options?: ReadJsonOptions,
+  ): Promise<unknown> {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<unknown>(
+      "readJson",
+      opt.get("abortSignal"),
+      async (p) => {
+        const validate = opt.get("validate");
+
+        const text = await this.readTextFile(path, {
+          abortSignal: opt.get("abortSignal"),
+          encoding: opt.get("encoding"),
+        });
+
+        p.breakpoint();
+
+        const value = parseJson(text, this.file(path).get_path()!, {
+          reviver: opt.get("reviver"),
+          jsonc: opt.get("jsonc", false),
+        });
+
+        if (validate && !validate(value)) {
+          throw new FsError(
+            `JSON validation failed: ${this.file(path).get_path()}`,
+          );
+        }
+
+        p.resolve(value);
+      },
+    );
+  }
+
+  /**
+   * Reads the gzip compressed file (or zlib, or raw deflate,
+   * depending on the `format` option) under the given path.
+   *
+   * @returns A Promise with a byte array of the decompressed
+   *   contents.
+   */
+  public readGzipFile(path: string, options?: ReadGzipFileOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<Uint8Array>(
+      "readGzipFile",
+      opt.get("abortSignal"),
+      async (p) => {
+        const abortSignal = opt.get("abortSignal");
+        const ioPriority = opt.get(
+          "ioPriority",
+          GLib.PRIORITY_DEFAULT,
+        );
+        const decompressor = createDecompressor(
+          opt.get("format", "gzip"),
+        );
+
+        const source = await this.openInputStream(
+          path,
+          ioPriority,
+          abortSignal,
+        );
+        const target = Gio.MemoryOutputStream.new_resizable();
+
+        await splice(
+          "readGzipFile",
+          Gio.ConverterInputStream.new(source, decompressor),
+          target,
+          ioPriority,
+          abortSignal,
+        );
+
+        p.resolve(target.steal_as_bytes().toArray());
+      },
+    );
+  }
+
   /**
    * Writes the given data to a file under the given path.
    */
@@ -789,6 +3597,19 @@ class Fs {
     return promise("writeFile", opt.get("abortSignal"), async (p) => {
       validateBytes(contents);
 
+      if (opt.get("checkFreeSpace", false)) {
+        await this.checkFreeSpace(
+          file,
+          contents.byteLength,
+          opt.get("abortSignal"),
+        );
+      }
+
+      if (opt.get("atomic", false) || opt.get("durable", false)) {
+        await this.writeFileSafely(file, contents, options);
+        return p.resolve();
+      }
+
       const createFlag = getCreateFileFlag(opt);
       const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
 
@@ -866,9 +3687,175 @@ class Fs {
   }
 
   /**
-   * Encodes given string into a byte array (UTF-8), and writes that
-   * data to a file under the given path using the `writeFile()`
-   * method.
+   * Fails with an `InsufficientSpaceError` if the filesystem the
+   * given file is going to be written to doesn't have the required
+   * number of bytes available.
+   */
+  private async checkFreeSpace(
+    target: Gio.File,
+    requiredBytes: number,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const dirPath = (target.get_parent() ?? target).get_path()!;
+
+    // a missing parent directory is reported by the write itself
+    if (!(await this.fileExists(dirPath, { abortSignal }))) {
+      return;
+    }
+
+    const info = await this.filesystemInfo(dirPath, { abortSignal });
+
+    ensureFreeSpace(info, requiredBytes, target.get_path()!);
+  }
+
+  private async writeFileSafely(
+    file: Gio.File,
+    contents: Uint8Array,
+    options: WriteFileOptions | undefined,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const abortSignal = opt.get("abortSignal");
+    const replace = opt.get("replace", false);
+    let target = file;
+    let targetInfo: FileInfo | null = null;
+
+    for (let depth = 0; ; depth++) {
+      const exists = await this.fileExists(target.get_path()!, {
+        abortSignal,
+      });
+
+      if (!exists) {
+        targetInfo = null;
+        break;
+      }
+
+      targetInfo = await this.fileInfo(target.get_path()!, {
+        abortSignal,
+      });
+
+      if (replace || !targetInfo.isSymlink) {
+        break;
+      }
+
+      if (depth >= MAX_SYMLINK_DEPTH) {
+        throw new FsError(
+          `Too many levels of symbolic links: ${file.get_path()}`,
+        );
+      }
+
+      target = target
+        .get_parent()!
+        .resolve_relative_path(targetInfo.symlinkTarget!);
+    }
+
+    const targetPath = target.get_path()!;
+    const etag = opt.get("etag");
+
+    if (
+      etag &&
+      targetInfo &&
+      targetInfo._gioInfo.get_etag() !== etag
+    ) {
+      throw new FsError(
+        `The file was externally modified: ${targetPath}`,
+      );
+    }
+
+    if (targetInfo && opt.get("makeBackup", false)) {
+      await this.copyFile(targetPath, targetPath + "~", {
+        abortSignal,
+        overwrite: true,
+        allMetadata: true,
+      });
+    }
+
+    // permissions of the replaced file are kept, unless the
+    // destination is meant to be replaced as if it didn't exist
+    const keptMode =
+      targetInfo && !replace ? targetInfo.mode & 0o7777 : null;
+
+    const durable = opt.get("durable", false);
+    const dirPath = target.get_parent()!.get_path()!;
+    const writeOptions: WriteFileOptions = {
+      abortSignal,
+      ioPriority: opt.get("ioPriority"),
+      private: opt.get("private"),
+    };
+
+    if (!opt.get("atomic", false)) {
+      await this.writeFile(targetPath, contents, writeOptions);
+      await this.syncToDisk([targetPath, dirPath], abortSignal);
+      return;
+    }
+
+    const tmpPath = join(
+      dirPath,
+      `.${target.get_basename()}.${GLib.uuid_string_random()}`,
+    );
+
+    try {
+      await this.writeFile(tmpPath, contents, writeOptions);
+
+      if (keptMode !== null) {
+        await this.chmod(tmpPath, keptMode, { abortSignal });
+      }
+
+      if (durable) {
+        await this.syncToDisk([tmpPath], abortSignal);
+      }
+
+      await this.moveFile(tmpPath, targetPath, {
+        abortSignal,
+        overwrite: true,
+        noFallbackForMove: true,
+      });
+    } catch (err) {
+      if (await this.fileExists(tmpPath)) {
+        await this.deleteFile(tmpPath);
+      }
+
+      throw err;
+    }
+
+    // the rename itself is only durable once the directory is synced
+    if (durable) {
+      await this.syncToDisk([dirPath], abortSignal);
+    }
+  }
+
+  /**
+   * Syncs the given files and directories to the disk.
+   */
+  private syncToDisk(
+    paths: string[],
+    abortSignal: AbortSignal | undefined,
+  ) {
+    return promise("syncToDisk", abortSignal, (p) => {
+      const proc = spawnSyncProcess(paths);
+
+      // cancelling only stops waiting for the process, it has to be
+      // stopped separately
+      const onAbort = () => proc.force_exit();
+      abortSignal?.addEventListener("abort", onAbort);
+
+      proc.communicate_utf8_async(
+        null,
+        p.cancellable,
+        p.asyncCallback((_, result: Gio.AsyncResult) => {
+          abortSignal?.removeEventListener("abort", onAbort);
+
+          const [, , stderr] = proc.communicate_utf8_finish(result);
+          checkSyncProcess(proc, stderr, paths);
+          p.resolve();
+        }),
+      );
+    });
+  }
+
+  /**
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and writes that data to a file under the
+   * given path using the `writeFile()` method.
    */
   public writeTextFile(
     path: string,
@@ -883,8 +3870,10 @@ class Fs {
       async (p) => {
         validateText(contents);
 
-        const encoder = new TextEncoder();
-        const data = encoder.encode(contents);
+        const data = encodeText(
+          contents,
+          opt.get("encoding", "utf-8"),
+        );
 
         await this.writeFile(path, data, options);
 
@@ -893,6 +3882,79 @@ class Fs {
     );
   }
 
+  /**
+   * Serializes the given value to JSON and writes it to a file under
+   * the given path using the `writeTextFile()` method.
+   */
+  public writeJson(
+    path: string,
+    value: unknown,
+    options?: WriteJsonOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise("writeJson", opt.get("abortSignal"), async (p) => {
+      const json = JSON.stringify(
+        value,
+        opt.get("replacer"),
+        opt.get("indent", 2),
+      ) as string | undefined;
+
+      if (json === undefined) {
+        throw new FsError(
+          "Given value cannot be serialized to JSON.",
+        );
+      }
+
+      await this.writeTextFile(path, json + "\n", options);
+
+      p.resolve();
+    });
+  }
+
+  /**
+   * Compresses the given data, in the gzip format unless specified
+   * otherwise, and writes it to a file under the given path.
+   */
+  public writeGzipFile(
+    path: string,
+    contents: Uint8Array,
+    options?: WriteGzipFileOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise(
+      "writeGzipFile",
+      opt.get("abortSignal"),
+      async (p) => {
+        validateBytes(contents);
+
+        const abortSignal = opt.get("abortSignal");
+        const ioPriority = opt.get(
+          "ioPriority",
+          GLib.PRIORITY_DEFAULT,
+        );
+        const compressor = createCompressor(
+          opt.get("format", "gzip"),
+          opt.get("level", DEFAULT_COMPRESSION_LEVEL),
+        );
+
+        await this.spliceIntoFile(
+          "writeGzipFile",
+          Gio.MemoryInputStream.new_from_bytes(
+            GLib.Bytes.new(contents),
+          ),
+          path,
+          compressor,
+          ioPriority,
+          abortSignal,
+        );
+
+        p.resolve();
+      },
+    );
+  }
+
   /**
    * Appends the given data to a file under the given path.
    */
@@ -989,9 +4051,9 @@ class Fs {
   }
 
   /**
-   * Encodes given string into a byte array (UTF-8), and appends that
-   * data to a file under the given path using the `appendFile()`
-   * method.
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and appends that data to a file under the
+   * given path using the `appendFile()` method.
    */
   public appendTextFile(
     path: string,
@@ -1006,8 +4068,10 @@ class Fs {
       async (p) => {
         validateText(contents);
 
-        const encoder = new TextEncoder();
-        const data = encoder.encode(contents);
+        const data = encodeText(
+          contents,
+          opt.get("encoding", "utf-8"),
+        );
 
         await this.appendFile(path, data, options);
 
@@ -1018,6 +4082,10 @@ class Fs {
 
   /**
    * Moves a file or directory from one path to another.
+   *
+   * If a directory cannot be moved natively (e.g. when moving across
+   * filesystem boundaries), it will be copied recursively and then
+   * deleted, unless `noFallbackForMove` is set to `true`.
    */
   public moveFile(
     sourcePath: string,
@@ -1037,8 +4105,23 @@ class Fs {
         opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
         p.cancellable,
         opt.get("onProgress", null),
-        p.asyncCallback((_, result: Gio.AsyncResult) => {
-          const success = oldFile.move_finish(result);
+        p.asyncCallback(async (_, result: Gio.AsyncResult) => {
+          let success: boolean;
+
+          try {
+            success = oldFile.move_finish(result);
+          } catch (err) {
+            if (
+              opt.get("noFallbackForMove", false) ||
+              !isGioIOError(err, Gio.IOErrorEnum.WOULD_RECURSE)
+            ) {
+              throw err;
+            }
+
+            await this.moveDirectory(oldFile, newFile, options);
+            success = true;
+          }
+
           if (success) {
             p.resolve();
           } else {
@@ -1053,6 +4136,86 @@ class Fs {
     });
   }
 
+  /**
+   * Moves a directory by recursively copying it to the destination
+   * and deleting the source afterwards. Used when the native move is
+   * not possible, e.g. when moving across filesystem boundaries.
+   *
+   * The tree is first copied into a temporary directory next to the
+   * destination, if that fails, the temporary directory is removed
+   * and the source is left untouched. An existing destination is
+   * moved aside until the copy is in place, and put back if that
+   * fails.
+   */
+  private async moveDirectory(
+    srcDir: Gio.File,
+    destDir: Gio.File,
+    options: MoveFileOptions | undefined,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const abortSignal = opt.get("abortSignal");
+    const srcPath = srcDir.get_path()!;
+    const destPath = destDir.get_path()!;
+    const siblingPath = () =>
+      join(
+        destDir.get_parent()!.get_path()!,
+        `.${destDir.get_basename()}.${GLib.uuid_string_random()}`,
+      );
+    const stagingPath = siblingPath();
+
+    const destExists = await this.fileExists(destPath, {
+      abortSignal,
+    });
+
+    if (destExists && !opt.get("overwrite", false)) {
+      throw new FsError(`Destination already exists: ${destPath}`);
+    }
+
+    const backupPath = destExists ? siblingPath() : null;
+
+    try {
+      await this.copyFile(srcPath, stagingPath, {
+        ...options,
+        recursive: true,
+        allMetadata: true,
+      });
+
+      if (backupPath !== null) {
+        await this.moveFile(destPath, backupPath, {
+          abortSignal,
+          noFallbackForMove: true,
+        });
+      }
+
+      try {
+        await this.moveFile(stagingPath, destPath, {
+          abortSignal,
+          noFallbackForMove: true,
+        });
+      } catch (err) {
+        if (backupPath !== null) {
+          await this.moveFile(backupPath, destPath, {
+            noFallbackForMove: true,
+          });
+        }
+
+        throw err;
+      }
+    } catch (err) {
+      if (await this.fileExists(stagingPath)) {
+        await this.deleteFile(stagingPath, { recursive: true });
+      }
+
+      throw err;
+    }
+
+    if (backupPath !== null) {
+      await this.deleteFile(backupPath, { recursive: true });
+    }
+
+    await this.deleteFile(srcPath, { abortSignal, recursive: true });
+  }
+
   /**
    * Alias for the `moveFile()` method.
    */
@@ -1066,6 +4229,9 @@ class Fs {
 
   /**
    * Copies a file or directory from one path to another.
+   *
+   * If `recursive` is set to `true` and the source is a directory,
+   * the whole directory tree will be copied.
    */
   public copyFile(
     sourcePath: string,
@@ -1076,9 +4242,50 @@ class Fs {
     const destFile = this.file(destinationPath);
     const opt = OptionsResolver(options, OptValidators);
 
-    return promise("copyFile", opt.get("abortSignal"), (p) => {
+    return promise("copyFile", opt.get("abortSignal"), async (p) => {
       const copyFlag = getCopyFileFlag(opt);
 
+      if (opt.get("checkFreeSpace", false)) {
+        const usage = await this.diskUsage(sourcePath, {
+          abortSignal: opt.get("abortSignal"),
+          followSymlinks: opt.get("followSymlinks", false),
+        });
+
+        p.breakpoint();
+
+        await this.checkFreeSpace(
+          destFile,
+          usage.apparentSize,
+          opt.get("abortSignal"),
+        );
+      }
+
+      if (opt.get("recursive", false)) {
+        const srcInfo = await this.fileInfo(sourcePath, {
+          abortSignal: opt.get("abortSignal"),
+          followSymlinks: opt.get("followSymlinks", false),
+        });
+
+        if (srcInfo.isDirectory) {
+          await this.ensureNotCopiedIntoItself(
+            srcFile,
+            destFile,
+            opt.get("abortSignal"),
+          );
+
+          p.breakpoint();
+
+          await this.copyDirectory(
+            srcFile,
+            destFile,
+            options,
+            p.breakpoint,
+          );
+
+          return p.resolve();
+        }
+      }
+
       srcFile.copy_async(
         destFile,
         copyFlag,
@@ -1086,9 +4293,13 @@ class Fs {
         p.cancellable,
         // @ts-expect-error
         opt.get("onProgress", null),
-        p.asyncCallback((_: any, result: Gio.AsyncResult) => {
+        p.asyncCallback(async (_: any, result: Gio.AsyncResult) => {
           const success = srcFile.copy_finish(result);
           if (success) {
+            if (opt.get("copyXattrs", false)) {
+              await this.copyXattrs(srcFile, destFile, options);
+            }
+
             p.resolve();
           } else {
             p.reject(
@@ -1102,6 +4313,301 @@ class Fs {
     });
   }
 
+  /**
+   * Throws if the destination of a recursive copy is the source
+   * directory itself, or is inside of it, as such copy would never
+   * end. Symlinks in both paths are resolved before comparing them.
+   */
+  private async ensureNotCopiedIntoItself(
+    srcDir: Gio.File,
+    destDir: Gio.File,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const srcPath = await this.realPath(srcDir.get_path()!, {
+      abortSignal,
+    });
+    let destPath: string;
+
+    try {
+      destPath = await this.realPath(destDir.get_path()!, {
+        abortSignal,
+      });
+    } catch {
+      // the destination does not exist yet, but it's parent might be
+      // a symlink
+      try {
+        const parentPath = await this.realPath(
+          destDir.get_parent()!.get_path()!,
+          { abortSignal },
+        );
+        destPath = join(parentPath, destDir.get_basename()!);
+      } catch {
+        destPath = destDir.get_path()!;
+      }
+    }
+
+    const rel = relative(srcPath, destPath);
+
+    if (rel === "" || (rel !== ".." && !rel.startsWith("../"))) {
+      throw new FsError(
+        `Cannot copy a directory into itself: ${srcPath} -> ${destPath}`,
+      );
+    }
+  }
+
+  /**
+   * Copies the contents of the source directory into the destination
+   * directory, descending into every sub-directory. The whole tree is
+   * scanned and the directories are created first, the files are then
+   * copied with no more than `concurrency` of them at the same time.
+   *
+   * When `followSymlinks` is enabled, a symlink to a directory that
+   * contains it would be copied endlessly, so it's rejected before
+   * anything gets copied.
+   */
+  private async copyDirectory(
+    srcDir: Gio.File,
+    destDir: Gio.File,
+    options: CopyFileOptions | undefined,
+    breakpoint: () => void,
+  ) {
+    const self = this;
+    const opt = OptionsResolver(options, OptValidators);
+    const abortSignal = opt.get("abortSignal");
+    const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
+    const followSymlinks = opt.get("followSymlinks", false);
+    const filter = opt.get("filter");
+    const queue = new TaskQueue(
+      opt.get("concurrency", DEFAULT_CONCURRENCY),
+    );
+    const dirs: Array<[src: Gio.File, dest: Gio.File]> = [];
+    const files: Array<[src: string, dest: string]> = [];
+    // identities of the directories on the currently scanned path
+    const ancestors = new Set<string>();
+
+    async function scanDir(
+      src: Gio.File,
+      dest: Gio.File,
+      identity: string,
+    ) {
+      dirs.push([src, dest]);
+      ancestors.add(identity);
+
+      const entries = await self.listDir(src.get_path()!, {
+        abortSignal,
+        followSymlinks,
+      });
+
+      breakpoint();
+
+      for (const entry of entries) {
+        if (filter && !filter(entry)) {
+          continue;
+        }
+
+        const entryDest = join(dest.get_path()!, entry.filename);
+
+        if (!entry.isDirectory) {
+          files.push([entry.filepath, entryDest]);
+          continue;
+        }
+
+        const entryIdentity = getFileIdentity(entry);
+
+        if (ancestors.has(entryIdentity)) {
+          throw new FsError(
+            `Cannot copy a symlink to a directory that contains it: ${entry.filepath}`,
+          );
+        }
+
+        await scanDir(
+          self.file(entry.filepath),
+          self.file(entryDest),
+          entryIdentity,
+        );
+      }
+
+      ancestors.delete(identity);
+    }
+
+    const srcInfo = await this.fileInfo(srcDir.get_path()!, {
+      abortSignal,
+      followSymlinks,
+    });
+
+    await scanDir(srcDir, destDir, getFileIdentity(srcInfo));
+
+    for (const [, dest] of dirs) {
+      await this.prepareCopyDestination(dest.get_path()!, opt);
+      breakpoint();
+    }
+
+    await Promise.all(
+      files.map(([src, dest]) =>
+        queue.run(() =>
+          this.copyFile(src, dest, {
+            ...options,
+            recursive: false,
+            checkFreeSpace: false,
+          }),
+        ),
+      ),
+    );
+
+    breakpoint();
+
+    // the directories are updated last, deepest first, as copying
+    // their contents changes their modification times
+    for (const [src, dest] of dirs.reverse()) {
+      await this.copyAttributes(
+        "copyFile",
+        src,
+        dest,
+        getCopyFileFlag(opt),
+        abortSignal,
+        ioPriority,
+      );
+
+      if (opt.get("copyXattrs", false)) {
+        await this.copyXattrs(src, dest, options);
+      }
+    }
+  }
+
+  /**
+   * Makes sure a directory exists under the given destination path of
+   * a recursive copy, resolving the conflicts with existing entries
+   * according to the options.
+   */
+  private async prepareCopyDestination(
+    destPath: string,
+    opt: OptionsResolver<CopyFileOptions>,
+  ) {
+    const abortSignal = opt.get("abortSignal");
+
+    if (!(await this.fileExists(destPath, { abortSignal }))) {
+      await this.makeDir(destPath, { abortSignal });
+      return;
+    }
+
+    const destInfo = await this.fileInfo(destPath, { abortSignal });
+
+    if (!destInfo.isDirectory && !opt.get("overwrite", false)) {
+      throw new FsError(
+        `Destination already exists and is not a directory: ${destPath}`,
+      );
+    }
+
+    if (
+      !destInfo.isDirectory ||
+      opt.get("dirConflictPolicy", "merge") === "replace"
+    ) {
+      await this.deleteFile(destPath, {
+        abortSignal,
+        recursive: true,
+      });
+      await this.makeDir(destPath, { abortSignal });
+    }
+  }
+
+  /**
+   * Asynchronous counterpart of the `Gio.File.copy_attributes()`,
+   * copies the same attributes of the source file onto the
+   * destination file, as selected by the given copy flags.
+   */
+  private async copyAttributes(
+    name: string,
+    srcFile: Gio.File,
+    destFile: Gio.File,
+    flags: Gio.FileCopyFlags,
+    abortSignal: AbortSignal | undefined,
+    ioPriority: number,
+  ) {
+    const attributes = destFile.build_attribute_list_for_copy(
+      flags,
+      null,
+    );
+    const queryFlag =
+      flags & Gio.FileCopyFlags.NOFOLLOW_SYMLINKS
+        ? Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS
+        : Gio.FileQueryInfoFlags.NONE;
+
+    const info = await promise<Gio.FileInfo>(
+      name,
+      abortSignal,
+      (p) => {
+        srcFile.query_info_async(
+          attributes,
+          queryFlag,
+          ioPriority,
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            p.resolve(srcFile.query_info_finish(result));
+          }),
+        );
+      },
+    );
+
+    await promise(name, abortSignal, (p) => {
+      destFile.set_attributes_async(
+        info,
+        queryFlag,
+        ioPriority,
+        p.cancellable,
+        p.asyncCallback((_, result: Gio.AsyncResult) => {
+          const [success] = destFile.set_attributes_finish(result);
+          if (success) {
+            p.resolve();
+          } else {
+            p.reject(
+              new FsError(
+                `Failed to copy file attributes: ${srcFile.get_path()} -> ${destFile.get_path()}`,
+              ),
+            );
+          }
+        }),
+      );
+    });
+  }
+
+  /**
+   * Copies all the `user.*` extended attributes from the source file
+   * onto the destination file.
+   */
+  private async copyXattrs(
+    srcFile: Gio.File,
+    destFile: Gio.File,
+    options: CopyFileOptions | undefined,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const queryFlag = getQueryFileFlag(opt);
+    const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
+
+    const info = await promise<Gio.FileInfo>(
+      "copyFile",
+      opt.get("abortSignal"),
+      (p) => {
+        srcFile.query_info_async(
+          USER_XATTR_ATTRIBUTES,
+          queryFlag,
+          ioPriority,
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            p.resolve(srcFile.query_info_finish(result));
+          }),
+        );
+      },
+    );
+
+    if (listXattrNames(info).length === 0) {
+      return;
+    }
+
+    await promise("copyFile", opt.get("abortSignal"), (p) => {
+      this.setXattrInfo(destFile, info, opt, p);
+    });
+  }
+
   /**
    * Deletes a file or directory from under the given path.
    *
@@ -1179,18 +4685,94 @@ class Fs {
 
   /**
    * Creates a new directory under the given path.
+   *
+   * If `recursive` is set to `true`, all missing parent directories
+   * will be created as well.
    */
   public makeDir(path: string, options?: MakeDirOptions) {
     const file = this.file(path);
     const opt = OptionsResolver(options, OptValidators);
 
-    return promise("makeDir", opt.get("abortSignal"), (p) => {
+    return promise("makeDir", opt.get("abortSignal"), async (p) => {
+      const mode = opt.get("mode");
+      const created: string[] = [];
+
+      await this.createDirectory(file, options, created);
+
+      // the mode is applied once all the directories exist, deepest
+      // first, as it could take away the permissions needed to create
+      // or reach the nested directories
+      if (mode != null) {
+        for (const dirPath of created.reverse()) {
+          await this.chmod(dirPath, mode, {
+            abortSignal: opt.get("abortSignal"),
+          });
+        }
+      }
+
+      p.resolve();
+    });
+  }
+
+  /**
+   * Creates the directory, along with it's missing parents if the
+   * `recursive` option is enabled. Paths of the directories that were
+   * created are added to the given array, parents first.
+   */
+  private createDirectory(
+    file: Gio.File,
+    options: MakeDirOptions | undefined,
+    created: string[],
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise("makeDir", opt.get("abortSignal"), async (p) => {
+      const recursive = opt.get("recursive", false);
+
+      if (recursive) {
+        const parent = file.get_parent();
+
+        if (
+          parent &&
+          !(await this.fileExists(parent.get_path()!, {
+            abortSignal: opt.get("abortSignal"),
+          }))
+        ) {
+          await this.createDirectory(parent, options, created);
+        }
+
+        p.breakpoint();
+      }
+
       file.make_directory_async(
         opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
         p.cancellable,
-        p.asyncCallback((_, result: Gio.AsyncResult) => {
-          const success = file.make_directory_finish(result);
+        p.asyncCallback(async (_, result: Gio.AsyncResult) => {
+          let success: boolean;
+
+          try {
+            success = file.make_directory_finish(result);
+          } catch (err) {
+            if (
+              !recursive ||
+              !isGioIOError(err, Gio.IOErrorEnum.EXISTS)
+            ) {
+              throw err;
+            }
+
+            const info = await this.fileInfo(file.get_path()!, {
+              followSymlinks: true,
+            });
+
+            if (info.isDirectory) {
+              return p.resolve();
+            }
+
+            throw err;
+          }
+
           if (success) {
+            created.push(file.get_path()!);
             p.resolve();
           } else {
             p.reject(
@@ -1222,9 +4804,19 @@ class Fs {
     const dest = this.resolvePath(pointingTo);
     const opt = OptionsResolver(option, OptValidators);
 
-    return promise("makeLink", opt.get("abortSignal"), (p) => {
+    return promise("makeLink", opt.get("abortSignal"), async (p) => {
+      const target = opt.get("relative", false)
+        ? await this.getRelativeLinkTarget(
+            linkFile,
+            dest,
+            opt.get("abortSignal"),
+          )
+        : dest;
+
+      p.breakpoint();
+
       linkFile.make_symbolic_link_async(
-        dest,
+        target,
         opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
         p.cancellable,
         p.asyncCallback((_, result: Gio.AsyncResult) => {
@@ -1234,7 +4826,7 @@ class Fs {
           } else {
             p.reject(
               new FsError(
-                `Failed to create symbolic link: ${linkFile.get_path()} -> ${dest}`,
+                `Failed to create symbolic link: ${linkFile.get_path()} -> ${target}`,
               ),
             );
           }
@@ -1243,6 +4835,232 @@ class Fs {
     });
   }
 
+  /**
+   * Returns a path to the given destination, relative to the
+   * directory in which the link is going to be created.
+   */
+  private async getRelativeLinkTarget(
+    linkFile: Gio.File,
+    dest: string,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const linkDir = await this.realPath(
+      linkFile.get_parent()!.get_path()!,
+      { abortSignal },
+    );
+    // targets that do not exist (yet) are used as given
+    const target = await this.realPath(dest, { abortSignal }).catch(
+      () => dest,
+    );
+
+    return relative(linkDir, target) || ".";
+  }
+
+  /**
+   * Creates a hard link under the path given in the first parameter,
+   * to the existing file given as the second parameter. Both paths
+   * must be on the same filesystem.
+   *
+   * @param linkPath The path to the new link.
+   * @param existingPath The file the link should point to.
+   * @param options Options for the operation.
+   */
+  public makeHardLink(
+    linkPath: string,
+    existingPath: string,
+    options?: MakeHardLinkOptions,
+  ) {
+    const link = this.resolvePath(linkPath);
+    const existing = this.resolvePath(existingPath);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise("makeHardLink", opt.get("abortSignal"), (p) => {
+      const abortSignal = opt.get("abortSignal");
+      const proc = spawnHardLinkProcess(link, existing);
+
+      // cancelling only stops waiting for the process, it has to be
+      // stopped separately
+      const onAbort = () => proc.force_exit();
+      abortSignal?.addEventListener("abort", onAbort);
+
+      proc.communicate_utf8_async(
+        null,
+        p.cancellable,
+        p.asyncCallback((_, result: Gio.AsyncResult) => {
+          abortSignal?.removeEventListener("abort", onAbort);
+
+          const [, , stderr] = proc.communicate_utf8_finish(result);
+          checkHardLinkProcess(proc, stderr, link, existing);
+          p.resolve();
+        }),
+      );
+    });
+  }
+
+  /**
+   * Reads the target of a symbolic link, exactly as it's stored in
+   * the link (it can be a relative path).
+   */
+  public readLink(path: string, options?: ReadLinkOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<string>(
+      "readLink",
+      opt.get("abortSignal"),
+      async (p) => {
+        const info = await this.fileInfo(path, {
+          abortSignal: opt.get("abortSignal"),
+          ioPriority: opt.get("ioPriority"),
+        });
+
+        if (!info.isSymlink) {
+          throw new FsError(`Not a symbolic link: ${info.filepath}`);
+        }
+
+        p.resolve(info.symlinkTarget!);
+      },
+    );
+  }
+
+  /**
+   * Resolves the given path to an absolute path that contains no
+   * symbolic links and no `.` or `..` components. Fails if any of the
+   * path components does not exist, or if there are too many levels
+   * of symbolic links (e.g. a symlink loop).
+   */
+  public realPath(path: string, options?: RealPathOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<string>(
+      "realPath",
+      opt.get("abortSignal"),
+      async (p) => {
+        // the path is not normalized, as `..` can only be resolved
+        // after the symlinks preceding it are
+        const absolute = isAbsolute(path)
+          ? path
+          : `${this._cwd ?? GLib.get_current_dir()}/${path}`;
+        let pending = absolute.split("/");
+        let resolved = "/";
+        let linksFollowed = 0;
+
+        while (pending.length > 0) {
+          const part = pending.shift()!;
+
+          if (part === "" || part === ".") {
+            continue;
+          }
+
+          const current = join(resolved, part);
+
+          if (part === "..") {
+            resolved = current;
+            continue;
+          }
+
+          const info = await this.fileInfo(current, {
+            abortSignal: opt.get("abortSignal"),
+            ioPriority: opt.get("ioPriority"),
+          });
+
+          p.breakpoint();
+
+          if (!info.isSymlink) {
+            resolved = current;
+            continue;
+          }
+
+          if (++linksFollowed > MAX_SYMLINK_DEPTH) {
+            throw new FsError(
+              `Too many levels of symbolic links: ${absolute}`,
+            );
+          }
+
+          const target = info.symlinkTarget!;
+
+          if (isAbsolute(target)) {
+            resolved = "/";
+          }
+
+          pending = [...target.split("/"), ...pending];
+        }
+
+        p.resolve(resolved);
+      },
+    );
+  }
+
+  /**
+   * Recursively searches the given directory for symbolic links that
+   * point to files that do not exist.
+   *
+   * @returns A Promise with paths of all the broken links found.
+   */
+  public findBrokenLinks(
+    path: string,
+    options?: FindBrokenLinksOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<string[]>(
+      "findBrokenLinks",
+      opt.get("abortSignal"),
+      async (p) => {
+        const brokenLinks: string[] = [];
+
+        for await (const entry of this.walk(path, {
+          ...options,
+          followSymlinks: false,
+        })) {
+          if (!entry.isSymlink) {
+            continue;
+          }
+
+          // Gio falls back to the info about the link itself when
+          // the link cannot be followed
+          const target = await this.fileInfo(entry.filepath, {
+            abortSignal: opt.get("abortSignal"),
+            ioPriority: opt.get("ioPriority"),
+            followSymlinks: true,
+          });
+
+          if (
+            target._gioInfo.get_file_type() ===
+            Gio.FileType.SYMBOLIC_LINK
+          ) {
+            brokenLinks.push(entry.filepath);
+          }
+        }
+
+        p.resolve(brokenLinks);
+      },
+    );
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary file and opens it for
+   * reading and writing. The file is removed once the returned handle
+   * is disposed of.
+   *
+   * If the `dir` option is not specified, the file is created in the
+   * system's temporary directory.
+   */
+  public makeTempFile(options: TempOptions = {}) {
+    return TempFile.create(this, options);
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary directory. The directory
+   * and all of it's contents are removed once the returned handle is
+   * disposed of.
+   *
+   * If the `dir` option is not specified, the directory is created in
+   * the system's temporary directory.
+   */
+  public makeTempDir(options: TempOptions = {}) {
+    return TempDir.create(this, options);
+  }
+
   /**
    * Changes the UNIX permissions of a file or directory.
    *
@@ -1337,6 +5155,293 @@ class Fs {
     });
   }
 
+  /**
+   * Changes the access and/or modification times of a file or
+   * directory. Times can be given as Date objects or as milliseconds
+   * since the UNIX epoch, with a microsecond precision.
+   */
+  public setTimes(
+    path: string,
+    times: FileTimes,
+    options?: SetTimesOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+    opt.setDefault("followSymlinks", true);
+
+    return promise("setTimes", opt.get("abortSignal"), (p) => {
+      const info = createTimesInfo(times);
+
+      file.set_attributes_async(
+        info,
+        getQueryFileFlag(opt),
+        opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+        p.cancellable,
+        p.asyncCallback((_, result: Gio.AsyncResult) => {
+          const [success] = file.set_attributes_finish(result);
+          if (success) {
+            p.resolve();
+          } else {
+            p.reject(
+              new FsError(
+                `Failed to change file times: ${file.get_path()}`,
+              ),
+            );
+          }
+        }),
+      );
+    });
+  }
+
+  /**
+   * Sets the access and modification times of a file to the current
+   * time, creating an empty file if it doesn't exist (like the
+   * `touch` command).
+   */
+  public touch(path: string, options?: TouchOptions) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise("touch", opt.get("abortSignal"), async (p) => {
+      const ioPriority = opt.get("ioPriority", GLib.PRIORITY_DEFAULT);
+
+      const created = await promise<boolean>(
+        "touch",
+        opt.get("abortSignal"),
+        (p2) => {
+          file.create_async(
+            Gio.FileCreateFlags.NONE,
+            ioPriority,
+            p2.cancellable,
+            p2.asyncCallback((_, result: Gio.AsyncResult) => {
+              let stream: Gio.FileOutputStream;
+
+              try {
+                stream = file.create_finish(result);
+              } catch (err) {
+                if (isGioIOError(err, Gio.IOErrorEnum.EXISTS)) {
+                  return p2.resolve(false);
+                }
+                throw err;
+              }
+
+              stream.close_async(
+                ioPriority,
+                null,
+                p2.asyncCallback((_, result: Gio.AsyncResult) => {
+                  stream.close_finish(result);
+                  p2.resolve(true);
+                }),
+              );
+            }),
+          );
+        },
+      );
+
+      if (!created) {
+        const now = new Date();
+
+        await this.setTimes(
+          file.get_path()!,
+          { access: now, modified: now },
+          options,
+        );
+      }
+
+      p.resolve();
+    });
+  }
+
+  /**
+   * Reads the value of an extended attribute of a file or directory.
+   * Names must include the namespace prefix, e.g. `user.tags`.
+   *
+   * @returns A Promise with the value as a byte array, or `null` if
+   *   the attribute is not set.
+   */
+  public getXattr(
+    path: string,
+    name: string,
+    options?: GetXattrOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<Uint8Array | null>(
+      "getXattr",
+      opt.get("abortSignal"),
+      (p) => {
+        const attribute = getXattrAttribute(name);
+
+        file.query_info_async(
+          attribute,
+          getQueryFileFlag(opt),
+          opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            const ginfo = file.query_info_finish(result);
+            if (ginfo) {
+              p.resolve(readXattrValue(ginfo, attribute));
+            } else {
+              p.reject(
+                new FsError(
+                  `Failed to get extended attribute: ${file.get_path()}`,
+                ),
+              );
+            }
+          }),
+        );
+      },
+    );
+  }
+
+  /**
+   * Sets the value of an extended attribute of a file or directory.
+   * String values are encoded as UTF-8.
+   */
+  public setXattr(
+    path: string,
+    name: string,
+    value: Uint8Array | string,
+    options?: SetXattrOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise("setXattr", opt.get("abortSignal"), (p) => {
+      const bytes =
+        typeof value === "string"
+          ? new TextEncoder().encode(value)
+          : value;
+
+      validateBytes(bytes);
+
+      this.setXattrInfo(
+        file,
+        createXattrInfo(getXattrAttribute(name), bytes),
+        opt,
+        p,
+      );
+    });
+  }
+
+  /**
+   * Removes an extended attribute from a file or directory.
+   */
+  public removeXattr(
+    path: string,
+    name: string,
+    options?: RemoveXattrOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise("removeXattr", opt.get("abortSignal"), (p) => {
+      this.setXattrInfo(
+        file,
+        createXattrInfo(getXattrAttribute(name), null),
+        opt,
+        p,
+      );
+    });
+  }
+
+  /**
+   * Lists the names of all the extended attributes of a file or
+   * directory that the current user can read.
+   */
+  public listXattrs(path: string, options?: ListXattrsOptions) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<string[]>(
+      "listXattrs",
+      opt.get("abortSignal"),
+      (p) => {
+        file.query_info_async(
+          XATTR_ATTRIBUTES,
+          getQueryFileFlag(opt),
+          opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+          p.cancellable,
+          p.asyncCallback((_, result: Gio.AsyncResult) => {
+            const ginfo = file.query_info_finish(result);
+            if (ginfo) {
+              p.resolve(listXattrNames(ginfo));
+            } else {
+              p.reject(
+                new FsError(
+                  `Failed to list extended attributes: ${file.get_path()}`,
+                ),
+              );
+            }
+          }),
+        );
+      },
+    );
+  }
+
+  private setXattrInfo(
+    file: Gio.File,
+    info: Gio.FileInfo,
+    opt: OptionsResolver<IOOperationOptions & FileQueryFlagOptions>,
+    p: PromiseApi<void>,
+  ) {
+    file.set_attributes_async(
+      info,
+      getQueryFileFlag(opt),
+      opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+      p.cancellable,
+      p.asyncCallback((_, result: Gio.AsyncResult) => {
+        const [success] = file.set_attributes_finish(result);
+        if (success) {
+          p.resolve();
+        } else {
+          p.reject(
+            new FsError(
+              `Failed to change extended attributes: ${file.get_path()}`,
+            ),
+          );
+        }
+      }),
+    );
+  }
+
+  /**
+   * Acquires an advisory lock on the given file, waiting for it to
+   * become available if it's held by another process. The lock must
+   * be released by calling the `release()` method on the returned
+   * handle.
+   *
+   * Locks are implemented with lockfiles created next to the locked
+   * file, which record the PID and hostname of the owner, so that
+   * locks left behind by processes that are no longer running can be
+   * detected and removed.
+   */
+  public lock(path: string, options: LockOptions = {}) {
+    return FileLock.acquire(this.resolvePath(path), options);
+  }
+
+  /**
+   * Acquires a lock on the given file, calls the given function and
+   * releases the lock once the function returns (or the promise
+   * returned by it settles).
+   *
+   * @returns A Promise with the value returned by the function.
+   */
+  public async withLock<T>(
+    path: string,
+    fn: (lock: FileLock) => T | Promise<T>,
+    options?: LockOptions,
+  ): Promise<T> {
+    const lock = await this.lock(path, options);
+
+    try {
+      return await fn(lock);
+    } finally {
+      await lock.release();
+    }
+  }
+
   /**
    * Creates a new IOStream instance.
    *
@@ -1364,16 +5469,45 @@ export type {
   AppendTextFileOptions,
   ChmodOptions,
   ChownOptions,
+  CompareDirsOptions,
+  CompressFileOptions,
   CopyFileOptions,
+  CreateTarOptions,
+  DecompressFileOptions,
   DeleteFileOptions,
+  DetectTypeOptions,
+  DiskUsageOptions,
+  ExtractTarOptions,
   FileExistsOptions,
   FileInfoOptions,
+  FilesystemInfoOptions,
+  FindBrokenLinksOptions,
+  GetXattrOptions,
+  GlobOptions,
+  HashOptions,
+  HmacOptions,
   ListDirOptions,
+  ListXattrsOptions,
   MakeDirOptions,
+  MakeHardLinkOptions,
   MakeLinkOptions,
   MoveFileOptions,
   ReadFileOptions,
+  ReadGzipFileOptions,
+  ReadJsonOptions,
+  ReadLinesOptions,
+  ReadLinkOptions,
+  ReadStreamOptions,
   ReadTextFileOptions,
+  RealPathOptions,
+  RemoveXattrOptions,
+  SetTimesOptions,
+  SetXattrOptions,
+  SyncDirOptions,
+  TouchOptions,
+  WalkOptions,
   WriteFileOptions,
+  WriteGzipFileOptions,
+  WriteJsonOptions,
   WriteTextFileOptions,
 };
@@ -0,0 +1,18 @@
+import GLib from "gi://GLib?version=2.0";
+import Gio from "gi://Gio?version=2.0";
+
+/**
+ * Checks if the given value is a `GLib.Error` thrown by one of the
+ * Gio IO operations, with the given error code.
+ */
+export const isGioIOError = (
+  err: any,
+  code: Gio.IOErrorEnum,
+): err is GLib.Error => {
+  return (
+    !!err &&
+    typeof err === "object" &&
+    err instanceof GLib.Error &&
+    err.matches(Gio.io_error_quark(), code)
+  );
+};
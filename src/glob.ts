@@ -0,0 +1,456 @@
+import { validateText } from "./validators";
+
+const GLOBSTAR = Symbol("globstar");
+
+type Segment = string | RegExp | typeof GLOBSTAR;
+
+interface GlobMatcherOptions {
+  /**
+   * When enabled, wildcards (`*`, `?`, `**` and character classes)
+   * will also match file names starting with a dot.
+   *
+   * @default false
+   */
+  dot?: boolean;
+}
+
+const escapeRegExp = (str: string) => {
+  return str.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+};
+
+const splitPath = (path: string) => {
+  return path.split("/").filter((s) => s !== "" && s !== ".");
+};
+
+/**
+ * Finds the index of the `]` character closing the character class
+ * that starts at the given index, or -1 if the class is not closed.
+ */
+const findClassEnd = (pattern: string, start: number) => {
+  let i = start + 1;
+
+  if (pattern[i] === "!" || pattern[i] === "^") {
+    i++;
+  }
+
+  // `]` directly after the opening bracket is treated as a literal
+  if (pattern[i] === "]") {
+    i++;
+  }
+
+  for (; i < pattern.length; i++) {
+    if (pattern[i] === "\\") {
+      i++;
+    } else if (pattern[i] === "]") {
+      return i;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Splits the given string on every `separator` character that's not
+ * nested within braces.
+ */
+const splitTopLevel = (str: string, separator: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let last = 0;
+
+  for (let i = 0; i < str.length; i++) {
+    const c = str[i];
+
+    if (c === "\\") {
+      i++;
+    } else if (c === "{") {
+      depth++;
+    } else if (c === "}") {
+      depth--;
+    } else if (c === separator && depth === 0) {
+      parts.push(str.slice(last, i));
+      last = i + 1;
+    }
+  }
+
+  parts.push(str.slice(last));
+
+  return parts;
+};
+
+/**
+ * Expands all the brace groups in the given pattern.
+ *
+ * @example
+ *   expandBraces("src/{a,b/{c,d}}.ts");
+ *   // ["src/a.ts", "src/b/c.ts", "src/b/d.ts"]
+ */
+const expandBraces = (pattern: string): string[] => {
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+
+    if (c === "\\") {
+      i++;
+    } else if (c === "[") {
+      const end = findClassEnd(pattern, i);
+      if (end !== -1) {
+        i = end;
+      }
+    } else if (c === "{") {
+      if (depth === 0) {
+        start = i;
+      }
+      depth++;
+    } else if (c === "}" && depth > 0) {
+      depth--;
+
+      if (depth === 0) {
+        const alternatives = splitTopLevel(
+          pattern.slice(start + 1, i),
+          ",",
+        );
+
+        // a group without any commas (e.g. `{a}`) is not expanded
+        if (alternatives.length < 2) {
+          continue;
+        }
+
+        const prefix = pattern.slice(0, start);
+        const suffix = pattern.slice(i + 1);
+        const result: string[] = [];
+
+        for (const alternative of alternatives) {
+          result.push(...expandBraces(prefix + alternative + suffix));
+        }
+
+        return result;
+      }
+    }
+  }
+
+  return [pattern];
+};
+
+const compileSegment = (segment: string, dot: boolean): Segment => {
+  if (segment === "**") {
+    return GLOBSTAR;
+  }
+
+  let source = "";
+  let literal = "";
+  let hasMagic = false;
+
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i]!;
+
+    switch (c) {
+      case "\\": {
+        const next = segment[i + 1] ?? "\\";
+        source += escapeRegExp(next);
+        literal += next;
+        i++;
+        break;
+      }
+      case "*":
+        hasMagic = true;
+        source += "[^/]*";
+        while (segment[i + 1] === "*") {
+          i++;
+        }
+        break;
+      case "?":
+        hasMagic = true;
+        source += "[^/]";
+        break;
+      case "[": {
+        const end = findClassEnd(segment, i);
+
+        if (end === -1) {
+          source += "\\[";
+          literal += c;
+          break;
+        }
+
+        let body = segment.slice(i + 1, end);
+        let negate = false;
+
+        if (body[0] === "!" || body[0] === "^") {
+          negate = true;
+          body = body.slice(1);
+        }
+
+        hasMagic = true;
+        source +=
+          "[" +
+          (negate ? "^/" : "") +
+          body.replace(/\\.|[[\]]/g, (m) =>
+            m.length === 2 ? escapeRegExp(m[1]!) : "\\" + m,
+          ) +
+          "]";
+        i = end;
+        break;
+      }
+      default:
+        source += escapeRegExp(c);
+        literal += c;
+    }
+  }
+
+  if (!hasMagic) {
+    return literal;
+  }
+
+  const noDot = !dot && segment[0] !== ".";
+
+  try {
+    return new RegExp("^" + (noDot ? "(?!\\.)" : "") + source + "$");
+  } catch {
+    throw new TypeError(`Invalid glob pattern segment: '${segment}'`);
+  }
+};
+
+const matchSegment = (segment: string | RegExp, name: string) => {
+  if (typeof segment === "string") {
+    return segment === name;
+  }
+  return segment.test(name);
+};
+
+const matchSegments = (
+  pattern: Segment[],
+  pi: number,
+  path: string[],
+  si: number,
+  dot: boolean,
+): boolean => {
+  while (pi < pattern.length) {
+    const segment = pattern[pi]!;
+
+    if (segment === GLOBSTAR) {
+      for (let k = si; k <= path.length; k++) {
+        if (matchSegments(pattern, pi + 1, path, k, dot)) {
+          return true;
+        }
+
+        // globstar does not descend into dot directories
+        if (k < path.length && !dot && path[k]![0] === ".") {
+          return false;
+        }
+      }
+
+      return false;
+    }
+
+    if (si >= path.length || !matchSegment(segment, path[si]!)) {
+      return false;
+    }
+
+    pi++;
+    si++;
+  }
+
+  return si === path.length;
+};
+
+/**
+ * Checks if the pattern could match any path inside of the given
+ * directory path.
+ */
+const matchPrefix = (
+  pattern: Segment[],
+  pi: number,
+  path: string[],
+  si: number,
+  dot: boolean,
+): boolean => {
+  while (si < path.length) {
+    const segment = pattern[pi];
+
+    if (segment === undefined) {
+      return false;
+    }
+
+    if (segment === GLOBSTAR) {
+      for (let k = si; k < path.length; k++) {
+        if (matchPrefix(pattern, pi + 1, path, k, dot)) {
+          return true;
+        }
+
+        // globstar does not descend into dot directories
+        if (!dot && path[k]![0] === ".") {
+          return false;
+        }
+      }
+
+      return true;
+    }
+
+    if (!matchSegment(segment, path[si]!)) {
+      return false;
+    }
+
+    pi++;
+    si++;
+  }
+
+  return pi < pattern.length;
+};
+
+/**
+ * Checks if the segment can match a name starting with a dot, when
+ * the `dot` option is disabled. Wildcards only do so if the segment
+ * itself starts with a dot.
+ */
+const matchesDotNames = (segment: Segment, source: string) => {
+  if (segment === GLOBSTAR) {
+    return false;
+  }
+
+  return typeof segment === "string"
+    ? segment[0] === "."
+    : source[0] === ".";
+};
+
+/**
+ * A compiled glob pattern that can be tested against paths without
+ * accessing the file system.
+ *
+ * Supports `*`, `**`, `?`, character classes (`[a-z]`, `[!a-z]`),
+ * brace expansion (`{a,b}`) and negation (a leading `!`). When
+ * multiple patterns are given, a path matches if it matches any of
+ * the non-negated patterns and none of the negated ones.
+ *
+ * All patterns and paths are expected to be relative and use `/` as
+ * the separator.
+ *
+ * @example
+ *   const matcher = new GlobMatcher([
+ *     "src/*.{ts,js}",
+ *     "!src/*.test.*",
+ *   ]);
+ *
+ *   matcher.match("src/index.ts"); // true
+ *   matcher.match("src/index.test.ts"); // false
+ */
+class GlobMatcher {
+  private _include: Segment[][] = [];
+  private _exclude: Segment[][] = [];
+  private _dot: boolean;
+  private _includesDotNames = false;
+
+  constructor(
+    patterns: string | string[],
+    options?: GlobMatcherOptions,
+  ) {
+    this._dot = options?.dot ?? false;
+
+    const patternList = Array.isArray(patterns)
+      ? patterns
+      : [patterns];
+
+    for (let i = 0; i < patternList.length; i++) {
+      let pattern = patternList[i];
+      validateText(pattern, "pattern");
+
+      let negated = false;
+      while (pattern[0] === "!") {
+        negated = !negated;
+        pattern = pattern.slice(1);
+      }
+
+      for (const expanded of expandBraces(pattern)) {
+        const sources = splitPath(expanded);
+        const compiled = sources.map((s) =>
+          compileSegment(s, this._dot),
+        );
+
+        if (negated) {
+          this._exclude.push(compiled);
+        } else {
+          this._include.push(compiled);
+          this._includesDotNames ||= compiled.some((s, i) =>
+            matchesDotNames(s, sources[i]!),
+          );
+        }
+      }
+    }
+
+    if (this._include.length === 0) {
+      this._include.push([GLOBSTAR]);
+    }
+  }
+
+  /**
+   * The maximum number of path segments a matching path can have, or
+   * `Infinity` if any of the patterns contains a globstar (`**`).
+   */
+  get maxDepth() {
+    let max = 0;
+
+    for (const pattern of this._include) {
+      if (pattern.includes(GLOBSTAR)) {
+        return Infinity;
+      }
+      max = Math.max(max, pattern.length);
+    }
+
+    return max;
+  }
+
+  /**
+   * Checks if the given path matches the pattern.
+   */
+  match(path: string) {
+    const segments = splitPath(path);
+
+    return (
+      this._include.some((p) =>
+        matchSegments(p, 0, segments, 0, this._dot),
+      ) &&
+      !this._exclude.some((p) =>
+        matchSegments(p, 0, segments, 0, this._dot),
+      )
+    );
+  }
+
+  /**
+   * Checks if any path inside of the given directory could match the
+   * pattern. Used to skip directories that cannot contain any
+   * matching entries, including the ones excluded as a whole by a
+   * negated pattern (e.g. `!node_modules/**`).
+   */
+  matchDescendants(dirPath: string) {
+    const segments = splitPath(dirPath);
+
+    return (
+      this._include.some((p) =>
+        matchPrefix(p, 0, segments, 0, this._dot),
+      ) && !this._exclude.some((p) => this.excludesAll(p, segments))
+    );
+  }
+
+  /**
+   * Checks if the negated pattern excludes every path inside of the
+   * given directory, which is the case when it ends with a globstar
+   * and matches the directory itself.
+   */
+  private excludesAll(pattern: Segment[], segments: string[]) {
+    if (pattern[pattern.length - 1] !== GLOBSTAR) {
+      return false;
+    }
+
+    // the trailing globstar does not match dot names, which could
+    // still be matched by the included patterns
+    if (!this._dot && this._includesDotNames) {
+      return false;
+    }
+
+    return matchSegments(pattern, 0, segments, 0, this._dot);
+  }
+}
+
+export { GlobMatcher };
+export type { GlobMatcherOptions };
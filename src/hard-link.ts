@@ -0,0 +1,109 @@
+import GLib from "gi://GLib?version=2.0";
+import Gio from "gi://Gio?version=2.0";
+import { FsError } from "./errors";
+
+let lnPath: string | null | undefined;
+let lnSupportsNoTargetDirectory: boolean | undefined;
+
+/**
+ * Returns the absolute path of the `ln` command, it's looked up only
+ * once.
+ */
+const getLnPath = () => {
+  if (lnPath === undefined) {
+    lnPath = GLib.find_program_in_path("ln");
+  }
+
+  if (lnPath == null) {
+    throw new FsError("The 'ln' command could not be found.");
+  }
+
+  return lnPath;
+};
+
+/**
+ * Checks if the `ln` command supports the `-T` flag (GNU and BusyBox
+ * implementations list it in their help text), it's checked only
+ * once.
+ */
+const supportsNoTargetDirectory = () => {
+  if (lnSupportsNoTargetDirectory === undefined) {
+    try {
+      const proc = Gio.Subprocess.new(
+        [getLnPath(), "--help"],
+        Gio.SubprocessFlags.STDOUT_PIPE |
+          Gio.SubprocessFlags.STDERR_MERGE,
+      );
+      const [, stdout] = proc.communicate_utf8(null, null);
+
+      lnSupportsNoTargetDirectory = /(^|\s)-T\b/m.test(stdout ?? "");
+    } catch {
+      lnSupportsNoTargetDirectory = false;
+    }
+  }
+
+  return lnSupportsNoTargetDirectory;
+};
+
+/**
+ * Gio does not provide a way to create hard links, so the `ln`
+ * command is used instead.
+ *
+ * `ln` creates the link inside of the destination if it's an existing
+ * directory, which is prevented with the `-T` flag. Not every
+ * implementation supports it, in which case an existing destination
+ * is rejected beforehand instead. Creating the link is then not
+ * atomic, a directory that appears under the link path in the
+ * meantime still gets the link created inside of it.
+ */
+export const spawnHardLinkProcess = (
+  linkPath: string,
+  existingPath: string,
+) => {
+  if (supportsNoTargetDirectory()) {
+    return Gio.Subprocess.new(
+      [getLnPath(), "-T", "--", existingPath, linkPath],
+      Gio.SubprocessFlags.STDOUT_SILENCE |
+        Gio.SubprocessFlags.STDERR_PIPE,
+    );
+  }
+
+  const fileType = Gio.File.new_for_path(linkPath).query_file_type(
+    Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+    null,
+  );
+
+  if (fileType !== Gio.FileType.UNKNOWN) {
+    throw new FsError(
+      `Failed to create hard link: ${linkPath} -> ${existingPath} (file already exists)`,
+    );
+  }
+
+  return Gio.Subprocess.new(
+    [getLnPath(), "--", existingPath, linkPath],
+    Gio.SubprocessFlags.STDOUT_SILENCE |
+      Gio.SubprocessFlags.STDERR_PIPE,
+  );
+};
+
+/**
+ * Checks the result of the process spawned by the
+ * `spawnHardLinkProcess()` and throws if the link was not created.
+ */
+export const checkHardLinkProcess = (
+  proc: Gio.Subprocess,
+  stderr: string | null,
+  linkPath: string,
+  existingPath: string,
+) => {
+  if (proc.get_successful()) {
+    return;
+  }
+
+  const reason = stderr?.trim();
+
+  throw new FsError(
+    `Failed to create hard link: ${linkPath} -> ${existingPath}` +
+      (reason ? ` (${reason})` : ""),
+  );
+};
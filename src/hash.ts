@@ -0,0 +1,131 @@
+import GLib from "gi://GLib?version=2.0";
+
+type HashAlgorithm = "md5" | "sha1" | "sha256" | "sha384" | "sha512";
+
+/**
+ * The format in which the digest is returned, either as a hexadecimal
+ * string, a base64 string or raw bytes.
+ */
+type DigestEncoding = "hex" | "base64" | "bytes";
+
+const CHECKSUM_TYPES: Record<HashAlgorithm, GLib.ChecksumType> = {
+  md5: GLib.ChecksumType.MD5,
+  sha1: GLib.ChecksumType.SHA1,
+  sha256: GLib.ChecksumType.SHA256,
+  sha384: GLib.ChecksumType.SHA384,
+  sha512: GLib.ChecksumType.SHA512,
+};
+
+/**
+ * Size (in bytes) of the blocks each of the algorithms operates on,
+ * needed to derive the HMAC keys.
+ */
+const BLOCK_SIZES: Record<HashAlgorithm, number> = {
+  md5: 64,
+  sha1: 64,
+  sha256: 64,
+  sha384: 128,
+  sha512: 128,
+};
+
+const hexToBytes = (hex: string) => {
+  const bytes = new Uint8Array(hex.length / 2);
+
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  return bytes;
+};
+
+const xorBytes = (bytes: Uint8Array, value: number) => {
+  return bytes.map((byte) => byte ^ value);
+};
+
+/**
+ * GJS cannot read the raw digest of a GLib.Checksum, so it's parsed
+ * from the hexadecimal string instead.
+ */
+const getDigest = (checksum: GLib.Checksum) => {
+  return hexToBytes(checksum.get_string()!);
+};
+
+/**
+ * Incrementally computes a hash (or a HMAC, if a key is given) of the
+ * data fed to it via `update()`.
+ *
+ * GLib.Hmac cannot be constructed from GJS, so the HMAC is computed
+ * with two GLib.Checksum instances, as described in RFC 2104.
+ */
+export class Hasher {
+  private _checksum: GLib.Checksum;
+  private _outerKey: Uint8Array | null = null;
+
+  constructor(
+    private algorithm: HashAlgorithm,
+    key?: Uint8Array,
+  ) {
+    this._checksum = GLib.Checksum.new(CHECKSUM_TYPES[algorithm]);
+
+    if (key) {
+      const blockSize = BLOCK_SIZES[algorithm];
+      const blockKey = new Uint8Array(blockSize);
+
+      if (key.byteLength > blockSize) {
+        const keyChecksum = GLib.Checksum.new(
+          CHECKSUM_TYPES[algorithm],
+        );
+        keyChecksum.update(key);
+        blockKey.set(getDigest(keyChecksum));
+      } else {
+        blockKey.set(key);
+      }
+
+      this._checksum.update(xorBytes(blockKey, 0x36));
+      this._outerKey = xorBytes(blockKey, 0x5c);
+    }
+  }
+
+  update(data: Uint8Array) {
+    this._checksum.update(data);
+  }
+
+  /**
+   * Returns the resulting digest. The Hasher cannot be updated after
+   * this method was called.
+   */
+  digest() {
+    const digest = getDigest(this._checksum);
+
+    if (this._outerKey === null) {
+      return digest;
+    }
+
+    const outer = GLib.Checksum.new(CHECKSUM_TYPES[this.algorithm]);
+    outer.update(this._outerKey);
+    outer.update(digest);
+
+    return getDigest(outer);
+  }
+}
+
+/**
+ * Converts the digest bytes into the given encoding.
+ */
+export const encodeDigest = (
+  digest: Uint8Array,
+  encoding: DigestEncoding,
+) => {
+  switch (encoding) {
+    case "bytes":
+      return digest;
+    case "base64":
+      return GLib.base64_encode(digest)!;
+    case "hex":
+      return Array.from(digest, (byte) =>
+        byte.toString(16).padStart(2, "0"),
+      ).join("");
+  }
+};
+
+export type { DigestEncoding, HashAlgorithm };
@@ -1,25 +1,96 @@
+import type { CompressionFormat } from "./compression";
+import { ContentTypeInfo } from "./content-type";
+import type {
+  CompareBy,
+  DirComparison,
+  DirDiffEntry,
+  DirDiffType,
+} from "./dir-compare";
+import type {
+  SyncDirAction,
+  SyncDirProgress,
+  SyncDirReport,
+} from "./dir-sync";
+import type {
+  DiskUsage,
+  DiskUsageProgress,
+  DiskUsageTotals,
+} from "./disk-usage";
 import type { Encoding } from "./encoding";
-import { FsError } from "./errors";
+import {
+  FileLockedError,
+  FsError,
+  InsufficientSpaceError,
+  JsonParseError,
+} from "./errors";
 import { FileInfo } from "./file-info";
+import type { LockOptions, LockOwner, LockType } from "./file-lock";
+import type { FileTime, FileTimes } from "./file-times";
+import { FileLock } from "./file-lock";
+import type {
+  FileWatcherEventMap,
+  WatchAttributesChangedEvent,
+  WatchChangedEvent,
+  WatchCreatedEvent,
+  WatchDeletedEvent,
+  WatchEvent,
+  WatchEventType,
+  WatchOptions,
+  WatchRenamedEvent,
+} from "./file-watcher";
+import { FileWatcher } from "./file-watcher";
+import { FilesystemInfo } from "./filesystem-info";
+import type { DigestEncoding, HashAlgorithm } from "./hash";
 import type {
   AppendFileOptions,
   AppendTextFileOptions,
   ChmodOptions,
   ChownOptions,
+  CompareDirsOptions,
+  CompressFileOptions,
   CopyFileOptions,
+  CreateTarOptions,
+  DecompressFileOptions,
   DeleteFileOptions,
+  DetectTypeOptions,
+  DiskUsageOptions,
+  ExtractTarOptions,
   FileExistsOptions,
   FileInfoOptions,
+  FilesystemInfoOptions,
+  FindBrokenLinksOptions,
+  GetXattrOptions,
+  GlobOptions,
+  HashOptions,
+  HmacOptions,
   ListDirOptions,
+  ListXattrsOptions,
   MakeDirOptions,
+  MakeHardLinkOptions,
   MakeLinkOptions,
   MoveFileOptions,
   ReadFileOptions,
+  ReadGzipFileOptions,
+  ReadJsonOptions,
+  ReadLinesOptions,
+  ReadLinkOptions,
+  ReadStreamOptions,
   ReadTextFileOptions,
+  RealPathOptions,
+  RemoveXattrOptions,
+  SetTimesOptions,
+  SetXattrOptions,
+  SyncDirOptions,
+  TouchOptions,
+  WalkOptions,
   WriteFileOptions,
+  WriteGzipFileOptions,
+  WriteJsonOptions,
   WriteTextFileOptions,
 } from "./fs";
 import { Fs } from "./fs";
+import type { GlobMatcherOptions } from "./glob";
+import { GlobMatcher } from "./glob";
 import type { IOStreamOptions, IOStreamType } from "./io-stream";
 import { IOStream } from "./io-stream";
 import { Permission } from "./permission-parser";
@@ -28,62 +99,194 @@ import type {
   SyncAppendTextFileOptions,
   SyncChmodOptions,
   SyncChownOptions,
+  SyncCompareDirsOptions,
+  SyncCompressFileOptions,
   SyncCopyFileOptions,
+  SyncCreateTarOptions,
+  SyncDecompressFileOptions,
   SyncDeleteFileOptions,
+  SyncDiskUsageOptions,
+  SyncExtractTarOptions,
   SyncFileInfoOptions,
+  SyncFindBrokenLinksOptions,
+  SyncGetXattrOptions,
+  SyncGlobOptions,
+  SyncHashOptions,
+  SyncHmacOptions,
   SyncListDirOptions,
+  SyncListXattrsOptions,
+  SyncMakeDirOptions,
+  SyncMakeLinkOptions,
   SyncMoveFileOptions,
   SyncReadFileOptions,
+  SyncReadGzipFileOptions,
+  SyncReadJsonOptions,
+  SyncReadLinesOptions,
+  SyncReadStreamOptions,
   SyncReadTextFileOptions,
+  SyncRemoveXattrOptions,
+  SyncSetTimesOptions,
+  SyncSetXattrOptions,
+  SyncSyncDirOptions,
+  SyncTouchOptions,
+  SyncWalkOptions,
   SyncWriteFileOptions,
+  SyncWriteGzipFileOptions,
+  SyncWriteJsonOptions,
   SyncWriteTextFileOptions,
 } from "./sync-fs";
 import { SyncFs } from "./sync-fs";
 import type { SyncIOStreamOptions } from "./sync-io-stream";
 import { SyncIOStream } from "./sync-io-stream";
+import type { SyncTempOptions, TempOptions } from "./temp";
+import {
+  cleanupPendingTempFiles,
+  SyncTempDir,
+  SyncTempFile,
+  TempDir,
+  TempFile,
+} from "./temp";
 
 export default Fs;
 export {
+  cleanupPendingTempFiles,
+  ContentTypeInfo,
   FileInfo,
+  FileLock,
+  FileLockedError,
+  FilesystemInfo,
+  FileWatcher,
   Fs,
   FsError,
+  GlobMatcher,
+  InsufficientSpaceError,
   IOStream,
+  JsonParseError,
   Permission,
   SyncFs,
   SyncIOStream,
+  SyncTempDir,
+  SyncTempFile,
+  TempDir,
+  TempFile,
 };
 export type {
   AppendFileOptions,
   AppendTextFileOptions,
   ChmodOptions,
   ChownOptions,
+  CompareBy,
+  CompareDirsOptions,
+  CompressFileOptions,
+  CompressionFormat,
   CopyFileOptions,
+  CreateTarOptions,
+  DecompressFileOptions,
   DeleteFileOptions,
+  DetectTypeOptions,
+  DigestEncoding,
+  DirComparison,
+  DirDiffEntry,
+  DirDiffType,
+  DiskUsage,
+  DiskUsageOptions,
+  DiskUsageProgress,
+  DiskUsageTotals,
   Encoding,
+  ExtractTarOptions,
   FileExistsOptions,
   FileInfoOptions,
+  FilesystemInfoOptions,
+  FileTime,
+  FileTimes,
+  FileWatcherEventMap,
+  FindBrokenLinksOptions,
+  GetXattrOptions,
+  GlobMatcherOptions,
+  GlobOptions,
+  HashAlgorithm,
+  HashOptions,
+  HmacOptions,
   IOStreamOptions,
   IOStreamType,
   ListDirOptions,
+  ListXattrsOptions,
+  LockOptions,
+  LockOwner,
+  LockType,
   MakeDirOptions,
+  MakeHardLinkOptions,
   MakeLinkOptions,
   MoveFileOptions,
   ReadFileOptions,
+  ReadGzipFileOptions,
+  ReadJsonOptions,
+  ReadLinesOptions,
+  ReadLinkOptions,
+  ReadStreamOptions,
   ReadTextFileOptions,
+  RealPathOptions,
+  RemoveXattrOptions,
+  SetTimesOptions,
+  SetXattrOptions,
   SyncAppendFileOptions,
   SyncAppendTextFileOptions,
   SyncChmodOptions,
   SyncChownOptions,
+  SyncCompareDirsOptions,
+  SyncCompressFileOptions,
   SyncCopyFileOptions,
+  SyncCreateTarOptions,
+  SyncDecompressFileOptions,
   SyncDeleteFileOptions,
+  SyncDirAction,
+  SyncDirOptions,
+  SyncDirProgress,
+  SyncDirReport,
+  SyncDiskUsageOptions,
+  SyncExtractTarOptions,
   SyncFileInfoOptions,
+  SyncFindBrokenLinksOptions,
+  SyncGetXattrOptions,
+  SyncGlobOptions,
+  SyncHashOptions,
+  SyncHmacOptions,
   SyncIOStreamOptions,
   SyncListDirOptions,
+  SyncListXattrsOptions,
+  SyncMakeDirOptions,
+  SyncMakeLinkOptions,
   SyncMoveFileOptions,
   SyncReadFileOptions,
+  SyncReadGzipFileOptions,
+  SyncReadJsonOptions,
+  SyncReadLinesOptions,
+  SyncReadStreamOptions,
   SyncReadTextFileOptions,
+  SyncRemoveXattrOptions,
+  SyncSetTimesOptions,
+  SyncSetXattrOptions,
+  SyncSyncDirOptions,
+  SyncTempOptions,
+  SyncTouchOptions,
+  SyncWalkOptions,
   SyncWriteFileOptions,
+  SyncWriteGzipFileOptions,
+  SyncWriteJsonOptions,
   SyncWriteTextFileOptions,
+  TempOptions,
+  TouchOptions,
+  WalkOptions,
+  WatchAttributesChangedEvent,
+  WatchChangedEvent,
+  WatchCreatedEvent,
+  WatchDeletedEvent,
+  WatchEvent,
+  WatchEventType,
+  WatchOptions,
+  WatchRenamedEvent,
   WriteFileOptions,
+  WriteGzipFileOptions,
+  WriteJsonOptions,
   WriteTextFileOptions,
 };
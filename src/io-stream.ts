@@ -1,24 +1,69 @@
 import { Mutex } from "@ncpa0cpl/mutex.js";
 import GLib from "gi://GLib?version=2.0";
 import type Gio from "gi://Gio?version=2.0";
+import { encodeText } from "./charset";
+import type { CompressionFormat } from "./compression";
+import {
+  DEFAULT_COMPRESSION_LEVEL,
+  wrapInputStream,
+  wrapOutputStream,
+} from "./compression";
+import type { Encoding } from "./encoding";
 import { FsError } from "./errors";
+import type { LockOptions } from "./file-lock";
+import { FileLock } from "./file-lock";
 import type { FileCreateFlagOptions } from "./flags";
 import { getCreateFileFlag } from "./flags";
 import { Fs } from "./fs";
 import { OptionsResolver } from "./option-resolver";
 import { promise } from "./promise";
+import { IncrementalDecoder } from "./text-decoding";
 import {
   OptValidators,
   validateBytes,
   validateInteger,
   validatePositiveInteger,
+  validateText,
 } from "./validators";
 
 interface IOStreamOptions extends FileCreateFlagOptions {
+  /**
+   * Aborts opening the stream. Has no effect on a stream that is
+   * already open.
+   */
+  abortSignal?: AbortSignal;
   cwd?: string;
   ioPriority?: number;
   etag?: string;
   makeBackup?: boolean;
+  /**
+   * When enabled, an advisory lock (see `Fs.lock()`) is acquired on
+   * the file before it's opened, and released once the stream gets
+   * closed. Lock options can be passed instead of `true`.
+   *
+   * @default false
+   */
+  lock?: boolean | LockOptions;
+  /**
+   * When set, the data read from the stream is decompressed, and the
+   * data written to it is compressed, in the given format. Compressed
+   * streams cannot seek or be truncated.
+   */
+  compression?: CompressionFormat;
+  /**
+   * Compression level of the written data, from 0 (no compression) to
+   * 9 (best compression), or -1 for the zlib default.
+   *
+   * @default -1
+   */
+  compressionLevel?: number;
+  /**
+   * Encoding of the text written with `writeText()` and read with
+   * `readText()` and `readAllText()`.
+   *
+   * @default "utf-8"
+   */
+  encoding?: Encoding;
 }
 
 type IOStreamType = "OPEN" | "CREATE" | "REPLACE";
@@ -29,21 +74,43 @@ class IOStream {
     type: IOStreamType,
     options?: IOStreamOptions,
   ) {
-    return promise<IOStream>("IOStream.openFile", null, async (p) => {
-      const file = Fs.file(path, options?.cwd);
-      const stream = new IOStream(file, options);
+    return promise<IOStream>(
+      "IOStream.openFile",
+      options?.abortSignal,
+      async (p) => {
+        const file = Fs.file(path, options?.cwd);
+        const stream = new IOStream(file, options);
+        const lock = stream._options.get("lock", false);
+
+        if (lock) {
+          stream._lock = await FileLock.acquire(
+            file.get_path()!,
+            lock === true ? undefined : lock,
+          );
+        }
 
-      await stream._initFile(type);
+        try {
+          await stream._initFile(type, p.cancellable);
+          stream._initConverters();
+        } catch (err) {
+          await stream._lock?.release();
+          throw err;
+        }
 
-      return p.resolve(stream);
-    });
+        return p.resolve(stream);
+      },
+    );
   }
 
   private _options;
   private _stream?: Gio.FileIOStream;
+  private _input?: Gio.InputStream;
+  private _output?: Gio.OutputStream;
+  private _compressedOutput?: Gio.OutputStream;
   private _state: "OPEN" | "CLOSED" = "OPEN";
   private _mutex = new Mutex();
   private _type!: IOStreamType;
+  private _lock: FileLock | null = null;
 
   private constructor(
     private gioFile: Gio.File,
@@ -54,9 +121,14 @@ class IOStream {
     /**
      * Options are validated on access
      */
+    this._options.get("abortSignal");
+    this._options.get("compression");
+    this._options.get("compressionLevel");
     this._options.get("cwd");
+    this._options.get("encoding");
     this._options.get("etag");
     this._options.get("ioPriority");
+    this._options.get("lock");
     this._options.get("makeBackup");
     this._options.get("private");
     this._options.get("replace");
@@ -81,14 +153,25 @@ class IOStream {
     return this._type;
   }
 
+  /**
+   * The lock held on the file, if the stream was opened with the
+   * `lock` option.
+   */
+  public get lock() {
+    return this._lock;
+  }
+
   /**
    * Whether the Output Stream is currently in the process of closing.
    */
   public get isClosing() {
-    return this._stream?.output_stream.is_closing();
+    return this._output?.is_closing();
   }
 
-  private async _initFile(type: IOStreamType) {
+  private async _initFile(
+    type: IOStreamType,
+    cancellable: Gio.Cancellable | null,
+  ) {
     const opt = this._options;
     this._type = type;
 
@@ -103,7 +186,7 @@ class IOStream {
             this.gioFile.create_readwrite_async(
               createFlag,
               opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
-              null,
+              cancellable,
               p.asyncCallback((_, result: Gio.AsyncResult) => {
                 const stream =
                   this.gioFile.create_readwrite_finish(result);
@@ -132,7 +215,7 @@ class IOStream {
               opt.get("makeBackup", false),
               createFlag,
               opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
-              null,
+              cancellable,
               p.asyncCallback((_, result: Gio.AsyncResult) => {
                 const stream =
                   this.gioFile.replace_readwrite_finish(result);
@@ -156,7 +239,7 @@ class IOStream {
           (p) => {
             this.gioFile.open_readwrite_async(
               opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
-              null,
+              cancellable,
               p.asyncCallback((_, result: Gio.AsyncResult) => {
                 const stream =
                   this.gioFile.open_readwrite_finish(result);
@@ -178,14 +261,60 @@ class IOStream {
     throw new FsError("Invalid IOStream type.");
   }
 
+  /**
+   * Wraps the input stream in a converter, if the compression is
+   * enabled. The output stream is wrapped only once something gets
+   * written to it, see `_getOutput()`.
+   */
+  private _initConverters() {
+    const compression = this._options.get("compression");
+
+    this._input = this._stream!.input_stream;
+    this._output = this._stream!.output_stream;
+
+    if (compression) {
+      this._input = wrapInputStream(this._input, compression);
+    }
+  }
+
+  /**
+   * Returns the stream to write to. The compressing converter is
+   * created lazily, since closing it writes out the headers of the
+   * compressed data, which would modify files only opened for
+   * reading.
+   */
+  private _getOutput() {
+    const compression = this._options.get("compression");
+
+    if (compression && !this._compressedOutput) {
+      this._compressedOutput = wrapOutputStream(
+        this._stream!.output_stream,
+        compression,
+        this._options.get(
+          "compressionLevel",
+          DEFAULT_COMPRESSION_LEVEL,
+        ),
+      );
+      this._output = this._compressedOutput;
+    }
+
+    return this._output!;
+  }
+
   private _ensureCanSeek() {
-    if (!this._stream!.can_seek()) {
+    if (
+      this._options.get("compression") != null ||
+      !this._stream!.can_seek()
+    ) {
       throw new FsError("Stream cannot seek.");
     }
   }
 
   private _ensureCanTruncate() {
-    if (!this._stream!.can_truncate()) {
+    if (
+      this._options.get("compression") != null ||
+      !this._stream!.can_truncate()
+    ) {
       throw new FsError("Stream cannot truncate.");
     }
   }
@@ -334,13 +463,12 @@ class IOStream {
           "IOStream.skip",
           null,
           (p2) => {
-            this._stream!.input_stream.skip_async(
+            this._input!.skip_async(
               byteCount,
               this._options.get("ioPriority", GLib.PRIORITY_DEFAULT),
               null,
               p2.asyncCallback((_, result: Gio.AsyncResult) => {
-                const bytesSkipped =
-                  this._stream!.input_stream.skip_finish(result);
+                const bytesSkipped = this._input!.skip_finish(result);
 
                 if (bytesSkipped === -1) {
                   p2.reject(new FsError("Failed to skip bytes."));
@@ -390,15 +518,14 @@ class IOStream {
             null,
             (p2) => {
               const bytes = GLib.Bytes.new(content);
-              this._stream!.output_stream.write_bytes_async(
+              const output = this._getOutput();
+              output.write_bytes_async(
                 bytes,
                 opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
                 null,
                 p2.asyncCallback((_, result: Gio.AsyncResult) => {
                   const bytesWritten =
-                    this._stream!.output_stream.write_bytes_finish(
-                      result,
-                    );
+                    output.write_bytes_finish(result);
 
                   if (bytesWritten === -1) {
                     p2.reject(
@@ -446,15 +573,13 @@ class IOStream {
             "IOStream.read",
             null,
             (p2) => {
-              this._stream!.input_stream.read_bytes_async(
+              this._input!.read_bytes_async(
                 byteCount,
                 opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
                 null,
                 p2.asyncCallback((_, result: Gio.AsyncResult) => {
                   const bytes =
-                    this._stream!.input_stream.read_bytes_finish(
-                      result,
-                    );
+                    this._input!.read_bytes_finish(result);
 
                   if (bytes != null) {
                     p2.resolve(bytes.toArray());
@@ -509,16 +634,14 @@ class IOStream {
                   "IOStream.readAll",
                   null,
                   (p3) => {
-                    this._stream!.input_stream.read_bytes_async(
+                    this._input!.read_bytes_async(
                       chunkSize,
                       opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
                       null,
                       p3.asyncCallback(
                         (_, result: Gio.AsyncResult) => {
                           const bytes =
-                            this._stream!.input_stream.read_bytes_finish(
-                              result,
-                            );
+                            this._input!.read_bytes_finish(result);
 
                           if (bytes != null) {
                             p3.resolve(bytes.toArray());
@@ -559,6 +682,82 @@ class IOStream {
     );
   }
 
+  /**
+   * Encodes the given text with the stream's encoding, and writes it
+   * to the stream at the current cursor position.
+   *
+   * @returns The number of bytes written.
+   */
+  public async writeText(text: string) {
+    return await promise<number>(
+      "IOStream.writeText",
+      null,
+      async (p) => {
+        validateText(text);
+
+        p.resolve(
+          await this.write(
+            encodeText(text, this._options.get("encoding", "utf-8")),
+          ),
+        );
+      },
+    );
+  }
+
+  /**
+   * Reads the given number of bytes starting from the current cursor
+   * position, and decodes them with the stream's encoding. If the
+   * last character is split by the end of those bytes, the few bytes
+   * needed to complete it are read as well.
+   */
+  public async readText(byteCount: number) {
+    return await promise<string>(
+      "IOStream.readText",
+      null,
+      async (p) => {
+        const decoder = new IncrementalDecoder(
+          this._options.get("encoding", "utf-8"),
+        );
+
+        let text = decoder.decode(await this.read(byteCount));
+
+        // the decoder holds back at most a few bytes, so this reads
+        // at most a few more
+        while (decoder.hasPending) {
+          const nextByte = await this.read(1);
+
+          if (nextByte.byteLength === 0) {
+            break;
+          }
+
+          text += decoder.decode(nextByte);
+        }
+
+        p.resolve(text + decoder.flush());
+      },
+    );
+  }
+
+  /**
+   * Reads all remaining bytes from the stream, and decodes them with
+   * the stream's encoding.
+   */
+  public async readAllText() {
+    return await promise<string>(
+      "IOStream.readAllText",
+      null,
+      async (p) => {
+        const decoder = new IncrementalDecoder(
+          this._options.get("encoding", "utf-8"),
+        );
+
+        const text = decoder.decode(await this.readAll());
+
+        p.resolve(text + decoder.flush());
+      },
+    );
+  }
+
   /**
    * Waits for all the pending operations on the stream to complete,
    * and then truncates the stream to the given length.
@@ -623,12 +822,11 @@ class IOStream {
         const opt = this._options;
 
         await promise("IOStream.flush", null, (p) => {
-          this._stream!.output_stream.flush_async(
+          this._output!.flush_async(
             opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
             null,
             p.asyncCallback((_, result: Gio.AsyncResult) => {
-              const success =
-                this._stream!.output_stream.flush_finish(result);
+              const success = this._output!.flush_finish(result);
 
               if (success) {
                 p.resolve();
@@ -658,6 +856,23 @@ class IOStream {
         await this._mutex.acquire();
 
         try {
+          // the compressed data is only complete once the converter
+          // stream is closed, which writes out the remaining data
+          const compressedOutput = this._compressedOutput;
+
+          if (compressedOutput) {
+            await promise("IOStream.close", null, (p2) => {
+              compressedOutput.close_async(
+                opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
+                null,
+                p2.asyncCallback((_, result: Gio.AsyncResult) => {
+                  compressedOutput.close_finish(result);
+                  p2.resolve();
+                }),
+              );
+            });
+          }
+
           await promise("IOStream.close", null, (p2) => {
             this._stream!.close_async(
               opt.get("ioPriority", GLib.PRIORITY_DEFAULT),
@@ -678,6 +893,8 @@ class IOStream {
           this._mutex.release();
         }
 
+        await this._lock?.release();
+
         p.resolve();
       });
     }
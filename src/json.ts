@@ -0,0 +1,145 @@
+import { JsonParseError } from "./errors";
+
+type JsonReviver = (this: any, key: string, value: any) => any;
+
+type JsonReplacer = (this: any, key: string, value: any) => any;
+
+interface ParseJsonOptions {
+  reviver?: JsonReviver;
+  jsonc?: boolean;
+}
+
+/**
+ * Replaces all the comments and trailing commas in the given JSONC
+ * text with whitespace. Positions of all the other characters are
+ * left unchanged, so that the parse errors point to the correct line
+ * and column of the original text.
+ */
+const stripJsonc = (text: string) => {
+  const result: string[] = [];
+  let pendingComma = -1;
+  let i = 0;
+
+  while (i < text.length) {
+    const c = text[i]!;
+
+    if (c === '"') {
+      const start = i++;
+
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === "\\" ? 2 : 1;
+      }
+
+      result.push(text.slice(start, ++i));
+      pendingComma = -1;
+      continue;
+    }
+
+    if (c === "/" && (text[i + 1] === "/" || text[i + 1] === "*")) {
+      const isBlock = text[i + 1] === "*";
+      let end = isBlock
+        ? text.indexOf("*/", i + 2)
+        : text.indexOf("\n", i + 2);
+
+      if (end === -1) {
+        // an unterminated block comment is left for the parser to
+        // report
+        if (isBlock) {
+          result.push(text.slice(i));
+          break;
+        }
+
+        end = text.length;
+      } else if (isBlock) {
+        end += 2;
+      }
+
+      result.push(text.slice(i, end).replace(/[^\r\n]/g, " "));
+      i = end;
+      continue;
+    }
+
+    if (c === "}" || c === "]") {
+      if (pendingComma !== -1) {
+        result[pendingComma] = " ";
+      }
+      pendingComma = -1;
+    } else if (c === ",") {
+      pendingComma = result.length;
+    } else if (c !== " " && c !== "\t" && c !== "\n" && c !== "\r") {
+      pendingComma = -1;
+    }
+
+    result.push(c);
+    i++;
+  }
+
+  return result.join("");
+};
+
+/**
+ * Extracts the line and column at which the parsing has failed, from
+ * the SyntaxError thrown by `JSON.parse()`.
+ */
+const getErrorPosition = (err: Error, text: string) => {
+  // SpiderMonkey: "... at line 1 column 10 of the JSON data"
+  const lineColumn = /line (\d+) column (\d+)/.exec(err.message);
+
+  if (lineColumn) {
+    return {
+      line: Number(lineColumn[1]),
+      column: Number(lineColumn[2]),
+    };
+  }
+
+  // V8: "... in JSON at position 9"
+  const position = /position (\d+)/.exec(err.message);
+
+  if (position) {
+    const lines = text.slice(0, Number(position[1])).split("\n");
+
+    return {
+      line: lines.length,
+      column: lines[lines.length - 1]!.length + 1,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Parses the given JSON text read from the file under the given path.
+ * Syntax errors are converted into a `JsonParseError` containing the
+ * path, line and column of the error.
+ */
+const parseJson = (
+  text: string,
+  filepath: string,
+  options: ParseJsonOptions = {},
+): unknown => {
+  if (options.jsonc) {
+    text = stripJsonc(text);
+  }
+
+  try {
+    return JSON.parse(text, options.reviver);
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) {
+      throw err;
+    }
+
+    const position = getErrorPosition(err, text);
+
+    throw new JsonParseError(
+      position
+        ? `Invalid JSON in ${filepath} at line ${position.line}, column ${position.column}: ${err.message}`
+        : `Invalid JSON in ${filepath}: ${err.message}`,
+      filepath,
+      position?.line,
+      position?.column,
+    );
+  }
+};
+
+export { parseJson, stripJsonc };
+export type { JsonReplacer, JsonReviver };
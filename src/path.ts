@@ -111,3 +111,30 @@ export function join(...args: string[]) {
   if (joined === undefined) return ".";
   return normalize(joined);
 }
+
+/**
+ * Returns the relative path from the `from` directory to the `to`
+ * path. Both paths must be absolute.
+ */
+export function relative(from: string, to: string) {
+  __assertPath(from);
+  __assertPath(to);
+
+  const fromParts = normalize(from)
+    .split(SEPARATOR_CHAR)
+    .filter(Boolean);
+  const toParts = normalize(to).split(SEPARATOR_CHAR).filter(Boolean);
+
+  let common = 0;
+  while (
+    common < fromParts.length &&
+    common < toParts.length &&
+    fromParts[common] === toParts[common]
+  ) {
+    common++;
+  }
+
+  const up = fromParts.slice(common).map(() => "..");
+
+  return [...up, ...toParts.slice(common)].join(SEPARATOR_CHAR);
+}
@@ -128,3 +128,4 @@ export const promise = <T = void>(
     }
   });
 };
+export type { PromiseApi };
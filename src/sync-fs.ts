@@ -1,8 +1,53 @@
 import GLib from "gi://GLib?version=2.0";
 import Gio from "gi://Gio?version=2.0";
+import type { TarEntry } from "./archive";
+import {
+  createTarEntry,
+  encodeHeader,
+  getPadding,
+  getSafeEntryPath,
+  getTrailer,
+  TarParser,
+} from "./archive";
+import { createDecoder, encodeText } from "./charset";
+import type { CompressionFormat } from "./compression";
+import {
+  createCompressor,
+  createDecompressor,
+  DEFAULT_COMPRESSION_LEVEL,
+  discardReplaceStream,
+  spliceSync,
+} from "./compression";
+import {
+  ContentTypeInfo,
+  guessContentType,
+  SNIFF_LENGTH,
+} from "./content-type";
+import type { CompareBy, DirDiffEntry } from "./dir-compare";
+import {
+  bytesEqual,
+  DirComparison,
+  getEntryKind,
+  pairEntries,
+} from "./dir-compare";
+import type { SyncDirProgress } from "./dir-sync";
+import { SyncDirTracker } from "./dir-sync";
+import type { DiskUsage, DiskUsageProgress } from "./disk-usage";
+import {
+  addTotals,
+  DiskUsageCounter,
+  emptyUsage,
+} from "./disk-usage";
+import { checkSyncProcess, spawnSyncProcess } from "./disk-sync";
 import type { Encoding } from "./encoding";
 import { FsError } from "./errors";
-import { FileInfo, getAttributes } from "./file-info";
+import {
+  FileInfo,
+  getAttributes,
+  getFileIdentity,
+} from "./file-info";
+import type { FileTimes } from "./file-times";
+import { createTimesInfo } from "./file-times";
 import type {
   FileCopyFlagOptions,
   FileCreateFlagOptions,
@@ -13,21 +58,50 @@ import {
   getCreateFileFlag,
   getQueryFileFlag,
 } from "./flags";
+import {
+  ensureFreeSpace,
+  FILESYSTEM_ATTRIBUTES,
+  FilesystemInfo,
+} from "./filesystem-info";
+import { isGioIOError } from "./gio-error";
+import { GlobMatcher } from "./glob";
+import type { DigestEncoding, HashAlgorithm } from "./hash";
+import { encodeDigest, Hasher } from "./hash";
+import {
+  checkHardLinkProcess,
+  spawnHardLinkProcess,
+} from "./hard-link";
 import type { IOStreamOptions, IOStreamType } from "./io-stream";
+import type { JsonReplacer, JsonReviver } from "./json";
+import { parseJson } from "./json";
 import { OptionsResolver } from "./option-resolver";
 import { parseFsError } from "./parse-fs-error";
-import { isAbsolute, join } from "./path";
+import { isAbsolute, join, normalize, relative } from "./path";
 import type { FilePermission } from "./permission-parser";
 import { parseFilePermission } from "./permission-parser";
+import { sync } from "./sync";
 import type { SyncIOStreamOptions } from "./sync-io-stream";
 import { SyncIOStream } from "./sync-io-stream";
+import type { SyncTempOptions } from "./temp";
+import { SyncTempDir, SyncTempFile } from "./temp";
+import type { Newline } from "./text-decoding";
+import { IncrementalDecoder, LineSplitter } from "./text-decoding";
 import {
+  HashOptValidators,
   OptValidators,
   validateBytes,
   validateNumber,
   validatePermissions,
   validateText,
 } from "./validators";
+import {
+  createXattrInfo,
+  getXattrAttribute,
+  listXattrNames,
+  readXattrValue,
+  USER_XATTR_ATTRIBUTES,
+  XATTR_ATTRIBUTES,
+} from "./xattr";
 
 type Tail<T extends any[]> = T extends [any, ...infer U] ? U : [];
 
@@ -50,6 +124,169 @@ interface SyncListDirOptions
   attributes?: string[];
 }
 
+interface SyncWalkOptions extends Mixin<[SyncListDirOptions]> {
+  /**
+   * How deep into the directory tree the walker should descend. Value
+   * of `1` means only the direct children of the given directory will
+   * be visited.
+   *
+   * @default Infinity
+   */
+  maxDepth?: number;
+  /**
+   * Determines when directories are yielded in relation to their
+   * contents.
+   *
+   * - `pre` - a directory is yielded before any of it's children.
+   * - `post` - a directory is yielded after all of it's children.
+   *
+   * @default "pre"
+   */
+  order?: "pre" | "post";
+  /**
+   * A callback that decides which entries should be yielded. If it
+   * returns `false` for a directory, the walker will not descend into
+   * that directory.
+   */
+  filter?: (file: FileInfo) => boolean;
+}
+
+interface SyncCompareDirsOptions
+  extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {
+  /**
+   * Determines how the files present in both directories are checked
+   * for modifications.
+   *
+   * - `metadata` - files are identical if their sizes and modification
+   *   times are the same.
+   * - `hash` - files are identical if their SHA-256 checksums are the
+   *   same.
+   * - `content` - files are compared byte by byte.
+   *
+   * Symlinks are compared by their targets, unless `followSymlinks`
+   * is enabled.
+   *
+   * @default "metadata"
+   */
+  compareBy?: CompareBy;
+}
+
+interface SyncSyncDirOptions extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * Determines how the files present in both directories are checked
+   * for changes, the same way as in the `compareDirs()` method.
+   *
+   * @default "metadata"
+   */
+  compareBy?: CompareBy;
+  /**
+   * When enabled, entries in the destination that do not exist in the
+   * source are deleted.
+   *
+   * @default false
+   */
+  deleteExtraneous?: boolean;
+  /**
+   * When enabled, nothing is changed on the disk, and the returned
+   * report only describes what would have been done.
+   *
+   * @default false
+   */
+  dryRun?: boolean;
+  /**
+   * Glob patterns of the entries that should be left untouched, in
+   * both the source and the destination. Patterns are matched against
+   * the paths relative to the synchronized directories, e.g.
+   * `["cache", "logs/*.log"]`.
+   */
+  exclude?: string | string[];
+  /**
+   * A callback that will be called after each of the entries is
+   * processed.
+   */
+  onProgress?: (progress: SyncDirProgress) => void;
+}
+
+interface SyncCreateTarOptions
+  extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * Size (in bytes) of the chunks in which the archived files are
+   * read.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+}
+
+interface SyncExtractTarOptions
+  extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * Size (in bytes) of the chunks in which the archive is read.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+  /**
+   * When enabled, the owner and group of the extracted entries are
+   * set to the ones stored in the archive. Usually this requires root
+   * privileges.
+   *
+   * @default false
+   */
+  preserveOwnership?: boolean;
+}
+
+interface SyncDecompressFileOptions
+  extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * Format of the compressed data.
+   *
+   * @default "gzip"
+   */
+  format?: CompressionFormat;
+}
+
+interface SyncCompressFileOptions
+  extends Mixin<[SyncDecompressFileOptions]> {
+  /**
+   * Compression level, from 0 (no compression) to 9 (best
+   * compression), or -1 for the zlib default.
+   *
+   * @default -1
+   */
+  level?: number;
+}
+
+interface SyncReadGzipFileOptions
+  extends Mixin<[SyncDecompressFileOptions]> {}
+
+interface SyncWriteGzipFileOptions
+  extends Mixin<[SyncCompressFileOptions]> {}
+
+interface SyncGlobOptions extends Mixin<[SyncListDirOptions]> {
+  /**
+   * Directory against which the patterns are matched. All the
+   * returned paths are relative to this directory.
+   *
+   * @default The current working directory.
+   */
+  root?: string;
+  /**
+   * When enabled, wildcards will also match files and directories
+   * with names starting with a dot.
+   *
+   * @default false
+   */
+  dot?: boolean;
+  /**
+   * When enabled, FileInfo objects of the matched entries will be
+   * returned instead of the relative paths.
+   *
+   * @default false
+   */
+  withFileInfo?: boolean;
+}
+
 interface SyncFileInfoOptions
   extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {
   /**
@@ -60,9 +297,76 @@ interface SyncFileInfoOptions
   attributes?: string[];
 }
 
+interface SyncDiskUsageOptions
+  extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {
+  /**
+   * How many levels of the directory tree should be included in the
+   * per-child breakdown (the `children` property). Value of `0` means
+   * no breakdown, `1` means only the direct children of the given
+   * directory.
+   *
+   * @default 0
+   */
+  depth?: number;
+  /**
+   * A callback that's called after each entry is measured, with the
+   * running totals.
+   */
+  onProgress?: (progress: DiskUsageProgress) => void;
+}
+
 interface SyncReadFileOptions
   extends Mixin<[SyncFsOperationOptions]> {}
 
+interface SyncHmacOptions extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * The format of the returned digest.
+   *
+   * @default "hex"
+   */
+  encoding?: DigestEncoding;
+  /**
+   * Size (in bytes) of the chunks in which the file is read.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+  /**
+   * A callback that will be called after each chunk of the file is
+   * processed.
+   */
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+}
+
+interface SyncHashOptions extends Mixin<[SyncHmacOptions]> {
+  /**
+   * The hashing algorithm to use.
+   *
+   * @default "sha256"
+   */
+  algorithm?: HashAlgorithm;
+}
+
+interface SyncReadStreamOptions extends Mixin<[SyncReadFileOptions]> {
+  /**
+   * Maximum size (in bytes) of each of the yielded chunks.
+   *
+   * @default 65536
+   */
+  chunkSize?: number;
+  /**
+   * Byte offset from which the reading should start.
+   *
+   * @default 0
+   */
+  start?: number;
+  /**
+   * Byte offset at which the reading should stop (exclusive). If not
+   * specified, the file is read until the end.
+   */
+  end?: number;
+}
+
 interface SyncReadTextFileOptions
   extends Mixin<[SyncReadFileOptions]> {
   /**
@@ -73,6 +377,46 @@ interface SyncReadTextFileOptions
   encoding?: Encoding;
 }
 
+interface SyncReadLinesOptions
+  extends Mixin<[SyncReadTextFileOptions]> {
+  /**
+   * Line endings that the file should be split on. When set to `any`,
+   * each of the `\n`, `\r\n` and `\r` is treated as a line ending.
+   *
+   * @default "any"
+   */
+  newline?: Newline;
+  /**
+   * When enabled, the line endings are kept at the end of each
+   * yielded line.
+   *
+   * @default false
+   */
+  keepEnds?: boolean;
+}
+
+interface SyncReadJsonOptions
+  extends Mixin<[SyncReadTextFileOptions]> {
+  /**
+   * A function that transforms the parsed values, it's passed
+   * directly to the `JSON.parse()`.
+   */
+  reviver?: JsonReviver;
+  /**
+   * A callback that checks if the parsed value has the expected
+   * shape. If it returns `false`, the operation fails. When a type
+   * guard is given, the returned value type is narrowed accordingly.
+   */
+  validate?: (value: unknown) => boolean;
+  /**
+   * When enabled, the file is parsed as JSONC, meaning comments and
+   * trailing commas are allowed.
+   *
+   * @default false
+   */
+  jsonc?: boolean;
+}
+
 interface SyncWriteFileOptions
   extends Mixin<[SyncFsOperationOptions, FileCreateFlagOptions]> {
   etag?: string;
@@ -84,16 +428,86 @@ interface SyncWriteFileOptions
    * file, with the same name, but with a "~" appended at the end.
    */
   makeBackup?: boolean;
+  /**
+   * When enabled, the contents are first written to a temporary file
+   * in the same directory, which is then renamed over the target
+   * file. Readers will always see either the old or the new contents
+   * of the file, never a partially written one.
+   *
+   * Permissions of the replaced file are preserved. If the target is
+   * a symlink, the file it points to is replaced, unless the
+   * `replace` option is enabled.
+   */
+  atomic?: boolean;
+  /**
+   * When enabled, the file and it's parent directory are synced to
+   * the disk before this operation finishes, which guarantees that
+   * the written contents will survive a system crash.
+   *
+   * In case of atomic writes, the temporary file is synced before
+   * it's renamed over the target file, and the directory after that.
+   *
+   * Gio does not provide a way to sync files, so this is done with
+   * the `sync` command, which has to be available.
+   */
+  durable?: boolean;
+  /**
+   * When enabled, the free space of the destination filesystem is
+   * checked before writing, and the operation fails with an
+   * `InsufficientSpaceError` if there's not enough of it.
+   *
+   * The space that would be freed by replacing an existing file is
+   * not taken into account.
+   */
+  checkFreeSpace?: boolean;
 }
 
 interface SyncAppendFileOptions
-  extends Mixin<[SyncWriteFileOptions, FileCreateFlagOptions]> {}
+  extends Mixin<
+    [
+      Omit<
+        SyncWriteFileOptions,
+        "atomic" | "durable" | "checkFreeSpace"
+      >,
+      FileCreateFlagOptions,
+    ]
+  > {}
 
 interface SyncAppendTextFileOptions
-  extends Mixin<[SyncAppendFileOptions]> {}
+  extends Mixin<[SyncAppendFileOptions]> {
+  /**
+   * The encoding to use when writing the file.
+   *
+   * @default "utf-8"
+   */
+  encoding?: Encoding;
+}
 
 interface SyncWriteTextFileOptions
-  extends Mixin<[SyncWriteFileOptions]> {}
+  extends Mixin<[SyncWriteFileOptions]> {
+  /**
+   * The encoding to use when writing the file.
+   *
+   * @default "utf-8"
+   */
+  encoding?: Encoding;
+}
+
+interface SyncWriteJsonOptions
+  extends Mixin<[SyncWriteTextFileOptions]> {
+  /**
+   * Indentation used in the written JSON, either as the number of
+   * spaces or the string used for a single level of indentation.
+   *
+   * @default 2
+   */
+  indent?: number | string;
+  /**
+   * A function that transforms the values before they are serialized,
+   * it's passed directly to the `JSON.stringify()`.
+   */
+  replacer?: JsonReplacer;
+}
 
 interface SyncMoveFileOptions
   extends Mixin<[SyncFsOperationOptions, FileCopyFlagOptions]> {
@@ -108,7 +522,52 @@ interface SyncMoveFileOptions
 }
 
 interface SyncCopyFileOptions
-  extends Mixin<[SyncMoveFileOptions, FileCopyFlagOptions]> {}
+  extends Mixin<[SyncMoveFileOptions, FileCopyFlagOptions]> {
+  /**
+   * When enabled, if the source is a directory, the whole directory
+   * tree will be copied. Each entry within the tree is copied with
+   * the same flag options as the top-level call.
+   */
+  recursive?: boolean;
+  /**
+   * A callback that decides which entries of a directory tree should
+   * be copied. It's called for every entry found in the source
+   * directory, if it returns `false` the entry (and in case of
+   * directories, everything inside it) will be skipped.
+   *
+   * Only used when `recursive` is enabled.
+   */
+  filter?: (file: FileInfo) => boolean;
+  /**
+   * Determines what to do when a directory that's being copied
+   * already exists at the destination.
+   *
+   * - `merge` - copy the source entries into the existing directory,
+   *   keeping any entries that are not present in the source.
+   * - `replace` - delete the existing directory before copying.
+   *
+   * Only used when `recursive` is enabled.
+   *
+   * @default "merge"
+   */
+  dirConflictPolicy?: "merge" | "replace";
+  /**
+   * When enabled, the free space of the destination filesystem is
+   * checked before copying, and the operation fails with an
+   * `InsufficientSpaceError` if there's not enough of it.
+   *
+   * When copying a directory, the size of the whole source tree is
+   * required, including the entries skipped by the `filter`.
+   */
+  checkFreeSpace?: boolean;
+  /**
+   * When enabled, the `user.*` extended attributes of the source are
+   * copied over to the destination (of every entry, when copying
+   * recursively). Other extended attributes are only copied with the
+   * `allMetadata` option, if the filesystem supports it.
+   */
+  copyXattrs?: boolean;
+}
 
 interface SyncDeleteFileOptions
   extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {
@@ -124,12 +583,69 @@ interface SyncDeleteFileOptions
   recursive?: boolean;
 }
 
+interface SyncMakeDirOptions extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * When enabled, any missing parent directories will be created as
+   * well, and no error will be thrown if the directory already
+   * exists.
+   */
+  recursive?: boolean;
+  /**
+   * UNIX permissions that will be set on every created directory.
+   * Accepts the same formats as the `chmod()` method.
+   */
+  mode?: FilePermission;
+}
+
+interface SyncMakeLinkOptions
+  extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * When enabled, the link will point to the target using a path
+   * relative to the directory containing the link, which keeps it
+   * working when the whole tree is moved elsewhere. Existing paths
+   * are resolved with `realPath()` first, like `ln -r` does.
+   *
+   * @default false
+   */
+  relative?: boolean;
+}
+
+interface SyncFindBrokenLinksOptions
+  extends Mixin<
+    [Omit<SyncWalkOptions, "followSymlinks" | "order" | "attributes">]
+  > {}
+
 interface SyncChmodOptions
   extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {}
 
 interface SyncChownOptions
   extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {}
 
+interface SyncSetTimesOptions
+  extends Mixin<[SyncFsOperationOptions]> {
+  /**
+   * When enabled and the path points to a symlink, the times of the
+   * file the link points to are changed, instead of the link itself.
+   *
+   * @default true
+   */
+  followSymlinks?: boolean;
+}
+
+interface SyncTouchOptions extends Mixin<[SyncSetTimesOptions]> {}
+
+interface SyncGetXattrOptions
+  extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {}
+
+interface SyncSetXattrOptions
+  extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {}
+
+interface SyncRemoveXattrOptions
+  extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {}
+
+interface SyncListXattrsOptions
+  extends Mixin<[SyncFsOperationOptions, FileQueryFlagOptions]> {}
+
 interface SyncFsOptions {
   /**
    * Path to a directory which will be used as a base for all calls on
@@ -143,18 +659,8 @@ interface SyncFsOptions {
   cwd?: string;
 }
 
-export const sync = <F extends (...args: any[]) => any>(
-  name: string,
-  fn: F,
-): F => {
-  return ((...args: any[]) => {
-    try {
-      return fn(...args);
-    } catch (err) {
-      throw parseFsError(name, err);
-    }
-  }) as F;
-};
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const MAX_SYMLINK_DEPTH = 40;
 
 class SyncFs {
   // #region Static
@@ -193,94 +699,392 @@ class SyncFs {
   }
 
   /**
-   * Gets information about a specific file or directory.
+   * Recursively walks the directory tree under the given path,
+   * yielding a FileInfo object for each entry found.
+   *
+   * When `followSymlinks` is enabled, each directory is visited at
+   * most once, which prevents symlink cycles from looping forever.
    */
-  public static fileInfo(
-    path: string,
-    options?: SyncFileInfoOptions,
-  ) {
-    return SyncFs.globalInstance.fileInfo(path, options);
+  public static walk(path: string, options?: SyncWalkOptions) {
+    return SyncFs.globalInstance.walk(path, options);
   }
 
   /**
-   * Reads the content of a file under the given path.
+   * Finds all the files and directories matching the given glob
+   * pattern (or patterns). Patterns starting with a `!` exclude the
+   * matching entries from the result.
    *
-   * @returns A Promise with a byte array of the contents.
+   * Directories that cannot contain any matching entries are not
+   * traversed.
    */
-  public static readFile(path: string) {
-    return SyncFs.globalInstance.readFile(path);
+  public static glob(
+    pattern: string | string[],
+    options: SyncGlobOptions & { withFileInfo: true },
+  ): FileInfo[];
+  public static glob(
+    pattern: string | string[],
+    options?: SyncGlobOptions,
+  ): string[];
+  public static glob(
+    pattern: string | string[],
+    options?: SyncGlobOptions,
+  ): Array<string | FileInfo> {
+    return SyncFs.globalInstance.glob(pattern, options);
   }
 
   /**
-   * Reads the content of a file under the given path using the
-   * `readFile()` method and decodes that content to string using the
-   * given encoding.
+   * Compares the two directory trees and yields an entry for each
+   * difference found, and for each identical file. Directories that
+   * exist on both sides are not yielded themselves, only their
+   * contents are.
    */
-  public static readTextFile(
-    path: string,
-    options?: SyncReadTextFileOptions,
+  public static diffDirs(
+    left: string,
+    right: string,
+    options?: SyncCompareDirsOptions,
   ) {
-    return SyncFs.globalInstance.readTextFile(path, options);
+    return SyncFs.globalInstance.diffDirs(left, right, options);
   }
 
   /**
-   * Writes the given data to a file under the given path.
+   * Compares the two directory trees and returns a summary of the
+   * differences, with the relative paths of the entries grouped by
+   * the type of difference.
    */
-  public static writeFile(
-    path: string,
-    data: Uint8Array,
-    options?: SyncWriteFileOptions,
+  public static compareDirs(
+    left: string,
+    right: string,
+    options?: SyncCompareDirsOptions,
   ) {
-    return SyncFs.globalInstance.writeFile(path, data, options);
+    return SyncFs.globalInstance.compareDirs(left, right, options);
   }
 
   /**
-   * Encodes given string into a byte array (UTF-8), and writes that
-   * data to a file under the given path using the `writeFile()`
-   * method.
+   * Synchronizes the destination directory with the source directory,
+   * similarly to `rsync -a`. Only the files that are missing or have
+   * changed are copied, along with their mode, timestamps and
+   * `user.*` extended attributes. Symlinks are copied as symlinks.
+   *
+   * @returns A report of what was copied, updated, deleted and
+   *   skipped, with paths relative to the synchronized directories.
    */
-  public static writeTextFile(
-    path: string,
-    data: string,
-    options?: SyncWriteTextFileOptions,
+  public static syncDir(
+    src: string,
+    dest: string,
+    options?: SyncSyncDirOptions,
   ) {
-    return SyncFs.globalInstance.writeTextFile(path, data, options);
+    return SyncFs.globalInstance.syncDir(src, dest, options);
   }
 
   /**
-   * Appends the given data to a file under the given path.
+   * Creates a tar archive with the contents of the given directory.
+   * The archive is written as a stream, without loading the archived
+   * files into memory.
    */
-  public static appendFile(
-    path: string,
-    data: Uint8Array,
-    options?: SyncAppendFileOptions,
+  public static createTar(
+    srcDir: string,
+    dest: string,
+    options?: SyncCreateTarOptions,
   ) {
-    return SyncFs.globalInstance.appendFile(path, data, options);
+    return SyncFs.globalInstance.createTar(srcDir, dest, options);
   }
 
   /**
-   * Encodes given string into a byte array (UTF-8), and appends that
-   * data to a file under the given path using the `appendFile()`
-   * method.
+   * Extracts the given tar archive into the destination directory.
+   * The archive is read as a stream, without loading it into memory.
    */
-  public static appendTextFile(
-    path: string,
-    data: string,
-    options?: SyncAppendTextFileOptions,
+  public static extractTar(
+    archive: string,
+    destDir: string,
+    options?: SyncExtractTarOptions,
   ) {
-    return SyncFs.globalInstance.appendTextFile(path, data, options);
+    return SyncFs.globalInstance.extractTar(
+      archive,
+      destDir,
+      options,
+    );
   }
 
   /**
-   * Moves a file or directory from one path to another.
+   * Compresses the given file into the destination file, in the gzip
+   * format unless specified otherwise. The file is compressed as a
+   * stream, without loading it into memory.
    */
-  public static moveFile(
-    source: string,
-    destination: string,
-    options?: SyncMoveFileOptions,
+  public static compressFile(
+    src: string,
+    dest: string,
+    options?: SyncCompressFileOptions,
   ) {
-    return SyncFs.globalInstance.moveFile(
-      source,
+    return SyncFs.globalInstance.compressFile(src, dest, options);
+  }
+
+  /**
+   * Decompresses the given gzip compressed file (or zlib, or raw
+   * deflate, depending on the `format` option) into the destination
+   * file, as a stream.
+   */
+  public static decompressFile(
+    src: string,
+    dest: string,
+    options?: SyncDecompressFileOptions,
+  ) {
+    return SyncFs.globalInstance.decompressFile(src, dest, options);
+  }
+
+  /**
+   * Reads the gzip compressed file under the given path, and returns
+   * the decompressed content.
+   */
+  public static readGzipFile(
+    path: string,
+    options?: SyncReadGzipFileOptions,
+  ) {
+    return SyncFs.globalInstance.readGzipFile(path, options);
+  }
+
+  /**
+   * Compresses the given data in the gzip format and writes it to a
+   * file under the given path.
+   */
+  public static writeGzipFile(
+    path: string,
+    contents: Uint8Array,
+    options?: SyncWriteGzipFileOptions,
+  ) {
+    return SyncFs.globalInstance.writeGzipFile(
+      path,
+      contents,
+      options,
+    );
+  }
+
+  /**
+   * Gets information about a specific file or directory.
+   */
+  public static fileInfo(
+    path: string,
+    options?: SyncFileInfoOptions,
+  ) {
+    return SyncFs.globalInstance.fileInfo(path, options);
+  }
+
+  /**
+   * Gets information about the filesystem the given file or directory
+   * is on, like it's type, total size and free space.
+   */
+  public static filesystemInfo(path: string) {
+    return SyncFs.globalInstance.filesystemInfo(path);
+  }
+
+  /**
+   * Detects the content type of the given file, or of the given
+   * bytes, by looking at the leading bytes of the content. The file
+   * extension is only used when the content alone is not conclusive.
+   */
+  public static detectType(pathOrBytes: string | Uint8Array) {
+    return SyncFs.globalInstance.detectType(pathOrBytes);
+  }
+
+  /**
+   * Computes the checksum of the given file. The file is read in
+   * chunks, so the memory usage does not depend on the file size.
+   */
+  public static hash(
+    path: string,
+    options: SyncHashOptions & { encoding: "bytes" },
+  ): Uint8Array;
+  public static hash(path: string, options?: SyncHashOptions): string;
+  public static hash(
+    path: string,
+    options?: SyncHashOptions,
+  ): string | Uint8Array {
+    return SyncFs.globalInstance.hash(path, options);
+  }
+
+  /**
+   * Computes the HMAC of the given file using the given key. The file
+   * is read in chunks, so the memory usage does not depend on the
+   * file size.
+   */
+  public static hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm: HashAlgorithm | undefined,
+    options: SyncHmacOptions & { encoding: "bytes" },
+  ): Uint8Array;
+  public static hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: SyncHmacOptions,
+  ): string;
+  public static hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: SyncHmacOptions,
+  ): string | Uint8Array {
+    return SyncFs.globalInstance.hmac(path, key, algorithm, options);
+  }
+
+  /**
+   * Calculates the disk space used by the given file or directory
+   * tree, similarly to the `du` command. Files with multiple hard
+   * links are only counted once.
+   */
+  public static diskUsage(
+    path: string,
+    options?: SyncDiskUsageOptions,
+  ) {
+    return SyncFs.globalInstance.diskUsage(path, options);
+  }
+
+  /**
+   * Reads the content of a file under the given path.
+   *
+   * @returns A Promise with a byte array of the contents.
+   */
+  public static readFile(path: string) {
+    return SyncFs.globalInstance.readFile(path);
+  }
+
+  /**
+   * Reads the content of a file under the given path in chunks,
+   * without loading the whole file into memory.
+   *
+   * The underlying stream is closed once all the chunks are read, an
+   * error occurs or the iteration is stopped early (e.g. via
+   * `break`).
+   */
+  public static readStream(
+    path: string,
+    options?: SyncReadStreamOptions,
+  ) {
+    return SyncFs.globalInstance.readStream(path, options);
+  }
+
+  /**
+   * Reads the content of a file under the given path using the
+   * `readFile()` method and decodes that content to string using the
+   * given encoding.
+   */
+  public static readTextFile(
+    path: string,
+    options?: SyncReadTextFileOptions,
+  ) {
+    return SyncFs.globalInstance.readTextFile(path, options);
+  }
+
+  /**
+   * Reads the file under the given path line by line, decoding it
+   * with the given encoding. The file is read in chunks, so only a
+   * small part of it is kept in memory at any time.
+   */
+  public static readLines(
+    path: string,
+    options?: SyncReadLinesOptions,
+  ) {
+    return SyncFs.globalInstance.readLines(path, options);
+  }
+
+  /**
+   * Reads the file under the given path using the `readTextFile()`
+   * method and parses it's content as JSON.
+   *
+   * Syntax errors are thrown as a `JsonParseError`, which contains
+   * the line and column at which the error occurred.
+   */
+  public static readJson<T>(
+    path: string,
+    options: SyncReadJsonOptions & {
+      validate: (value: unknown) => value is T;
+    },
+  ): T;
+  public static readJson(
+    path: string,
+    options?: SyncReadJsonOptions,
+  ): unknown;
+  public static readJson(
+    path: string,
+    options?: SyncReadJsonOptions,
+  ): unknown {
+    return SyncFs.globalInstance.readJson(path, options);
+  }
+
+  /**
+   * Writes the given data to a file under the given path.
+   */
+  public static writeFile(
+    path: string,
+    data: Uint8Array,
+    options?: SyncWriteFileOptions,
+  ) {
+    return SyncFs.globalInstance.writeFile(path, data, options);
+  }
+
+  /**
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and writes that data to a file under the
+   * given path using the `writeFile()` method.
+   */
+  public static writeTextFile(
+    path: string,
+    data: string,
+    options?: SyncWriteTextFileOptions,
+  ) {
+    return SyncFs.globalInstance.writeTextFile(path, data, options);
+  }
+
+  /**
+   * Serializes the given value to JSON and writes it to a file under
+   * the given path using the `writeTextFile()` method.
+   */
+  public static writeJson(
+    path: string,
+    value: unknown,
+    options?: SyncWriteJsonOptions,
+  ) {
+    return SyncFs.globalInstance.writeJson(path, value, options);
+  }
+
+  /**
+   * Appends the given data to a file under the given path.
+   */
+  public static appendFile(
+    path: string,
+    data: Uint8Array,
+    options?: SyncAppendFileOptions,
+  ) {
+    return SyncFs.globalInstance.appendFile(path, data, options);
+  }
+
+  /**
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and appends that data to a file under the
+   * given path using the `appendFile()` method.
+   */
+  public static appendTextFile(
+    path: string,
+    data: string,
+    options?: SyncAppendTextFileOptions,
+  ) {
+    return SyncFs.globalInstance.appendTextFile(path, data, options);
+  }
+
+  /**
+   * Moves a file or directory from one path to another.
+   *
+   * If a directory cannot be moved natively (e.g. when moving across
+   * filesystem boundaries), it will be copied recursively and then
+   * deleted, unless `noFallbackForMove` is set to `true`.
+   */
+  public static moveFile(
+    source: string,
+    destination: string,
+    options?: SyncMoveFileOptions,
+  ) {
+    return SyncFs.globalInstance.moveFile(
+      source,
       destination,
       options,
     );
@@ -303,6 +1107,9 @@ class SyncFs {
 
   /**
    * Copies a file or directory from one path to another.
+   *
+   * If `recursive` is set to `true` and the source is a directory,
+   * the whole directory tree will be copied.
    */
   public static copyFile(
     source: string,
@@ -331,9 +1138,12 @@ class SyncFs {
 
   /**
    * Creates a new directory under the given path.
+   *
+   * If `recursive` is set to `true`, all missing parent directories
+   * will be created as well.
    */
-  public static makeDir(path: string) {
-    return SyncFs.globalInstance.makeDir(path);
+  public static makeDir(path: string, options?: SyncMakeDirOptions) {
+    return SyncFs.globalInstance.makeDir(path, options);
   }
 
   /**
@@ -343,9 +1153,85 @@ class SyncFs {
    *
    * @param linkPath The path to the new link file.
    * @param pointingTo Link destination file.
+   * @param options Options for the operation.
+   */
+  public static makeLink(
+    linkPath: string,
+    pointingTo: string,
+    options?: SyncMakeLinkOptions,
+  ) {
+    return SyncFs.globalInstance.makeLink(
+      linkPath,
+      pointingTo,
+      options,
+    );
+  }
+
+  /**
+   * Creates a hard link under the path given in the first parameter,
+   * to the existing file given as the second parameter. Both paths
+   * must be on the same filesystem.
+   *
+   * @param linkPath The path to the new link.
+   * @param existingPath The file the link should point to.
+   */
+  public static makeHardLink(linkPath: string, existingPath: string) {
+    return SyncFs.globalInstance.makeHardLink(linkPath, existingPath);
+  }
+
+  /**
+   * Reads the target of a symbolic link, exactly as it's stored in
+   * the link (it can be a relative path).
+   */
+  public static readLink(path: string) {
+    return SyncFs.globalInstance.readLink(path);
+  }
+
+  /**
+   * Resolves the given path to an absolute path that contains no
+   * symbolic links and no `.` or `..` components. Fails if any of the
+   * path components does not exist, or if there are too many levels
+   * of symbolic links (e.g. a symlink loop).
+   */
+  public static realPath(path: string) {
+    return SyncFs.globalInstance.realPath(path);
+  }
+
+  /**
+   * Recursively searches the given directory for symbolic links that
+   * point to files that do not exist.
+   *
+   * @returns Paths of all the broken links found.
+   */
+  public static findBrokenLinks(
+    path: string,
+    options?: SyncFindBrokenLinksOptions,
+  ) {
+    return SyncFs.globalInstance.findBrokenLinks(path, options);
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary file and opens it for
+   * reading and writing. The file is removed once the returned handle
+   * is disposed of.
+   *
+   * @example
+   *   using tmp = SyncFs.makeTempFile({ suffix: ".json" });
    */
-  public static makeLink(linkPath: string, pointingTo: string) {
-    return SyncFs.globalInstance.makeLink(linkPath, pointingTo);
+  public static makeTempFile(options?: SyncTempOptions) {
+    return SyncFs.globalInstance.makeTempFile(options);
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary directory. The directory
+   * and all of it's contents are removed once the returned handle is
+   * disposed of.
+   *
+   * @example
+   *   using tmp = SyncFs.makeTempDir({ prefix: "build-" });
+   */
+  public static makeTempDir(options?: SyncTempOptions) {
+    return SyncFs.globalInstance.makeTempDir(options);
   }
 
   /**
@@ -378,6 +1264,78 @@ class SyncFs {
     return SyncFs.globalInstance.chown(path, uid, gid, options);
   }
 
+  /**
+   * Changes the access and/or modification times of a file or
+   * directory. Times can be given as Date objects or as milliseconds
+   * since the UNIX epoch, with a microsecond precision.
+   */
+  public static setTimes(
+    path: string,
+    times: FileTimes,
+    options?: SyncSetTimesOptions,
+  ) {
+    return SyncFs.globalInstance.setTimes(path, times, options);
+  }
+
+  /**
+   * Sets the access and modification times of a file to the current
+   * time, creating an empty file if it doesn't exist (like the
+   * `touch` command).
+   */
+  public static touch(path: string, options?: SyncTouchOptions) {
+    return SyncFs.globalInstance.touch(path, options);
+  }
+
+  /**
+   * Reads the value of an extended attribute of a file or directory.
+   * Names must include the namespace prefix, e.g. `user.tags`.
+   *
+   * @returns The value as a byte array, or `null` if the attribute is
+   *   not set.
+   */
+  public static getXattr(
+    path: string,
+    name: string,
+    options?: SyncGetXattrOptions,
+  ) {
+    return SyncFs.globalInstance.getXattr(path, name, options);
+  }
+
+  /**
+   * Sets the value of an extended attribute of a file or directory.
+   * String values are encoded as UTF-8.
+   */
+  public static setXattr(
+    path: string,
+    name: string,
+    value: Uint8Array | string,
+    options?: SyncSetXattrOptions,
+  ) {
+    return SyncFs.globalInstance.setXattr(path, name, value, options);
+  }
+
+  /**
+   * Removes an extended attribute from a file or directory.
+   */
+  public static removeXattr(
+    path: string,
+    name: string,
+    options?: SyncRemoveXattrOptions,
+  ) {
+    return SyncFs.globalInstance.removeXattr(path, name, options);
+  }
+
+  /**
+   * Lists the names of all the extended attributes of a file or
+   * directory that the current user can read.
+   */
+  public static listXattrs(
+    path: string,
+    options?: SyncListXattrsOptions,
+  ) {
+    return SyncFs.globalInstance.listXattrs(path, options);
+  }
+
   /**
    * Creates a new SyncIOStream instance.
    *
@@ -416,13 +1374,51 @@ class SyncFs {
       "listFilenames",
       this.listFilenames.bind(this),
     );
+    this.walk = this.walk.bind(this);
+    this.glob = sync("glob", this.glob.bind(this));
+    this.diffDirs = this.diffDirs.bind(this);
+    this.compareDirs = sync(
+      "compareDirs",
+      this.compareDirs.bind(this),
+    );
+    this.syncDir = sync("syncDir", this.syncDir.bind(this));
+    this.createTar = sync("createTar", this.createTar.bind(this));
+    this.extractTar = sync("extractTar", this.extractTar.bind(this));
+    this.compressFile = sync(
+      "compressFile",
+      this.compressFile.bind(this),
+    );
+    this.decompressFile = sync(
+      "decompressFile",
+      this.decompressFile.bind(this),
+    );
     this.fileInfo = sync("fileInfo", this.fileInfo.bind(this));
+    this.filesystemInfo = sync(
+      "filesystemInfo",
+      this.filesystemInfo.bind(this),
+    );
+    this.detectType = sync("detectType", this.detectType.bind(this));
+    this.hash = sync("hash", this.hash.bind(this));
+    this.hmac = sync("hmac", this.hmac.bind(this));
+    this.diskUsage = sync("diskUsage", this.diskUsage.bind(this));
     this.readFile = sync("readFile", this.readFile.bind(this));
+    this.readStream = this.readStream.bind(this);
+    this.readLines = this.readLines.bind(this);
+    this.readGzipFile = sync(
+      "readGzipFile",
+      this.readGzipFile.bind(this),
+    );
+    this.readJson = sync("readJson", this.readJson.bind(this));
     this.readTextFile = sync(
       "readTextFile",
       this.readTextFile.bind(this),
     );
     this.writeFile = sync("writeFile", this.writeFile.bind(this));
+    this.writeGzipFile = sync(
+      "writeGzipFile",
+      this.writeGzipFile.bind(this),
+    );
+    this.writeJson = sync("writeJson", this.writeJson.bind(this));
     this.writeTextFile = sync(
       "writeTextFile",
       this.writeTextFile.bind(this),
@@ -438,8 +1434,35 @@ class SyncFs {
     this.deleteFile = sync("deleteFile", this.deleteFile.bind(this));
     this.makeDir = sync("makeDir", this.makeDir.bind(this));
     this.makeLink = sync("makeLink", this.makeLink.bind(this));
+    this.makeHardLink = sync(
+      "makeHardLink",
+      this.makeHardLink.bind(this),
+    );
+    this.readLink = sync("readLink", this.readLink.bind(this));
+    this.realPath = sync("realPath", this.realPath.bind(this));
+    this.findBrokenLinks = sync(
+      "findBrokenLinks",
+      this.findBrokenLinks.bind(this),
+    );
+    this.makeTempFile = sync(
+      "makeTempFile",
+      this.makeTempFile.bind(this),
+    );
+    this.makeTempDir = sync(
+      "makeTempDir",
+      this.makeTempDir.bind(this),
+    );
     this.chmod = sync("chmod", this.chmod.bind(this));
     this.chown = sync("chown", this.chown.bind(this));
+    this.setTimes = sync("setTimes", this.setTimes.bind(this));
+    this.touch = sync("touch", this.touch.bind(this));
+    this.getXattr = sync("getXattr", this.getXattr.bind(this));
+    this.setXattr = sync("setXattr", this.setXattr.bind(this));
+    this.removeXattr = sync(
+      "removeXattr",
+      this.removeXattr.bind(this),
+    );
+    this.listXattrs = sync("listXattrs", this.listXattrs.bind(this));
   }
 
   private resolvePath(path: string, cwd?: string) {
@@ -545,23 +1568,1101 @@ class SyncFs {
   }
 
   /**
-   * Gets information about a specific file or directory.
+   * Recursively walks the directory tree under the given path,
+   * yielding a FileInfo object for each entry found.
+   *
+   * When `followSymlinks` is enabled, each directory is visited at
+   * most once, which prevents symlink cycles from looping forever.
    */
-  public fileInfo(path: string, options?: SyncFileInfoOptions) {
-    const file = this.file(path);
+  public *walk(
+    path: string,
+    options?: SyncWalkOptions,
+  ): Generator<FileInfo, void, undefined> {
+    const self = this;
     const opt = OptionsResolver(options, OptValidators);
+    const maxDepth = opt.get("maxDepth", Infinity);
+    const order = opt.get("order", "pre");
+    const filter = opt.get("filter");
+    const followSymlinks = opt.get("followSymlinks", false);
+    const queryFlag = getQueryFileFlag(opt);
+    const attributes = opt.get("attributes", []);
+    const visited = new Set<string>();
 
-    const flag = getQueryFileFlag(opt);
+    const markVisited = (info: FileInfo) => {
+      const id = getFileIdentity(info);
 
-    const info = file.query_info(
-      getAttributes(opt.get("attributes", [])),
-      flag,
-      null,
-    );
+      if (visited.has(id)) {
+        return false;
+      }
+
+      visited.add(id);
+      return true;
+    };
+
+    function* walkDir(
+      dir: Gio.File,
+      depth: number,
+    ): Generator<FileInfo, void, undefined> {
+      const enumerator = dir.enumerate_children(
+        getAttributes(attributes),
+        queryFlag,
+        null,
+      );
+
+      if (!enumerator) {
+        throw new FsError("Failed to enumerate directory.");
+      }
+
+      try {
+        while (true) {
+          const gioInfo = enumerator.next_file(null);
+
+          if (!gioInfo) {
+            break;
+          }
+
+          const info = new FileInfo(
+            join(dir.get_path()!, gioInfo.get_name()),
+            gioInfo,
+          );
+
+          if (filter && !filter(info)) {
+            continue;
+          }
+
+          const shouldDescend =
+            info.isDirectory &&
+            depth < maxDepth &&
+            (!followSymlinks || markVisited(info));
+
+          if (order === "pre") {
+            yield info;
+          }
+
+          if (shouldDescend) {
+            yield* walkDir(self.file(info.filepath), depth + 1);
+          }
+
+          if (order === "post") {
+            yield info;
+          }
+        }
+      } finally {
+        enumerator.close(null);
+      }
+    }
+
+    try {
+      if (followSymlinks) {
+        markVisited(
+          this.fileInfo(path, {
+            followSymlinks,
+          }),
+        );
+      }
+
+      yield* walkDir(this.file(path), 1);
+    } catch (err) {
+      throw parseFsError("walk", err);
+    }
+  }
+
+  /**
+   * Finds all the files and directories matching the given glob
+   * pattern (or patterns). Patterns starting with a `!` exclude the
+   * matching entries from the result.
+   *
+   * Directories that cannot contain any matching entries are not
+   * traversed.
+   */
+  public glob(
+    pattern: string | string[],
+    options: SyncGlobOptions & { withFileInfo: true },
+  ): FileInfo[];
+  public glob(
+    pattern: string | string[],
+    options?: SyncGlobOptions,
+  ): string[];
+  public glob(
+    pattern: string | string[],
+    options?: SyncGlobOptions,
+  ): Array<string | FileInfo> {
+    const opt = OptionsResolver(options, OptValidators);
+    const matcher = new GlobMatcher(pattern, {
+      dot: opt.get("dot", false),
+    });
+    const withFileInfo = opt.get("withFileInfo", false);
+    const root = normalize(this.resolvePath(opt.get("root", ".")));
+    const rootPrefix = root.endsWith("/") ? root : root + "/";
+    const relative = (info: FileInfo) =>
+      info.filepath.slice(rootPrefix.length);
+
+    const entries = this.walk(root, {
+      attributes: opt.get("attributes"),
+      followSymlinks: opt.get("followSymlinks"),
+      maxDepth: matcher.maxDepth,
+      filter: (info) => {
+        const path = relative(info);
+        return (
+          matcher.match(path) ||
+          (info.isDirectory && matcher.matchDescendants(path))
+        );
+      },
+    });
+
+    const result: Array<string | FileInfo> = [];
+
+    for (const info of entries) {
+      const path = relative(info);
+
+      if (matcher.match(path)) {
+        result.push(withFileInfo ? info : path);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Compares the two directory trees and yields an entry for each
+   * difference found, and for each identical file. Directories that
+   * exist on both sides are not yielded themselves, only their
+   * contents are.
+   */
+  public *diffDirs(
+    left: string,
+    right: string,
+    options?: SyncCompareDirsOptions,
+  ): Generator<DirDiffEntry, void, undefined> {
+    const self = this;
+    const opt = OptionsResolver(options, OptValidators);
+    const followSymlinks = opt.get("followSymlinks", false);
+    const compareBy = opt.get("compareBy", "metadata");
+    const visited = new Set<string>();
+
+    const markVisited = (left: FileInfo, right: FileInfo) => {
+      const id = `${getFileIdentity(left)}|${getFileIdentity(right)}`;
+
+      if (visited.has(id)) {
+        return false;
+      }
+
+      visited.add(id);
+      return true;
+    };
+
+    function* diffDir(
+      leftDir: string,
+      rightDir: string,
+      relativeDir: string,
+    ): Generator<DirDiffEntry, void, undefined> {
+      const leftEntries = self.listDir(leftDir, { followSymlinks });
+      const rightEntries = self.listDir(rightDir, { followSymlinks });
+
+      for (const [name, [left, right]] of pairEntries(
+        leftEntries,
+        rightEntries,
+      )) {
+        const path = relativeDir ? join(relativeDir, name) : name;
+
+        if (!left || !right) {
+          yield {
+            path,
+            type: left ? "leftOnly" : "rightOnly",
+            left,
+            right,
+          };
+          continue;
+        }
+
+        const kind = getEntryKind(left);
+
+        if (kind !== getEntryKind(right)) {
+          yield { path, type: "typeChanged", left, right };
+          continue;
+        }
+
+        if (kind === "directory") {
+          if (!followSymlinks || markVisited(left, right)) {
+            yield* diffDir(left.filepath, right.filepath, path);
+          }
+          continue;
+        }
+
+        const isIdentical = self.isSameEntry(left, right, compareBy);
+
+        yield {
+          path,
+          type: isIdentical ? "identical" : "modified",
+          left,
+          right,
+        };
+      }
+    }
+
+    try {
+      if (followSymlinks) {
+        markVisited(
+          this.fileInfo(left, { followSymlinks }),
+          this.fileInfo(right, { followSymlinks }),
+        );
+      }
+
+      yield* diffDir(left, right, "");
+    } catch (err) {
+      throw parseFsError("diffDirs", err);
+    }
+  }
+
+  /**
+   * Compares the two directory trees and returns a summary of the
+   * differences, with the relative paths of the entries grouped by
+   * the type of difference.
+   */
+  public compareDirs(
+    left: string,
+    right: string,
+    options?: SyncCompareDirsOptions,
+  ) {
+    const comparison = new DirComparison();
+
+    for (const entry of this.diffDirs(left, right, options)) {
+      comparison.add(entry);
+    }
+
+    return comparison;
+  }
+
+  /**
+   * Synchronizes the destination directory with the source directory,
+   * similarly to `rsync -a`. Only the files that are missing or have
+   * changed are copied, along with their mode, timestamps and
+   * `user.*` extended attributes. Symlinks are copied as symlinks.
+   *
+   * @returns A report of what was copied, updated, deleted and
+   *   skipped, with paths relative to the synchronized directories.
+   */
+  public syncDir(
+    src: string,
+    dest: string,
+    options?: SyncSyncDirOptions,
+  ) {
+    const self = this;
+    const opt = OptionsResolver(options, OptValidators);
+    const compareBy = opt.get("compareBy", "metadata");
+    const deleteExtraneous = opt.get("deleteExtraneous", false);
+    const dryRun = opt.get("dryRun", false);
+    const exclude = opt.get("exclude");
+    const matcher = exclude
+      ? new GlobMatcher(exclude, { dot: true })
+      : null;
+    const tracker = new SyncDirTracker(opt.get("onProgress"));
+    const copyOptions: SyncCopyFileOptions = {
+      overwrite: true,
+      allMetadata: true,
+      copyXattrs: true,
+    };
+    const dirs: Array<[src: string, dest: string]> = [[src, dest]];
+
+    const removeEntry = (destPath: string) => {
+      self.deleteFile(destPath, { recursive: true });
+    };
+
+    function syncEntries(
+      srcDir: string,
+      destDir: string,
+      destExists: boolean,
+      relativeDir: string,
+    ) {
+      const srcEntries = self.listDir(srcDir);
+      const destEntries = destExists ? self.listDir(destDir) : [];
+
+      for (const [name, [srcInfo, destInfo]] of pairEntries(
+        srcEntries,
+        destEntries,
+      )) {
+        const path = relativeDir ? join(relativeDir, name) : name;
+        const destPath = join(destDir, name);
+
+        if (matcher?.match(path)) {
+          continue;
+        }
+
+        if (!srcInfo) {
+          if (deleteExtraneous) {
+            if (!dryRun) {
+              removeEntry(destPath);
+            }
+            tracker.track(path, "deleted");
+          }
+          continue;
+        }
+
+        const isTypeChanged =
+          !!destInfo &&
+          getEntryKind(srcInfo) !== getEntryKind(destInfo);
+
+        if (getEntryKind(srcInfo) === "directory") {
+          if (!destInfo || isTypeChanged) {
+            if (!dryRun) {
+              if (isTypeChanged) {
+                removeEntry(destPath);
+              }
+              self.makeDir(destPath);
+            }
+            tracker.track(path, destInfo ? "updated" : "copied");
+          }
+
+          dirs.push([srcInfo.filepath, destPath]);
+
+          syncEntries(
+            srcInfo.filepath,
+            destPath,
+            !!destInfo && !isTypeChanged,
+            path,
+          );
+          continue;
+        }
+
+        if (
+          destInfo &&
+          !isTypeChanged &&
+          self.isSameEntry(srcInfo, destInfo, compareBy)
+        ) {
+          tracker.track(path, "skipped");
+          continue;
+        }
+
+        if (!dryRun) {
+          if (isTypeChanged) {
+            removeEntry(destPath);
+          }
+          self.copyFile(srcInfo.filepath, destPath, copyOptions);
+        }
+
+        tracker.track(path, destInfo ? "updated" : "copied");
+      }
+    }
+
+    let destExists = this.fileExists(dest);
+
+    if (destExists) {
+      const destInfo = this.fileInfo(dest);
+
+      if (!destInfo.isDirectory) {
+        throw new FsError(
+          `Destination already exists and is not a directory: ${destInfo.filepath}`,
+        );
+      }
+    } else if (!dryRun) {
+      this.makeDir(dest, { recursive: true });
+      destExists = true;
+    }
+
+    syncEntries(src, dest, destExists, "");
+
+    if (!dryRun) {
+      // the directories are updated last, as copying their contents
+      // changes their modification times
+      for (const [srcDir, destDir] of dirs) {
+        const srcFile = this.file(srcDir);
+        const destFile = this.file(destDir);
+
+        srcFile.copy_attributes(
+          destFile,
+          Gio.FileCopyFlags.ALL_METADATA |
+            Gio.FileCopyFlags.NOFOLLOW_SYMLINKS,
+          null,
+        );
+        this.copyXattrs(srcFile, destFile, copyOptions);
+      }
+    }
+
+    return tracker.getReport();
+  }
+
+  /**
+   * Creates a tar archive with the contents of the given directory.
+   * The entry names are relative to that directory. The archive is
+   * written as a stream, without loading the archived files into
+   * memory.
+   *
+   * Symlinks are stored as symlinks, and files with multiple hard
+   * links are stored only once, as hard links to the first archived
+   * path. Other kinds of files (e.g. sockets) are skipped.
+   */
+  public createTar(
+    srcDir: string,
+    dest: string,
+    options?: SyncCreateTarOptions,
+  ) {
+    const self = this;
+    const opt = OptionsResolver(options, OptValidators);
+    const chunkSize = opt.get("chunkSize", DEFAULT_CHUNK_SIZE);
+    const destPath = this.resolvePath(dest);
+    const hardLinks = new Map<string, string>();
+
+    const existed = this.fileExists(dest);
+    const stream = this.openFileIOStream(dest, "REPLACE");
+
+    function addDir(dir: string, relativeDir: string) {
+      const entries = self.listDir(dir);
+
+      entries.sort((a, b) => (a.filename < b.filename ? -1 : 1));
+
+      for (const info of entries) {
+        // the archive can be created inside of the archived directory
+        if (info.filepath === destPath) {
+          continue;
+        }
+
+        const name = relativeDir
+          ? join(relativeDir, info.filename)
+          : info.filename;
+        const entry = createTarEntry(name, info);
+
+        if (!entry) {
+          continue;
+        }
+
+        if (entry.type === "file" && info.linkCount > 1) {
+          const identity = getFileIdentity(info);
+          const linkTarget = hardLinks.get(identity);
+
+          if (linkTarget != null) {
+            entry.type = "hardlink";
+            entry.linkTarget = linkTarget;
+            entry.size = 0;
+          } else {
+            hardLinks.set(identity, name);
+          }
+        }
+
+        stream.write(encodeHeader(entry));
+
+        if (entry.type === "file") {
+          let bytesRead = 0;
+
+          for (const chunk of self.readStream(info.filepath, {
+            chunkSize,
+          })) {
+            bytesRead += chunk.byteLength;
+
+            if (bytesRead > entry.size) {
+              break;
+            }
+
+            stream.write(chunk);
+          }
+
+          if (bytesRead !== entry.size) {
+            throw new FsError(
+              `File changed while being archived: ${info.filepath}`,
+            );
+          }
+
+          stream.write(getPadding(entry.size));
+        } else if (entry.type === "directory") {
+          addDir(info.filepath, name);
+        }
+      }
+    }
+
+    try {
+      addDir(srcDir, "");
+      stream.write(getTrailer());
+    } catch (err) {
+      // an incomplete archive is not left behind, and the previous one
+      // is kept
+      discardReplaceStream(stream._gioStream);
+
+      if (!existed && this.fileExists(dest)) {
+        this.deleteFile(dest);
+      }
+
+      throw err;
+    }
+
+    stream.close();
+  }
+
+  /**
+   * Extracts the given tar archive into the destination directory,
+   * creating it if it doesn't exist. Existing files are replaced. The
+   * archive is read as a stream, without loading it into memory.
+   *
+   * The mode and modification time of each entry are restored, as
+   * well as the ownership if the `preserveOwnership` option is
+   * enabled. Entries other than files, directories, symlinks and hard
+   * links (e.g. devices) are skipped.
+   *
+   * Fails if any of the entries would end up outside of the
+   * destination directory, either via an absolute path, a `..` path
+   * component or a symlink.
+   */
+  public extractTar(
+    archive: string,
+    destDir: string,
+    options?: SyncExtractTarOptions,
+  ) {
+    const self = this;
+    const opt = OptionsResolver(options, OptValidators);
+    const preserveOwnership = opt.get("preserveOwnership", false);
+    const parser = new TarParser();
+    const dirs: Array<[path: string, entry: TarEntry]> = [];
+    let output: SyncIOStream | null = null;
+    let outputPath = "";
+
+    this.makeDir(destDir, { recursive: true });
+
+    const root = this.realPath(destDir);
+    const checkedDirs = new Set([root]);
+
+    // every directory on the way is checked, so that an entry cannot
+    // be written through a symlink to outside of the root
+    function prepareDirs(segments: string[]) {
+      let current = root;
+
+      for (const segment of segments) {
+        current = join(current, segment);
+
+        if (checkedDirs.has(current)) {
+          continue;
+        }
+
+        if (self.fileExists(current)) {
+          const kind = getEntryKind(self.fileInfo(current));
+
+          if (kind === "symlink") {
+            throw new FsError(
+              `Archive entry would be extracted through a symbolic link: ${current}`,
+            );
+          }
+
+          if (kind !== "directory") {
+            throw new FsError(`Not a directory: ${current}`);
+          }
+        } else {
+          self.makeDir(current);
+        }
+
+        checkedDirs.add(current);
+      }
+
+      return current;
+    }
+
+    function prepareTarget(name: string) {
+      const segments = getSafeEntryPath(name).split("/");
+      const parent = prepareDirs(segments.slice(0, -1));
+      const target = join(parent, segments[segments.length - 1]!);
+
+      if (self.fileExists(target)) {
+        if (getEntryKind(self.fileInfo(target)) === "directory") {
+          throw new FsError(
+            `Cannot replace a directory with a non-directory entry: ${target}`,
+          );
+        }
+
+        self.deleteFile(target);
+      }
+
+      return target;
+    }
+
+    function restoreMetadata(path: string, entry: TarEntry) {
+      if (preserveOwnership) {
+        self.chown(path, entry.uid, entry.gid);
+      }
+
+      // symlink permissions and times are not used on Linux
+      if (entry.type !== "symlink") {
+        self.chmod(path, entry.mode & 0o7777);
+        self.setTimes(path, { modified: entry.mtime });
+      }
+    }
+
+    // files are handled separately, as only those have any data
+    function extractEntry(entry: TarEntry) {
+      switch (entry.type) {
+        case "directory": {
+          const path = getSafeEntryPath(entry.name);
+
+          if (path) {
+            dirs.push([prepareDirs(path.split("/")), entry]);
+          }
+          break;
+        }
+        case "symlink": {
+          const link = self.file(prepareTarget(entry.name));
+
+          // the target is stored exactly as given in the archive
+          link.make_symbolic_link(entry.linkTarget, null);
+
+          if (preserveOwnership) {
+            restoreMetadata(link.get_path()!, entry);
+          }
+          break;
+        }
+        case "hardlink": {
+          const targetSegments = getSafeEntryPath(
+            entry.linkTarget,
+          ).split("/");
+          const existing = join(
+            prepareDirs(targetSegments.slice(0, -1)),
+            targetSegments[targetSegments.length - 1]!,
+          );
+
+          self.makeHardLink(prepareTarget(entry.name), existing);
+          break;
+        }
+        case "file":
+        case "other":
+          // other kinds of entries (e.g. devices) are skipped
+          break;
+      }
+    }
+
+    try {
+      for (const chunk of this.readStream(archive, {
+        chunkSize: opt.get("chunkSize", DEFAULT_CHUNK_SIZE),
+      })) {
+        for (const event of parser.write(chunk)) {
+          switch (event.type) {
+            case "entry":
+              if (event.entry.type === "file") {
+                outputPath = prepareTarget(event.entry.name);
+                output = this.openFileIOStream(outputPath, "CREATE");
+              } else {
+                extractEntry(event.entry);
+              }
+              break;
+            case "data":
+              output?.write(event.data);
+              break;
+            case "entryEnd":
+              if (output) {
+                output.close();
+                output = null;
+                restoreMetadata(outputPath, event.entry);
+              }
+              break;
+          }
+        }
+
+        if (parser.isDone) {
+          break;
+        }
+      }
+    } finally {
+      output?.close();
+    }
+
+    parser.finish();
+
+    // directories are updated last, deepest first, since extracting
+    // their contents changes their modification times
+    dirs.sort(([a], [b]) => b.length - a.length);
+
+    for (const [path, entry] of dirs) {
+      restoreMetadata(path, entry);
+    }
+  }
+
+  /**
+   * Checks if the two entries of the same kind are identical. Files
+   * are compared according to the `compareBy` mode and symlinks by
+   * their targets.
+   */
+  private isSameEntry(
+    left: FileInfo,
+    right: FileInfo,
+    compareBy: CompareBy,
+  ) {
+    switch (getEntryKind(left)) {
+      case "symlink":
+        return left.symlinkTarget === right.symlinkTarget;
+      case "file":
+        break;
+      default:
+        return left.rdev === right.rdev;
+    }
+
+    if (left.size !== right.size) {
+      return false;
+    }
+
+    switch (compareBy) {
+      case "metadata":
+        return left.modifiedTime === right.modifiedTime;
+      case "hash":
+        return this.hash(left.filepath) === this.hash(right.filepath);
+      case "content":
+        return this.compareContents(left.filepath, right.filepath);
+    }
+  }
+
+  /**
+   * Compares the contents of the two files byte by byte.
+   */
+  private compareContents(leftPath: string, rightPath: string) {
+    const left = this.readStream(leftPath);
+    const right = this.readStream(rightPath);
+    let leftChunk = new Uint8Array();
+    let rightChunk = new Uint8Array();
+
+    try {
+      while (true) {
+        // chunks of the two files are not guaranteed to be of the
+        // same size, so only the overlapping parts are compared
+        if (leftChunk.byteLength === 0) {
+          const next = left.next();
+
+          if (next.done) {
+            return rightChunk.byteLength === 0 && !!right.next().done;
+          }
+
+          leftChunk = next.value;
+        }
+
+        if (rightChunk.byteLength === 0) {
+          const next = right.next();
+
+          if (next.done) {
+            return false;
+          }
+
+          rightChunk = next.value;
+        }
+
+        const length = Math.min(
+          leftChunk.byteLength,
+          rightChunk.byteLength,
+        );
+
+        if (
+          !bytesEqual(
+            leftChunk.subarray(0, length),
+            rightChunk.subarray(0, length),
+          )
+        ) {
+          return false;
+        }
+
+        leftChunk = leftChunk.subarray(length);
+        rightChunk = rightChunk.subarray(length);
+      }
+    } finally {
+      left.return();
+      right.return();
+    }
+  }
+
+  /**
+   * Gets information about a specific file or directory.
+   */
+  public fileInfo(path: string, options?: SyncFileInfoOptions) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    const flag = getQueryFileFlag(opt);
+
+    const info = file.query_info(
+      getAttributes(opt.get("attributes", [])),
+      flag,
+      null,
+    );
 
     return new FileInfo(file.get_path()!, info);
   }
 
+  /**
+   * Gets information about the filesystem the given file or directory
+   * is on, like it's type, total size and free space.
+   */
+  public filesystemInfo(path: string) {
+    const file = this.file(path);
+
+    const info = file.query_filesystem_info(
+      FILESYSTEM_ATTRIBUTES,
+      null,
+    );
+
+    return new FilesystemInfo(file.get_path()!, info);
+  }
+
+  /**
+   * Detects the content type of the given file, or of the given
+   * bytes, by looking at the leading bytes of the content. The file
+   * extension is only used when the content alone is not conclusive.
+   */
+  public detectType(pathOrBytes: string | Uint8Array) {
+    if (typeof pathOrBytes !== "string") {
+      return new ContentTypeInfo(
+        ...guessContentType(null, pathOrBytes),
+      );
+    }
+
+    const file = this.file(pathOrBytes);
+    let data = new Uint8Array();
+
+    for (const chunk of this.readStream(pathOrBytes, {
+      chunkSize: SNIFF_LENGTH,
+      end: SNIFF_LENGTH,
+    })) {
+      data = chunk;
+      break;
+    }
+
+    return new ContentTypeInfo(
+      ...guessContentType(file.get_basename(), data),
+    );
+  }
+
+  /**
+   * Computes the checksum of the given file. The file is read in
+   * chunks, so the memory usage does not depend on the file size.
+   */
+  public hash(
+    path: string,
+    options: SyncHashOptions & { encoding: "bytes" },
+  ): Uint8Array;
+  public hash(path: string, options?: SyncHashOptions): string;
+  public hash(
+    path: string,
+    options?: SyncHashOptions,
+  ): string | Uint8Array {
+    const opt = OptionsResolver(options, HashOptValidators);
+    const hasher = new Hasher(opt.get("algorithm", "sha256"));
+
+    const encoding = opt.get("encoding", "hex");
+
+    this.feedHasher(path, hasher, opt);
+
+    return encodeDigest(hasher.digest(), encoding);
+  }
+
+  /**
+   * Computes the HMAC of the given file using the given key. The file
+   * is read in chunks, so the memory usage does not depend on the
+   * file size.
+   */
+  public hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm: HashAlgorithm | undefined,
+    options: SyncHmacOptions & { encoding: "bytes" },
+  ): Uint8Array;
+  public hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: SyncHmacOptions,
+  ): string;
+  public hmac(
+    path: string,
+    key: string | Uint8Array,
+    algorithm?: HashAlgorithm,
+    options?: SyncHmacOptions,
+  ): string | Uint8Array {
+    const opt = OptionsResolver<SyncHashOptions>(
+      { ...options, algorithm },
+      HashOptValidators,
+    );
+    const keyBytes =
+      typeof key === "string" ? new TextEncoder().encode(key) : key;
+
+    validateBytes(keyBytes, "key");
+
+    const hasher = new Hasher(
+      opt.get("algorithm", "sha256"),
+      keyBytes,
+    );
+
+    const encoding = opt.get("encoding", "hex");
+
+    this.feedHasher(path, hasher, opt);
+
+    return encodeDigest(hasher.digest(), encoding);
+  }
+
+  /**
+   * Reads the given file in chunks and feeds them to the Hasher.
+   */
+  private feedHasher(
+    path: string,
+    hasher: Hasher,
+    opt: OptionsResolver<SyncHmacOptions>,
+  ) {
+    const onProgress = opt.get("onProgress");
+    const totalBytes = onProgress ? this.fileInfo(path).size : 0;
+    let bytesRead = 0;
+
+    for (const chunk of this.readStream(path, {
+      chunkSize: opt.get("chunkSize", DEFAULT_CHUNK_SIZE),
+    })) {
+      hasher.update(chunk);
+      bytesRead += chunk.byteLength;
+      onProgress?.(bytesRead, totalBytes);
+    }
+  }
+
+  /**
+   * Calculates the disk space used by the given file or directory
+   * tree, similarly to the `du` command.
+   *
+   * The allocated size is based on the number of blocks allocated for
+   * each file. Files with multiple hard links are only counted once,
+   * as are entries reachable through multiple symlinks when
+   * `followSymlinks` is enabled.
+   */
+  public diskUsage(path: string, options?: SyncDiskUsageOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+    const depth = opt.get("depth", 0);
+    const counter = new DiskUsageCounter(
+      opt.get("followSymlinks", false),
+      opt.get("onProgress"),
+    );
+    const queryOptions = {
+      followSymlinks: opt.get("followSymlinks"),
+    };
+
+    const measure = (info: FileInfo, level: number): DiskUsage => {
+      const usage = counter.count(info);
+
+      if (!usage) {
+        return emptyUsage(info.filepath);
+      }
+
+      if (!info.isDirectory) {
+        return usage;
+      }
+
+      const children = this.listDir(info.filepath, queryOptions).map(
+        (entry) => measure(entry, level + 1),
+      );
+
+      for (const child of children) {
+        addTotals(usage, child);
+      }
+
+      if (level < depth) {
+        usage.children = children;
+      }
+
+      return usage;
+    };
+
+    return measure(this.fileInfo(path, queryOptions), 0);
+  }
+
+  /**
+   * Compresses the given file into the destination file, in the gzip
+   * format unless specified otherwise. The file is compressed as a
+   * stream, without loading it into memory. The destination file is
+   * replaced if it already exists, but only once all the data was
+   * written, on failure the existing file is kept.
+   */
+  public compressFile(
+    src: string,
+    dest: string,
+    options?: SyncCompressFileOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const compressor = createCompressor(
+      opt.get("format", "gzip"),
+      opt.get("level", DEFAULT_COMPRESSION_LEVEL),
+    );
+
+    this.spliceIntoFile(this.file(src).read(null), dest, compressor);
+  }
+
+  /**
+   * Decompresses the given gzip compressed file (or zlib, or raw
+   * deflate, depending on the `format` option) into the destination
+   * file. The file is decompressed as a stream, without loading it
+   * into memory. The destination file is replaced if it already
+   * exists, but only once all the data was written, on failure the
+   * existing file is kept.
+   */
+  public decompressFile(
+    src: string,
+    dest: string,
+    options?: SyncDecompressFileOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const decompressor = createDecompressor(
+      opt.get("format", "gzip"),
+    );
+
+    this.spliceIntoFile(
+      Gio.ConverterInputStream.new(
+        this.file(src).read(null),
+        decompressor,
+      ),
+      dest,
+      null,
+    );
+  }
+
+  /**
+   * Opens the source file for reading and the destination file for
+   * writing, replacing it if it already exists.
+   */
+  /**
+   * Writes all the data from the source stream into the destination
+   * file, passing it through the compressor if one is given. The
+   * destination is only replaced once all the data was written, if
+   * anything fails the previous file is kept.
+   */
+  private spliceIntoFile(
+    source: Gio.InputStream,
+    dest: string,
+    compressor: Gio.Converter | null,
+  ) {
+    let existed: boolean;
+    let target: Gio.FileOutputStream;
+
+    try {
+      existed = this.fileExists(dest);
+      target = this.file(dest).replace(
+        null,
+        false,
+        Gio.FileCreateFlags.NONE,
+        null,
+      );
+    } catch (err) {
+      source.close(null);
+      throw err;
+    }
+
+    try {
+      if (compressor) {
+        const converter = Gio.ConverterOutputStream.new(
+          target,
+          compressor,
+        );
+        converter.set_close_base_stream(false);
+
+        spliceSync(source, converter);
+      } else {
+        spliceSync(source, target, false);
+      }
+    } catch (err) {
+      discardReplaceStream(target);
+
+      // a new file is written directly, rather than to a temporary
+      // file, so the partial output has to be removed
+      if (!existed && this.fileExists(dest)) {
+        this.deleteFile(dest);
+      }
+
+      throw err;
+    }
+
+    target.close(null);
+  }
+
   /**
    * Reads the content of a file under the given path.
    *
@@ -579,6 +2680,55 @@ class SyncFs {
     }
   }
 
+  /**
+   * Reads the content of a file under the given path in chunks,
+   * without loading the whole file into memory.
+   *
+   * The underlying stream is closed once all the chunks are read, an
+   * error occurs or the iteration is stopped early (e.g. via
+   * `break`).
+   */
+  public *readStream(
+    path: string,
+    options?: SyncReadStreamOptions,
+  ): Generator<Uint8Array, void, undefined> {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+    const chunkSize = opt.get("chunkSize", DEFAULT_CHUNK_SIZE);
+    const start = opt.get("start", 0);
+    const end = opt.get("end", Infinity);
+
+    try {
+      const stream = file.read(null);
+
+      try {
+        if (start > 0) {
+          stream.seek(start, GLib.SeekType.SET, null);
+        }
+
+        let position = start;
+
+        while (position < end) {
+          const chunk = stream
+            .read_bytes(Math.min(chunkSize, end - position), null)
+            .toArray();
+
+          if (chunk.byteLength === 0) {
+            break;
+          }
+
+          position += chunk.byteLength;
+
+          yield chunk;
+        }
+      } finally {
+        stream.close(null);
+      }
+    } catch (err) {
+      throw parseFsError("readStream", err);
+    }
+  }
+
   /**
    * Reads the content of a file under the given path using the
    * `readFile()` method and decodes that content to string using the
@@ -589,11 +2739,107 @@ class SyncFs {
     options?: SyncReadTextFileOptions,
   ) {
     const opt = OptionsResolver(options, OptValidators);
-    const decoder = new TextDecoder(opt.get("encoding", "utf-8"));
+    const decoder = createDecoder(opt.get("encoding", "utf-8"));
+
+    const contents = this.readFile(path);
+
+    return decoder.decode(contents);
+  }
+
+  /**
+   * Reads the file under the given path line by line, decoding it
+   * with the given encoding. The file is read in chunks, so only a
+   * small part of it is kept in memory at any time.
+   */
+  public *readLines(
+    path: string,
+    options?: SyncReadLinesOptions,
+  ): Generator<string, void, undefined> {
+    const opt = OptionsResolver(options, OptValidators);
+
+    try {
+      const decoder = new IncrementalDecoder(
+        opt.get("encoding", "utf-8"),
+      );
+      const splitter = new LineSplitter(
+        opt.get("newline", "any"),
+        opt.get("keepEnds", false),
+      );
+
+      for (const chunk of this.readStream(path)) {
+        yield* splitter.push(decoder.decode(chunk));
+      }
+
+      yield* splitter.push(decoder.flush());
+      yield* splitter.flush();
+    } catch (err) {
+      throw parseFsError("readLines", err);
+    }
+  }
+
+  /**
+   * Reads the file under the given path using the `readTextFile()`
+   * method and parses it's content as JSON.
+   *
+   * Syntax errors are thrown as a `JsonParseError`, which contains
+   * the line and column at which the error occurred.
+   */
+  public readJson<T>(
+    path: string,
+    options: SyncReadJsonOptions & {
+      validate: (value: unknown) => value is T;
+    },
+  ): T;
+  public readJson(
+    path: string,
+    options?: SyncReadJsonOptions,
+  ): unknown;
+  public readJson(
+    path: string,
+    options?: SyncReadJsonOptions,
+  ): unknown {
+    const opt = OptionsResolver(options, OptValidators);
+    const validate = opt.get("validate");
+
+    const value = parseJson(
+      this.readTextFile(path, { encoding: opt.get("encoding") }),
+      this.file(path).get_path()!,
+      { reviver: opt.get("reviver"), jsonc: opt.get("jsonc", false) },
+    );
+
+    if (validate && !validate(value)) {
+      throw new FsError(
+        `JSON validation failed: ${this.file(path).get_path()}`,
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Reads the gzip compressed file (or zlib, or raw deflate,
+   * depending on the `format` option) under the given path.
+   *
+   * @returns A byte array of the decompressed contents.
+   */
+  public readGzipFile(
+    path: string,
+    options?: SyncReadGzipFileOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const decompressor = createDecompressor(
+      opt.get("format", "gzip"),
+    );
+
+    const source = this.file(path).read(null);
+    const target = Gio.MemoryOutputStream.new_resizable();
 
-    const contents = this.readFile(path);
+    spliceSync(
+      Gio.ConverterInputStream.new(source, decompressor),
+      target,
+    );
 
-    return decoder.decode(contents);
+    return target.steal_as_bytes().toArray();
   }
 
   /**
@@ -610,6 +2856,14 @@ class SyncFs {
     const opt = OptionsResolver(options, OptValidators);
     const createFlag = getCreateFileFlag(opt);
 
+    if (opt.get("checkFreeSpace", false)) {
+      this.checkFreeSpace(file, contents.byteLength);
+    }
+
+    if (opt.get("atomic", false) || opt.get("durable", false)) {
+      return this.writeFileSafely(file, contents, options);
+    }
+
     if (contents.byteLength === 0) {
       const stream = file.replace(
         opt.get("etag", null),
@@ -651,9 +2905,160 @@ class SyncFs {
   }
 
   /**
-   * Encodes given string into a byte array (UTF-8), and writes that
-   * data to a file under the given path using the `writeFile()`
-   * method.
+   * Fails with an `InsufficientSpaceError` if the filesystem the
+   * given file is going to be written to doesn't have the required
+   * number of bytes available.
+   */
+  private checkFreeSpace(target: Gio.File, requiredBytes: number) {
+    const dirPath = (target.get_parent() ?? target).get_path()!;
+
+    // a missing parent directory is reported by the write itself
+    if (!this.fileExists(dirPath)) {
+      return;
+    }
+
+    const info = this.filesystemInfo(dirPath);
+
+    ensureFreeSpace(info, requiredBytes, target.get_path()!);
+  }
+
+  private writeFileSafely(
+    file: Gio.File,
+    contents: Uint8Array,
+    options: SyncWriteFileOptions | undefined,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const replace = opt.get("replace", false);
+    let target = file;
+    let targetInfo: FileInfo | null = null;
+
+    for (let depth = 0; ; depth++) {
+      if (!this.fileExists(target.get_path()!)) {
+        targetInfo = null;
+        break;
+      }
+
+      targetInfo = this.fileInfo(target.get_path()!);
+
+      if (replace || !targetInfo.isSymlink) {
+        break;
+      }
+
+      if (depth >= MAX_SYMLINK_DEPTH) {
+        throw new FsError(
+          `Too many levels of symbolic links: ${file.get_path()}`,
+        );
+      }
+
+      target = target
+        .get_parent()!
+        .resolve_relative_path(targetInfo.symlinkTarget!);
+    }
+
+    const targetPath = target.get_path()!;
+    const etag = opt.get("etag");
+
+    if (
+      etag &&
+      targetInfo &&
+      targetInfo._gioInfo.get_etag() !== etag
+    ) {
+      throw new FsError(
+        `The file was externally modified: ${targetPath}`,
+      );
+    }
+
+    if (targetInfo && opt.get("makeBackup", false)) {
+      this.copyFile(targetPath, targetPath + "~", {
+        overwrite: true,
+        allMetadata: true,
+      });
+    }
+
+    // permissions of the replaced file are kept, unless the
+    // destination is meant to be replaced as if it didn't exist
+    const keptMode =
+      targetInfo && !replace ? targetInfo.mode & 0o7777 : null;
+
+    const durable = opt.get("durable", false);
+    const dirPath = target.get_parent()!.get_path()!;
+    const mode = opt.get("private", false) ? 0o600 : 0o666;
+
+    if (!opt.get("atomic", false)) {
+      // the file is written in place, so an existing one keeps it's
+      // mode
+      GLib.file_set_contents_full(
+        targetPath,
+        contents,
+        GLib.FileSetContentsFlags.NONE,
+        mode,
+      );
+      this.syncToDisk([targetPath, dirPath]);
+      return;
+    }
+
+    const tmpPath = join(
+      dirPath,
+      `.${target.get_basename()}.${GLib.uuid_string_random()}`,
+    );
+
+    try {
+      // the kept mode is set before writing, so that it's synced
+      // along with the contents, and not subject to the umask
+      GLib.file_set_contents_full(
+        tmpPath,
+        new Uint8Array(),
+        GLib.FileSetContentsFlags.NONE,
+        mode,
+      );
+
+      if (keptMode !== null) {
+        this.chmod(tmpPath, keptMode);
+      }
+
+      GLib.file_set_contents_full(
+        tmpPath,
+        contents,
+        GLib.FileSetContentsFlags.NONE,
+        mode,
+      );
+
+      if (durable) {
+        this.syncToDisk([tmpPath]);
+      }
+
+      this.moveFile(tmpPath, targetPath, {
+        overwrite: true,
+        noFallbackForMove: true,
+      });
+    } catch (err) {
+      if (this.fileExists(tmpPath)) {
+        this.deleteFile(tmpPath);
+      }
+
+      throw err;
+    }
+
+    // the rename itself is only durable once the directory is synced
+    if (durable) {
+      this.syncToDisk([dirPath]);
+    }
+  }
+
+  /**
+   * Syncs the given files and directories to the disk.
+   */
+  private syncToDisk(paths: string[]) {
+    const proc = spawnSyncProcess(paths);
+    const [, , stderr] = proc.communicate_utf8(null, null);
+
+    checkSyncProcess(proc, stderr, paths);
+  }
+
+  /**
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and writes that data to a file under the
+   * given path using the `writeFile()` method.
    */
   public writeTextFile(
     path: string,
@@ -662,13 +3067,60 @@ class SyncFs {
   ) {
     validateText(contents);
 
-    const encoder = new TextEncoder();
-
-    const data = encoder.encode(contents);
+    const opt = OptionsResolver(options, OptValidators);
+    const data = encodeText(contents, opt.get("encoding", "utf-8"));
 
     return this.writeFile(path, data, options);
   }
 
+  /**
+   * Serializes the given value to JSON and writes it to a file under
+   * the given path using the `writeTextFile()` method.
+   */
+  public writeJson(
+    path: string,
+    value: unknown,
+    options?: SyncWriteJsonOptions,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    const json = JSON.stringify(
+      value,
+      opt.get("replacer"),
+      opt.get("indent", 2),
+    ) as string | undefined;
+
+    if (json === undefined) {
+      throw new FsError("Given value cannot be serialized to JSON.");
+    }
+
+    return this.writeTextFile(path, json + "\n", options);
+  }
+
+  /**
+   * Compresses the given data, in the gzip format unless specified
+   * otherwise, and writes it to a file under the given path.
+   */
+  public writeGzipFile(
+    path: string,
+    contents: Uint8Array,
+    options?: SyncWriteGzipFileOptions,
+  ) {
+    validateBytes(contents);
+
+    const opt = OptionsResolver(options, OptValidators);
+    const compressor = createCompressor(
+      opt.get("format", "gzip"),
+      opt.get("level", DEFAULT_COMPRESSION_LEVEL),
+    );
+
+    this.spliceIntoFile(
+      Gio.MemoryInputStream.new_from_bytes(GLib.Bytes.new(contents)),
+      path,
+      compressor,
+    );
+  }
+
   /**
    * Appends the given data to a file under the given path.
    */
@@ -707,94 +3159,398 @@ class SyncFs {
         `Failed to close file stream: ${file.get_path()}`,
       );
     }
-  }
+  }
+
+  /**
+   * Encodes given string into a byte array (UTF-8, unless a different
+   * encoding is given), and appends that data to a file under the
+   * given path using the `appendFile()` method.
+   */
+  public appendTextFile(
+    path: string,
+    contents: string,
+    options?: SyncAppendTextFileOptions,
+  ) {
+    validateText(contents);
+
+    const opt = OptionsResolver(options, OptValidators);
+    const data = encodeText(contents, opt.get("encoding", "utf-8"));
+
+    return this.appendFile(path, data, options);
+  }
+
+  /**
+   * Moves a file or directory from one path to another.
+   *
+   * If a directory cannot be moved natively (e.g. when moving across
+   * filesystem boundaries), it will be copied recursively and then
+   * deleted, unless `noFallbackForMove` is set to `true`.
+   */
+  public moveFile(
+    sourcePath: string,
+    destinationPath: string,
+    options?: SyncMoveFileOptions,
+  ) {
+    const oldFile = this.file(sourcePath);
+    const newFile = this.file(destinationPath);
+    const opt = OptionsResolver(options, OptValidators);
+    const copyFlag = getCopyFileFlag(opt);
+
+    let success: boolean;
+
+    try {
+      success = oldFile.move(
+        newFile,
+        copyFlag,
+        null,
+        opt.get("onProgress", null),
+      );
+    } catch (err) {
+      if (
+        opt.get("noFallbackForMove", false) ||
+        !isGioIOError(err, Gio.IOErrorEnum.WOULD_RECURSE)
+      ) {
+        throw err;
+      }
+
+      this.moveDirectory(oldFile, newFile, options);
+      success = true;
+    }
+
+    if (success) {
+      return;
+    } else {
+      throw new FsError(
+        `Failed to move file: ${oldFile.get_path()} -> ${newFile.get_path()}`,
+      );
+    }
+  }
+
+  /**
+   * Moves a directory by recursively copying it to the destination
+   * and deleting the source afterwards. Used when the native move is
+   * not possible, e.g. when moving across filesystem boundaries.
+   *
+   * The tree is first copied into a temporary directory next to the
+   * destination, if that fails, the temporary directory is removed
+   * and the source is left untouched. An existing destination is
+   * moved aside until the copy is in place, and put back if that
+   * fails.
+   */
+  private moveDirectory(
+    srcDir: Gio.File,
+    destDir: Gio.File,
+    options: SyncMoveFileOptions | undefined,
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const srcPath = srcDir.get_path()!;
+    const destPath = destDir.get_path()!;
+    const siblingPath = () =>
+      join(
+        destDir.get_parent()!.get_path()!,
+        `.${destDir.get_basename()}.${GLib.uuid_string_random()}`,
+      );
+    const stagingPath = siblingPath();
+
+    const destExists = this.fileExists(destPath);
+
+    if (destExists && !opt.get("overwrite", false)) {
+      throw new FsError(`Destination already exists: ${destPath}`);
+    }
+
+    const backupPath = destExists ? siblingPath() : null;
+
+    try {
+      this.copyFile(srcPath, stagingPath, {
+        ...options,
+        recursive: true,
+        allMetadata: true,
+      });
+
+      if (backupPath !== null) {
+        this.moveFile(destPath, backupPath, {
+          noFallbackForMove: true,
+        });
+      }
+
+      try {
+        this.moveFile(stagingPath, destPath, {
+          noFallbackForMove: true,
+        });
+      } catch (err) {
+        if (backupPath !== null) {
+          this.moveFile(backupPath, destPath, {
+            noFallbackForMove: true,
+          });
+        }
+
+        throw err;
+      }
+    } catch (err) {
+      if (this.fileExists(stagingPath)) {
+        this.deleteFile(stagingPath, { recursive: true });
+      }
+
+      throw err;
+    }
+
+    if (backupPath !== null) {
+      this.deleteFile(backupPath, { recursive: true });
+    }
+
+    this.deleteFile(srcPath, { recursive: true });
+  }
+
+  /**
+   * Alias for the `moveFile()` method.
+   */
+  public renameFile(
+    sourcePath: string,
+    destinationPath: string,
+    options?: SyncMoveFileOptions,
+  ) {
+    return this.moveFile(sourcePath, destinationPath, options);
+  }
+
+  /**
+   * Copies a file or directory from one path to another.
+   *
+   * If `recursive` is set to `true` and the source is a directory,
+   * the whole directory tree will be copied.
+   */
+  public copyFile(
+    sourcePath: string,
+    destinationPath: string,
+    options?: SyncCopyFileOptions,
+  ) {
+    const srcFile = this.file(sourcePath);
+    const destFile = this.file(destinationPath);
+    const opt = OptionsResolver(options, OptValidators);
+    const copyFlag = getCopyFileFlag(opt);
+
+    if (opt.get("checkFreeSpace", false)) {
+      const usage = this.diskUsage(sourcePath, {
+        followSymlinks: opt.get("followSymlinks", false),
+      });
+
+      this.checkFreeSpace(destFile, usage.apparentSize);
+    }
+
+    if (
+      opt.get("recursive", false) &&
+      this.fileInfo(sourcePath, {
+        followSymlinks: opt.get("followSymlinks", false),
+      }).isDirectory
+    ) {
+      this.ensureNotCopiedIntoItself(srcFile, destFile);
+      return this.copyDirectory(srcFile, destFile, options);
+    }
+
+    const success = srcFile.copy(
+      destFile,
+      copyFlag,
+      null,
+      opt.get("onProgress", null),
+    );
+
+    if (success) {
+      if (opt.get("copyXattrs", false)) {
+        this.copyXattrs(srcFile, destFile, options);
+      }
+
+      return;
+    } else {
+      throw new FsError(
+        `Failed to copy file: ${srcFile.get_path()} -> ${destFile.get_path()}`,
+      );
+    }
+  }
+
+  /**
+   * Throws if the destination of a recursive copy is the source
+   * directory itself, or is inside of it, as such copy would never
+   * end. Symlinks in both paths are resolved before comparing them.
+   */
+  private ensureNotCopiedIntoItself(
+    srcDir: Gio.File,
+    destDir: Gio.File,
+  ) {
+    const srcPath = this.realPath(srcDir.get_path()!);
+    let destPath: string;
+
+    try {
+      destPath = this.realPath(destDir.get_path()!);
+    } catch {
+      // the destination does not exist yet, but it's parent might be
+      // a symlink
+      try {
+        destPath = join(
+          this.realPath(destDir.get_parent()!.get_path()!),
+          destDir.get_basename()!,
+        );
+      } catch {
+        destPath = destDir.get_path()!;
+      }
+    }
+
+    const rel = relative(srcPath, destPath);
+
+    if (rel === "" || (rel !== ".." && !rel.startsWith("../"))) {
+      throw new FsError(
+        `Cannot copy a directory into itself: ${srcPath} -> ${destPath}`,
+      );
+    }
+  }
+
+  /**
+   * Copies the contents of the source directory into the destination
+   * directory, descending into every sub-directory. The whole tree is
+   * scanned and the directories are created first, the files are
+   * copied after that.
+   *
+   * When `followSymlinks` is enabled, a symlink to a directory that
+   * contains it would be copied endlessly, so it's rejected before
+   * anything gets copied.
+   */
+  private copyDirectory(
+    srcDir: Gio.File,
+    destDir: Gio.File,
+    options: SyncCopyFileOptions | undefined,
+  ) {
+    const self = this;
+    const opt = OptionsResolver(options, OptValidators);
+    const followSymlinks = opt.get("followSymlinks", false);
+    const filter = opt.get("filter");
+    const dirs: Array<[src: Gio.File, dest: Gio.File]> = [];
+    const files: Array<[src: string, dest: string]> = [];
+    // identities of the directories on the currently scanned path
+    const ancestors = new Set<string>();
+
+    function scanDir(
+      src: Gio.File,
+      dest: Gio.File,
+      identity: string,
+    ) {
+      dirs.push([src, dest]);
+      ancestors.add(identity);
+
+      const entries = self.listDir(src.get_path()!, {
+        followSymlinks,
+      });
+
+      for (const entry of entries) {
+        if (filter && !filter(entry)) {
+          continue;
+        }
+
+        const entryDest = join(dest.get_path()!, entry.filename);
+
+        if (!entry.isDirectory) {
+          files.push([entry.filepath, entryDest]);
+          continue;
+        }
+
+        const entryIdentity = getFileIdentity(entry);
+
+        if (ancestors.has(entryIdentity)) {
+          throw new FsError(
+            `Cannot copy a symlink to a directory that contains it: ${entry.filepath}`,
+          );
+        }
+
+        scanDir(
+          self.file(entry.filepath),
+          self.file(entryDest),
+          entryIdentity,
+        );
+      }
+
+      ancestors.delete(identity);
+    }
 
-  /**
-   * Encodes given string into a byte array (UTF-8), and appends that
-   * data to a file under the given path using the `appendFile()`
-   * method.
-   */
-  public appendTextFile(
-    path: string,
-    contents: string,
-    options?: SyncAppendTextFileOptions,
-  ) {
-    validateText(contents);
+    const srcInfo = this.fileInfo(srcDir.get_path()!, {
+      followSymlinks,
+    });
+
+    scanDir(srcDir, destDir, getFileIdentity(srcInfo));
 
-    const encoder = new TextEncoder();
+    for (const [, dest] of dirs) {
+      this.prepareCopyDestination(dest.get_path()!, opt);
+    }
+
+    for (const [src, dest] of files) {
+      this.copyFile(src, dest, {
+        ...options,
+        recursive: false,
+        checkFreeSpace: false,
+      });
+    }
 
-    const data = encoder.encode(contents);
+    // the directories are updated last, deepest first, as copying
+    // their contents changes their modification times
+    for (const [src, dest] of dirs.reverse()) {
+      src.copy_attributes(dest, getCopyFileFlag(opt), null);
 
-    return this.appendFile(path, data, options);
+      if (opt.get("copyXattrs", false)) {
+        this.copyXattrs(src, dest, options);
+      }
+    }
   }
 
   /**
-   * Moves a file or directory from one path to another.
+   * Makes sure a directory exists under the given destination path of
+   * a recursive copy, resolving the conflicts with existing entries
+   * according to the options.
    */
-  public moveFile(
-    sourcePath: string,
-    destinationPath: string,
-    options?: SyncMoveFileOptions,
+  private prepareCopyDestination(
+    destPath: string,
+    opt: OptionsResolver<SyncCopyFileOptions>,
   ) {
-    const oldFile = this.file(sourcePath);
-    const newFile = this.file(destinationPath);
-    const opt = OptionsResolver(options, OptValidators);
-    const copyFlag = getCopyFileFlag(opt);
+    if (!this.fileExists(destPath)) {
+      this.makeDir(destPath);
+      return;
+    }
 
-    const success = oldFile.move(
-      newFile,
-      copyFlag,
-      null,
-      opt.get("onProgress", null),
-    );
+    const destInfo = this.fileInfo(destPath);
 
-    if (success) {
-      return;
-    } else {
+    if (!destInfo.isDirectory && !opt.get("overwrite", false)) {
       throw new FsError(
-        `Failed to move file: ${oldFile.get_path()} -> ${newFile.get_path()}`,
+        `Destination already exists and is not a directory: ${destPath}`,
       );
     }
-  }
 
-  /**
-   * Alias for the `moveFile()` method.
-   */
-  public renameFile(
-    sourcePath: string,
-    destinationPath: string,
-    options?: SyncMoveFileOptions,
-  ) {
-    return this.moveFile(sourcePath, destinationPath, options);
+    if (
+      !destInfo.isDirectory ||
+      opt.get("dirConflictPolicy", "merge") === "replace"
+    ) {
+      this.deleteFile(destPath, { recursive: true });
+      this.makeDir(destPath);
+    }
   }
 
   /**
-   * Copies a file or directory from one path to another.
+   * Copies all the `user.*` extended attributes from the source file
+   * onto the destination file.
    */
-  public copyFile(
-    sourcePath: string,
-    destinationPath: string,
-    options?: SyncCopyFileOptions,
+  private copyXattrs(
+    srcFile: Gio.File,
+    destFile: Gio.File,
+    options: SyncCopyFileOptions | undefined,
   ) {
-    const srcFile = this.file(sourcePath);
-    const destFile = this.file(destinationPath);
     const opt = OptionsResolver(options, OptValidators);
-    const copyFlag = getCopyFileFlag(opt);
+    const queryFlag = getQueryFileFlag(opt);
 
-    const success = srcFile.copy(
-      destFile,
-      copyFlag,
+    const info = srcFile.query_info(
+      USER_XATTR_ATTRIBUTES,
+      queryFlag,
       null,
-      opt.get("onProgress", null),
     );
 
-    if (success) {
+    if (listXattrNames(info).length === 0) {
       return;
-    } else {
-      throw new FsError(
-        `Failed to copy file: ${srcFile.get_path()} -> ${destFile.get_path()}`,
-      );
     }
+
+    this.setXattrInfo(destFile, info, queryFlag);
   }
 
   /**
@@ -839,14 +3595,67 @@ class SyncFs {
 
   /**
    * Creates a new directory under the given path.
+   *
+   * If `recursive` is set to `true`, all missing parent directories
+   * will be created as well.
    */
-  public makeDir(path: string) {
-    const file = this.file(path);
+  public makeDir(path: string, options?: SyncMakeDirOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+    const mode = opt.get("mode");
+    const created: string[] = [];
+
+    this.createDirectory(this.file(path), options, created);
+
+    // the mode is applied once all the directories exist, deepest
+    // first, as it could take away the permissions needed to create
+    // or reach the nested directories
+    if (mode != null) {
+      for (const dirPath of created.reverse()) {
+        this.chmod(dirPath, mode);
+      }
+    }
+  }
+
+  /**
+   * Creates the directory, along with it's missing parents if the
+   * `recursive` option is enabled. Paths of the directories that were
+   * created are added to the given array, parents first.
+   */
+  private createDirectory(
+    file: Gio.File,
+    options: SyncMakeDirOptions | undefined,
+    created: string[],
+  ) {
+    const opt = OptionsResolver(options, OptValidators);
+    const recursive = opt.get("recursive", false);
+
+    if (recursive) {
+      const parent = file.get_parent();
+
+      if (parent && !parent.query_exists(null)) {
+        this.createDirectory(parent, options, created);
+      }
+    }
+
+    let success: boolean;
 
-    const success = file.make_directory(null);
+    try {
+      success = file.make_directory(null);
+    } catch (err) {
+      if (
+        recursive &&
+        isGioIOError(err, Gio.IOErrorEnum.EXISTS) &&
+        this.fileInfo(file.get_path()!, { followSymlinks: true })
+          .isDirectory
+      ) {
+        return;
+      }
+
+      throw err;
+    }
 
     if (success) {
-      return;
+      created.push(file.get_path()!);
     } else {
       throw new FsError(
         `Failed to make directory: ${file.get_path()}`,
@@ -861,22 +3670,196 @@ class SyncFs {
    *
    * @param linkPath The path to the new link file.
    * @param pointingTo Link destination file.
+   * @param options Options for the operation.
    */
-  public makeLink(linkPath: string, pointingTo: string) {
+  public makeLink(
+    linkPath: string,
+    pointingTo: string,
+    options?: SyncMakeLinkOptions,
+  ) {
     const linkFile = this.file(linkPath);
     const dest = this.resolvePath(pointingTo);
+    const opt = OptionsResolver(options, OptValidators);
+
+    const target = opt.get("relative", false)
+      ? this.getRelativeLinkTarget(linkFile, dest)
+      : dest;
 
-    const success = linkFile.make_symbolic_link(dest, null);
+    const success = linkFile.make_symbolic_link(target, null);
 
     if (success) {
       return;
     } else {
       throw new FsError(
-        `Failed to create symbolic link: ${linkFile.get_path()} -> ${dest}`,
+        `Failed to create symbolic link: ${linkFile.get_path()} -> ${target}`,
       );
     }
   }
 
+  /**
+   * Returns a path to the given destination, relative to the
+   * directory in which the link is going to be created.
+   */
+  private getRelativeLinkTarget(linkFile: Gio.File, dest: string) {
+    const linkDir = this.realPath(linkFile.get_parent()!.get_path()!);
+    let target = dest;
+
+    try {
+      target = this.realPath(dest);
+    } catch {
+      // targets that do not exist (yet) are used as given
+    }
+
+    return relative(linkDir, target) || ".";
+  }
+
+  /**
+   * Creates a hard link under the path given in the first parameter,
+   * to the existing file given as the second parameter. Both paths
+   * must be on the same filesystem.
+   *
+   * @param linkPath The path to the new link.
+   * @param existingPath The file the link should point to.
+   */
+  public makeHardLink(linkPath: string, existingPath: string) {
+    const link = this.resolvePath(linkPath);
+    const existing = this.resolvePath(existingPath);
+
+    const proc = spawnHardLinkProcess(link, existing);
+    const [, , stderr] = proc.communicate_utf8(null, null);
+
+    checkHardLinkProcess(proc, stderr, link, existing);
+  }
+
+  /**
+   * Reads the target of a symbolic link, exactly as it's stored in
+   * the link (it can be a relative path).
+   */
+  public readLink(path: string) {
+    const info = this.fileInfo(path);
+
+    if (!info.isSymlink) {
+      throw new FsError(`Not a symbolic link: ${info.filepath}`);
+    }
+
+    return info.symlinkTarget!;
+  }
+
+  /**
+   * Resolves the given path to an absolute path that contains no
+   * symbolic links and no `.` or `..` components. Fails if any of the
+   * path components does not exist, or if there are too many levels
+   * of symbolic links (e.g. a symlink loop).
+   */
+  public realPath(path: string) {
+    // the path is not normalized, as `..` can only be resolved after
+    // the symlinks preceding it are
+    const absolute = isAbsolute(path)
+      ? path
+      : `${this._cwd ?? GLib.get_current_dir()}/${path}`;
+    let pending = absolute.split("/");
+    let resolved = "/";
+    let linksFollowed = 0;
+
+    while (pending.length > 0) {
+      const part = pending.shift()!;
+
+      if (part === "" || part === ".") {
+        continue;
+      }
+
+      const current = join(resolved, part);
+
+      if (part === "..") {
+        resolved = current;
+        continue;
+      }
+
+      const info = this.fileInfo(current);
+
+      if (!info.isSymlink) {
+        resolved = current;
+        continue;
+      }
+
+      if (++linksFollowed > MAX_SYMLINK_DEPTH) {
+        throw new FsError(
+          `Too many levels of symbolic links: ${absolute}`,
+        );
+      }
+
+      const target = info.symlinkTarget!;
+
+      if (isAbsolute(target)) {
+        resolved = "/";
+      }
+
+      pending = [...target.split("/"), ...pending];
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Recursively searches the given directory for symbolic links that
+   * point to files that do not exist.
+   *
+   * @returns Paths of all the broken links found.
+   */
+  public findBrokenLinks(
+    path: string,
+    options?: SyncFindBrokenLinksOptions,
+  ) {
+    const brokenLinks: string[] = [];
+
+    for (const entry of this.walk(path, {
+      ...options,
+      followSymlinks: false,
+    })) {
+      if (!entry.isSymlink) {
+        continue;
+      }
+
+      // Gio falls back to the info about the link itself when the
+      // link cannot be followed
+      const target = this.fileInfo(entry.filepath, {
+        followSymlinks: true,
+      });
+
+      if (
+        target._gioInfo.get_file_type() === Gio.FileType.SYMBOLIC_LINK
+      ) {
+        brokenLinks.push(entry.filepath);
+      }
+    }
+
+    return brokenLinks;
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary file and opens it for
+   * reading and writing. The file is removed once the returned handle
+   * is disposed of.
+   *
+   * If the `dir` option is not specified, the file is created in the
+   * system's temporary directory.
+   */
+  public makeTempFile(options: SyncTempOptions = {}) {
+    return SyncTempFile.create(this, options);
+  }
+
+  /**
+   * Creates a new, uniquely named, temporary directory. The directory
+   * and all of it's contents are removed once the returned handle is
+   * disposed of.
+   *
+   * If the `dir` option is not specified, the directory is created in
+   * the system's temporary directory.
+   */
+  public makeTempDir(options: SyncTempOptions = {}) {
+    return SyncTempDir.create(this, options);
+  }
+
   /**
    * Changes the UNIX permissions of a file or directory.
    *
@@ -952,6 +3935,164 @@ class SyncFs {
     }
   }
 
+  /**
+   * Changes the access and/or modification times of a file or
+   * directory. Times can be given as Date objects or as milliseconds
+   * since the UNIX epoch, with a microsecond precision.
+   */
+  public setTimes(
+    path: string,
+    times: FileTimes,
+    options?: SyncSetTimesOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+    opt.setDefault("followSymlinks", true);
+
+    const success = file.set_attributes_from_info(
+      createTimesInfo(times),
+      getQueryFileFlag(opt),
+      null,
+    );
+
+    if (!success) {
+      throw new FsError(
+        `Failed to change file times: ${file.get_path()}`,
+      );
+    }
+  }
+
+  /**
+   * Sets the access and modification times of a file to the current
+   * time, creating an empty file if it doesn't exist (like the
+   * `touch` command).
+   */
+  public touch(path: string, options?: SyncTouchOptions) {
+    const file = this.file(path);
+
+    try {
+      file.create(Gio.FileCreateFlags.NONE, null).close(null);
+      return;
+    } catch (err) {
+      if (!isGioIOError(err, Gio.IOErrorEnum.EXISTS)) {
+        throw err;
+      }
+    }
+
+    const now = new Date();
+
+    this.setTimes(
+      file.get_path()!,
+      { access: now, modified: now },
+      options,
+    );
+  }
+
+  /**
+   * Reads the value of an extended attribute of a file or directory.
+   * Names must include the namespace prefix, e.g. `user.tags`.
+   *
+   * @returns The value as a byte array, or `null` if the attribute is
+   *   not set.
+   */
+  public getXattr(
+    path: string,
+    name: string,
+    options?: SyncGetXattrOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+    const attribute = getXattrAttribute(name);
+
+    const info = file.query_info(
+      attribute,
+      getQueryFileFlag(opt),
+      null,
+    );
+
+    return readXattrValue(info, attribute);
+  }
+
+  /**
+   * Sets the value of an extended attribute of a file or directory.
+   * String values are encoded as UTF-8.
+   */
+  public setXattr(
+    path: string,
+    name: string,
+    value: Uint8Array | string,
+    options?: SyncSetXattrOptions,
+  ) {
+    const bytes =
+      typeof value === "string"
+        ? new TextEncoder().encode(value)
+        : value;
+
+    validateBytes(bytes);
+
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    this.setXattrInfo(
+      file,
+      createXattrInfo(getXattrAttribute(name), bytes),
+      getQueryFileFlag(opt),
+    );
+  }
+
+  /**
+   * Removes an extended attribute from a file or directory.
+   */
+  public removeXattr(
+    path: string,
+    name: string,
+    options?: SyncRemoveXattrOptions,
+  ) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    this.setXattrInfo(
+      file,
+      createXattrInfo(getXattrAttribute(name), null),
+      getQueryFileFlag(opt),
+    );
+  }
+
+  /**
+   * Lists the names of all the extended attributes of a file or
+   * directory that the current user can read.
+   */
+  public listXattrs(path: string, options?: SyncListXattrsOptions) {
+    const file = this.file(path);
+    const opt = OptionsResolver(options, OptValidators);
+
+    const info = file.query_info(
+      XATTR_ATTRIBUTES,
+      getQueryFileFlag(opt),
+      null,
+    );
+
+    return listXattrNames(info);
+  }
+
+  private setXattrInfo(
+    file: Gio.File,
+    info: Gio.FileInfo,
+    queryFlag: Gio.FileQueryInfoFlags,
+  ) {
+    const success = file.set_attributes_from_info(
+      info,
+      queryFlag,
+      null,
+    );
+
+    if (!success) {
+      throw new FsError(
+        `Failed to change extended attributes: ${file.get_path()}`,
+      );
+    }
+  }
+
   /**
    * Creates a new SyncIOStream instance.
    *
@@ -979,13 +4120,39 @@ export type {
   SyncAppendTextFileOptions,
   SyncChmodOptions,
   SyncChownOptions,
+  SyncCompareDirsOptions,
+  SyncCompressFileOptions,
   SyncCopyFileOptions,
+  SyncCreateTarOptions,
+  SyncDecompressFileOptions,
   SyncDeleteFileOptions,
+  SyncDiskUsageOptions,
+  SyncExtractTarOptions,
   SyncFileInfoOptions,
+  SyncFindBrokenLinksOptions,
+  SyncGetXattrOptions,
+  SyncGlobOptions,
+  SyncHashOptions,
+  SyncHmacOptions,
   SyncListDirOptions,
+  SyncListXattrsOptions,
+  SyncMakeDirOptions,
+  SyncMakeLinkOptions,
   SyncMoveFileOptions,
   SyncReadFileOptions,
+  SyncReadGzipFileOptions,
+  SyncReadJsonOptions,
+  SyncReadLinesOptions,
+  SyncReadStreamOptions,
   SyncReadTextFileOptions,
+  SyncRemoveXattrOptions,
+  SyncSetTimesOptions,
+  SyncSetXattrOptions,
+  SyncSyncDirOptions,
+  SyncTouchOptions,
+  SyncWalkOptions,
   SyncWriteFileOptions,
+  SyncWriteGzipFileOptions,
+  SyncWriteJsonOptions,
   SyncWriteTextFileOptions,
 };
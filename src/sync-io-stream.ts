@@ -1,22 +1,53 @@
 import GLib from "gi://GLib?version=2.0";
 import type Gio from "gi://Gio?version=2.0";
+import { encodeText } from "./charset";
+import type { CompressionFormat } from "./compression";
+import {
+  DEFAULT_COMPRESSION_LEVEL,
+  wrapInputStream,
+  wrapOutputStream,
+} from "./compression";
+import type { Encoding } from "./encoding";
 import { FsError } from "./errors";
 import type { FileCreateFlagOptions } from "./flags";
 import { getCreateFileFlag } from "./flags";
 import type { IOStreamType } from "./io-stream";
 import { OptionsResolver } from "./option-resolver";
-import { SyncFs, sync } from "./sync-fs";
+import { sync } from "./sync";
+import { SyncFs } from "./sync-fs";
+import { IncrementalDecoder } from "./text-decoding";
 import {
   OptValidators,
   validateBytes,
   validateInteger,
   validatePositiveInteger,
+  validateText,
 } from "./validators";
 
 interface SyncIOStreamOptions extends FileCreateFlagOptions {
   cwd?: string;
   etag?: string;
   makeBackup?: boolean;
+  /**
+   * When set, the data read from the stream is decompressed, and the
+   * data written to it is compressed, in the given format. Compressed
+   * streams cannot seek or be truncated.
+   */
+  compression?: CompressionFormat;
+  /**
+   * Compression level of the written data, from 0 (no compression) to
+   * 9 (best compression), or -1 for the zlib default.
+   *
+   * @default -1
+   */
+  compressionLevel?: number;
+  /**
+   * Encoding of the text written with `writeText()` and read with
+   * `readText()` and `readAllText()`.
+   *
+   * @default "utf-8"
+   */
+  encoding?: Encoding;
 }
 
 class SyncIOStream {
@@ -30,6 +61,7 @@ class SyncIOStream {
       const stream = new SyncIOStream(file, options);
 
       stream._initFile(type);
+      stream._initConverters();
 
       return stream;
     })();
@@ -37,6 +69,9 @@ class SyncIOStream {
 
   private _options;
   private _stream?: Gio.FileIOStream;
+  private _input?: Gio.InputStream;
+  private _output?: Gio.OutputStream;
+  private _compressedOutput?: Gio.OutputStream;
   private _state: "OPEN" | "CLOSED" = "OPEN";
   private _type!: IOStreamType;
 
@@ -49,7 +84,10 @@ class SyncIOStream {
     /**
      * Options are validated on access
      */
+    this._options.get("compression");
+    this._options.get("compressionLevel");
     this._options.get("cwd");
+    this._options.get("encoding");
     this._options.get("etag");
     this._options.get("makeBackup");
     this._options.get("private");
@@ -67,6 +105,18 @@ class SyncIOStream {
       this.truncate.bind(this),
     );
     this.write = sync("SyncIOStream.write", this.write.bind(this));
+    this.writeText = sync(
+      "SyncIOStream.writeText",
+      this.writeText.bind(this),
+    );
+    this.readText = sync(
+      "SyncIOStream.readText",
+      this.readText.bind(this),
+    );
+    this.readAllText = sync(
+      "SyncIOStream.readAllText",
+      this.readAllText.bind(this),
+    );
     this.skip = sync("SyncIOStream.skip", this.skip.bind(this));
     this.seek = sync("SyncIOStream.seek", this.seek.bind(this));
     this.seekFromEnd = sync(
@@ -102,7 +152,7 @@ class SyncIOStream {
    * Whether the Output Stream is currently in the process of closing.
    */
   public get isClosing() {
-    return this._stream?.output_stream.is_closing();
+    return this._output?.is_closing();
   }
 
   public get type() {
@@ -143,14 +193,60 @@ class SyncIOStream {
     throw new FsError("Invalid IOStream type.");
   }
 
+  /**
+   * Wraps the input stream in a converter, if the compression is
+   * enabled. The output stream is wrapped only once something gets
+   * written to it, see `_getOutput()`.
+   */
+  private _initConverters() {
+    const compression = this._options.get("compression");
+
+    this._input = this._stream!.input_stream;
+    this._output = this._stream!.output_stream;
+
+    if (compression) {
+      this._input = wrapInputStream(this._input, compression);
+    }
+  }
+
+  /**
+   * Returns the stream to write to. The compressing converter is
+   * created lazily, since closing it writes out the headers of the
+   * compressed data, which would modify files only opened for
+   * reading.
+   */
+  private _getOutput() {
+    const compression = this._options.get("compression");
+
+    if (compression && !this._compressedOutput) {
+      this._compressedOutput = wrapOutputStream(
+        this._stream!.output_stream,
+        compression,
+        this._options.get(
+          "compressionLevel",
+          DEFAULT_COMPRESSION_LEVEL,
+        ),
+      );
+      this._output = this._compressedOutput;
+    }
+
+    return this._output!;
+  }
+
   private _ensureCanSeek() {
-    if (!this._stream!.can_seek()) {
+    if (
+      this._options.get("compression") != null ||
+      !this._stream!.can_seek()
+    ) {
       throw new FsError("Stream cannot seek.");
     }
   }
 
   private _ensureCanTruncate() {
-    if (!this._stream!.can_truncate()) {
+    if (
+      this._options.get("compression") != null ||
+      !this._stream!.can_truncate()
+    ) {
       throw new FsError("Stream cannot truncate.");
     }
   }
@@ -232,10 +328,7 @@ class SyncIOStream {
    */
   public skip(byteCount: number) {
     validatePositiveInteger(byteCount);
-    const bytesSkipped = this._stream!.input_stream.skip(
-      byteCount,
-      null,
-    );
+    const bytesSkipped = this._input!.skip(byteCount, null);
 
     if (bytesSkipped === -1) {
       throw new FsError("Failed to skip stream.");
@@ -259,10 +352,7 @@ class SyncIOStream {
     }
 
     const bytes = GLib.Bytes.new(content);
-    const bytesWritten = this._stream!.output_stream.write_bytes(
-      bytes,
-      null,
-    );
+    const bytesWritten = this._getOutput().write_bytes(bytes, null);
 
     if (bytesWritten === -1) {
       throw new FsError("Failed to write to stream.");
@@ -281,10 +371,7 @@ class SyncIOStream {
   public read(byteCount: number) {
     validatePositiveInteger(byteCount);
 
-    const bytes = this._stream!.input_stream.read_bytes(
-      byteCount,
-      null,
-    );
+    const bytes = this._input!.read_bytes(byteCount, null);
 
     if (bytes == null) {
       throw new FsError("Failed to read from stream.");
@@ -306,10 +393,7 @@ class SyncIOStream {
     let result = new Uint8Array([]);
 
     while (true) {
-      const nextBytes = this._stream?.input_stream.read_bytes(
-        chunkSize,
-        null,
-      );
+      const nextBytes = this._input!.read_bytes(chunkSize, null);
 
       if (nextBytes == null) {
         throw new FsError("Failed to read from stream.");
@@ -332,6 +416,60 @@ class SyncIOStream {
     return result;
   }
 
+  /**
+   * Encodes the given text with the stream's encoding, and writes it
+   * to the stream at the current cursor position.
+   *
+   * @returns The number of bytes written.
+   */
+  public writeText(text: string) {
+    validateText(text);
+
+    return this.write(
+      encodeText(text, this._options.get("encoding", "utf-8")),
+    );
+  }
+
+  /**
+   * Reads the given number of bytes starting from the current cursor
+   * position, and decodes them with the stream's encoding. If the
+   * last character is split by the end of those bytes, the few bytes
+   * needed to complete it are read as well.
+   */
+  public readText(byteCount: number) {
+    const decoder = new IncrementalDecoder(
+      this._options.get("encoding", "utf-8"),
+    );
+
+    let text = decoder.decode(this.read(byteCount));
+
+    // the decoder holds back at most a few bytes, so this reads at
+    // most a few more
+    while (decoder.hasPending) {
+      const nextByte = this.read(1);
+
+      if (nextByte.byteLength === 0) {
+        break;
+      }
+
+      text += decoder.decode(nextByte);
+    }
+
+    return text + decoder.flush();
+  }
+
+  /**
+   * Reads all remaining bytes from the stream, and decodes them with
+   * the stream's encoding.
+   */
+  public readAllText() {
+    const decoder = new IncrementalDecoder(
+      this._options.get("encoding", "utf-8"),
+    );
+
+    return decoder.decode(this.readAll()) + decoder.flush();
+  }
+
   /**
    * Truncates the stream to the given length.
    *
@@ -354,7 +492,7 @@ class SyncIOStream {
    * Forces an asynchronous write of all user-space buffered data.
    */
   public flush() {
-    const success = this._stream!.output_stream.flush(null);
+    const success = this._output!.flush(null);
 
     if (!success) {
       throw new FsError("Failed to flush stream.");
@@ -366,6 +504,12 @@ class SyncIOStream {
    */
   public close() {
     if (this._stream) {
+      // the compressed data is only complete once the converter
+      // stream is closed, which writes out the remaining data
+      if (this._compressedOutput) {
+        this._compressedOutput.close(null);
+      }
+
       const success = this._stream.close(null);
 
       if (!success) {
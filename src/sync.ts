@@ -0,0 +1,18 @@
+import { parseFsError } from "./parse-fs-error";
+
+/**
+ * Wraps the given function, so that any error thrown by it is
+ * converted into a FsError that carries the given function name.
+ */
+export const sync = <F extends (...args: any[]) => any>(
+  name: string,
+  fn: F,
+): F => {
+  return ((...args: any[]) => {
+    try {
+      return fn(...args);
+    } catch (err) {
+      throw parseFsError(name, err);
+    }
+  }) as F;
+};
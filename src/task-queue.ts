@@ -0,0 +1,53 @@
+/**
+ * Runs asynchronous tasks, making sure no more than the given number
+ * of them are running at the same time. Tasks that cannot start right
+ * away are queued and started in the order they were added.
+ *
+ * Tasks should not wait for other tasks added to the same queue, as
+ * that can lead to a deadlock once all the slots are taken.
+ */
+class TaskQueue {
+  private _running = 0;
+  private _waiting: Array<() => void> = [];
+
+  constructor(private concurrency: number) {}
+
+  private _acquire() {
+    if (this._running < this.concurrency) {
+      this._running++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) =>
+      this._waiting.push(resolve),
+    );
+  }
+
+  private _release() {
+    const next = this._waiting.shift();
+
+    if (next) {
+      // the slot is handed over to the next task directly
+      next();
+    } else {
+      this._running--;
+    }
+  }
+
+  /**
+   * Runs the given task as soon as there's a free slot.
+   *
+   * @returns A Promise that settles with the result of the task.
+   */
+  async run<T>(task: () => T | Promise<T>): Promise<T> {
+    await this._acquire();
+
+    try {
+      return await task();
+    } finally {
+      this._release();
+    }
+  }
+}
+
+export { TaskQueue };
@@ -0,0 +1,755 @@
+import GLib from "gi://GLib?version=2.0";
+import Gio from "gi://Gio?version=2.0";
+import { asyncDisposeSymbol, disposeSymbol } from "./disposable";
+import { FsError } from "./errors";
+import type { Fs } from "./fs";
+import { isGioIOError } from "./gio-error";
+import type { IOStream } from "./io-stream";
+import { OptionsResolver } from "./option-resolver";
+import { join } from "./path";
+import { promise } from "./promise";
+import { sync } from "./sync";
+import type { SyncFs } from "./sync-fs";
+import type { SyncIOStream } from "./sync-io-stream";
+import { OptValidators } from "./validators";
+
+interface SyncTempOptions {
+  /**
+   * Text to put at the beginning of the generated file name. Cannot
+   * contain any path separators.
+   *
+   * @default ""
+   */
+  prefix?: string;
+  /**
+   * Text to put at the end of the generated file name, for example a
+   * file extension. Cannot contain any path separators.
+   *
+   * @default ""
+   */
+  suffix?: string;
+  /**
+   * Directory in which the temporary file or directory should be
+   * created.
+   *
+   * @default The system's temporary directory (`GLib.get_tmp_dir()`)
+   */
+  dir?: string;
+  /**
+   * When enabled, the temporary file or directory will be removed
+   * when the default `Gio.Application` shuts down, or when
+   * `cleanupPendingTempFiles()` gets called, if it wasn't disposed of
+   * before that.
+   *
+   * GJS does not notify about the process exiting in any other way,
+   * so this option is rejected when there's no default
+   * `Gio.Application`.
+   *
+   * @default false
+   */
+  cleanupOnExit?: boolean;
+}
+
+interface TempOptions extends SyncTempOptions {
+  /**
+   * An instance of the AbortSignal class, aborting it will cancel the
+   * creation of the temporary file or directory.
+   */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Paths of all the temporary files and directories created with the
+ * `cleanupOnExit` option, that were not yet disposed of.
+ */
+const pendingCleanup = new Set<string>();
+/**
+ * The application the shutdown handler was connected to.
+ */
+let shutdownHandlerApp: Gio.Application | null = null;
+
+/**
+ * Number of random names to try, before giving up on creating a
+ * temporary file or directory within the `dir`.
+ */
+const MAX_ATTEMPTS = 100;
+
+let mkdirPath: string | null | undefined;
+
+/**
+ * Returns the absolute path of the `mkdir` command, it's looked up
+ * only once.
+ */
+const getMkdirPath = () => {
+  if (mkdirPath === undefined) {
+    mkdirPath = GLib.find_program_in_path("mkdir");
+  }
+
+  if (mkdirPath == null) {
+    throw new FsError("The 'mkdir' command could not be found.");
+  }
+
+  return mkdirPath;
+};
+
+/**
+ * Gio can only create directories with the default permissions, and
+ * restricting them afterwards would leave the directory accessible to
+ * others for a moment, so the `mkdir` command is used instead.
+ */
+const spawnMakeDirProcess = (path: string) => {
+  return Gio.Subprocess.new(
+    [getMkdirPath(), "-m", "700", "--", path],
+    Gio.SubprocessFlags.STDOUT_SILENCE |
+      Gio.SubprocessFlags.STDERR_PIPE,
+  );
+};
+
+/**
+ * Checks the result of the process spawned by the
+ * `spawnMakeDirProcess()`. Returns false if the path was already
+ * taken, and throws if the directory could not be created for any
+ * other reason.
+ */
+const checkMakeDirProcess = (
+  proc: Gio.Subprocess,
+  stderr: string | null,
+  path: string,
+) => {
+  if (proc.get_successful()) {
+    return true;
+  }
+
+  const fileType = Gio.File.new_for_path(path).query_file_type(
+    Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+    null,
+  );
+
+  if (fileType !== Gio.FileType.UNKNOWN) {
+    return false;
+  }
+
+  const reason = stderr?.trim();
+
+  throw new FsError(
+    `Failed to create directory: ${path}` +
+      (reason ? ` (${reason})` : ""),
+  );
+};
+
+const ensureNotExhausted = (attempt: number, dir: string) => {
+  if (attempt >= MAX_ATTEMPTS) {
+    throw new FsError(
+      `Failed to find an unused temporary name in: ${dir}`,
+    );
+  }
+};
+
+/**
+ * Removes the given file, or directory along with all of it's
+ * contents, without following symlinks.
+ */
+const deleteRecursively = (file: Gio.File) => {
+  const flags = Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS;
+  const type = file.query_file_type(flags, null);
+
+  if (type === Gio.FileType.UNKNOWN) {
+    return;
+  }
+
+  if (type === Gio.FileType.DIRECTORY) {
+    const enumerator = file.enumerate_children(
+      "standard::name",
+      flags,
+      null,
+    );
+
+    for (
+      let info = enumerator.next_file(null);
+      info;
+      info = enumerator.next_file(null)
+    ) {
+      deleteRecursively(enumerator.get_child(info));
+    }
+
+    enumerator.close(null);
+  }
+
+  file.delete(null);
+};
+
+/**
+ * Removes all the temporary files and directories created with the
+ * `cleanupOnExit` option, that were not yet disposed of. Meant to be
+ * called before the process exits, for example from a signal
+ * handler.
+ */
+const cleanupPendingTempFiles = () => {
+  for (const path of pendingCleanup) {
+    try {
+      deleteRecursively(Gio.File.new_for_path(path));
+    } catch {
+      // nothing can be done about it at this point
+    }
+  }
+
+  pendingCleanup.clear();
+};
+
+const installShutdownHandler = () => {
+  const app = Gio.Application.get_default();
+
+  if (!app) {
+    throw new FsError(
+      "The 'cleanupOnExit' option requires a default Gio.Application.",
+    );
+  }
+
+  if (app === shutdownHandlerApp) {
+    return;
+  }
+
+  shutdownHandlerApp = app;
+  app.connect("shutdown", () => {
+    cleanupPendingTempFiles();
+  });
+};
+
+const registerForCleanup = (path: string) => {
+  pendingCleanup.add(path);
+};
+
+const resolveTemplate = (
+  fs: Fs | SyncFs,
+  options: OptionsResolver<SyncTempOptions>,
+) => {
+  const prefix = options.get("prefix", "");
+  const suffix = options.get("suffix", "");
+  const dir = options.get("dir");
+  const cleanupOnExit = options.get("cleanupOnExit", false);
+
+  // rejected before anything gets created
+  if (cleanupOnExit) {
+    installShutdownHandler();
+  }
+
+  return {
+    /**
+     * Template accepted by the `GLib.file_open_tmp()` and
+     * `GLib.dir_make_tmp()` functions.
+     */
+    template: `${prefix}XXXXXX${suffix}`,
+    /**
+     * Absolute path of the `dir`, or `null` if it was not specified.
+     */
+    dirPath: dir == null ? null : fs.file(dir).get_path()!,
+    /**
+     * Returns the absolute path of a new random file within the given
+     * directory.
+     */
+    randomPath: (dirPath: string) =>
+      join(
+        dirPath,
+        `${prefix}${GLib.uuid_string_random()!.slice(0, 8)}${suffix}`,
+      ),
+    cleanupOnExit,
+  };
+};
+
+/**
+ * A handle of a temporary file. The file is removed once the handle
+ * gets disposed of, either by calling the `dispose()` method or via
+ * the `await using` declaration.
+ *
+ * @example
+ *   await using tmp = await Fs.makeTempFile({ suffix: ".txt" });
+ *
+ *   await tmp.stream.write(new TextEncoder().encode("Hello"));
+ */
+class TempFile {
+  static create(fs: Fs, options?: TempOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<TempFile>(
+      "makeTempFile",
+      opt.get("abortSignal"),
+      async (p) => {
+        const { template, dirPath, randomPath, cleanupOnExit } =
+          resolveTemplate(fs, opt);
+
+        if (dirPath == null) {
+          const [fd, nameUsed] = GLib.file_open_tmp(template);
+          GLib.close(fd);
+
+          const stream = await fs.openFileIOStream(nameUsed, "OPEN");
+
+          p.resolve(
+            new TempFile(fs, nameUsed, stream, cleanupOnExit),
+          );
+          return;
+        }
+
+        let path = randomPath(dirPath);
+
+        for (
+          let attempt = 1;
+          !(await TempFile.createFile(path, opt.get("abortSignal")));
+          attempt++
+        ) {
+          ensureNotExhausted(attempt, dirPath);
+          path = randomPath(dirPath);
+        }
+
+        p.breakpoint();
+
+        const stream = await fs.openFileIOStream(path, "OPEN");
+
+        p.resolve(new TempFile(fs, path, stream, cleanupOnExit));
+      },
+    );
+  }
+
+  /**
+   * Creates a new private file under the given path. Resolves with
+   * false if the path was already taken.
+   */
+  private static createFile(
+    path: string,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const file = Gio.File.new_for_path(path);
+
+    return promise<boolean>("makeTempFile", abortSignal, (p) => {
+      file.create_async(
+        Gio.FileCreateFlags.PRIVATE,
+        GLib.PRIORITY_DEFAULT,
+        p.cancellable,
+        p.asyncCallback((_, result: Gio.AsyncResult) => {
+          try {
+            file.create_finish(result).close(null);
+          } catch (err) {
+            if (isGioIOError(err, Gio.IOErrorEnum.EXISTS)) {
+              return p.resolve(false);
+            }
+
+            throw err;
+          }
+
+          p.resolve(true);
+        }),
+      );
+    });
+  }
+
+  private _isDisposed = false;
+
+  private constructor(
+    private _fs: Fs,
+    private _path: string,
+    private _stream: IOStream,
+    cleanupOnExit: boolean,
+  ) {
+    if (cleanupOnExit) {
+      registerForCleanup(_path);
+    }
+  }
+
+  /**
+   * Absolute path of the temporary file.
+   */
+  public get path() {
+    return this._path;
+  }
+
+  /**
+   * A stream opened for reading and writing to the temporary file.
+   */
+  public get stream() {
+    return this._stream;
+  }
+
+  public get isDisposed() {
+    return this._isDisposed;
+  }
+
+  /**
+   * Closes the stream and removes the temporary file. Calling this
+   * method more than once has no effect.
+   */
+  public async dispose() {
+    if (this._isDisposed) {
+      return;
+    }
+
+    this._isDisposed = true;
+    pendingCleanup.delete(this._path);
+
+    if (this._stream.state === "OPEN") {
+      await this._stream.close();
+    }
+
+    if (await this._fs.fileExists(this._path)) {
+      await this._fs.deleteFile(this._path, { recursive: true });
+    }
+  }
+
+  public [asyncDisposeSymbol]() {
+    return this.dispose();
+  }
+}
+
+/**
+ * A handle of a temporary directory. The directory, along with all of
+ * it's contents, is removed once the handle gets disposed of, either
+ * by calling the `dispose()` method or via the `await using`
+ * declaration.
+ *
+ * @example
+ *   await using tmp = await Fs.makeTempDir({ prefix: "build-" });
+ *
+ *   await Fs.writeTextFile(`${tmp.path}/out.txt`, "Hello");
+ */
+class TempDir {
+  static create(fs: Fs, options?: TempOptions) {
+    const opt = OptionsResolver(options, OptValidators);
+
+    return promise<TempDir>(
+      "makeTempDir",
+      opt.get("abortSignal"),
+      async (p) => {
+        const { template, dirPath, randomPath, cleanupOnExit } =
+          resolveTemplate(fs, opt);
+
+        if (dirPath == null) {
+          p.resolve(
+            new TempDir(
+              fs,
+              GLib.dir_make_tmp(template),
+              cleanupOnExit,
+            ),
+          );
+          return;
+        }
+
+        let path = randomPath(dirPath);
+
+        for (
+          let attempt = 1;
+          !(await TempDir.createDir(path, opt.get("abortSignal")));
+          attempt++
+        ) {
+          ensureNotExhausted(attempt, dirPath);
+          path = randomPath(dirPath);
+        }
+
+        p.breakpoint();
+
+        p.resolve(new TempDir(fs, path, cleanupOnExit));
+      },
+    );
+  }
+
+  /**
+   * Creates a new directory, accessible only to the current user,
+   * under the given path. Resolves with false if the path was already
+   * taken.
+   */
+  private static createDir(
+    path: string,
+    abortSignal: AbortSignal | undefined,
+  ) {
+    return promise<boolean>("makeTempDir", abortSignal, (p) => {
+      const proc = spawnMakeDirProcess(path);
+
+      proc.communicate_utf8_async(
+        null,
+        p.cancellable,
+        p.asyncCallback((_, result: Gio.AsyncResult) => {
+          const [, , stderr] = proc.communicate_utf8_finish(result);
+          p.resolve(checkMakeDirProcess(proc, stderr, path));
+        }),
+      );
+    });
+  }
+
+  private _isDisposed = false;
+
+  private constructor(
+    private _fs: Fs,
+    private _path: string,
+    cleanupOnExit: boolean,
+  ) {
+    if (cleanupOnExit) {
+      registerForCleanup(_path);
+    }
+  }
+
+  /**
+   * Absolute path of the temporary directory.
+   */
+  public get path() {
+    return this._path;
+  }
+
+  public get isDisposed() {
+    return this._isDisposed;
+  }
+
+  /**
+   * Removes the temporary directory and everything inside it. Calling
+   * this method more than once has no effect.
+   */
+  public async dispose() {
+    if (this._isDisposed) {
+      return;
+    }
+
+    this._isDisposed = true;
+    pendingCleanup.delete(this._path);
+
+    if (await this._fs.fileExists(this._path)) {
+      await this._fs.deleteFile(this._path, { recursive: true });
+    }
+  }
+
+  public [asyncDisposeSymbol]() {
+    return this.dispose();
+  }
+}
+
+/**
+ * A handle of a temporary file. The file is removed once the handle
+ * gets disposed of, either by calling the `dispose()` method or via
+ * the `using` declaration.
+ *
+ * @example
+ *   using tmp = SyncFs.makeTempFile({ suffix: ".txt" });
+ *
+ *   tmp.stream.write(new TextEncoder().encode("Hello"));
+ */
+class SyncTempFile {
+  static create(fs: SyncFs, options?: SyncTempOptions) {
+    return sync("makeTempFile", () => {
+      const opt = OptionsResolver(options, OptValidators);
+      const { template, dirPath, randomPath, cleanupOnExit } =
+        resolveTemplate(fs, opt);
+
+      if (dirPath == null) {
+        const [fd, nameUsed] = GLib.file_open_tmp(template);
+        GLib.close(fd);
+
+        return new SyncTempFile(
+          fs,
+          nameUsed,
+          fs.openFileIOStream(nameUsed, "OPEN"),
+          cleanupOnExit,
+        );
+      }
+
+      let path = randomPath(dirPath);
+
+      for (
+        let attempt = 1;
+        !SyncTempFile.createFile(path);
+        attempt++
+      ) {
+        ensureNotExhausted(attempt, dirPath);
+        path = randomPath(dirPath);
+      }
+
+      return new SyncTempFile(
+        fs,
+        path,
+        fs.openFileIOStream(path, "OPEN"),
+        cleanupOnExit,
+      );
+    })();
+  }
+
+  /**
+   * Creates a new private file under the given path. Returns false if
+   * the path was already taken.
+   */
+  private static createFile(path: string) {
+    try {
+      Gio.File.new_for_path(path)
+        .create(Gio.FileCreateFlags.PRIVATE, null)
+        .close(null);
+      return true;
+    } catch (err) {
+      if (isGioIOError(err, Gio.IOErrorEnum.EXISTS)) {
+        return false;
+      }
+
+      throw err;
+    }
+  }
+
+  private _isDisposed = false;
+
+  private constructor(
+    private _fs: SyncFs,
+    private _path: string,
+    private _stream: SyncIOStream,
+    cleanupOnExit: boolean,
+  ) {
+    if (cleanupOnExit) {
+      registerForCleanup(_path);
+    }
+
+    this.dispose = sync(
+      "SyncTempFile.dispose",
+      this.dispose.bind(this),
+    );
+  }
+
+  /**
+   * Absolute path of the temporary file.
+   */
+  public get path() {
+    return this._path;
+  }
+
+  /**
+   * A stream opened for reading and writing to the temporary file.
+   */
+  public get stream() {
+    return this._stream;
+  }
+
+  public get isDisposed() {
+    return this._isDisposed;
+  }
+
+  /**
+   * Closes the stream and removes the temporary file. Calling this
+   * method more than once has no effect.
+   */
+  public dispose() {
+    if (this._isDisposed) {
+      return;
+    }
+
+    this._isDisposed = true;
+    pendingCleanup.delete(this._path);
+
+    if (this._stream.state === "OPEN") {
+      this._stream.close();
+    }
+
+    if (this._fs.fileExists(this._path)) {
+      this._fs.deleteFile(this._path, { recursive: true });
+    }
+  }
+
+  public [disposeSymbol]() {
+    this.dispose();
+  }
+}
+
+/**
+ * A handle of a temporary directory. The directory, along with all of
+ * it's contents, is removed once the handle gets disposed of, either
+ * by calling the `dispose()` method or via the `using` declaration.
+ *
+ * @example
+ *   using tmp = SyncFs.makeTempDir({ prefix: "build-" });
+ *
+ *   SyncFs.writeTextFile(`${tmp.path}/out.txt`, "Hello");
+ */
+class SyncTempDir {
+  static create(fs: SyncFs, options?: SyncTempOptions) {
+    return sync("makeTempDir", () => {
+      const opt = OptionsResolver(options, OptValidators);
+      const { template, dirPath, randomPath, cleanupOnExit } =
+        resolveTemplate(fs, opt);
+
+      if (dirPath == null) {
+        return new SyncTempDir(
+          fs,
+          GLib.dir_make_tmp(template),
+          cleanupOnExit,
+        );
+      }
+
+      let path = randomPath(dirPath);
+
+      for (let attempt = 1; !SyncTempDir.createDir(path); attempt++) {
+        ensureNotExhausted(attempt, dirPath);
+        path = randomPath(dirPath);
+      }
+
+      return new SyncTempDir(fs, path, cleanupOnExit);
+    })();
+  }
+
+  /**
+   * Creates a new directory, accessible only to the current user,
+   * under the given path. Returns false if the path was already
+   * taken.
+   */
+  private static createDir(path: string) {
+    const proc = spawnMakeDirProcess(path);
+    const [, , stderr] = proc.communicate_utf8(null, null);
+
+    return checkMakeDirProcess(proc, stderr, path);
+  }
+
+  private _isDisposed = false;
+
+  private constructor(
+    private _fs: SyncFs,
+    private _path: string,
+    cleanupOnExit: boolean,
+  ) {
+    if (cleanupOnExit) {
+      registerForCleanup(_path);
+    }
+
+    this.dispose = sync(
+      "SyncTempDir.dispose",
+      this.dispose.bind(this),
+    );
+  }
+
+  /**
+   * Absolute path of the temporary directory.
+   */
+  public get path() {
+    return this._path;
+  }
+
+  public get isDisposed() {
+    return this._isDisposed;
+  }
+
+  /**
+   * Removes the temporary directory and everything inside it. Calling
+   * this method more than once has no effect.
+   */
+  public dispose() {
+    if (this._isDisposed) {
+      return;
+    }
+
+    this._isDisposed = true;
+    pendingCleanup.delete(this._path);
+
+    if (this._fs.fileExists(this._path)) {
+      this._fs.deleteFile(this._path, { recursive: true });
+    }
+  }
+
+  public [disposeSymbol]() {
+    this.dispose();
+  }
+}
+
+export {
+  cleanupPendingTempFiles,
+  SyncTempDir,
+  SyncTempFile,
+  TempDir,
+  TempFile,
+};
+export type { SyncTempOptions, TempOptions };
@@ -0,0 +1,224 @@
+import { createDecoder } from "./charset";
+import type { Encoding } from "./encoding";
+
+type Newline = "any" | "\n" | "\r\n" | "\r";
+
+/**
+ * Maximum number of trailing bytes of a chunk that can belong to an
+ * incomplete character, in any of the supported encodings.
+ */
+const MAX_INCOMPLETE_BYTES = 3;
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const result = new Uint8Array(a.byteLength + b.byteLength);
+  result.set(a, 0);
+  result.set(b, a.byteLength);
+  return result;
+};
+
+const escapeRegExp = (str: string) => {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+};
+
+/**
+ * Decodes text that's split into multiple chunks of bytes, without
+ * corrupting the multi-byte characters that are split between two
+ * chunks.
+ *
+ * GJS's TextDecoder does not support the `stream` option, so instead
+ * each chunk is first decoded in fatal mode, and if that fails, the
+ * last few bytes are held back until the next chunk arrives.
+ */
+class IncrementalDecoder {
+  private _fatalDecoder: Pick<TextDecoder, "decode">;
+  private _decoder: Pick<TextDecoder, "decode">;
+  private _pending: Uint8Array | null = null;
+  private _isFirst = true;
+
+  constructor(encoding: Encoding) {
+    this._fatalDecoder = createDecoder(encoding, {
+      fatal: true,
+      ignoreBOM: true,
+    });
+    this._decoder = createDecoder(encoding, { ignoreBOM: true });
+  }
+
+  /**
+   * Whether some of the decoded bytes were held back, as they might
+   * be the beginning of a character that's not complete yet.
+   */
+  get hasPending() {
+    return this._pending !== null;
+  }
+
+  private _stripBOM(text: string) {
+    if (this._isFirst && text.length > 0) {
+      this._isFirst = false;
+
+      if (text.charCodeAt(0) === 0xfeff) {
+        return text.slice(1);
+      }
+    }
+
+    return text;
+  }
+
+  decode(chunk: Uint8Array) {
+    const bytes = this._pending
+      ? concatBytes(this._pending, chunk)
+      : chunk;
+
+    for (
+      let held = 0;
+      held <= MAX_INCOMPLETE_BYTES && held <= bytes.byteLength;
+      held++
+    ) {
+      try {
+        const text = this._fatalDecoder.decode(
+          bytes.subarray(0, bytes.byteLength - held),
+        );
+        this._pending =
+          held > 0 ? bytes.slice(bytes.byteLength - held) : null;
+        return this._stripBOM(text);
+      } catch {
+        // the chunk either ends with an incomplete character or
+        // contains invalid bytes, try again with less bytes
+      }
+    }
+
+    // chunk contains invalid bytes, decode it with replacement chars,
+    // but still hold back the character that might be incomplete
+    const held = this._countIncompleteBytes(bytes);
+    this._pending =
+      held > 0 ? bytes.slice(bytes.byteLength - held) : null;
+    return this._stripBOM(
+      this._decoder.decode(
+        bytes.subarray(0, bytes.byteLength - held),
+      ),
+    );
+  }
+
+  /**
+   * Returns the number of trailing bytes that are decoded as a single
+   * replacement character, without affecting how the bytes before
+   * them are decoded, which is the case for an incomplete character.
+   *
+   * An invalid byte can be counted in as well, but holding it back is
+   * harmless, as it's replaced once decoded with the next chunk.
+   */
+  private _countIncompleteBytes(bytes: Uint8Array) {
+    const text = this._decoder.decode(bytes);
+
+    if (!text.endsWith("\uFFFD")) {
+      return 0;
+    }
+
+    for (
+      let held = 1;
+      held <= MAX_INCOMPLETE_BYTES && held <= bytes.byteLength;
+      held++
+    ) {
+      const head = this._decoder.decode(
+        bytes.subarray(0, bytes.byteLength - held),
+      );
+
+      if (head + "\uFFFD" === text) {
+        return held;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Decodes any bytes that were held back. Should be called once
+   * there are no more chunks to decode.
+   */
+  flush() {
+    if (!this._pending) {
+      return "";
+    }
+
+    const text = this._decoder.decode(this._pending);
+    this._pending = null;
+    return this._stripBOM(text);
+  }
+}
+
+/**
+ * Splits text, that's given in multiple parts, into lines.
+ */
+class LineSplitter {
+  private _buffer = "";
+  private _pattern: RegExp;
+
+  constructor(
+    private newline: Newline,
+    private keepEnds: boolean,
+  ) {
+    this._pattern =
+      newline === "any"
+        ? /\r\n|\r|\n/g
+        : new RegExp(escapeRegExp(newline), "g");
+  }
+
+  private _split(isFinal: boolean) {
+    const buffer = this._buffer;
+    const lines: string[] = [];
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    this._pattern.lastIndex = 0;
+
+    while ((match = this._pattern.exec(buffer))) {
+      const end = match.index + match[0].length;
+
+      // a `\r` at the end of the buffer might be followed by a `\n`
+      // in the next part
+      if (
+        !isFinal &&
+        this.newline === "any" &&
+        match[0] === "\r" &&
+        end === buffer.length
+      ) {
+        break;
+      }
+
+      lines.push(
+        buffer.slice(start, this.keepEnds ? end : match.index),
+      );
+      start = end;
+    }
+
+    this._buffer = buffer.slice(start);
+
+    return lines;
+  }
+
+  /**
+   * Adds the given text to the buffer and returns all the lines that
+   * were completed by it.
+   */
+  push(text: string) {
+    this._buffer += text;
+    return this._split(false);
+  }
+
+  /**
+   * Returns all the remaining lines, including the last one, that's
+   * not terminated by a newline.
+   */
+  flush() {
+    const lines = this._split(true);
+
+    if (this._buffer.length > 0) {
+      lines.push(this._buffer);
+      this._buffer = "";
+    }
+
+    return lines;
+  }
+}
+
+export { IncrementalDecoder, LineSplitter };
+export type { Newline };
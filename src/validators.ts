@@ -57,6 +57,22 @@ const validateFollowSymlinks = (v: any) => {
   validateType(v, "followSymlinks", "boolean");
 };
 
+const validateAtomic = (v: any) => {
+  validateType(v, "atomic", "boolean");
+};
+
+const validateDurable = (v: any) => {
+  validateType(v, "durable", "boolean");
+};
+
+const validateCheckFreeSpace = (v: any) => {
+  validateType(v, "checkFreeSpace", "boolean");
+};
+
+const validateCopyXattrs = (v: any) => {
+  validateType(v, "copyXattrs", "boolean");
+};
+
 const validateMakeBackup = (v: any) => {
   validateType(v, "makeBackup", "boolean");
 };
@@ -73,6 +89,22 @@ const validateRecursive = (v: any) => {
   validateType(v, "recursive", "boolean");
 };
 
+const validateRelative = (v: any) => {
+  validateType(v, "relative", "boolean");
+};
+
+const validateMode = (v: any) => {
+  if (
+    typeof v !== "number" &&
+    typeof v !== "string" &&
+    typeof v !== "object"
+  ) {
+    throw new InvalidOptionError("mode", "FilePermission");
+  }
+
+  validatePermissions(v);
+};
+
 const validateEncoding = (v: any) => {
   validateType(v, "encoding", "string");
 
@@ -93,6 +125,297 @@ const validateTrash = (v: any) => {
   validateType(v, "trash", "boolean");
 };
 
+const validateFilter = (v: any) => {
+  validateType(v, "filter", "function");
+};
+
+const DIR_CONFLICT_POLICIES = new Set(["merge", "replace"]);
+
+const validateDirConflictPolicy = (v: any) => {
+  validateType(v, "dirConflictPolicy", "string");
+
+  if (!DIR_CONFLICT_POLICIES.has(v)) {
+    throw new InvalidOptionError(
+      "dirConflictPolicy",
+      '"merge" | "replace"',
+    );
+  }
+};
+
+const validateMaxDepth = (v: any) => {
+  validateType(v, "maxDepth", "number");
+
+  if (v !== Infinity && (v <= 0 || !Number.isInteger(v))) {
+    throw new InvalidOptionError("maxDepth", "positive integer");
+  }
+};
+
+const WALK_ORDERS = new Set(["pre", "post"]);
+
+const HASH_ALGORITHMS = new Set([
+  "md5",
+  "sha1",
+  "sha256",
+  "sha384",
+  "sha512",
+]);
+
+const validateAlgorithm = (v: any) => {
+  validateType(v, "algorithm", "string");
+
+  if (!HASH_ALGORITHMS.has(v)) {
+    throw new InvalidOptionError(
+      "algorithm",
+      '"md5" | "sha1" | "sha256" | "sha384" | "sha512"',
+    );
+  }
+};
+
+const COMPARE_BY_MODES = new Set(["metadata", "hash", "content"]);
+
+const validateCompareBy = (v: any) => {
+  validateType(v, "compareBy", "string");
+
+  if (!COMPARE_BY_MODES.has(v)) {
+    throw new InvalidOptionError(
+      "compareBy",
+      '"metadata" | "hash" | "content"',
+    );
+  }
+};
+
+const COMPRESSION_FORMATS = new Set(["gzip", "zlib", "deflate"]);
+
+const checkCompressionFormat = (v: any, name: string) => {
+  validateType(v, name, "string");
+
+  if (!COMPRESSION_FORMATS.has(v)) {
+    throw new InvalidOptionError(name, '"gzip" | "zlib" | "deflate"');
+  }
+};
+
+const checkCompressionLevel = (v: any, name: string) => {
+  validateType(v, name, "number");
+
+  if (!Number.isInteger(v) || v < -1 || v > 9) {
+    throw new InvalidOptionError(name, "integer between -1 and 9");
+  }
+};
+
+const validateCompression = (v: any) => {
+  checkCompressionFormat(v, "compression");
+};
+
+const validateCompressionLevel = (v: any) => {
+  checkCompressionLevel(v, "compressionLevel");
+};
+
+const validateFormat = (v: any) => {
+  checkCompressionFormat(v, "format");
+};
+
+const validateLevel = (v: any) => {
+  checkCompressionLevel(v, "level");
+};
+
+const validateDeleteExtraneous = (v: any) => {
+  validateType(v, "deleteExtraneous", "boolean");
+};
+
+const validateDryRun = (v: any) => {
+  validateType(v, "dryRun", "boolean");
+};
+
+const validateExclude = (v: any) => {
+  if (typeof v === "string") {
+    return;
+  }
+
+  if (!Array.isArray(v)) {
+    throw new InvalidOptionError("exclude", "string | string[]");
+  }
+
+  for (let i = 0; i < v.length; i++) {
+    validateType(v[i], `exclude[${i}]`, "string");
+  }
+};
+
+const DIGEST_ENCODINGS = new Set(["hex", "base64", "bytes"]);
+
+const validateDigestEncoding = (v: any) => {
+  validateType(v, "encoding", "string");
+
+  if (!DIGEST_ENCODINGS.has(v)) {
+    throw new InvalidOptionError(
+      "encoding",
+      '"hex" | "base64" | "bytes"',
+    );
+  }
+};
+
+const validateOrder = (v: any) => {
+  validateType(v, "order", "string");
+
+  if (!WALK_ORDERS.has(v)) {
+    throw new InvalidOptionError("order", '"pre" | "post"');
+  }
+};
+
+const validateRoot = (v: any) => {
+  validateType(v, "root", "string");
+};
+
+const validateDot = (v: any) => {
+  validateType(v, "dot", "boolean");
+};
+
+const validateWithFileInfo = (v: any) => {
+  validateType(v, "withFileInfo", "boolean");
+};
+
+const validateDebounce = (v: any) => {
+  validateType(v, "debounce", "number");
+
+  if (v < 0) {
+    throw new InvalidOptionError("debounce", "non-negative number");
+  }
+};
+
+const validateChunkSize = (v: any) => {
+  validateType(v, "chunkSize", "number");
+
+  if (v <= 0 || !Number.isInteger(v)) {
+    throw new InvalidOptionError("chunkSize", "positive integer");
+  }
+};
+
+const validateStart = (v: any) => {
+  validateType(v, "start", "number");
+
+  if (v < 0 || !Number.isInteger(v)) {
+    throw new InvalidOptionError("start", "non-negative integer");
+  }
+};
+
+const validateEnd = (v: any) => {
+  validateType(v, "end", "number");
+
+  if (v !== Infinity && (v < 0 || !Number.isInteger(v))) {
+    throw new InvalidOptionError("end", "non-negative integer");
+  }
+};
+
+const NEWLINES = new Set(["any", "\n", "\r\n", "\r"]);
+
+const validateNewline = (v: any) => {
+  validateType(v, "newline", "string");
+
+  if (!NEWLINES.has(v)) {
+    throw new InvalidOptionError(
+      "newline",
+      '"any" | "\\n" | "\\r\\n" | "\\r"',
+    );
+  }
+};
+
+const validateKeepEnds = (v: any) => {
+  validateType(v, "keepEnds", "boolean");
+};
+
+const validateReviver = (v: any) => {
+  validateType(v, "reviver", "function");
+};
+
+const validateReplacer = (v: any) => {
+  validateType(v, "replacer", "function");
+};
+
+const validateValidate = (v: any) => {
+  validateType(v, "validate", "function");
+};
+
+const validateJsonc = (v: any) => {
+  validateType(v, "jsonc", "boolean");
+};
+
+const validateIndent = (v: any) => {
+  if (typeof v !== "number" && typeof v !== "string") {
+    throw new InvalidOptionError("indent", "number | string");
+  }
+};
+
+const validateFileNameAffix = (name: string) => (v: any) => {
+  validateType(v, name, "string");
+
+  if (v.includes("/")) {
+    throw new InvalidOptionError(
+      name,
+      "string without path separators",
+    );
+  }
+};
+
+const validatePrefix = validateFileNameAffix("prefix");
+
+const validateSuffix = validateFileNameAffix("suffix");
+
+const validateDir = (v: any) => {
+  validateType(v, "dir", "string");
+};
+
+const validateCleanupOnExit = (v: any) => {
+  validateType(v, "cleanupOnExit", "boolean");
+};
+
+const validateExclusive = (v: any) => {
+  validateType(v, "exclusive", "boolean");
+};
+
+const validateShared = (v: any) => {
+  validateType(v, "shared", "boolean");
+};
+
+const validateTimeout = (v: any) => {
+  validateType(v, "timeout", "number");
+
+  if (v < 0) {
+    throw new InvalidOptionError("timeout", "non-negative number");
+  }
+};
+
+const validateStaleAfter = (v: any) => {
+  validateType(v, "staleAfter", "number");
+
+  if (v <= 0) {
+    throw new InvalidOptionError("staleAfter", "positive number");
+  }
+};
+
+const validateLock = (v: any) => {
+  if (
+    typeof v !== "boolean" &&
+    (typeof v !== "object" || v === null)
+  ) {
+    throw new InvalidOptionError("lock", "boolean | LockOptions");
+  }
+};
+
+const validateDepth = (v: any) => {
+  validateType(v, "depth", "number");
+
+  if (v !== Infinity && (v < 0 || !Number.isInteger(v))) {
+    throw new InvalidOptionError("depth", "non-negative integer");
+  }
+};
+
+const validateConcurrency = (v: any) => {
+  validateType(v, "concurrency", "number");
+
+  if (v <= 0 || !Number.isInteger(v)) {
+    throw new InvalidOptionError("concurrency", "positive integer");
+  }
+};
+
 const validateBatchSize = (v: any) => {
   validateType(v, "batchSize", "number");
 
@@ -119,6 +442,10 @@ const validateTargetDefaultPermissions = (v: any) => {
   validateType(v, "targetDefaultPermissions", "boolean");
 };
 
+const validatePreserveOwnership = (v: any) => {
+  validateType(v, "preserveOwnership", "boolean");
+};
+
 const validatePrivate = (v: any) => {
   validateType(v, "private", "boolean");
 };
@@ -129,22 +456,76 @@ const validateReplace = (v: any) => {
 
 export const OptValidators = new Map([
   ["abortSignal", validateAbortSignal],
+  ["algorithm", validateAlgorithm],
   ["allMetadata", validateAllMetadata],
+  ["atomic", validateAtomic],
   ["attributes", validateAttributes],
   ["batchSize", validateBatchSize],
+  ["checkFreeSpace", validateCheckFreeSpace],
+  ["chunkSize", validateChunkSize],
+  ["cleanupOnExit", validateCleanupOnExit],
+  ["compareBy", validateCompareBy],
+  ["compression", validateCompression],
+  ["compressionLevel", validateCompressionLevel],
+  ["concurrency", validateConcurrency],
+  ["copyXattrs", validateCopyXattrs],
+  ["debounce", validateDebounce],
+  ["deleteExtraneous", validateDeleteExtraneous],
+  ["depth", validateDepth],
+  ["dir", validateDir],
+  ["dirConflictPolicy", validateDirConflictPolicy],
+  ["dot", validateDot],
+  ["dryRun", validateDryRun],
+  ["durable", validateDurable],
   ["encoding", validateEncoding],
+  ["end", validateEnd],
   ["etag", validateEtag],
+  ["exclude", validateExclude],
+  ["exclusive", validateExclusive],
+  ["filter", validateFilter],
   ["followSymlinks", validateFollowSymlinks],
+  ["format", validateFormat],
+  ["indent", validateIndent],
   ["ioPriority", validateIoPriority],
+  ["jsonc", validateJsonc],
+  ["keepEnds", validateKeepEnds],
+  ["level", validateLevel],
+  ["lock", validateLock],
   ["makeBackup", validateMakeBackup],
+  ["maxDepth", validateMaxDepth],
+  ["mode", validateMode],
+  ["newline", validateNewline],
   ["noFallbackForMove", validateNoFallbackForMove],
   ["onProgress", validateOnProgress],
+  ["order", validateOrder],
   ["overwrite", validateOverwrite],
+  ["prefix", validatePrefix],
+  ["preserveOwnership", validatePreserveOwnership],
   ["private", validatePrivate],
   ["recursive", validateRecursive],
+  ["relative", validateRelative],
   ["replace", validateReplace],
+  ["replacer", validateReplacer],
+  ["reviver", validateReviver],
+  ["root", validateRoot],
+  ["shared", validateShared],
+  ["staleAfter", validateStaleAfter],
+  ["start", validateStart],
+  ["suffix", validateSuffix],
   ["targetDefaultPermissions", validateTargetDefaultPermissions],
+  ["timeout", validateTimeout],
   ["trash", validateTrash],
+  ["validate", validateValidate],
+  ["withFileInfo", validateWithFileInfo],
+]);
+
+/**
+ * Validators for the hashing methods, in which the `encoding` option
+ * refers to the digest format rather than to a text encoding.
+ */
+export const HashOptValidators = new Map([
+  ...OptValidators,
+  ["encoding", validateDigestEncoding],
 ]);
 
 // #endregion
@@ -0,0 +1,154 @@
+import Gio from "gi://Gio?version=2.0";
+import { FsError } from "./errors";
+
+/**
+ * Gio exposes the `user.*` extended attributes under the `xattr`
+ * namespace (with the `user.` prefix removed) and all the other ones
+ * under the `xattr-sys` namespace.
+ */
+const USER_PREFIX = "user.";
+const XATTR_NAMESPACE = "xattr";
+const XATTR_SYS_NAMESPACE = "xattr-sys";
+
+/**
+ * Attributes that need to be queried to list all the extended
+ * attributes of a file.
+ */
+export const XATTR_ATTRIBUTES = `${XATTR_NAMESPACE}::*,${XATTR_SYS_NAMESPACE}::*`;
+
+/**
+ * Attributes that need to be queried to get only the `user.*`
+ * extended attributes of a file.
+ */
+export const USER_XATTR_ATTRIBUTES = `${XATTR_NAMESPACE}::*`;
+
+const isPrintable = (byte: number) =>
+  byte >= 0x20 && byte <= 0x7e && byte !== 0x5c; /* backslash */
+
+/**
+ * Escapes the given bytes the same way Gio does for the xattr names
+ * and values, non-printable bytes (and backslashes) are replaced with
+ * a `\xNN` sequence.
+ */
+const escapeXattr = (bytes: Uint8Array) => {
+  let result = "";
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i]!;
+
+    if (isPrintable(byte)) {
+      result += String.fromCharCode(byte);
+    } else {
+      result += "\\x" + byte.toString(16).padStart(2, "0");
+    }
+  }
+
+  return result;
+};
+
+const HEX_ESCAPE = /^\\x[0-9a-fA-F]{2}/;
+
+/**
+ * Reverses the escaping done by Gio (or the `escapeXattr()`).
+ */
+const unescapeXattr = (escaped: string) => {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < escaped.length; i++) {
+    if (
+      escaped[i] === "\\" &&
+      HEX_ESCAPE.test(escaped.slice(i, i + 4))
+    ) {
+      bytes.push(parseInt(escaped.slice(i + 2, i + 4), 16));
+      i += 3;
+    } else {
+      bytes.push(escaped.charCodeAt(i));
+    }
+  }
+
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Converts the name of an extended attribute (e.g. `user.tags`) into
+ * the corresponding Gio attribute key (e.g. `xattr::tags`).
+ */
+export const getXattrAttribute = (name: string) => {
+  if (
+    typeof name !== "string" ||
+    name.indexOf(".") <= 0 ||
+    name.endsWith(".")
+  ) {
+    throw new FsError(
+      `Invalid extended attribute name: '${name}'. Expected a name with a namespace prefix, e.g. 'user.tags'.`,
+    );
+  }
+
+  const encoded = escapeXattr(new TextEncoder().encode(name));
+
+  if (name.startsWith(USER_PREFIX)) {
+    return `${XATTR_NAMESPACE}::${encoded.slice(USER_PREFIX.length)}`;
+  }
+
+  return `${XATTR_SYS_NAMESPACE}::${encoded}`;
+};
+
+/**
+ * Returns the names of all the extended attributes present on the
+ * given Gio.FileInfo.
+ */
+export const listXattrNames = (info: Gio.FileInfo) => {
+  const decoder = new TextDecoder();
+  const names: string[] = [];
+
+  for (const namespace of [XATTR_NAMESPACE, XATTR_SYS_NAMESPACE]) {
+    const prefix = namespace === XATTR_NAMESPACE ? USER_PREFIX : "";
+    const attributes = info.list_attributes(namespace) ?? [];
+
+    for (const attribute of attributes) {
+      const name = attribute.slice(namespace.length + 2);
+      names.push(prefix + decoder.decode(unescapeXattr(name)));
+    }
+  }
+
+  return names;
+};
+
+/**
+ * Reads the value of the given xattr attribute key from the
+ * Gio.FileInfo. Returns `null` if the attribute is not set.
+ */
+export const readXattrValue = (
+  info: Gio.FileInfo,
+  attribute: string,
+) => {
+  if (!info.has_attribute(attribute)) {
+    return null;
+  }
+
+  return unescapeXattr(info.get_attribute_string(attribute) ?? "");
+};
+
+/**
+ * Creates a Gio.FileInfo that sets the given extended attribute to
+ * the given value once passed to `set_attributes()`, or removes it if
+ * the value is `null`.
+ */
+export const createXattrInfo = (
+  attribute: string,
+  value: Uint8Array | null,
+) => {
+  const info = Gio.FileInfo.new();
+
+  if (value === null) {
+    info.set_attribute(
+      attribute,
+      Gio.FileAttributeType.INVALID,
+      null,
+    );
+  } else {
+    info.set_attribute_string(attribute, escapeXattr(value));
+  }
+
+  return info;
+};